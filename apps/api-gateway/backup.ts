@@ -3,6 +3,7 @@ import path from 'path';
 import { db } from './db';
 import * as schema from '../shared/schema';
 import { logger } from './logger';
+import { webhookService } from './services/webhookService';
 
 interface BackupMetadata {
   version: string;
@@ -104,6 +105,14 @@ class BackupManager {
         size: backupData.metadata.size
       });
 
+      await webhookService.emit('backup.completed', {
+        fileName,
+        description: description ?? null,
+        tables: backupData.metadata.tables,
+        size: backupData.metadata.size,
+        createdAt: backupData.metadata.timestamp
+      });
+
       return fileName;
     } catch (error) {
       logger.error('Database backup failed', { error: error.message });
@@ -255,6 +255,11 @@ export function cacheMiddleware(ttlSeconds: number = 300) {
       return next();
     }
 
+    // Draft previews must never be served to, or from, the shared cache
+    if (req.query.preview !== undefined) {
+      return next();
+    }
+
     // Skip caching if cache-bypass header is present
     if (req.headers['x-cache-bypass']) {
       logger.debug('Cache bypassed by header', { path: req.path });
@@ -5,6 +5,8 @@ interface CacheSyncOptions {
   invalidatePortfolio?: boolean;
   invalidateContent?: boolean;
   invalidateSpecific?: string[];
+  // sitemap.xml, robots.txt and the meta tags written into index.html
+  invalidateSeo?: boolean;
   broadcastUpdate?: boolean;
 }
 
@@ -44,6 +46,13 @@ class CacheSynchronizer {
       patterns.push('route:/core-values');
     }
 
+    // The sitemap lists published case studies, so portfolio changes reach it too
+    if (options.invalidateSeo || options.invalidatePortfolio) {
+      patterns.push('route:/sitemap.xml');
+      patterns.push('route:/robots.txt');
+      patterns.push('route:/page-meta');
+    }
+
     if (options.invalidateContent) {
       patterns.push('route:/api/portfolio/content');
       patterns.push('route:/content/hero');
@@ -1,11 +1,14 @@
 import fs from 'fs/promises';
 import path from 'path';
-import { PortfolioContent, ContentSectionType } from "../shared/contentSchema";
+import { isContentSectionType, type PortfolioContent, type ContentSectionType } from "../shared/contentSchema";
 
-const CONTENT_FILE_PATH = path.join(process.cwd(), 'data', 'portfolio-content.json');
+export const CONTENT_FILE_PATH = path.join(process.cwd(), 'data', 'portfolio-content.json');
 
-// Default portfolio content based on current website
-const defaultPortfolioContent: PortfolioContent = {
+// Bumped when the layout of the file changes
+const CONTENT_FILE_FORMAT_VERSION = 1;
+
+// Seed content for a database that has neither sections nor a content file
+export const defaultPortfolioContent: PortfolioContent = {
   hero: {
     headline: "Product Visionary",
     subheadline: "& Strategic AI Leader", 
@@ -235,79 +238,42 @@ const defaultPortfolioContent: PortfolioContent = {
   version: 1
 };
 
-class ContentManager {
-  private static instance: ContentManager;
-  private contentCache: PortfolioContent | null = null;
-
-  private constructor() {}
-
-  static getInstance(): ContentManager {
-    if (!ContentManager.instance) {
-      ContentManager.instance = new ContentManager();
-    }
-    return ContentManager.instance;
-  }
-
-  async ensureDataDirectory(): Promise<void> {
-    const dataDir = path.dirname(CONTENT_FILE_PATH);
-    try {
-      await fs.access(dataDir);
-    } catch {
-      await fs.mkdir(dataDir, { recursive: true });
-    }
-  }
+export type ContentFileSections = Partial<Record<ContentSectionType, unknown>>;
 
-  async loadContent(): Promise<PortfolioContent> {
-    if (this.contentCache) {
-      return this.contentCache;
+/**
+ * The portfolio content JSON file. The content_sections table is the only
+ * live store; this format exists to seed it, to move content between
+ * environments and as a readable backup. Nothing reads it while serving.
+ */
+class ContentFile {
+  // Keeps the known sections of a content document and drops the rest
+  parse(document: unknown): ContentFileSections {
+    if (!document || typeof document !== 'object' || Array.isArray(document)) {
+      throw new Error("A content file must be a JSON object keyed by section");
     }
 
-    try {
-      await this.ensureDataDirectory();
-      const fileContent = await fs.readFile(CONTENT_FILE_PATH, 'utf-8');
-      this.contentCache = JSON.parse(fileContent);
-      return this.contentCache!;
-    } catch (error) {
-      // If file doesn't exist or is invalid, create with default content
-      await this.saveContent(defaultPortfolioContent);
-      this.contentCache = defaultPortfolioContent;
-      return defaultPortfolioContent;
+    const sections: ContentFileSections = {};
+    for (const [key, value] of Object.entries(document)) {
+      if (isContentSectionType(key) && value !== null && value !== undefined) {
+        sections[key] = value;
+      }
     }
+    return sections;
   }
 
-  async saveContent(content: PortfolioContent): Promise<void> {
-    await this.ensureDataDirectory();
-    content.lastUpdated = new Date().toISOString();
-    content.version = (content.version || 0) + 1;
-    
-    await fs.writeFile(CONTENT_FILE_PATH, JSON.stringify(content, null, 2));
-    this.contentCache = content;
+  async read(filePath: string = CONTENT_FILE_PATH): Promise<ContentFileSections> {
+    const text = await fs.readFile(filePath, 'utf-8');
+    return this.parse(JSON.parse(text));
   }
 
-  async updateSection(sectionType: ContentSectionType, sectionContent: any): Promise<PortfolioContent> {
-    const currentContent = await this.loadContent();
-    const updatedContent = {
-      ...currentContent,
-      [sectionType]: sectionContent
+  // Same layout the file has always had, so exports can be imported again
+  build(sections: ContentFileSections): Record<string, unknown> {
+    return {
+      ...sections,
+      lastUpdated: new Date().toISOString(),
+      version: CONTENT_FILE_FORMAT_VERSION,
     };
-    
-    await this.saveContent(updatedContent);
-    return updatedContent;
-  }
-
-  async getSection(sectionType: ContentSectionType): Promise<any> {
-    const content = await this.loadContent();
-    return content[sectionType];
-  }
-
-  async getAllSections(): Promise<PortfolioContent> {
-    return await this.loadContent();
-  }
-
-  // Clear cache when content is updated externally
-  clearCache(): void {
-    this.contentCache = null;
   }
 }
 
-export const contentManager = ContentManager.getInstance();
\ No newline at end of file
+export const contentFile = new ContentFile();
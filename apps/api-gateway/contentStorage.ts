@@ -1,9 +1,16 @@
 import { db } from "./db";
-import { contentSections, contentVersions } from "../shared/schema";
-import { eq } from "drizzle-orm";
+import {
+  contentSections,
+  contentVersions,
+  type ContentSection,
+  type ContentVersion,
+  type PublishSchedule,
+} from "../shared/schema";
+import { and, desc, eq, isNotNull, lt, lte, or, sql, type SQL } from "drizzle-orm";
 import { cache } from "./cache";
+import { contentSectionRegistry, isContentSectionType } from "../shared/contentSchema";
 
-interface ContentData {
+export interface ContentData {
   // Basic content fields
   title?: string;
   summary?: string;
@@ -58,7 +65,47 @@ interface ContentData {
   };
 }
 
-class DatabaseContentManager {
+export interface SaveContentOptions {
+  changeSummary?: string;
+  createdBy?: string | null;
+  // Only save while the section is still at this version
+  expectedVersion?: number;
+}
+
+/**
+ * The single store for portfolio content sections and their versions. Every
+ * content route and service goes through it; the JSON content file is only
+ * an import/export format (contentFile.ts).
+ */
+export interface IContentStore {
+  // Live copies, as served to visitors
+  getContent(sectionId: string): Promise<any | null>;
+  getAllContent(): Promise<Record<string, ContentData>>;
+
+  // Whole rows, drafts included
+  getSection(sectionId: string): Promise<ContentSection | undefined>;
+  listSections(): Promise<ContentSection[]>;
+
+  // Undefined when options.expectedVersion is stale
+  saveDraft(sectionId: string, content: any, options?: SaveContentOptions): Promise<ContentVersion | undefined>;
+  publish(sectionId: string): Promise<ContentSection | undefined>;
+  discardDraft(sectionId: string): Promise<boolean>;
+  importContent(sectionId: string, content: any): Promise<void>;
+
+  // Scheduled publishing
+  setSchedule(sectionId: string, schedule: PublishSchedule): Promise<ContentSection | undefined>;
+  getScheduledSections(): Promise<ContentSection[]>;
+  publishDue(now: Date): Promise<ContentSection[]>;
+  revertDue(now: Date): Promise<{ reverted: ContentSection[]; skipped: ContentSection[] }>;
+  getRevertTarget(sectionId: string): Promise<ContentVersion | undefined>;
+
+  // Version history, newest first
+  getVersions(sectionId: string): Promise<ContentVersion[]>;
+  getVersion(sectionId: string, version: number): Promise<ContentVersion | undefined>;
+  getVersionById(id: number): Promise<ContentVersion | undefined>;
+}
+
+class DatabaseContentManager implements IContentStore {
   private static instance: DatabaseContentManager;
 
   private constructor() {}
@@ -70,6 +117,7 @@ class DatabaseContentManager {
     return DatabaseContentManager.instance;
   }
 
+  // Published content only; drafts are never served from here
   async getContent(sectionId: string): Promise<any | null> {
     try {
       const cacheKey = `content:${sectionId}`;
@@ -79,7 +127,7 @@ class DatabaseContentManager {
       const result = await db
         .select()
         .from(contentSections)
-        .where(eq(contentSections.id, sectionId))
+        .where(and(eq(contentSections.id, sectionId), eq(contentSections.status, "published")))
         .limit(1);
 
       if (result.length === 0) {
@@ -95,51 +143,294 @@ class DatabaseContentManager {
     }
   }
 
-  async saveContent(sectionId: string, content: any): Promise<void> {
+  // The whole row, draft included, for the admin editors
+  async getSection(sectionId: string): Promise<ContentSection | undefined> {
+    const [section] = await db
+      .select()
+      .from(contentSections)
+      .where(eq(contentSections.id, sectionId))
+      .limit(1);
+    return section;
+  }
+
+  async listSections(): Promise<ContentSection[]> {
+    return db.select().from(contentSections).orderBy(contentSections.id);
+  }
+
+  async getVersions(sectionId: string): Promise<ContentVersion[]> {
+    return db
+      .select()
+      .from(contentVersions)
+      .where(eq(contentVersions.sectionId, sectionId))
+      .orderBy(desc(contentVersions.version), desc(contentVersions.id));
+  }
+
+  async getVersion(sectionId: string, version: number): Promise<ContentVersion | undefined> {
+    const [found] = await db
+      .select()
+      .from(contentVersions)
+      .where(and(eq(contentVersions.sectionId, sectionId), eq(contentVersions.version, version)))
+      .orderBy(desc(contentVersions.id))
+      .limit(1);
+    return found;
+  }
+
+  async getVersionById(id: number): Promise<ContentVersion | undefined> {
+    const [found] = await db.select().from(contentVersions).where(eq(contentVersions.id, id));
+    return found;
+  }
+
+  /**
+   * Saves an edit into the section's draft and records it in content_versions.
+   * The version number comes from an atomic increment of the section's
+   * counter, so concurrent saves still get distinct, increasing numbers.
+   * Visitors keep seeing the live copy until the draft is published.
+   */
+  async saveDraft(
+    sectionId: string,
+    content: any,
+    options: SaveContentOptions = {}
+  ): Promise<ContentVersion | undefined> {
     try {
       // Sanitize content to remove any React component metadata
       const sanitizedContent = this.sanitizeContent(content);
+      const now = new Date();
+      const draftUpdatedBy = options.createdBy ?? "admin";
 
-      const existing = await db
-        .select()
-        .from(contentSections)
-        .where(eq(contentSections.id, sectionId))
-        .limit(1);
-
-      if (existing.length > 0) {
-        // Update existing content
-        await db
-          .update(contentSections)
-          .set({
-            content: sanitizedContent,
-            lastModified: new Date(),
-            version: existing[0].version + 1,
-          })
-          .where(eq(contentSections.id, sectionId));
-      } else {
-        // Create new content section
-        await db.insert(contentSections).values({
+      const [saved] = await db
+        .insert(contentSections)
+        .values({
           id: sectionId,
           name: this.getSectionName(sectionId),
-          content: sanitizedContent,
-          status: "published",
-          lastModified: new Date(),
+          content: {},
+          status: "draft",
+          lastModified: now,
           version: 1,
-        });
+          draftContent: sanitizedContent,
+          draftUpdatedAt: now,
+          draftUpdatedBy,
+        })
+        .onConflictDoUpdate({
+          target: contentSections.id,
+          set: {
+            draftContent: sanitizedContent,
+            draftUpdatedAt: now,
+            draftUpdatedBy,
+            lastModified: now,
+            version: sql`${contentSections.version} + 1`,
+          },
+          setWhere:
+            options.expectedVersion === undefined
+              ? undefined
+              : eq(contentSections.version, options.expectedVersion),
+        })
+        .returning({ version: contentSections.version });
+
+      if (!saved) {
+        return undefined;
       }
 
-      // Clear cache
-      cache.delete(`content:${sectionId}`);
-      
       // Create version history
-      await this.createVersion(sectionId, sanitizedContent);
+      return await this.createVersion(sectionId, sanitizedContent, saved.version, options, null);
     } catch (error) {
-      console.error(`Error saving content for ${sectionId}:`, error);
+      console.error(`Error saving draft for ${sectionId}:`, error);
       throw error;
     }
   }
 
+  /**
+   * Promotes the draft to the live copy in a single statement. Returns the
+   * published section, or undefined when there is no draft to publish.
+   */
+  async publish(sectionId: string): Promise<ContentSection | undefined> {
+    const [section] = await this.promoteDrafts(eq(contentSections.id, sectionId), new Date());
+    return section;
+  }
+
+  // Publishes every draft whose scheduled time has passed
+  async publishDue(now: Date): Promise<ContentSection[]> {
+    return this.promoteDrafts(lte(contentSections.publishAt, now), now);
+  }
+
+  /**
+   * Makes the version published before the current one live again for every
+   * section whose unpublish time has passed. Sections with no earlier
+   * published version only have the schedule cleared and come back as
+   * `skipped`. Each section is claimed by the statement that clears its
+   * `unpublishAt`, so it is reverted exactly once.
+   */
+  async revertDue(now: Date): Promise<{ reverted: ContentSection[]; skipped: ContentSection[] }> {
+    const due = lte(contentSections.unpublishAt, now);
+    const previousPublished = (column: SQL) => sql`(
+      select ${column} from ${contentVersions}
+      where ${contentVersions.sectionId} = ${contentSections.id}
+        and ${contentVersions.publishedAt} is not null
+        and ${contentVersions.version} < ${contentSections.publishedVersion}
+      order by ${contentVersions.version} desc
+      limit 1
+    )`;
+
+    const reverted = await db
+      .update(contentSections)
+      .set({
+        content: previousPublished(sql`${contentVersions.content}`),
+        publishedVersion: previousPublished(sql`${contentVersions.version}`),
+        publishedAt: now,
+        lastModified: now,
+        unpublishAt: null,
+      })
+      .where(and(due, sql`exists ${previousPublished(sql`1`)}`))
+      .returning();
+
+    const skipped = await db
+      .update(contentSections)
+      .set({ unpublishAt: null })
+      .where(due)
+      .returning();
+
+    reverted.forEach((section) => cache.delete(`content:${section.id}`));
+    return { reverted, skipped };
+  }
+
+  // The published version a scheduled unpublish would bring back, if any
+  async getRevertTarget(sectionId: string): Promise<ContentVersion | undefined> {
+    const section = await this.getSection(sectionId);
+    if (!section?.publishedVersion) {
+      return undefined;
+    }
+
+    const [target] = await db
+      .select()
+      .from(contentVersions)
+      .where(
+        and(
+          eq(contentVersions.sectionId, sectionId),
+          isNotNull(contentVersions.publishedAt),
+          lt(contentVersions.version, section.publishedVersion)
+        )
+      )
+      .orderBy(desc(contentVersions.version))
+      .limit(1);
+    return target;
+  }
+
+  async setSchedule(sectionId: string, schedule: PublishSchedule): Promise<ContentSection | undefined> {
+    const [section] = await db
+      .update(contentSections)
+      .set(schedule)
+      .where(eq(contentSections.id, sectionId))
+      .returning();
+    return section;
+  }
+
+  async getScheduledSections(): Promise<ContentSection[]> {
+    return db
+      .select()
+      .from(contentSections)
+      .where(or(isNotNull(contentSections.publishAt), isNotNull(contentSections.unpublishAt)));
+  }
+
+  // Drops unpublished edits along with any scheduled publish of them; a
+  // section that was never published is removed
+  async discardDraft(sectionId: string): Promise<boolean> {
+    const [section] = await db
+      .update(contentSections)
+      .set({ draftContent: null, draftUpdatedAt: null, draftUpdatedBy: null, publishAt: null })
+      .where(and(eq(contentSections.id, sectionId), isNotNull(contentSections.draftContent)))
+      .returning();
+
+    if (!section) {
+      return false;
+    }
+    if (section.status === "draft") {
+      await db.delete(contentSections).where(eq(contentSections.id, sectionId));
+    }
+    return true;
+  }
+
+  /**
+   * Brings live content from the content file into the database. A pending
+   * draft is kept; a section that is already published is left alone.
+   */
+  async importContent(sectionId: string, content: any): Promise<void> {
+    const sanitizedContent = this.sanitizeContent(content);
+    const now = new Date();
+
+    const [imported] = await db
+      .insert(contentSections)
+      .values({
+        id: sectionId,
+        name: this.getSectionName(sectionId),
+        content: sanitizedContent,
+        status: "published",
+        lastModified: now,
+        version: 1,
+        publishedAt: now,
+        publishedVersion: 1,
+      })
+      .onConflictDoUpdate({
+        target: contentSections.id,
+        set: {
+          content: sanitizedContent,
+          status: "published",
+          publishedAt: now,
+          version: sql`${contentSections.version} + 1`,
+          publishedVersion: sql`${contentSections.version} + 1`,
+        },
+        setWhere: eq(contentSections.status, "draft"),
+      })
+      .returning({ version: contentSections.version });
+
+    if (imported) {
+      cache.delete(`content:${sectionId}`);
+      await this.createVersion(
+        sectionId,
+        sanitizedContent,
+        imported.version,
+        { changeSummary: "Imported from content file", createdBy: "system" },
+        now
+      );
+    }
+  }
+
+  private async promoteDrafts(condition: SQL, now: Date): Promise<ContentSection[]> {
+    const sections = await db
+      .update(contentSections)
+      .set({
+        content: sql`${contentSections.draftContent}`,
+        status: "published",
+        publishedAt: now,
+        publishedVersion: sql`${contentSections.version}`,
+        lastModified: now,
+        draftContent: null,
+        draftUpdatedAt: null,
+        draftUpdatedBy: null,
+        publishAt: null,
+      })
+      .where(and(condition, isNotNull(contentSections.draftContent)))
+      .returning();
+
+    for (const section of sections) {
+      await db
+        .update(contentVersions)
+        .set({ publishedAt: now })
+        .where(
+          and(
+            eq(contentVersions.sectionId, section.id),
+            eq(contentVersions.version, section.publishedVersion!)
+          )
+        );
+      cache.delete(`content:${section.id}`);
+    }
+    return sections;
+  }
+
   private sanitizeContent(content: any): any {
+    // List sections (experience, case studies) are stored as they are
+    if (Array.isArray(content)) {
+      return content;
+    }
+
     const sanitized: any = {};
 
     Object.entries(content).forEach(([key, value]) => {
@@ -177,35 +468,37 @@ class DatabaseContentManager {
     return sanitized;
   }
 
-  private async createVersion(sectionId: string, content: any): Promise<void> {
-    try {
-      await db.insert(contentVersions).values({
+  private async createVersion(
+    sectionId: string,
+    content: any,
+    version: number,
+    options: SaveContentOptions,
+    publishedAt: Date | null
+  ): Promise<ContentVersion> {
+    const [created] = await db
+      .insert(contentVersions)
+      .values({
         sectionId,
         content,
-        version: 1,
-        changeSummary: "Content updated",
-        createdBy: "admin",
-        publishedAt: new Date(),
-      });
-    } catch (error) {
-      console.error(`Error creating version for ${sectionId}:`, error);
-    }
+        version,
+        changeSummary: options.changeSummary ?? "Content updated",
+        createdBy: options.createdBy ?? "admin",
+        publishedAt,
+      })
+      .returning();
+    return created;
   }
 
   private getSectionName(sectionId: string): string {
-    const names: Record<string, string> = {
-      hero: "Hero Section",
-      about: "About Section",
-      skills: "Skills Section",
-      experience: "Experience Section",
-      contact: "Contact Section",
-    };
-    return names[sectionId] || sectionId;
+    return isContentSectionType(sectionId) ? contentSectionRegistry[sectionId].name : sectionId;
   }
 
   async getAllContent(): Promise<Record<string, ContentData>> {
     try {
-      const results = await db.select().from(contentSections);
+      const results = await db
+        .select()
+        .from(contentSections)
+        .where(eq(contentSections.status, "published"));
       const content: Record<string, ContentData> = {};
       
       results.forEach((section) => {
@@ -220,4 +513,4 @@ class DatabaseContentManager {
   }
 }
 
-export const dbContentManager = DatabaseContentManager.getInstance();
\ No newline at end of file
+export const dbContentManager: IContentStore = DatabaseContentManager.getInstance();
\ No newline at end of file
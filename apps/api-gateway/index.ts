@@ -8,6 +8,10 @@ import { performanceMiddleware } from "./performance";
 import { env, logger } from "../../packages/shared-utils/index.js";
 import { cacheMiddleware } from "./cache";
 import { errorHandler, notFoundHandler } from "./src/middleware/errorHandler";
+import { publishingService } from "./services/publishingService";
+import { trashService } from "./services/trashService";
+import { emailService } from "./services/emailService";
+import { webhookService } from "./services/webhookService";
 
 const app = express();
 
@@ -76,6 +80,7 @@ const authLimiter = rateLimit({
 app.use(limiter);
 app.use("/api/", apiLimiter);
 app.use("/api/admin/login", authLimiter);
+app.use("/api/admin/password", authLimiter);
 
 // Body parsing middleware - bypass for file uploads
 app.use((req, res, next) => {
@@ -164,6 +169,10 @@ app.use((req, res, next) => {
     },
     () => {
       logger.info(`serving on port ${port}`);
+      publishingService.start();
+      trashService.start();
+      emailService.start();
+      webhookService.start();
     }
   );
 })();
@@ -1,15 +1,13 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import express from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { insertContactSubmissionSchema } from "../shared/schema";
-import bcrypt from "bcrypt";
 import session from "express-session";
 import { z } from "zod";
 import Anthropic from "@anthropic-ai/sdk";
-import { contentManager } from "./contentManager";
 import { dbContentManager } from "./contentStorage";
-import { cacheSync, cacheSyncMiddleware } from "./cacheSync";
+import { cacheSync } from "./cacheSync";
 import { cache, cacheMiddleware } from "./cache";
 import { db } from "./db";
 import multer from "multer";
@@ -18,7 +16,7 @@ import fs from "fs";
 import { documentProcessor } from "./services/documentProcessor";
 import { orchestratorClient } from "./services/orchestratorClient";
 import { queueService } from "./src/queueService";
-import { eq, desc } from "drizzle-orm";
+import { eq, and, desc, isNull, sql } from "drizzle-orm";
 import { 
   insertKnowledgeBaseDocumentSchema,
   insertUserProfileSchema,
@@ -29,6 +27,48 @@ import {
 } from "../shared/schema";
 import { env, logger, withModule, AppError } from "../../packages/shared-utils";
 import { asyncHandler } from "./src/middleware/errorHandler";
+import {
+  expectedVersion,
+  withoutVersionFields,
+  missedUpdateError,
+  staleWriteError,
+  sendVersioned,
+} from "./services/concurrency";
+import { requirePermission } from "./src/middleware/auth";
+import { registerAuthRoutes } from "./src/routes/auth";
+import { registerAuditRoutes } from "./src/routes/audit";
+import { registerSessionRoutes } from "./src/routes/sessions";
+import { registerApiTokenRoutes } from "./src/routes/apiTokens";
+import { registerRoutePolicyRoutes, verifyRoutePolicies } from "./src/routes/routePolicy";
+import { registerScheduleRoutes } from "./src/routes/schedule";
+import { registerContentTransferRoutes } from "./src/routes/contentTransfer";
+import { registerPreviewRoutes } from "./src/routes/preview";
+import { registerTrashRoutes } from "./src/routes/trash";
+import { registerBulkRoutes } from "./src/routes/bulk";
+import { registerContactRoutes } from "./src/routes/contacts";
+import { registerEmailRoutes } from "./src/routes/email";
+import { emailService } from "./services/emailService";
+import { registerWebhookRoutes } from "./src/routes/webhooks";
+import { registerSitemapRoutes } from "./src/routes/sitemap";
+import { webhookService } from "./services/webhookService";
+import { trashService } from "./services/trashService";
+import { csvCell } from "./services/csv";
+import { caseStudyEventData, contactEventData } from "./services/webhooks";
+import { loadPreview } from "./src/middleware/preview";
+import { previewService } from "./services/previewService";
+import { publicRoute, returnsPii } from "./src/middleware/routePolicy";
+import { csrfProtection } from "./src/middleware/csrf";
+import { inspectUploads } from "./src/middleware/uploadInspection";
+import { contactIpThrottle, contactEmailThrottle } from "./src/middleware/contactThrottle";
+import { createFormToken, normalizeMessage, scoreSubmission } from "./services/spamFilter";
+import { DOCUMENT_KINDS, IMAGE_KINDS, INLINE_KINDS, fileKinds, kindForStoredFile } from "./services/fileSniffer";
+import { userService } from "./services/userService";
+import { auditService } from "./services/auditService";
+import { sessionStore, SESSION_IDLE_TIMEOUT_MS } from "./services/sessionStore";
+import { diffContent } from "./services/contentDiff";
+import { publishingService } from "./services/publishingService";
+import { isContentSectionType } from "../shared/contentSchema";
+import { validateSection, buildValidationReport } from "./services/contentValidation";
 
 const moduleLogger = withModule('routes');
 
@@ -86,33 +126,65 @@ const anthropic = new Anthropic({
   apiKey: env.ANTHROPIC_API_KEY,
 });
 
-// Admin authentication middleware
-const isAdmin = (req: any, res: any, next: any) => {
-  if (req.session?.isAdmin) {
-    next();
-  } else {
-    res.status(401).json({ message: "Admin access required" });
-  }
-};
-
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Serve uploaded files
-  app.use('/uploads', (req: any, res: any, next: any) => {
-    res.header('Access-Control-Allow-Origin', '*');
-    next();
-  });
-  
-  // Static file serving for uploads
+  // Static file serving for uploads. The type comes from our own extension
+  // table, never from sniffing; anything that is not a raster image is a download.
   const { static: serveStatic } = await import('express');
-  app.use('/uploads', serveStatic('uploads'));
+  app.use('/uploads', serveStatic('uploads', {
+    dotfiles: 'deny',
+    index: false,
+    setHeaders: (res, filePath) => {
+      const kind = kindForStoredFile(filePath);
+      if (kind && INLINE_KINDS.includes(kind)) {
+        res.setHeader('Content-Disposition', 'inline');
+      } else {
+        res.attachment(path.basename(filePath));
+      }
+      // After attachment(), which would otherwise pick the type from the extension
+      res.setHeader('Content-Type', kind ? fileKinds[kind].mimeType : 'application/octet-stream');
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      if (kind === 'svg') {
+        res.setHeader('Content-Security-Policy', "default-src 'none'; style-src 'unsafe-inline'; sandbox");
+      }
+    }
+  }));
   
-  // Session configuration for admin
+  // Session configuration for admin. Sessions live in Postgres; the rolling
+  // cookie gives the idle timeout and the store caps the absolute lifetime.
+  const isProduction = env.NODE_ENV === "production";
   app.use(session({
+    store: sessionStore,
     secret: env.SESSION_SECRET,
     resave: false,
     saveUninitialized: false,
-    cookie: { secure: false, maxAge: 24 * 60 * 60 * 1000 } // 24 hours
+    rolling: true,
+    cookie: {
+      httpOnly: true,
+      secure: isProduction,
+      sameSite: isProduction ? "strict" : "lax",
+      maxAge: SESSION_IDLE_TIMEOUT_MS
+    }
   }));
+  app.use(csrfProtection);
+
+  // Make sure there is an owner account to log in with on first run
+  await userService.ensureBootstrapUser();
+
+  // Login, logout, password and team account routes
+  registerAuthRoutes(app);
+  registerAuditRoutes(app);
+  registerSessionRoutes(app);
+  registerApiTokenRoutes(app);
+  registerRoutePolicyRoutes(app);
+  registerScheduleRoutes(app);
+  registerContentTransferRoutes(app);
+  registerPreviewRoutes(app);
+  registerTrashRoutes(app);
+  registerBulkRoutes(app);
+  registerContactRoutes(app);
+  registerEmailRoutes(app);
+  registerWebhookRoutes(app);
+  registerSitemapRoutes(app);
 
   // Document upload endpoint with detailed session debugging
   // Helper function to determine content type from filename
@@ -130,21 +202,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }
 
-  app.post("/api/admin/knowledge-base/upload", documentUpload.array('files', 10), (req, res, next) => {
-    moduleLogger.debug('Upload endpoint - Session debug:', {
-      sessionExists: !!req.session,
-      isAdmin: req.session?.isAdmin,
-      sessionId: req.sessionID,
-      cookies: req.headers.cookie
-    });
-    
-    if (!req.session?.isAdmin) {
-      moduleLogger.debug('Upload rejected - not admin authenticated');
-      return res.status(401).json({ message: "Admin access required" });
-    }
-    
-    next();
-  }, async (req, res) => {
+  // Authenticate before multer so anonymous uploads never touch the disk
+  app.post("/api/admin/knowledge-base/upload", requirePermission("kb:write"), documentUpload.array('files', 10), inspectUploads(DOCUMENT_KINDS), async (req, res) => {
     try {
       const files = req.files as Express.Multer.File[];
       const { category = "general" } = req.body;
@@ -171,6 +230,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
           const docId = document[0].id;
 
+          await auditService.record(req, {
+            action: "kb_document.upload",
+            entityType: "kb_document",
+            entityId: docId,
+            after: document[0],
+          });
+
           // Queue for async processing
           const jobId = await queueService.queueDocumentIngestion({
             path: file.path,
@@ -203,6 +269,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         message: "Documents queued for processing",
         totalFiles: files.length,
         queuedFiles,
+        rejectedFiles: req.rejectedUploads ?? [],
         note: "Documents will be processed asynchronously. Check status using document IDs."
       });
     } catch (error) {
@@ -212,12 +279,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Add routes for monitoring queue status
-  app.get("/api/admin/queue/stats", isAdmin, asyncHandler(async (req, res) => {
+  app.get("/api/admin/queue/stats", requirePermission("system:manage"), asyncHandler(async (req, res) => {
     const stats = await queueService.getQueueStats();
     res.json(stats);
   }));
 
-  app.get("/api/admin/job/:jobId/status", isAdmin, asyncHandler(async (req, res) => {
+  app.get("/api/admin/job/:jobId/status", requirePermission("kb:read"), asyncHandler(async (req, res) => {
     const { jobId } = req.params;
     
     if (!jobId) {
@@ -228,7 +295,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(status);
   }));
 
-  app.get("/api/admin/document/:docId/status", isAdmin, asyncHandler(async (req, res) => {
+  app.get("/api/admin/document/:docId/status", requirePermission("kb:read"), asyncHandler(async (req, res) => {
     const { docId } = req.params;
     
     if (!docId || isNaN(parseInt(docId))) {
@@ -237,7 +304,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     const [document] = await db.select()
       .from(knowledgeBaseDocuments)
-      .where(eq(knowledgeBaseDocuments.id, parseInt(docId)))
+      .where(and(eq(knowledgeBaseDocuments.id, parseInt(docId)), isNull(knowledgeBaseDocuments.deletedAt)))
       .limit(1);
 
     if (!document) {
@@ -256,76 +323,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   }));
 
-  // Admin login endpoint
-  app.post("/api/admin/login", asyncHandler(async (req, res) => {
-    const { username, password } = req.body;
-    
-    if (!username || !password) {
-      throw AppError.badRequest("Username and password required");
-    }
-    
-    // Simple admin credentials (in production, use environment variables)
-    const adminUsername = env.ADMIN_USERNAME || "admin";
-    const adminPassword = env.ADMIN_PASSWORD || "password";
-    
-    moduleLogger.debug("Login attempt:");
-    
-    if (username === adminUsername && password === adminPassword) {
-      req.session.isAdmin = true;
-      moduleLogger.info("Login successful for:", username);
-      res.json({ success: true, message: "Login successful" });
-    } else {
-      moduleLogger.warn("Login failed - credentials mismatch");
-      throw AppError.unauthorized("Invalid credentials");
-    }
-  }));
-
-  // Admin logout endpoint
-  app.post("/api/admin/logout", (req, res) => {
-    req.session.destroy((err) => {
-      if (err) {
-        res.status(500).json({ message: "Logout failed" });
-      } else {
-        res.json({ message: "Logout successful" });
-      }
-    });
-  });
-
-  // Admin status endpoint
-  app.get("/api/admin/status", (req, res) => {
-    res.json({ isAdmin: req.session?.isAdmin || false });
-  });
-
-  // Get all contact submissions (admin only)
-  app.get("/api/admin/contact-submissions", isAdmin, asyncHandler(async (req, res) => {
-    const submissions = await storage.getContactSubmissions();
-    res.json(submissions);
-  }));
-
-  // Delete contact submission (admin only)
-  app.delete("/api/admin/contact-submissions/:id", isAdmin, asyncHandler(async (req, res) => {
-    const { id } = req.params;
-    
-    if (!id || isNaN(parseInt(id))) {
-      throw AppError.badRequest("Valid submission ID required");
-    }
-    
-    await storage.deleteContactSubmission(parseInt(id));
-    res.json({ message: "Submission deleted successfully" });
-  }));
-
   // Export submissions as CSV (admin only)
-  app.get("/api/admin/export-submissions", isAdmin, async (req, res) => {
+  app.get("/api/admin/export-submissions", requirePermission("contacts:read"), returnsPii, async (req, res) => {
     try {
       const submissions = await storage.getContactSubmissions();
       
       // Create CSV content
       const csvHeader = "ID,Name,Email,Company,Project Type,Message,Submitted At\n";
-      const csvRows = submissions.map(s => 
-        `${s.id},"${s.name}","${s.email}","${s.company || ''}","${s.projectType}","${s.message.replace(/"/g, '""')}","${s.submittedAt}"`
+      // Every field comes from the public contact form, so cells go through csvCell
+      const csvRows = submissions.map(s =>
+        [s.id, s.name, s.email, s.company, s.projectType, s.message, s.submittedAt].map(csvCell).join(",")
       ).join('\n');
       
       const csvContent = csvHeader + csvRows;
+
+      await auditService.record(req, {
+        action: "contact_submission.export",
+        entityType: "contact_submission",
+        after: { count: submissions.length },
+      });
       
       res.setHeader('Content-Type', 'text/csv');
       res.setHeader('Content-Disposition', 'attachment; filename="contact-submissions.csv"');
@@ -337,7 +353,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Claude-powered Case Study Generator endpoint (admin only)
-  app.post("/api/admin/generate-case-study", isAdmin, async (req, res) => {
+  app.post("/api/admin/generate-case-study", requirePermission("ai:use"), async (req, res) => {
     try {
       const { title, challenge, impact, metrics, technologies } = req.body;
       
@@ -394,7 +410,7 @@ Format the response as structured JSON with sections for technicalDetails, visua
   });
 
   // Enhanced AI Assistant endpoint with knowledge base integration
-  app.post("/api/admin/ai-assistant", isAdmin, async (req, res) => {
+  app.post("/api/admin/ai-assistant", requirePermission("ai:use"), async (req, res) => {
     try {
       const { message, conversationHistory, attachedDocuments, sessionType, sessionId } = req.body;
       
@@ -579,7 +595,7 @@ What would be most helpful for your current career goals?`;
   }
 
   // Case Studies CRUD endpoints (admin only)
-  app.get("/api/admin/case-studies", isAdmin, async (req, res) => {
+  app.get("/api/admin/case-studies", requirePermission("content:read"), async (req, res) => {
     try {
       const caseStudies = await storage.getCaseStudies();
       res.json(caseStudies);
@@ -589,7 +605,7 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.get("/api/admin/case-studies/:id", isAdmin, async (req, res) => {
+  app.get("/api/admin/case-studies/:id", requirePermission("content:read"), async (req, res) => {
     try {
       const { id } = req.params;
       const caseStudy = await storage.getCaseStudy(parseInt(id));
@@ -605,45 +621,64 @@ What would be most helpful for your current career goals?`;
 
 
 
-  app.put("/api/admin/case-studies/:id", isAdmin, async (req, res) => {
-    try {
-      const { id } = req.params;
-      const caseStudyId = parseInt(id);
-      
-      if (isNaN(caseStudyId)) {
-        return res.status(400).json({ message: "Invalid case study ID" });
-      }
+  app.put("/api/admin/case-studies/:id", requirePermission("content:write"), asyncHandler(async (req, res) => {
+    const caseStudyId = parseInt(req.params.id);
+    if (isNaN(caseStudyId)) {
+      throw AppError.badRequest("Invalid case study ID");
+    }
 
-      console.log("Updating case study:", { id: caseStudyId, data: req.body });
-      
-      // Process form data to handle arrays properly
-      const processedData = {
-        ...req.body,
-        metrics: Array.isArray(req.body.metrics) ? req.body.metrics : 
-                 typeof req.body.metrics === 'string' ? req.body.metrics.split(',').map((m: string) => m.trim()).filter(Boolean) : [],
-        technologies: Array.isArray(req.body.technologies) ? req.body.technologies : 
-                      typeof req.body.technologies === 'string' ? req.body.technologies.split(',').map((t: string) => t.trim()).filter(Boolean) : [],
-      };
+    const expected = expectedVersion(req);
+    const body = withoutVersionFields(req.body);
 
-      const caseStudy = await storage.updateCaseStudy(caseStudyId, processedData);
-      
-      if (!caseStudy) {
-        return res.status(404).json({ message: "Case study not found" });
-      }
-      
-      console.log("Case study updated successfully:", caseStudy.id);
-      res.json(caseStudy);
-    } catch (error) {
-      console.error("Error updating case study:", error);
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      res.status(500).json({ message: "Failed to update case study", error: errorMessage });
+    // Process form data to handle arrays properly
+    const processedData = {
+      ...body,
+      metrics: Array.isArray(body.metrics) ? body.metrics : 
+               typeof body.metrics === 'string' ? body.metrics.split(',').map((m: string) => m.trim()).filter(Boolean) : [],
+      technologies: Array.isArray(body.technologies) ? body.technologies : 
+                    typeof body.technologies === 'string' ? body.technologies.split(',').map((t: string) => t.trim()).filter(Boolean) : [],
+    };
+
+    await trashService.assertSlugAvailable(req.body?.slug, caseStudyId);
+    const before = await storage.getCaseStudy(caseStudyId);
+    const caseStudy = await storage.updateCaseStudy(caseStudyId, processedData, expected);
+    if (!caseStudy) {
+      throw await missedUpdateError(() => storage.getCaseStudy(caseStudyId), "Case study not found");
     }
-  });
 
-  app.delete("/api/admin/case-studies/:id", isAdmin, async (req, res) => {
+    await auditService.record(req, {
+      action: "case_study.update",
+      entityType: "case_study",
+      entityId: caseStudyId,
+      before,
+      after: caseStudy,
+    });
+    await cacheSync.invalidateContentCache({
+      invalidatePortfolio: true,
+      broadcastUpdate: true,
+    });
+    if (caseStudy.status === "published" && before?.status !== "published") {
+      await webhookService.emit("case_study.published", caseStudyEventData(caseStudy));
+    }
+
+    sendVersioned(res, caseStudy);
+  }));
+
+  app.delete("/api/admin/case-studies/:id", requirePermission("content:write"), async (req, res) => {
     try {
       const { id } = req.params;
+      const before = await storage.getCaseStudy(parseInt(id));
       await storage.deleteCaseStudy(parseInt(id));
+      await auditService.record(req, {
+        action: "case_study.delete",
+        entityType: "case_study",
+        entityId: id,
+        before,
+      });
+      await cacheSync.invalidateContentCache({
+        invalidatePortfolio: true,
+        broadcastUpdate: true,
+      });
       res.json({ message: "Case study deleted successfully" });
     } catch (error) {
       console.error("Error deleting case study:", error);
@@ -652,7 +687,7 @@ What would be most helpful for your current career goals?`;
   });
 
   // Toggle featured status
-  app.patch("/api/admin/case-studies/:id/featured", isAdmin, async (req, res) => {
+  app.patch("/api/admin/case-studies/:id/featured", requirePermission("content:write"), async (req, res) => {
     try {
       const { id } = req.params;
       const { featured } = req.body;
@@ -662,7 +697,18 @@ What would be most helpful for your current career goals?`;
         return res.status(400).json({ message: "Invalid case study ID" });
       }
 
+      const before = await storage.getCaseStudy(caseStudyId);
       const caseStudy = await storage.updateCaseStudy(caseStudyId, { featured });
+      if (!caseStudy) {
+        return res.status(404).json({ message: "Case study not found" });
+      }
+      await auditService.record(req, {
+        action: "case_study.feature",
+        entityType: "case_study",
+        entityId: caseStudyId,
+        before: { featured: before?.featured },
+        after: { featured: caseStudy.featured },
+      });
       res.json(caseStudy);
     } catch (error) {
       console.error("Error toggling featured status:", error);
@@ -671,7 +717,7 @@ What would be most helpful for your current career goals?`;
   });
 
   // Reorder case studies
-  app.patch("/api/admin/case-studies/reorder", isAdmin, async (req, res) => {
+  app.patch("/api/admin/case-studies/reorder", requirePermission("content:write"), async (req, res) => {
     try {
       const { studies } = req.body;
       
@@ -685,6 +731,11 @@ What would be most helpful for your current career goals?`;
       );
       
       await Promise.all(promises);
+      await auditService.record(req, {
+        action: "case_study.reorder",
+        entityType: "case_study",
+        after: { order: studies },
+      });
       res.json({ message: "Case studies reordered successfully" });
     } catch (error) {
       console.error("Error reordering case studies:", error);
@@ -693,7 +744,7 @@ What would be most helpful for your current career goals?`;
   });
 
   // Media Assets CRUD endpoints (admin only)
-  app.get("/api/admin/media", isAdmin, async (req, res) => {
+  app.get("/api/admin/media", requirePermission("content:read"), async (req, res) => {
     try {
       const mediaAssets = await storage.getMediaAssets();
       res.json(mediaAssets);
@@ -703,7 +754,7 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.get("/api/admin/media/:id", isAdmin, async (req, res) => {
+  app.get("/api/admin/media/:id", requirePermission("content:read"), async (req, res) => {
     try {
       const { id } = req.params;
       const asset = await storage.getMediaAsset(parseInt(id));
@@ -717,9 +768,15 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.post("/api/admin/media", isAdmin, async (req, res) => {
+  app.post("/api/admin/media", requirePermission("content:write"), async (req, res) => {
     try {
       const asset = await storage.createMediaAsset(req.body);
+      await auditService.record(req, {
+        action: "media_asset.create",
+        entityType: "media_asset",
+        entityId: asset.id,
+        after: asset,
+      });
       res.status(201).json(asset);
     } catch (error) {
       console.error("Error creating media asset:", error);
@@ -727,10 +784,18 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.put("/api/admin/media/:id", isAdmin, async (req, res) => {
+  app.put("/api/admin/media/:id", requirePermission("content:write"), async (req, res) => {
     try {
       const { id } = req.params;
+      const before = await storage.getMediaAsset(parseInt(id));
       const asset = await storage.updateMediaAsset(parseInt(id), req.body);
+      await auditService.record(req, {
+        action: "media_asset.update",
+        entityType: "media_asset",
+        entityId: id,
+        before,
+        after: asset,
+      });
       res.json(asset);
     } catch (error) {
       console.error("Error updating media asset:", error);
@@ -738,10 +803,17 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.delete("/api/admin/media/:id", isAdmin, async (req, res) => {
+  app.delete("/api/admin/media/:id", requirePermission("content:write"), async (req, res) => {
     try {
       const { id } = req.params;
+      const before = await storage.getMediaAsset(parseInt(id));
       await storage.deleteMediaAsset(parseInt(id));
+      await auditService.record(req, {
+        action: "media_asset.delete",
+        entityType: "media_asset",
+        entityId: id,
+        before,
+      });
       res.json({ message: "Media asset deleted successfully" });
     } catch (error) {
       console.error("Error deleting media asset:", error);
@@ -750,7 +822,7 @@ What would be most helpful for your current career goals?`;
   });
 
   // Knowledge Base Management endpoints (admin only)
-  app.get("/api/admin/knowledge-base/stats", isAdmin, async (req, res) => {
+  app.get("/api/admin/knowledge-base/stats", requirePermission("kb:read"), async (req, res) => {
     try {
       const documents = await storage.getKnowledgeBaseDocuments();
       const stats = {
@@ -767,7 +839,7 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.get("/api/admin/knowledge-base/documents", isAdmin, async (req, res) => {
+  app.get("/api/admin/knowledge-base/documents", requirePermission("kb:read"), async (req, res) => {
     try {
       const documents = await db.select({
         id: knowledgeBaseDocuments.id,
@@ -780,6 +852,7 @@ What would be most helpful for your current career goals?`;
         summary: knowledgeBaseDocuments.summary,
         vectorId: knowledgeBaseDocuments.vectorId
       }).from(knowledgeBaseDocuments)
+        .where(isNull(knowledgeBaseDocuments.deletedAt))
         .orderBy(desc(knowledgeBaseDocuments.uploadedAt));
       
       res.json(documents);
@@ -789,7 +862,7 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.get("/api/admin/knowledge-base/documents/:id", isAdmin, async (req, res) => {
+  app.get("/api/admin/knowledge-base/documents/:id", requirePermission("kb:read"), async (req, res) => {
     try {
       const { id } = req.params;
       const document = await storage.getKnowledgeBaseDocument(parseInt(id));
@@ -803,9 +876,15 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.post("/api/admin/knowledge-base/documents", isAdmin, async (req, res) => {
+  app.post("/api/admin/knowledge-base/documents", requirePermission("kb:write"), async (req, res) => {
     try {
       const document = await storage.createKnowledgeBaseDocument(req.body);
+      await auditService.record(req, {
+        action: "kb_document.create",
+        entityType: "kb_document",
+        entityId: document.id,
+        after: document,
+      });
       res.status(201).json(document);
     } catch (error) {
       console.error("Error creating document:", error);
@@ -813,10 +892,18 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.put("/api/admin/knowledge-base/documents/:id", isAdmin, async (req, res) => {
+  app.put("/api/admin/knowledge-base/documents/:id", requirePermission("kb:write"), async (req, res) => {
     try {
       const { id } = req.params;
+      const before = await storage.getKnowledgeBaseDocument(parseInt(id));
       const document = await storage.updateKnowledgeBaseDocument(parseInt(id), req.body);
+      await auditService.record(req, {
+        action: "kb_document.update",
+        entityType: "kb_document",
+        entityId: id,
+        before,
+        after: document,
+      });
       res.json(document);
     } catch (error) {
       console.error("Error updating document:", error);
@@ -824,10 +911,17 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.delete("/api/admin/knowledge-base/documents/:id", isAdmin, async (req, res) => {
+  app.delete("/api/admin/knowledge-base/documents/:id", requirePermission("kb:write"), async (req, res) => {
     try {
       const { id } = req.params;
+      const before = await storage.getKnowledgeBaseDocument(parseInt(id));
       await storage.deleteKnowledgeBaseDocument(parseInt(id));
+      await auditService.record(req, {
+        action: "kb_document.delete",
+        entityType: "kb_document",
+        entityId: id,
+        before,
+      });
       res.json({ message: "Document deleted successfully" });
     } catch (error) {
       console.error("Error deleting document:", error);
@@ -838,20 +932,18 @@ What would be most helpful for your current career goals?`;
   // Enhanced Knowledge Base Management Endpoints
 
   // Get all knowledge base documents
-  app.get("/api/admin/knowledge-base/documents", isAdmin, async (req, res) => {
+  app.get("/api/admin/knowledge-base/documents", requirePermission("kb:read"), async (req, res) => {
     try {
       const { category, status, limit = 50 } = req.query;
       
-      let queryBuilder = db.select().from(knowledgeBaseDocuments);
-      
-      if (category) {
-        queryBuilder = queryBuilder.where(eq(knowledgeBaseDocuments.category, category as string));
-      }
-      if (status) {
-        queryBuilder = queryBuilder.where(eq(knowledgeBaseDocuments.status, status as string));
-      }
-      
-      const documents = await queryBuilder.limit(parseInt(limit as string));
+      const documents = await db.select()
+        .from(knowledgeBaseDocuments)
+        .where(and(
+          isNull(knowledgeBaseDocuments.deletedAt),
+          category ? eq(knowledgeBaseDocuments.category, category as string) : undefined,
+          status ? eq(knowledgeBaseDocuments.status, status as string) : undefined
+        ))
+        .limit(parseInt(limit as string));
       
       // Transform the data to match frontend interface
       const transformedDocuments = documents.map(doc => ({
@@ -874,7 +966,7 @@ What would be most helpful for your current career goals?`;
   });
 
   // Get document categories
-  app.get("/api/admin/knowledge-base/categories", isAdmin, async (req, res) => {
+  app.get("/api/admin/knowledge-base/categories", requirePermission("kb:read"), async (req, res) => {
     try {
       const categories = await documentProcessor.getCategories();
       res.json(categories);
@@ -885,7 +977,7 @@ What would be most helpful for your current career goals?`;
   });
 
   // Analyze specific document
-  app.post("/api/admin/knowledge-base/documents/:id/analyze", isAdmin, async (req, res) => {
+  app.post("/api/admin/knowledge-base/documents/:id/analyze", requirePermission("kb:write"), async (req, res) => {
     try {
       const documentId = parseInt(req.params.id);
       const { analysisType = "general_analysis" } = req.body;
@@ -903,10 +995,17 @@ What would be most helpful for your current career goals?`;
   });
 
   // Delete document
-  app.delete("/api/admin/knowledge-base/documents/:id", isAdmin, async (req, res) => {
+  app.delete("/api/admin/knowledge-base/documents/:id", requirePermission("kb:write"), async (req, res) => {
     try {
       const documentId = parseInt(req.params.id);
+      const before = await storage.getKnowledgeBaseDocument(documentId);
       await documentProcessor.deleteDocument(documentId);
+      await auditService.record(req, {
+        action: "kb_document.delete",
+        entityType: "kb_document",
+        entityId: documentId,
+        before,
+      });
       res.json({ success: true, message: "Document deleted successfully" });
     } catch (error) {
       console.error("Error deleting document:", error);
@@ -915,7 +1014,7 @@ What would be most helpful for your current career goals?`;
   });
 
   // Get conversation sessions
-  app.get("/api/admin/ai-assistant/sessions", isAdmin, async (req, res) => {
+  app.get("/api/admin/ai-assistant/sessions", requirePermission("ai:use"), async (req, res) => {
     try {
       const sessions = await db.select()
         .from(conversationSessions)
@@ -930,7 +1029,7 @@ What would be most helpful for your current career goals?`;
   });
 
   // Get conversation history
-  app.get("/api/admin/ai-assistant/sessions/:id/history", isAdmin, async (req, res) => {
+  app.get("/api/admin/ai-assistant/sessions/:id/history", requirePermission("ai:use"), async (req, res) => {
     try {
       const sessionId = parseInt(req.params.id);
       const { limit = 50 } = req.query;
@@ -946,7 +1045,7 @@ What would be most helpful for your current career goals?`;
   });
 
   // User Profile Management
-  app.get("/api/admin/user-profile", isAdmin, async (req, res) => {
+  app.get("/api/admin/user-profile", requirePermission("kb:read"), returnsPii, async (req, res) => {
     try {
       const profile = await db.select()
         .from(userProfile)
@@ -960,7 +1059,7 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.post("/api/admin/user-profile", isAdmin, async (req, res) => {
+  app.post("/api/admin/user-profile", requirePermission("kb:write"), async (req, res) => {
     try {
       const profileData = insertUserProfileSchema.parse(req.body);
       
@@ -976,6 +1075,14 @@ What would be most helpful for your current career goals?`;
           .set({ ...profileData, lastUpdated: new Date() })
           .where(eq(userProfile.userId, "admin"))
           .returning();
+
+        await auditService.record(req, {
+          action: "user_profile.update",
+          entityType: "user_profile",
+          entityId: "admin",
+          before: existing[0],
+          after: updated[0],
+        });
         
         res.json(updated[0]);
       } else {
@@ -983,6 +1090,13 @@ What would be most helpful for your current career goals?`;
         const created = await db.insert(userProfile)
           .values({ ...profileData, userId: "admin" })
           .returning();
+
+        await auditService.record(req, {
+          action: "user_profile.create",
+          entityType: "user_profile",
+          entityId: "admin",
+          after: created[0],
+        });
         
         res.json(created[0]);
       }
@@ -993,7 +1107,7 @@ What would be most helpful for your current career goals?`;
   });
 
   // Initialize document categories on startup
-  app.post("/api/admin/knowledge-base/initialize", isAdmin, async (req, res) => {
+  app.post("/api/admin/knowledge-base/initialize", requirePermission("kb:write"), async (req, res) => {
     try {
       await documentProcessor.initializeCategories();
       res.json({ 
@@ -1006,293 +1120,317 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  // Enhanced Hero Content Management endpoint (admin only)
-  app.post("/api/admin/content/hero", isAdmin, async (req, res) => {
-    try {
-      const heroContent = req.body;
-      console.log("Saving enhanced hero content:", heroContent);
-      
-      // Save to both storage systems for reliability
-      await contentManager.updateSection('hero', heroContent);
-      await dbContentManager.saveContent('hero', heroContent);
-      
-      // Clear all relevant caches
-      await cacheSync.invalidateContentCache({ 
-        invalidatePortfolio: true,
-        invalidateContent: true,
-        invalidateSpecific: [
-          'route:/content/hero',
-          'route:/api/portfolio/content/hero'
-        ],
-        broadcastUpdate: true
-      });
-      
-      // Clear content manager cache to ensure immediate updates
-      contentManager.clearCache();
-      
-      console.log("Hero content saved and cache invalidated");
-      
-      res.json({ 
-        success: true, 
-        message: "Hero content updated successfully",
-        content: heroContent,
-        timestamp: new Date().toISOString()
+  // Checks an edit against the section's schema and saves it into the
+  // section's draft as a new version; nothing goes live until the draft is
+  // published. Every content save goes through here.
+  async function saveSectionDraft(req: Request, sectionId: string, content: unknown, changeSummary: string) {
+    if (!isContentSectionType(sectionId)) {
+      throw AppError.notFound(`Unknown content section: ${sectionId}`);
+    }
+
+    const validation = validateSection(sectionId, content);
+    if (!validation.valid) {
+      throw AppError.unprocessable("Content failed validation", {
+        sectionId,
+        validation: validation.fieldErrors,
+        issues: validation.issues,
       });
-    } catch (error) {
-      console.error("Error updating hero content:", error);
-      res.status(500).json({ message: "Failed to update hero content" });
     }
-  });
 
-  // Enhanced Content Management endpoints (admin only)
-  app.get("/api/admin/content/sections", isAdmin, async (req, res) => {
-    try {
-      const portfolioContent = await contentManager.getAllSections();
-      
-      const sections = [
-        {
-          id: "hero",
-          name: "Hero Section",
-          content: portfolioContent.hero,
-          status: "published",
-          lastModified: portfolioContent.lastUpdated,
-          version: portfolioContent.version
-        },
-        {
-          id: "stats",
-          name: "Achievement Statistics", 
-          content: portfolioContent.stats,
-          status: "published",
-          lastModified: portfolioContent.lastUpdated,
-          version: portfolioContent.version
-        },
-        {
-          id: "about",
-          name: "About Section",
-          content: portfolioContent.about,
-          status: "published",
-          lastModified: portfolioContent.lastUpdated,
-          version: portfolioContent.version
-        },
-        {
-          id: "experience",
-          name: "Professional Experience",
-          content: portfolioContent.experience,
-          status: "published",
-          lastModified: portfolioContent.lastUpdated,
-          version: portfolioContent.version
-        },
-        {
-          id: "caseStudies",
-          name: "Case Studies",
-          content: portfolioContent.caseStudies,
-          status: "published",
-          lastModified: portfolioContent.lastUpdated,
-          version: portfolioContent.version
-        },
-        {
-          id: "skills",
-          name: "Skills & Expertise",
-          content: portfolioContent.skills,
-          status: "published",
-          lastModified: portfolioContent.lastUpdated,
-          version: portfolioContent.version
-        },
-        {
-          id: "contact",
-          name: "Contact Information",
-          content: portfolioContent.contact,
-          status: "published",
-          lastModified: portfolioContent.lastUpdated,
-          version: portfolioContent.version
-        },
-        {
-          id: "seo",
-          name: "SEO Settings",
-          content: portfolioContent.seo,
-          status: "published",
-          lastModified: portfolioContent.lastUpdated,
-          version: portfolioContent.version
-        }
-      ];
-      
-      res.json(sections);
-    } catch (error) {
-      console.error("Error fetching content sections:", error);
-      res.status(500).json({ message: "Failed to fetch content sections" });
+    const saved = await dbContentManager.saveDraft(sectionId, validation.content, {
+      changeSummary,
+      createdBy: req.user?.username,
+      expectedVersion: expectedVersion(req),
+    });
+    if (!saved) {
+      throw await missedUpdateError(() => getEditableSection(sectionId), "Content section not found");
     }
-  });
+    return saved;
+  }
 
-  app.get("/api/admin/content/versions/:sectionId", isAdmin, async (req, res) => {
-    try {
-      const sectionId = req.params.sectionId;
-      // Mock version history
-      const versions = [
-        {
-          id: 1,
-          sectionId,
-          content: {},
-          version: 3,
-          createdAt: "2024-06-12T10:30:00Z",
-          publishedAt: "2024-06-12T10:35:00Z"
-        },
-        {
-          id: 2,
-          sectionId,
-          content: {},
-          version: 2,
-          createdAt: "2024-06-10T15:45:00Z",
-          publishedAt: "2024-06-10T16:00:00Z"
-        }
-      ];
-      res.json(versions);
-    } catch (error) {
-      console.error("Error fetching versions:", error);
-      res.status(500).json({ message: "Failed to fetch content versions" });
+  // What the editors work on: the draft if there is one, else the live copy
+  async function getEditableSection(sectionId: string) {
+    const section = await dbContentManager.getSection(sectionId);
+    if (!section || (!section.draftContent && section.status !== "published")) {
+      return undefined;
     }
-  });
+    return { sectionId, content: section.draftContent ?? section.content, version: section.version };
+  }
 
-  app.put("/api/admin/content/sections/:sectionId", isAdmin, async (req, res) => {
-    try {
-      const sectionId = req.params.sectionId as any;
-      const { content } = req.body;
-      
-      // Update the specific section in the portfolio content
-      const updatedContent = await contentManager.updateSection(sectionId, content);
-      
-      // Clear content manager cache to ensure immediate updates
-      contentManager.clearCache();
-      
-      res.json({ 
-        success: true, 
-        message: "Content saved successfully",
-        sectionId,
-        version: updatedContent.version,
-        lastUpdated: updatedContent.lastUpdated
-      });
-    } catch (error) {
-      console.error("Error saving content:", error);
-      res.status(500).json({ message: "Failed to save content" });
+  async function getEditableContent(sectionId: string) {
+    return (await getEditableSection(sectionId))?.content ?? null;
+  }
+
+  // Enhanced Hero Content Management endpoint (admin only)
+  app.post("/api/admin/content/hero", requirePermission("content:write"), asyncHandler(async (req, res) => {
+    const before = await getEditableContent('hero');
+
+    // Saved as the hero draft; the live hero changes on publish
+    const saved = await saveSectionDraft(req, 'hero', req.body, "Hero section updated");
+
+    await auditService.record(req, {
+      action: "content.update",
+      entityType: "content_section",
+      entityId: "hero",
+      before,
+      after: saved.content,
+    });
+
+    res.json({
+      success: true,
+      message: "Hero draft saved",
+      content: saved.content,
+      version: saved.version,
+      timestamp: new Date().toISOString()
+    });
+  }));
+
+  // Every stored section as the editors see it: the draft if there is one,
+  // else the live copy
+  app.get("/api/admin/content/sections", requirePermission("content:read"), asyncHandler(async (req, res) => {
+    const sections = await dbContentManager.listSections();
+    res.json(sections.map((section) => ({
+      id: section.id,
+      name: section.name,
+      content: section.draftContent ?? section.content,
+      status: section.status,
+      hasDraft: !!section.draftContent,
+      lastModified: section.lastModified,
+      version: section.version,
+    })));
+  }));
+
+  // Saved versions of a section, newest first
+  app.get("/api/admin/content/versions/:sectionId", requirePermission("content:read"), asyncHandler(async (req, res) => {
+    const versions = await dbContentManager.getVersions(req.params.sectionId);
+    res.json(versions);
+  }));
+
+  // Field-level changes between two versions; `to` defaults to the latest
+  app.get("/api/admin/content/versions/:sectionId/diff", requirePermission("content:read"), asyncHandler(async (req, res) => {
+    const { sectionId } = req.params;
+    const parsed = z.object({
+      from: z.coerce.number().int().positive(),
+      to: z.coerce.number().int().positive().optional(),
+    }).safeParse(req.query);
+    if (!parsed.success) {
+      throw AppError.badRequest("from (and optionally to) must be version numbers");
     }
-  });
+
+    const from = await dbContentManager.getVersion(sectionId, parsed.data.from);
+    const to = parsed.data.to
+      ? await dbContentManager.getVersion(sectionId, parsed.data.to)
+      : (await dbContentManager.getVersions(sectionId))[0];
+    if (!from || !to) {
+      throw AppError.notFound("Version not found");
+    }
+
+    res.json({
+      sectionId,
+      from: { id: from.id, version: from.version, createdAt: from.createdAt, createdBy: from.createdBy },
+      to: { id: to.id, version: to.version, createdAt: to.createdAt, createdBy: to.createdBy },
+      changes: diffContent(from.content, to.content),
+    });
+  }));
+
+  app.put("/api/admin/content/sections/:sectionId", requirePermission("content:write"), asyncHandler(async (req, res) => {
+    const { sectionId } = req.params;
+    const before = await getEditableContent(sectionId);
+
+    // Update the section's draft, recording a new version
+    const saved = await saveSectionDraft(req, sectionId, req.body.content, "Section updated");
+
+    await auditService.record(req, {
+      action: "content.update",
+      entityType: "content_section",
+      entityId: sectionId,
+      before,
+      after: saved.content,
+    });
+
+    res.json({
+      success: true,
+      message: "Draft saved",
+      sectionId,
+      version: saved.version,
+      lastUpdated: saved.createdAt
+    });
+  }));
+
+  // Stored content checked against the current section schemas: lists live
+  // copies and drafts that no longer conform
+  app.get("/api/admin/content/validation", requirePermission("content:read"), asyncHandler(async (req, res) => {
+    const sections = await dbContentManager.listSections();
+    res.json(buildValidationReport(sections));
+  }));
 
   // Clean portfolio content update endpoint with database storage
-  app.put("/api/portfolio/content/:sectionId", cacheSyncMiddleware(), async (req, res) => {
-    try {
-      const sectionId = req.params.sectionId;
-      const content = req.body;
-      
-      console.log(`Updating ${sectionId} with clean content:`, content);
-      
-      // Save content using the new database storage system (automatically sanitizes)
-      await dbContentManager.saveContent(sectionId, content);
-      
-      // Also update the file-based system for backwards compatibility
-      try {
-        await contentManager.updateSection(sectionId as any, content);
-        contentManager.clearCache();
-      } catch (error) {
-        console.warn("File-based content update failed, continuing with database:", error);
-      }
-      
-      // Comprehensive cache invalidation
-      await cacheSync.invalidateContentCache({
-        invalidatePortfolio: true,
-        invalidateContent: true,
-        invalidateSpecific: [
-          `route:/content/${sectionId}`,
-          `route:/api/portfolio/content/${sectionId}`,
-          'route:/content/about',
-          'route:/api/portfolio/content'
-        ],
-        broadcastUpdate: true
-      });
-      
-      console.log(`Clean content saved and cache invalidated for ${sectionId}`);
-      
-      // Return the sanitized content from database
-      const verifyContent = await dbContentManager.getContent(sectionId);
-      console.log(`Verified clean content for ${sectionId}:`, verifyContent);
-      
-      res.json({ 
-        success: true, 
-        message: "Content updated with clean storage system",
-        sectionId,
-        content: verifyContent,
-        lastUpdated: new Date().toISOString()
-      });
-    } catch (error) {
-      console.error("Error updating portfolio content:", error);
-      res.status(500).json({ message: "Failed to update portfolio content" });
+  app.put("/api/portfolio/content/:sectionId", requirePermission("content:write"), asyncHandler(async (req, res) => {
+    const sectionId = req.params.sectionId;
+    const before = await getEditableContent(sectionId);
+
+    // Save into the section's draft (validated, then sanitized)
+    const saved = await saveSectionDraft(req, sectionId, req.body, "Content updated");
+
+    // Return the sanitized draft as stored
+    const verifyContent = saved.content;
+
+    await auditService.record(req, {
+      action: "content.update",
+      entityType: "content_section",
+      entityId: sectionId,
+      before,
+      after: verifyContent,
+    });
+
+    res.json({
+      success: true,
+      message: "Draft saved",
+      sectionId,
+      content: verifyContent,
+      version: saved.version,
+      lastUpdated: new Date().toISOString()
+    });
+  }));
+
+  // Content version rollback endpoint. The old content is saved again as a
+  // new draft version, so the history in between is kept.
+  app.post("/api/admin/content/:sectionId/rollback/:versionId", requirePermission("content:write"), asyncHandler(async (req, res) => {
+    const { sectionId } = req.params;
+    const versionId = parseInt(req.params.versionId);
+    if (isNaN(versionId)) {
+      throw AppError.badRequest("Valid version ID required");
     }
-  });
 
-  // Content version rollback endpoint
-  app.post("/api/admin/content/:sectionId/rollback/:versionId", isAdmin, async (req, res) => {
-    try {
-      const { sectionId, versionId } = req.params;
-      
-      // Get the version content
-      const versions = await storage.getContentVersions(sectionId);
-      const targetVersion = versions.find(v => v.id === parseInt(versionId));
-      
-      if (!targetVersion) {
-        return res.status(404).json({ message: "Version not found" });
-      }
-      
-      // Create backup of current content
-      const currentContent = await contentManager.getSection(sectionId as any);
-      await storage.createContentVersion({
-        sectionId,
-        content: currentContent,
-        version: 1,
-        changeSummary: `Backup before rollback to version ${targetVersion.version}`,
-        createdBy: "admin",
-        publishedAt: new Date(),
-      });
-      
-      // Restore the target version
-      await contentManager.updateSection(sectionId as any, targetVersion.content);
-      
-      res.json({ 
-        success: true, 
-        message: `Successfully rolled back to version ${targetVersion.version}`,
-        restoredVersion: targetVersion.version
-      });
-    } catch (error) {
-      console.error("Error rolling back content:", error);
-      res.status(500).json({ message: "Failed to rollback content" });
+    const targetVersion = await dbContentManager.getVersionById(versionId);
+    if (!targetVersion || targetVersion.sectionId !== sectionId) {
+      throw AppError.notFound("Version not found");
     }
-  });
 
-  app.post("/api/admin/content/sections/:sectionId/publish", isAdmin, async (req, res) => {
-    try {
-      const sectionId = req.params.sectionId;
-      
-      // In real implementation: 
-      // 1. Move content from draft to published
-      // 2. Regenerate static site
-      // 3. Update live portfolio
-      
-      res.json({ 
-        success: true, 
-        message: "Content published successfully",
-        sectionId,
-        publishedAt: new Date().toISOString()
-      });
-    } catch (error) {
-      console.error("Error publishing content:", error);
-      res.status(500).json({ message: "Failed to publish content" });
+    const currentContent = await getEditableContent(sectionId);
+    const saved = await saveSectionDraft(req, sectionId, targetVersion.content, `Rolled back to version ${targetVersion.version}`);
+
+    await auditService.record(req, {
+      action: "content.rollback",
+      entityType: "content_section",
+      entityId: sectionId,
+      before: currentContent,
+      after: targetVersion.content,
+    });
+
+    res.json({
+      success: true,
+      message: `Version ${targetVersion.version} restored as the draft, publish it to go live`,
+      restoredVersion: targetVersion.version,
+      version: saved.version
+    });
+  }));
+
+  // Draft and live state of a section, for the editors
+  app.get("/api/admin/content/drafts/:sectionId", requirePermission("content:read"), asyncHandler(async (req, res) => {
+    const { sectionId } = req.params;
+    const section = await dbContentManager.getSection(sectionId);
+
+    res.json({
+      sectionId,
+      content: await getEditableContent(sectionId),
+      status: section?.status ?? "published",
+      hasDraft: !!section?.draftContent,
+      draftUpdatedAt: section?.draftUpdatedAt ?? null,
+      draftUpdatedBy: section?.draftUpdatedBy ?? null,
+      version: section?.version ?? null,
+      publishedVersion: section?.publishedVersion ?? null,
+      publishedAt: section?.publishedAt ?? null,
+      publishAt: section?.publishAt ?? null,
+      unpublishAt: section?.unpublishAt ?? null,
+    });
+  }));
+
+  // Make the section's draft the live content
+  app.post("/api/admin/content/sections/:sectionId/publish", requirePermission("content:write"), asyncHandler(async (req, res) => {
+    const { sectionId } = req.params;
+    const before = await dbContentManager.getContent(sectionId);
+
+    const section = await publishingService.publishSection(sectionId);
+    if (!section) {
+      throw AppError.conflict("There is no draft to publish");
+    }
+
+    await auditService.record(req, {
+      action: "content.publish",
+      entityType: "content_section",
+      entityId: sectionId,
+      before,
+      after: section.content,
+    });
+    await webhookService.emit("content.updated", {
+      sectionId,
+      version: section.publishedVersion,
+      publishedAt: section.publishedAt,
+    });
+
+    res.json({
+      success: true,
+      message: "Content published successfully",
+      sectionId,
+      version: section.publishedVersion,
+      publishedAt: section.publishedAt
+    });
+  }));
+
+  // Throw away unpublished edits; the live content is unchanged
+  app.delete("/api/admin/content/drafts/:sectionId", requirePermission("content:write"), asyncHandler(async (req, res) => {
+    const { sectionId } = req.params;
+    const section = await dbContentManager.getSection(sectionId);
+
+    if (!(await dbContentManager.discardDraft(sectionId))) {
+      throw AppError.notFound("There is no draft to discard");
     }
+
+    await auditService.record(req, {
+      action: "content.discard_draft",
+      entityType: "content_section",
+      entityId: sectionId,
+      before: section?.draftContent,
+    });
+
+    res.json({ success: true, message: "Draft discarded", sectionId });
+  }));
+
+  // Signed load time for the contact form's minimum fill time check
+  app.get("/api/contact/form-token", publicRoute, (req, res) => {
+    res.set("Cache-Control", "no-store");
+    res.json({ token: createFormToken(env.SESSION_SECRET) });
   });
 
   // Contact form submission endpoint
-  app.post("/api/contact", async (req, res) => {
+  app.post("/api/contact", publicRoute, contactIpThrottle, contactEmailThrottle, async (req, res) => {
     try {
       const validatedData = insertContactSubmissionSchema.parse(req.body);
-      
-      const submission = await storage.createContactSubmission(validatedData);
-      
+
+      const recent = await storage.getContactMessagesSince(new Date(Date.now() - 7 * 24 * 60 * 60 * 1000));
+      const screening = scoreSubmission(env.SESSION_SECRET, {
+        ...validatedData,
+        honeypot: req.body.website,
+        formToken: req.body.formToken,
+        recentMessages: recent.map((r) => normalizeMessage(r.message)),
+      });
+
+      const submission = await storage.createContactSubmission(validatedData, {
+        isSpam: screening.isSpam,
+        spamScore: screening.score,
+        spamReasons: screening.reasons,
+      });
+
+      if (screening.isSpam) {
+        moduleLogger.warn({ id: submission.id, score: screening.score, reasons: screening.reasons }, "Contact submission flagged as spam");
+      }
+      await emailService.notifyContactSubmission(submission);
+      if (!submission.isSpam) {
+        await webhookService.emit("contact.created", contactEventData(submission));
+      }
+
+      // Flagged senders get the same answer, so bots learn nothing from it
       res.json({ 
         success: true, 
         message: "Thank you for your message! I will get back to you soon.",
@@ -1315,24 +1453,12 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  // Get contact submissions (for admin purposes)
-  app.get("/api/contact", async (req, res) => {
-    try {
-      const submissions = await storage.getContactSubmissions();
-      res.json(submissions);
-    } catch (error) {
-      console.error("Error fetching contact submissions:", error);
-      res.status(500).json({
-        success: false,
-        message: "Failed to fetch contact submissions"
-      });
-    }
-  });
-
   // Portfolio content endpoints for live website with caching - NEW DATABASE VERSION
-  app.get("/api/portfolio/content", cacheMiddleware(300), async (req, res) => {
+  app.get("/api/portfolio/content", publicRoute, loadPreview, cacheMiddleware(300), async (req, res) => {
     try {
-      const content = await dbContentManager.getAllContent();
+      const content = req.preview
+        ? await previewService.getAllContent()
+        : await dbContentManager.getAllContent();
       res.json(content);
     } catch (error) {
       console.error("Error fetching portfolio content:", error);
@@ -1340,20 +1466,12 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.get("/api/portfolio/content/:section", cacheMiddleware(300), async (req, res) => {
+  app.get("/api/portfolio/content/:section", publicRoute, loadPreview, cacheMiddleware(300), async (req, res) => {
     try {
       const sectionId = req.params.section;
-      let content = await dbContentManager.getContent(sectionId);
-      
-      if (!content) {
-        // Fallback to default content if not found in database
-        const defaultContent = await contentManager.getSection(sectionId as any);
-        if (defaultContent) {
-          // Migrate to database
-          await dbContentManager.saveContent(sectionId, defaultContent);
-          content = defaultContent;
-        }
-      }
+      const content = req.preview
+        ? await previewService.getContent(sectionId)
+        : await dbContentManager.getContent(sectionId);
 
       // For hero section, ensure we return the enhanced structure expected by the component
       if (sectionId === 'hero' && content) {
@@ -1451,7 +1569,7 @@ What would be most helpful for your current career goals?`;
   });
 
   // Experience/Timeline routes
-  app.get("/api/admin/experience", isAdmin, async (req, res) => {
+  app.get("/api/admin/experience", requirePermission("content:read"), async (req, res) => {
     try {
       const entries = await storage.getExperienceEntries();
       res.json(entries);
@@ -1461,11 +1579,17 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.post("/api/admin/experience", isAdmin, async (req, res) => {
+  app.post("/api/admin/experience", requirePermission("content:write"), async (req, res) => {
     try {
       const { insertExperienceEntrySchema } = await import("../shared/schema");
       const validatedData = insertExperienceEntrySchema.parse(req.body);
       const entry = await storage.createExperienceEntry(validatedData);
+      await auditService.record(req, {
+        action: "experience.create",
+        entityType: "experience",
+        entityId: entry.id,
+        after: entry,
+      });
       
       // Invalidate timeline caches
       cache.deletePattern('route:/timeline');
@@ -1482,36 +1606,50 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.put("/api/admin/experience/:id", isAdmin, async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid entry ID" });
-      }
-      const entry = await storage.updateExperienceEntry(id, req.body);
-      
-      // Invalidate timeline caches
-      cache.deletePattern('route:/timeline');
-      cache.deletePattern('route:/api/portfolio/timeline');
-      cache.deletePattern('portfolio:timeline');
-      cache.delete('content:timeline');
-      
-      console.log('Timeline cache invalidated after experience update', { entryId: id });
-      
-      res.json(entry);
-    } catch (error) {
-      console.error("Error updating experience entry:", error);
-      res.status(500).json({ message: "Failed to update experience entry" });
+  app.put("/api/admin/experience/:id", requirePermission("content:write"), asyncHandler(async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      throw AppError.badRequest("Invalid entry ID");
     }
-  });
 
-  app.delete("/api/admin/experience/:id", isAdmin, async (req, res) => {
+    const expected = expectedVersion(req);
+    const before = await storage.getExperienceEntry(id);
+    const entry = await storage.updateExperienceEntry(id, withoutVersionFields(req.body), expected);
+    if (!entry) {
+      throw await missedUpdateError(() => storage.getExperienceEntry(id), "Experience entry not found");
+    }
+
+    await auditService.record(req, {
+      action: "experience.update",
+      entityType: "experience",
+      entityId: id,
+      before,
+      after: entry,
+    });
+
+    // Invalidate timeline caches
+    cache.deletePattern('route:/timeline');
+    cache.deletePattern('route:/api/portfolio/timeline');
+    cache.deletePattern('portfolio:timeline');
+    cache.delete('content:timeline');
+
+    sendVersioned(res, entry);
+  }));
+
+  app.delete("/api/admin/experience/:id", requirePermission("content:write"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid entry ID" });
       }
+      const before = await storage.getExperienceEntry(id);
       await storage.deleteExperienceEntry(id);
+      await auditService.record(req, {
+        action: "experience.delete",
+        entityType: "experience",
+        entityId: id,
+        before,
+      });
       
       // Invalidate timeline caches
       cache.deletePattern('route:/timeline');
@@ -1529,7 +1667,7 @@ What would be most helpful for your current career goals?`;
   });
 
   // Skills routes
-  app.get("/api/admin/skills", isAdmin, async (req, res) => {
+  app.get("/api/admin/skills", requirePermission("content:read"), async (req, res) => {
     try {
       const skills = await storage.getSkills();
       res.json(skills);
@@ -1539,7 +1677,7 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.get("/api/admin/skill-categories", isAdmin, async (req, res) => {
+  app.get("/api/admin/skill-categories", requirePermission("content:read"), async (req, res) => {
     try {
       const categories = await storage.getSkillCategories();
       res.json(categories);
@@ -1549,11 +1687,17 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.post("/api/admin/skill-categories", isAdmin, async (req, res) => {
+  app.post("/api/admin/skill-categories", requirePermission("content:write"), async (req, res) => {
     try {
       const { insertSkillCategorySchema } = await import("@shared/schema");
       const validatedData = insertSkillCategorySchema.parse(req.body);
       const category = await storage.createSkillCategory(validatedData);
+      await auditService.record(req, {
+        action: "skill_category.create",
+        entityType: "skill_category",
+        entityId: category.id,
+        after: category,
+      });
       res.json(category);
     } catch (error) {
       console.error("Error creating skill category:", error);
@@ -1561,14 +1705,22 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.put("/api/admin/skill-categories/:id", isAdmin, async (req, res) => {
+  app.put("/api/admin/skill-categories/:id", requirePermission("content:write"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid category ID" });
       }
       
+      const before = (await storage.getSkillCategories()).find((c) => c.id === id);
       const category = await storage.updateSkillCategory(id, req.body);
+      await auditService.record(req, {
+        action: "skill_category.update",
+        entityType: "skill_category",
+        entityId: id,
+        before,
+        after: category,
+      });
       res.json(category);
     } catch (error) {
       console.error("Error updating skill category:", error);
@@ -1576,14 +1728,21 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.delete("/api/admin/skill-categories/:id", isAdmin, async (req, res) => {
+  app.delete("/api/admin/skill-categories/:id", requirePermission("content:write"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid category ID" });
       }
       
+      const before = (await storage.getSkillCategories()).find((c) => c.id === id);
       await storage.deleteSkillCategory(id);
+      await auditService.record(req, {
+        action: "skill_category.delete",
+        entityType: "skill_category",
+        entityId: id,
+        before,
+      });
       res.json({ message: "Skill category deleted successfully" });
     } catch (error) {
       console.error("Error deleting skill category:", error);
@@ -1591,11 +1750,17 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.post("/api/admin/skills", isAdmin, async (req, res) => {
+  app.post("/api/admin/skills", requirePermission("content:write"), async (req, res) => {
     try {
       const { insertSkillSchema } = await import("../shared/schema");
       const validatedData = insertSkillSchema.parse(req.body);
       const skill = await storage.createSkill(validatedData);
+      await auditService.record(req, {
+        action: "skill.create",
+        entityType: "skill",
+        entityId: skill.id,
+        after: skill,
+      });
       
       // Invalidate skills cache for live portfolio
       await cacheSync.invalidateContentCache({
@@ -1615,41 +1780,55 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.put("/api/admin/skills/:id", isAdmin, async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid skill ID" });
-      }
-      
-      const skill = await storage.updateSkill(id, req.body);
-      
-      // Invalidate skills cache for live portfolio
-      await cacheSync.invalidateContentCache({
-        invalidatePortfolio: true,
-        invalidateSpecific: [
-          'route:/skills:{}',
-          'route:/api/portfolio/skills'
-        ],
-        broadcastUpdate: true
-      });
-      
-      console.log(`Skill ${id} updated and cache invalidated`);
-      res.json(skill);
-    } catch (error) {
-      console.error("Error updating skill:", error);
-      res.status(500).json({ message: "Failed to update skill" });
+  app.put("/api/admin/skills/:id", requirePermission("content:write"), asyncHandler(async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      throw AppError.badRequest("Invalid skill ID");
     }
-  });
 
-  app.delete("/api/admin/skills/:id", isAdmin, async (req, res) => {
+    const expected = expectedVersion(req);
+    const before = await storage.getSkill(id);
+    const skill = await storage.updateSkill(id, withoutVersionFields(req.body), expected);
+    if (!skill) {
+      throw await missedUpdateError(() => storage.getSkill(id), "Skill not found");
+    }
+
+    await auditService.record(req, {
+      action: "skill.update",
+      entityType: "skill",
+      entityId: id,
+      before,
+      after: skill,
+    });
+
+    // Invalidate skills cache for live portfolio
+    await cacheSync.invalidateContentCache({
+      invalidatePortfolio: true,
+      invalidateSpecific: [
+        'route:/skills:{}',
+        'route:/api/portfolio/skills'
+      ],
+      broadcastUpdate: true
+    });
+
+    sendVersioned(res, skill);
+  }));
+
+  app.delete("/api/admin/skills/:id", requirePermission("content:write"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid skill ID" });
       }
       
+      const before = (await storage.getSkills()).find((s) => s.id === id);
       await storage.deleteSkill(id);
+      await auditService.record(req, {
+        action: "skill.delete",
+        entityType: "skill",
+        entityId: id,
+        before,
+      });
       
       // Invalidate skills cache for live portfolio
       await cacheSync.invalidateContentCache({
@@ -1670,7 +1849,7 @@ What would be most helpful for your current career goals?`;
   });
 
   // Portfolio Metrics routes
-  app.get("/api/admin/metrics", isAdmin, async (req, res) => {
+  app.get("/api/admin/metrics", requirePermission("content:read"), async (req, res) => {
     try {
       const metrics = await storage.getPortfolioMetrics();
       res.json(metrics);
@@ -1680,11 +1859,17 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.post("/api/admin/metrics", isAdmin, async (req, res) => {
+  app.post("/api/admin/metrics", requirePermission("content:write"), async (req, res) => {
     try {
       const { insertPortfolioMetricSchema } = await import("@shared/schema");
       const validatedData = insertPortfolioMetricSchema.parse(req.body);
       const metric = await storage.createPortfolioMetric(validatedData);
+      await auditService.record(req, {
+        action: "metric.create",
+        entityType: "metric",
+        entityId: metric.id,
+        after: metric,
+      });
       res.json(metric);
     } catch (error) {
       console.error("Error creating portfolio metric:", error);
@@ -1692,32 +1877,30 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.put("/api/admin/metrics/:id", isAdmin, async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid metric ID" });
-      }
-      const metric = await storage.updatePortfolioMetric(id, req.body);
-      res.json(metric);
-    } catch (error) {
-      console.error("Error updating portfolio metric:", error);
-      res.status(500).json({ message: "Failed to update portfolio metric" });
+  app.put("/api/admin/metrics/:id", requirePermission("content:write"), asyncHandler(async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      throw AppError.badRequest("Invalid metric ID");
     }
-  });
 
-  // Enhanced Case Studies API routes with full CRUD operations
-  app.get("/api/admin/case-studies", isAdmin, async (req, res) => {
-    try {
-      const caseStudies = await storage.getCaseStudies();
-      res.json(caseStudies);
-    } catch (error) {
-      console.error("Error fetching case studies:", error);
-      res.status(500).json({ message: "Failed to fetch case studies" });
+    const expected = expectedVersion(req);
+    const before = await storage.getPortfolioMetric(id);
+    const metric = await storage.updatePortfolioMetric(id, withoutVersionFields(req.body), expected);
+    if (!metric) {
+      throw await missedUpdateError(() => storage.getPortfolioMetric(id), "Portfolio metric not found");
     }
-  });
 
-  app.post("/api/admin/case-studies", isAdmin, async (req, res) => {
+    await auditService.record(req, {
+      action: "metric.update",
+      entityType: "metric",
+      entityId: id,
+      before,
+      after: metric,
+    });
+    sendVersioned(res, metric);
+  }));
+
+  app.post("/api/admin/case-studies", requirePermission("content:write"), async (req, res, next) => {
     console.log("ENDPOINT REACHED: /api/admin/case-studies");
     console.log("Method:", req.method);
     console.log("Headers:", req.headers);
@@ -1754,6 +1937,7 @@ What would be most helpful for your current career goals?`;
       
       const validatedData = insertCaseStudySchema.parse(processedData);
       console.log("Validated data:", validatedData);
+      await trashService.assertSlugAvailable(validatedData.slug);
       
       const caseStudy = await storage.createCaseStudy(validatedData);
       console.log("Case study created successfully:", caseStudy.id);
@@ -1812,7 +1996,18 @@ What would be most helpful for your current career goals?`;
       
       // Clear all case study related caches
       cache.deletePattern(".*case-studies.*");
+      await cacheSync.invalidateContentCache({ invalidateSeo: true });
       
+      await auditService.record(req, {
+        action: "case_study.create",
+        entityType: "case_study",
+        entityId: caseStudy.id,
+        after: caseStudy,
+      });
+      if (caseStudy.status === "published") {
+        await webhookService.emit("case_study.published", caseStudyEventData(caseStudy));
+      }
+
       console.log("Case study created successfully:", caseStudy.id);
       console.log("Returned case study:", caseStudy);
       res.json(caseStudy);
@@ -1821,116 +2016,20 @@ What would be most helpful for your current career goals?`;
       if (error instanceof z.ZodError) {
         console.log("Validation errors:", error.errors);
         res.status(400).json({ message: "Validation error", errors: error.errors });
+      } else if (error instanceof AppError) {
+        next(error);
       } else {
         res.status(500).json({ message: "Failed to create case study" });
       }
     }
   });
 
-  app.put("/api/admin/case-studies/:id", isAdmin, async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid case study ID" });
-      }
-      
-      // Process and enhance the data before validation
-      const processedData = { ...req.body };
-      
-      // Generate slug if not provided
-      if (!processedData.slug && processedData.title) {
-        processedData.slug = processedData.title
-          .toLowerCase()
-          .replace(/[^a-z0-9\s-]/g, '')
-          .replace(/\s+/g, '-')
-          .replace(/-+/g, '-')
-          .trim();
-      }
-      
-      // Remove image fields - using separate image system
-      delete processedData.imageFile;
-      delete processedData.imageUrl;
-      
-      console.log("Updating case study:", { id, data: processedData });
-      
-      const { insertCaseStudySchema } = await import("@shared/schema");
-      const validatedData = insertCaseStudySchema.parse(processedData);
-      const caseStudy = await storage.updateCaseStudy(id, validatedData);
-      
-      // Clear all case study related caches
-      cache.deletePattern(".*case-studies.*");
-      
-      console.log("Case study updated successfully:", caseStudy.id);
-      res.json(caseStudy);
-    } catch (error) {
-      console.error("Error updating case study:", error);
-      if (error instanceof z.ZodError) {
-        res.status(400).json({ message: "Validation error", errors: error.errors });
-      } else {
-        res.status(500).json({ message: "Failed to update case study" });
-      }
-    }
-  });
-
-  app.delete("/api/admin/case-studies/:id", isAdmin, async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid case study ID" });
-      }
-      
-      // Get case study before deletion for cache invalidation
-      const caseStudy = await storage.getCaseStudy(id);
-      
-      await storage.deleteCaseStudy(id);
-      
-      // Clear all case study related caches
-      cache.deletePattern(".*case-studies.*");
-      
-      res.json({ message: "Case study deleted successfully" });
-    } catch (error) {
-      console.error("Error deleting case study:", error);
-      res.status(500).json({ message: "Failed to delete case study" });
-    }
-  });
-
-  app.patch("/api/admin/case-studies/:id/featured", isAdmin, async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid case study ID" });
-      }
-      const { featured } = req.body;
-      const caseStudy = await storage.updateCaseStudyFeatured(id, featured);
-      
-      // Clear featured list caches after toggle
-      cache.delete("route:/case-studies/featured:{}");
-      cache.delete("route:/api/portfolio/case-studies/featured:{}");
-      cache.delete("route:/case-studies:{}");
-      cache.delete("route:/api/admin/case-studies:{}");
-      
-      res.json(caseStudy);
-    } catch (error) {
-      console.error("Error updating case study featured status:", error);
-      res.status(500).json({ message: "Failed to update featured status" });
-    }
-  });
-
-  app.patch("/api/admin/case-studies/reorder", isAdmin, async (req, res) => {
-    try {
-      const { studies } = req.body;
-      await storage.reorderCaseStudies(studies);
-      res.json({ message: "Case studies reordered successfully" });
-    } catch (error) {
-      console.error("Error reordering case studies:", error);
-      res.status(500).json({ message: "Failed to reorder case studies" });
-    }
-  });
-
   // Public case studies endpoints for portfolio website
-  app.get("/api/portfolio/case-studies", cacheMiddleware(300), async (req, res) => {
+  app.get("/api/portfolio/case-studies", publicRoute, loadPreview, cacheMiddleware(300), async (req, res) => {
     try {
-      const caseStudies = await storage.getPublishedCaseStudies();
+      const caseStudies = req.preview
+        ? await previewService.getCaseStudies()
+        : await storage.getPublishedCaseStudies();
       res.json(caseStudies);
     } catch (error) {
       console.error("Error fetching published case studies:", error);
@@ -1938,9 +2037,11 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.get("/api/portfolio/case-studies/featured", cacheMiddleware(300), async (req, res) => {
+  app.get("/api/portfolio/case-studies/featured", publicRoute, loadPreview, cacheMiddleware(300), async (req, res) => {
     try {
-      const featuredCaseStudies = await storage.getFeaturedCaseStudies();
+      const featuredCaseStudies = req.preview
+        ? await previewService.getFeaturedCaseStudies()
+        : await storage.getFeaturedCaseStudies();
       res.json(featuredCaseStudies);
     } catch (error) {
       console.error("Error fetching featured case studies:", error);
@@ -1948,10 +2049,12 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.get("/api/portfolio/case-studies/:slug", cacheMiddleware(300), async (req, res) => {
+  app.get("/api/portfolio/case-studies/:slug", publicRoute, loadPreview, cacheMiddleware(300), async (req, res) => {
     try {
       const slug = req.params.slug;
-      const caseStudy = await storage.getCaseStudyBySlug(slug);
+      const caseStudy = req.preview
+        ? await previewService.getCaseStudyBySlug(slug)
+        : await storage.getPublishedCaseStudyBySlug(slug);
       if (!caseStudy) {
         return res.status(404).json({ message: "Case study not found" });
       }
@@ -1962,13 +2065,20 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.delete("/api/admin/metrics/:id", isAdmin, async (req, res) => {
+  app.delete("/api/admin/metrics/:id", requirePermission("content:write"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid metric ID" });
       }
+      const before = await storage.getPortfolioMetric(id);
       await storage.deletePortfolioMetric(id);
+      await auditService.record(req, {
+        action: "metric.delete",
+        entityType: "metric",
+        entityId: id,
+        before,
+      });
       res.json({ message: "Portfolio metric deleted successfully" });
     } catch (error) {
       console.error("Error deleting portfolio metric:", error);
@@ -1977,7 +2087,7 @@ What would be most helpful for your current career goals?`;
   });
 
   // Public portfolio API routes for live website consumption
-  app.get("/api/portfolio/timeline", async (req, res) => {
+  app.get("/api/portfolio/timeline", publicRoute, async (req, res) => {
     try {
       const entries = await storage.getExperienceEntries();
       res.json(entries);
@@ -1987,7 +2097,7 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.get("/api/portfolio/skills", async (req, res) => {
+  app.get("/api/portfolio/skills", publicRoute, async (req, res) => {
     try {
       const [categories, skills] = await Promise.all([
         storage.getSkillCategories(),
@@ -2006,7 +2116,7 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.get("/api/portfolio/metrics", async (req, res) => {
+  app.get("/api/portfolio/metrics", publicRoute, async (req, res) => {
     try {
       const metrics = await storage.getPortfolioMetrics();
       res.json(metrics);
@@ -2017,7 +2127,7 @@ What would be most helpful for your current career goals?`;
   });
 
   // Core Values routes
-  app.get("/api/portfolio/core-values", async (req, res) => {
+  app.get("/api/portfolio/core-values", publicRoute, async (req, res) => {
     try {
       const coreValues = await storage.getCoreValues();
       res.json(coreValues);
@@ -2028,7 +2138,7 @@ What would be most helpful for your current career goals?`;
   });
 
   // Core Values admin routes
-  app.get("/api/admin/core-values", isAdmin, async (req, res) => {
+  app.get("/api/admin/core-values", requirePermission("content:read"), async (req, res) => {
     try {
       const coreValues = await storage.getCoreValues();
       res.json(coreValues);
@@ -2038,9 +2148,15 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.post("/api/admin/core-values", isAdmin, async (req, res) => {
+  app.post("/api/admin/core-values", requirePermission("content:write"), async (req, res) => {
     try {
       const coreValue = await storage.createCoreValue(req.body);
+      await auditService.record(req, {
+        action: "core_value.create",
+        entityType: "core_value",
+        entityId: coreValue.id,
+        after: coreValue,
+      });
 
       res.json(coreValue);
     } catch (error) {
@@ -2049,21 +2165,40 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.put("/api/admin/core-values/:id", isAdmin, async (req, res) => {
-    try {
-      const { id } = req.params;
-      const coreValue = await storage.updateCoreValue(parseInt(id), req.body);
-      res.json(coreValue);
-    } catch (error) {
-      console.error("Error updating core value:", error);
-      res.status(500).json({ message: "Failed to update core value" });
+  app.put("/api/admin/core-values/:id", requirePermission("content:write"), asyncHandler(async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      throw AppError.badRequest("Invalid core value ID");
+    }
+
+    const expected = expectedVersion(req);
+    const before = await storage.getCoreValue(id);
+    const coreValue = await storage.updateCoreValue(id, withoutVersionFields(req.body), expected);
+    if (!coreValue) {
+      throw await missedUpdateError(() => storage.getCoreValue(id), "Core value not found");
     }
-  });
 
-  app.delete("/api/admin/core-values/:id", isAdmin, async (req, res) => {
+    await auditService.record(req, {
+      action: "core_value.update",
+      entityType: "core_value",
+      entityId: id,
+      before,
+      after: coreValue,
+    });
+    sendVersioned(res, coreValue);
+  }));
+
+  app.delete("/api/admin/core-values/:id", requirePermission("content:write"), async (req, res) => {
     try {
       const { id } = req.params;
+      const before = (await storage.getCoreValues()).find((v) => v.id === parseInt(id));
       await storage.deleteCoreValue(parseInt(id));
+      await auditService.record(req, {
+        action: "core_value.delete",
+        entityType: "core_value",
+        entityId: id,
+        before,
+      });
       res.json({ message: "Core value deleted successfully" });
     } catch (error) {
       console.error("Error deleting core value:", error);
@@ -2072,7 +2207,7 @@ What would be most helpful for your current career goals?`;
   });
 
   // Portfolio Images CRUD endpoints (admin only)
-  app.get("/api/admin/portfolio-images", isAdmin, async (req, res) => {
+  app.get("/api/admin/portfolio-images", requirePermission("content:read"), async (req, res) => {
     try {
       const { section } = req.query;
       const images = await storage.getPortfolioImages(section as string);
@@ -2083,7 +2218,7 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.get("/api/admin/portfolio-images/:id", isAdmin, async (req, res) => {
+  app.get("/api/admin/portfolio-images/:id", requirePermission("content:read"), async (req, res) => {
     try {
       const { id } = req.params;
       const image = await storage.getPortfolioImage(parseInt(id));
@@ -2097,9 +2232,15 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.post("/api/admin/portfolio-images", isAdmin, async (req, res) => {
+  app.post("/api/admin/portfolio-images", requirePermission("content:write"), async (req, res) => {
     try {
       const image = await storage.createPortfolioImage(req.body);
+      await auditService.record(req, {
+        action: "portfolio_image.create",
+        entityType: "portfolio_image",
+        entityId: image.id,
+        after: image,
+      });
       res.status(201).json(image);
     } catch (error) {
       console.error("Error creating portfolio image:", error);
@@ -2107,70 +2248,60 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.put("/api/admin/portfolio-images/:id", isAdmin, async (req, res) => {
-    try {
-      const { id } = req.params;
-      const imageId = parseInt(id);
-      
-      if (isNaN(imageId)) {
-        return res.status(400).json({ 
-          message: "Invalid image ID",
-          details: "Image ID must be a valid number"
-        });
-      }
+  app.put("/api/admin/portfolio-images/:id", requirePermission("content:write"), asyncHandler(async (req, res) => {
+    const imageId = parseInt(req.params.id);
+    if (isNaN(imageId)) {
+      throw AppError.badRequest("Invalid image ID");
+    }
 
-      // Validate required fields
-      const { section, imageUrl, altText } = req.body;
-      if (!section || !imageUrl || !altText) {
-        return res.status(400).json({
-          message: "Missing required fields",
-          details: "Section, image URL, and alt text are required",
-          missing: {
-            section: !section,
-            imageUrl: !imageUrl,
-            altText: !altText
-          }
-        });
-      }
+    // Validate required fields
+    const { section, imageUrl, altText } = req.body;
+    if (!section || !imageUrl || !altText) {
+      throw AppError.badRequest("Section, image URL, and alt text are required", {
+        missing: {
+          section: !section,
+          imageUrl: !imageUrl,
+          altText: !altText
+        }
+      });
+    }
 
-      // Check if image exists
-      const existingImage = await storage.getPortfolioImage(imageId);
-      if (!existingImage) {
-        return res.status(404).json({ 
-          message: "Portfolio image not found",
-          details: `No image found with ID ${imageId}`
-        });
-      }
+    const expected = expectedVersion(req);
+    const existingImage = await storage.getPortfolioImage(imageId);
+    if (!existingImage) {
+      throw AppError.notFound("Portfolio image not found");
+    }
 
-      console.log(`Updating portfolio image ${imageId} with data:`, req.body);
-      
-      const image = await storage.updatePortfolioImage(imageId, req.body);
-      
-      // Invalidate cache for the specific section
-      await cacheSync.invalidateContentCache({
-        invalidatePortfolio: true,
-        invalidateSpecific: [
-          `route:/images/${image.section}:{}`,
-          `route:/api/portfolio/images/${image.section}`,
-          'route:/images/hero:{}',
-          'route:/images/about:{}',
-          'route:/images/profile:{}'
-        ],
-        broadcastUpdate: true
-      });
-      
-      console.log(`Successfully updated portfolio image ${imageId} and invalidated cache:`, image);
-      res.json(image);
-    } catch (error) {
-      console.error("Error updating portfolio image:", error);
-      res.status(500).json({ 
-        message: "Failed to update portfolio image",
-        details: error instanceof Error ? error.message : "Unknown error occurred"
-      });
+    const image = await storage.updatePortfolioImage(imageId, withoutVersionFields(req.body), expected);
+    if (!image) {
+      throw await missedUpdateError(() => storage.getPortfolioImage(imageId), "Portfolio image not found");
     }
-  });
 
-  app.delete("/api/admin/portfolio-images/:id", isAdmin, async (req, res) => {
+    await auditService.record(req, {
+      action: "portfolio_image.update",
+      entityType: "portfolio_image",
+      entityId: imageId,
+      before: existingImage,
+      after: image,
+    });
+
+    // Invalidate cache for the specific section
+    await cacheSync.invalidateContentCache({
+      invalidatePortfolio: true,
+      invalidateSpecific: [
+        `route:/images/${image.section}:{}`,
+        `route:/api/portfolio/images/${image.section}`,
+        'route:/images/hero:{}',
+        'route:/images/about:{}',
+        'route:/images/profile:{}'
+      ],
+      broadcastUpdate: true
+    });
+
+    sendVersioned(res, image);
+  }));
+
+  app.delete("/api/admin/portfolio-images/:id", requirePermission("content:write"), async (req, res) => {
     try {
       const { id } = req.params;
       const imageId = parseInt(id);
@@ -2179,6 +2310,12 @@ What would be most helpful for your current career goals?`;
       const image = await storage.getPortfolioImage(imageId);
       
       await storage.deletePortfolioImage(imageId);
+      await auditService.record(req, {
+        action: "portfolio_image.delete",
+        entityType: "portfolio_image",
+        entityId: imageId,
+        before: image,
+      });
       
       // Invalidate cache for the specific section and case study images
       if (image) {
@@ -2211,7 +2348,7 @@ What would be most helpful for your current career goals?`;
   });
 
   // Public endpoint for portfolio images
-  app.get("/api/portfolio/images/:section", async (req, res) => {
+  app.get("/api/portfolio/images/:section", publicRoute, async (req, res) => {
     try {
       const { section } = req.params;
       const images = await storage.getPortfolioImages(section);
@@ -2226,7 +2363,7 @@ What would be most helpful for your current career goals?`;
   const tempImages = new Map<string, { file: any, altText: string, timestamp: number }>();
 
   // Temporary image upload for case study creation
-  app.post("/api/admin/portfolio-images/case-study/temp", isAdmin, upload.single("image"), async (req, res) => {
+  app.post("/api/admin/portfolio-images/case-study/temp", requirePermission("content:write"), upload.single("image"), inspectUploads(IMAGE_KINDS), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No image file provided" });
@@ -2262,7 +2399,7 @@ What would be most helpful for your current career goals?`;
   });
 
   // Case study image upload (existing case studies)
-  app.post("/api/admin/portfolio-images/case-study/:id", isAdmin, upload.single("image"), async (req, res) => {
+  app.post("/api/admin/portfolio-images/case-study/:id", requirePermission("content:write"), upload.single("image"), inspectUploads(IMAGE_KINDS), async (req, res) => {
     try {
       const caseStudyId = parseInt(req.params.id);
       if (isNaN(caseStudyId)) {
@@ -2285,6 +2422,12 @@ What would be most helpful for your current career goals?`;
         isActive: true,
         caseStudyId,
       });
+      await auditService.record(req, {
+        action: "portfolio_image.create",
+        entityType: "portfolio_image",
+        entityId: image.id,
+        after: image,
+      });
 
       // Clear case study related caches
       cache.deletePattern(".*case-studies.*");
@@ -2298,18 +2441,25 @@ What would be most helpful for your current career goals?`;
   });
 
   // Get case study images
-  app.get("/api/portfolio/images/case-study/:id", async (req, res) => {
+  app.get("/api/portfolio/images/case-study/:id", publicRoute, async (req, res) => {
     try {
-      const cacheKey = `images/case-study/${req.params.id}`;
-      const cached = cache.get(cacheKey);
-      if (cached) {
-        return res.json(cached);
-      }
-
       const caseStudyId = parseInt(req.params.id);
       if (isNaN(caseStudyId)) {
         return res.status(400).json({ message: "Invalid case study ID" });
       }
+
+      // Checked before the cache: nothing clears the cached images when the
+      // study is trashed, archived or unpublished by the scheduler
+      const caseStudy = await storage.getCaseStudy(caseStudyId);
+      if (caseStudy?.status !== "published") {
+        return res.status(404).json({ message: "Case study not found" });
+      }
+
+      const cacheKey = `images/case-study/${caseStudyId}`;
+      const cached = cache.get(cacheKey);
+      if (cached) {
+        return res.json(cached);
+      }
       
       const images = await storage.getPortfolioImages("case-study");
       const caseStudyImages = images.filter(img => img.caseStudyId === caseStudyId);
@@ -2323,7 +2473,7 @@ What would be most helpful for your current career goals?`;
   });
 
   // Portfolio status management
-  app.get("/api/admin/portfolio-status", isAdmin, async (req, res) => {
+  app.get("/api/admin/portfolio-status", requirePermission("content:read"), async (req, res) => {
     try {
       const portfolioStatus = await storage.getPortfolioStatus();
       res.json(portfolioStatus);
@@ -2333,9 +2483,16 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.put("/api/admin/portfolio-status", isAdmin, async (req, res) => {
+  app.put("/api/admin/portfolio-status", requirePermission("content:write"), async (req, res) => {
     try {
+      const before = await storage.getPortfolioStatus();
       await storage.updatePortfolioStatus(req.body);
+      await auditService.record(req, {
+        action: "portfolio_status.update",
+        entityType: "portfolio_status",
+        before,
+        after: req.body,
+      });
       res.json({ success: true, message: "Portfolio status updated successfully" });
     } catch (error) {
       console.error("Error updating portfolio status:", error);
@@ -2344,7 +2501,7 @@ What would be most helpful for your current career goals?`;
   });
 
   // SEO Settings endpoints
-  app.get("/api/admin/seo-settings", isAdmin, async (req, res) => {
+  app.get("/api/admin/seo-settings", requirePermission("content:read"), async (req, res) => {
     try {
       const { seoSettings } = await import("@shared/schema");
       const seoData = await db.select().from(seoSettings);
@@ -2355,15 +2512,32 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.post("/api/admin/seo-settings", isAdmin, async (req, res) => {
-    try {
-      const { seoSettings } = await import("@shared/schema");
-      const validatedData = req.body;
-      
-      const result = await db
-        .insert(seoSettings)
-        .values({
-          page: validatedData.page,
+  app.post("/api/admin/seo-settings", requirePermission("content:write"), asyncHandler(async (req, res) => {
+    const { seoSettings } = await import("@shared/schema");
+    const expected = expectedVersion(req);
+    const validatedData = withoutVersionFields(req.body);
+    const [before] = await db.select().from(seoSettings).where(eq(seoSettings.page, validatedData.page));
+    
+    const result = await db
+      .insert(seoSettings)
+      .values({
+        page: validatedData.page,
+        title: validatedData.title,
+        description: validatedData.description,
+        keywords: validatedData.keywords || [],
+        ogTitle: validatedData.ogTitle,
+        ogDescription: validatedData.ogDescription,
+        ogImage: validatedData.ogImage,
+        twitterTitle: validatedData.twitterTitle,
+        twitterDescription: validatedData.twitterDescription,
+        twitterImage: validatedData.twitterImage,
+        canonicalUrl: validatedData.canonicalUrl,
+        robotsDirective: validatedData.robotsDirective || 'index,follow',
+        structuredData: validatedData.structuredData,
+      })
+      .onConflictDoUpdate({
+        target: seoSettings.page,
+        set: {
           title: validatedData.title,
           description: validatedData.description,
           keywords: validatedData.keywords || [],
@@ -2376,35 +2550,31 @@ What would be most helpful for your current career goals?`;
           canonicalUrl: validatedData.canonicalUrl,
           robotsDirective: validatedData.robotsDirective || 'index,follow',
           structuredData: validatedData.structuredData,
-        })
-        .onConflictDoUpdate({
-          target: seoSettings.page,
-          set: {
-            title: validatedData.title,
-            description: validatedData.description,
-            keywords: validatedData.keywords || [],
-            ogTitle: validatedData.ogTitle,
-            ogDescription: validatedData.ogDescription,
-            ogImage: validatedData.ogImage,
-            twitterTitle: validatedData.twitterTitle,
-            twitterDescription: validatedData.twitterDescription,
-            twitterImage: validatedData.twitterImage,
-            canonicalUrl: validatedData.canonicalUrl,
-            robotsDirective: validatedData.robotsDirective || 'index,follow',
-            structuredData: validatedData.structuredData,
-            updatedAt: new Date(),
-          },
-        })
-        .returning();
+          updatedAt: new Date(),
+          version: sql`${seoSettings.version} + 1`,
+        },
+        setWhere: expected === undefined ? undefined : eq(seoSettings.version, expected),
+      })
+      .returning();
 
-      res.json(result[0]);
-    } catch (error) {
-      console.error("Error updating SEO settings:", error);
-      res.status(500).json({ error: "Failed to update SEO settings" });
+    if (!result[0]) {
+      const [current] = await db.select().from(seoSettings).where(eq(seoSettings.page, validatedData.page));
+      throw staleWriteError(current);
     }
-  });
 
-  app.get("/api/seo/:page", async (req, res) => {
+    await auditService.record(req, {
+      action: "seo_settings.update",
+      entityType: "seo_settings",
+      entityId: validatedData.page,
+      before,
+      after: result[0],
+    });
+    await cacheSync.invalidateContentCache({ invalidateSeo: true });
+
+    sendVersioned(res, result[0]);
+  }));
+
+  app.get("/api/seo/:page", publicRoute, async (req, res) => {
     try {
       const { seoSettings } = await import("@shared/schema");
       const { eq } = await import("drizzle-orm");
@@ -2427,7 +2597,7 @@ What would be most helpful for your current career goals?`;
   });
 
   // System monitoring endpoints
-  app.get("/api/admin/system/metrics", isAdmin, async (req, res) => {
+  app.get("/api/admin/system/metrics", requirePermission("system:manage"), async (req, res) => {
     try {
       const { performanceMonitor } = await import("./performance");
       const metrics = performanceMonitor.getMetrics();
@@ -2438,7 +2608,7 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.get("/api/admin/system/logs", isAdmin, async (req, res) => {
+  app.get("/api/admin/system/logs", requirePermission("system:manage"), async (req, res) => {
     try {
       const { logger } = await import("./logger");
       const { level, limit } = req.query;
@@ -2453,7 +2623,7 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.get("/api/admin/system/health", isAdmin, async (req, res) => {
+  app.get("/api/admin/system/health", requirePermission("system:manage"), async (req, res) => {
     try {
       // Check database connection
       let dbStatus = 'online';
@@ -2490,7 +2660,7 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.get("/api/admin/system/slowest-endpoints", isAdmin, async (req, res) => {
+  app.get("/api/admin/system/slowest-endpoints", requirePermission("system:manage"), async (req, res) => {
     try {
       const { performanceMonitor } = await import("./performance");
       const { limit } = req.query;
@@ -2505,11 +2675,17 @@ What would be most helpful for your current career goals?`;
   });
 
   // Backup and restore endpoints
-  app.post("/api/admin/backup/create", isAdmin, async (req, res) => {
+  app.post("/api/admin/backup/create", requirePermission("backups:manage"), async (req, res) => {
     try {
       const { backupManager } = await import("./backup");
       const { description } = req.body;
       const fileName = await backupManager.createBackup(description);
+      await auditService.record(req, {
+        action: "backup.create",
+        entityType: "backup",
+        entityId: fileName,
+        after: { fileName, description },
+      });
       res.json({ fileName, message: "Backup created successfully" });
     } catch (error) {
       console.error("Error creating backup:", error);
@@ -2517,7 +2693,7 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.get("/api/admin/backup/list", isAdmin, async (req, res) => {
+  app.get("/api/admin/backup/list", requirePermission("backups:manage"), async (req, res) => {
     try {
       const { backupManager } = await import("./backup");
       const backups = await backupManager.listBackups();
@@ -2528,11 +2704,16 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.post("/api/admin/backup/restore/:fileName", isAdmin, async (req, res) => {
+  app.post("/api/admin/backup/restore/:fileName", requirePermission("backups:manage"), async (req, res) => {
     try {
       const { backupManager } = await import("./backup");
       const { fileName } = req.params;
       await backupManager.restoreBackup(fileName);
+      await auditService.record(req, {
+        action: "backup.restore",
+        entityType: "backup",
+        entityId: fileName,
+      });
       res.json({ message: "Backup restored successfully" });
     } catch (error) {
       console.error("Error restoring backup:", error);
@@ -2540,11 +2721,16 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.delete("/api/admin/backup/:fileName", isAdmin, async (req, res) => {
+  app.delete("/api/admin/backup/:fileName", requirePermission("backups:manage"), async (req, res) => {
     try {
       const { backupManager } = await import("./backup");
       const { fileName } = req.params;
       await backupManager.deleteBackup(fileName);
+      await auditService.record(req, {
+        action: "backup.delete",
+        entityType: "backup",
+        entityId: fileName,
+      });
       res.json({ message: "Backup deleted successfully" });
     } catch (error) {
       console.error("Error deleting backup:", error);
@@ -2553,7 +2739,7 @@ What would be most helpful for your current career goals?`;
   });
 
   // Search API endpoints
-  app.get("/api/search", async (req, res) => {
+  app.get("/api/search", publicRoute, async (req, res) => {
     try {
       const { searchEngine } = await import("./search");
       const { q: query, type, limit, offset, sortBy, sortOrder } = req.query;
@@ -2571,7 +2757,8 @@ What would be most helpful for your current career goals?`;
         offset: offset ? parseInt(offset as string) : 0,
         sortBy: sortBy as string,
         sortOrder: (sortOrder as 'asc' | 'desc') || 'desc',
-        includeContent: false
+        includeContent: false,
+        publishedOnly: true
       };
 
       const results = await searchEngine.search(query, filters, options);
@@ -2582,7 +2769,7 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.get("/api/admin/search", isAdmin, async (req, res) => {
+  app.get("/api/admin/search", requirePermission("content:read"), async (req, res) => {
     try {
       const { searchEngine } = await import("./search");
       const { q: query, type, limit, offset, includeContent } = req.query;
@@ -2609,7 +2796,7 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.post("/api/admin/search/reindex", isAdmin, async (req, res) => {
+  app.post("/api/admin/search/reindex", requirePermission("system:manage"), async (req, res) => {
     try {
       const { searchEngine } = await import("./search");
       await searchEngine.rebuildSearchIndex();
@@ -2621,7 +2808,7 @@ What would be most helpful for your current career goals?`;
   });
 
   // Workflow automation endpoints
-  app.get("/api/admin/workflows", isAdmin, async (req, res) => {
+  app.get("/api/admin/workflows", requirePermission("workflows:manage"), async (req, res) => {
     try {
       const { workflowManager } = await import("./workflow");
       const workflows = workflowManager.getWorkflows();
@@ -2632,7 +2819,7 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.get("/api/admin/workflows/:id", isAdmin, async (req, res) => {
+  app.get("/api/admin/workflows/:id", requirePermission("workflows:manage"), async (req, res) => {
     try {
       const { workflowManager } = await import("./workflow");
       const { id } = req.params;
@@ -2649,11 +2836,17 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.post("/api/admin/workflows/:id/execute", isAdmin, async (req, res) => {
+  app.post("/api/admin/workflows/:id/execute", requirePermission("workflows:manage"), async (req, res) => {
     try {
       const { workflowManager } = await import("./workflow");
       const { id } = req.params;
       const execution = await workflowManager.executeWorkflow(id, true);
+      await auditService.record(req, {
+        action: "workflow.execute",
+        entityType: "workflow",
+        entityId: id,
+        after: { executionId: execution.id, status: execution.status },
+      });
       res.json(execution);
     } catch (error) {
       console.error("Error executing workflow:", error);
@@ -2661,15 +2854,23 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.post("/api/admin/workflows/:id/toggle", isAdmin, async (req, res) => {
+  app.post("/api/admin/workflows/:id/toggle", requirePermission("workflows:manage"), async (req, res) => {
     try {
       const { workflowManager } = await import("./workflow");
       const { id } = req.params;
+      const before = workflowManager.getWorkflow(id)?.isActive;
       const success = workflowManager.toggleWorkflow(id);
       
       if (!success) {
         return res.status(404).json({ error: "Workflow not found" });
       }
+      await auditService.record(req, {
+        action: "workflow.toggle",
+        entityType: "workflow",
+        entityId: id,
+        before: { isActive: before },
+        after: { isActive: !before },
+      });
       
       res.json({ message: "Workflow toggled successfully" });
     } catch (error) {
@@ -2678,7 +2879,7 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.get("/api/admin/workflow-executions", isAdmin, async (req, res) => {
+  app.get("/api/admin/workflow-executions", requirePermission("workflows:manage"), async (req, res) => {
     try {
       const { workflowManager } = await import("./workflow");
       const { workflowId } = req.query;
@@ -2691,7 +2892,7 @@ What would be most helpful for your current career goals?`;
   });
 
   // Cache management endpoints
-  app.get("/api/admin/cache/stats", isAdmin, async (req, res) => {
+  app.get("/api/admin/cache/stats", requirePermission("system:manage"), async (req, res) => {
     try {
       const { cache } = await import("./cache");
       const stats = cache.getStats();
@@ -2702,7 +2903,7 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.post("/api/admin/cache/clear", isAdmin, async (req, res) => {
+  app.post("/api/admin/cache/clear", requirePermission("system:manage"), async (req, res) => {
     try {
       // Clear the route cache for all content endpoints
       const contentRoutes = [
@@ -2728,7 +2929,7 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.get("/api/admin/cache/top-entries", isAdmin, async (req, res) => {
+  app.get("/api/admin/cache/top-entries", requirePermission("system:manage"), async (req, res) => {
     try {
       const { cache } = await import("./cache");
       const { limit } = req.query;
@@ -2741,7 +2942,7 @@ What would be most helpful for your current career goals?`;
   });
 
   // System optimization endpoints
-  app.post("/api/admin/optimize", isAdmin, async (req, res) => {
+  app.post("/api/admin/optimize", requirePermission("system:manage"), async (req, res) => {
     try {
       const { systemOptimizer } = await import("./optimization");
       const report = await systemOptimizer.runComprehensiveOptimization();
@@ -2752,7 +2953,7 @@ What would be most helpful for your current career goals?`;
     }
   });
 
-  app.get("/api/admin/performance-report", isAdmin, async (req, res) => {
+  app.get("/api/admin/performance-report", requirePermission("system:manage"), async (req, res) => {
     try {
       const { systemOptimizer } = await import("./optimization");
       const report = await systemOptimizer.generatePerformanceReport();
@@ -2763,6 +2964,9 @@ What would be most helpful for your current career goals?`;
     }
   });
 
+  // Every route above must declare who may call it
+  verifyRoutePolicies(app);
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,77 @@
+/**
+ * One-shot migration of the portfolio content file into content_sections,
+ * after which the database is the only content store.
+ *
+ *   npm run content:migrate -- [--dry-run] [--file=path/to/portfolio-content.json]
+ *
+ * Sections the database does not have yet are published from the file.
+ * Where both have a section and they differ, the database copy stays live
+ * and the file copy is saved as a draft to review, unless the section
+ * already has a draft. Every conflict is listed with its field changes.
+ * Running it again is safe: matching sections are left unchanged.
+ */
+import { contentFile, CONTENT_FILE_PATH, defaultPortfolioContent } from "../contentFile";
+import { contentTransferService } from "../services/contentTransferService";
+import type { ContentImportReport } from "../services/contentTransferService";
+
+function parseArgs(argv: string[]) {
+  const fileArg = argv.find((arg) => arg.startsWith("--file="));
+  return {
+    dryRun: argv.includes("--dry-run"),
+    filePath: fileArg ? fileArg.slice("--file=".length) : CONTENT_FILE_PATH,
+  };
+}
+
+function printReport(report: ContentImportReport) {
+  console.log(report.dryRun ? "Dry run, nothing was changed.\n" : "");
+  for (const section of report.sections) {
+    console.log(`${section.sectionId.padEnd(12)} ${section.action.padEnd(14)} ${section.resolution}`);
+    for (const change of section.action === "conflict" ? section.changes : []) {
+      console.log(`    ${change.kind.padEnd(8)} ${change.path}`);
+    }
+  }
+
+  for (const entry of report.invalid) {
+    console.log(`${entry.sectionId.padEnd(12)} ${"invalid".padEnd(14)} skipped`);
+    for (const issue of entry.issues) {
+      console.log(`    ${issue.path || "(section)"}: ${issue.message}`);
+    }
+  }
+
+  const { summary } = report;
+  console.log(
+    `\n${summary.import} imported, ${summary.unchanged} unchanged, ` +
+      `${summary.conflict} conflicts, ${summary.database_only} only in the database, ` +
+      `${report.invalid.length} invalid`
+  );
+}
+
+async function main() {
+  const { dryRun, filePath } = parseArgs(process.argv.slice(2));
+
+  let sections;
+  try {
+    sections = await contentFile.read(filePath);
+    console.log(`Reconciling ${filePath} with the database`);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error;
+    }
+    sections = contentFile.parse(defaultPortfolioContent);
+    console.log(`${filePath} not found, seeding from the built-in default content`);
+  }
+
+  const report = await contentTransferService.importContent(sections, {
+    dryRun,
+    createdBy: "migration",
+    source: "content file migration",
+  });
+  printReport(report);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Content migration failed:", error);
+    process.exit(1);
+  });
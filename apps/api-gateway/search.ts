@@ -22,6 +22,8 @@ export interface SearchOptions {
   sortOrder?: 'asc' | 'desc';
   includeContent?: boolean;
   fuzzy?: boolean;
+  // Public search: published case studies and content only, no knowledge base
+  publishedOnly?: boolean;
 }
 
 export interface SearchResult<T = any> {
@@ -90,7 +92,7 @@ class SearchEngine {
       }
 
       // Search knowledge base
-      if (!filters.type || filters.type === 'knowledge-base') {
+      if (!options.publishedOnly && (!filters.type || filters.type === 'knowledge-base')) {
         const knowledgeResults = await this.searchKnowledgeBase(query, filters, options);
         results.push(...knowledgeResults);
       }
@@ -169,6 +171,10 @@ class SearchEngine {
         );
       }
 
+      if (options.publishedOnly) {
+        whereConditions.push(eq(schema.caseStudies.status, 'published'));
+      }
+
       if (filters.status?.length) {
         whereConditions.push(
           sql`${schema.caseStudies.featured} IN (${filters.status.includes('featured') ? 'true' : 'false'})`
@@ -223,6 +229,10 @@ class SearchEngine {
         );
       }
 
+      if (options.publishedOnly) {
+        whereConditions.push(eq(schema.contentSections.status, 'published'));
+      }
+
       const contentSections = await db
         .select()
         .from(schema.contentSections)
@@ -242,7 +252,8 @@ class SearchEngine {
           version: section.version,
           lastUpdated: section.lastUpdated
         },
-        data: section
+        // Search covers the live copy, never unpublished drafts
+        data: { ...section, draftContent: null, draftUpdatedAt: null, draftUpdatedBy: null }
       }));
     } catch (error) {
       logger.error('Content search failed', { error });
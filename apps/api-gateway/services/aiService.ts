@@ -8,7 +8,7 @@ import {
   knowledgeBaseDocuments,
   aiAnalysisResults 
 } from "../../shared/schema";
-import { eq, desc, and } from "drizzle-orm";
+import { eq, desc, and, isNull } from "drizzle-orm";
 import { env, logger, withModule } from "@shared-utils";
 
 const moduleLogger = withModule('aiService');
@@ -262,7 +262,7 @@ COMMUNICATION STYLE:
       
       const documents = await db.select()
         .from(knowledgeBaseDocuments)
-        .where(eq(knowledgeBaseDocuments.status, "embedded"))
+        .where(and(eq(knowledgeBaseDocuments.status, "embedded"), isNull(knowledgeBaseDocuments.deletedAt)))
         .limit(limit * 2); // Get more to filter
       
       // Simple relevance scoring based on keyword matches
@@ -0,0 +1,117 @@
+import crypto from "crypto";
+import { storage } from "../storage";
+import { AppError, withModule } from "../../../packages/shared-utils";
+import {
+  hasPermission,
+  type ApiToken,
+  type Permission,
+  type PublicApiToken,
+  type PublicUser,
+  type User,
+} from "../../shared/schema";
+
+const moduleLogger = withModule("apiTokens");
+
+// Recognisable in logs and secret scanners
+export const API_TOKEN_PREFIX = "pat_";
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6;
+const MAX_TOKENS_PER_USER = 20;
+
+export function hashApiToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export interface CreatedApiToken {
+  // Only returned at creation time
+  token: string;
+  apiToken: PublicApiToken;
+}
+
+export class ApiTokenService {
+  toPublicToken(token: ApiToken): PublicApiToken {
+    const { tokenHash, ...publicToken } = token;
+    return publicToken;
+  }
+
+  async list(userId: number): Promise<PublicApiToken[]> {
+    const tokens = await storage.getApiTokensForUser(userId);
+    return tokens.map((token) => this.toPublicToken(token));
+  }
+
+  async create(
+    user: PublicUser,
+    data: { name: string; scopes: Permission[]; expiresInDays?: number }
+  ): Promise<CreatedApiToken> {
+    // A token can never do more than the account that created it
+    const notGranted = data.scopes.filter(
+      (scope) => !hasPermission(user.role, scope)
+    );
+    if (notGranted.length > 0) {
+      throw AppError.badRequest("Scopes exceed your role's permissions", {
+        scopes: notGranted,
+      });
+    }
+
+    const existing = await storage.getApiTokensForUser(user.id);
+    if (existing.length >= MAX_TOKENS_PER_USER) {
+      throw AppError.conflict(
+        `Token limit reached (${MAX_TOKENS_PER_USER}), revoke an unused token first`
+      );
+    }
+
+    const token = API_TOKEN_PREFIX + crypto.randomBytes(32).toString("base64url");
+    const created = await storage.createApiToken({
+      userId: user.id,
+      name: data.name,
+      tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+      tokenHash: hashApiToken(token),
+      scopes: Array.from(new Set(data.scopes)),
+      expiresAt: data.expiresInDays
+        ? new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000)
+        : null,
+    });
+
+    moduleLogger.info({ userId: user.id, tokenId: created.id }, "API token created");
+    return { token, apiToken: this.toPublicToken(created) };
+  }
+
+  async revoke(userId: number, tokenId: number): Promise<void> {
+    if (!(await storage.deleteApiToken(tokenId, userId))) {
+      throw AppError.notFound("API token not found");
+    }
+    moduleLogger.info({ userId, tokenId }, "API token revoked");
+  }
+
+  /**
+   * Resolves a bearer token to its owner, or null when it is unknown or
+   * expired. Successful use is recorded without holding up the request.
+   */
+  async authenticate(
+    rawToken: string,
+    ipAddress: string | null
+  ): Promise<{ user: User; token: ApiToken } | null> {
+    if (!rawToken.startsWith(API_TOKEN_PREFIX)) {
+      return null;
+    }
+
+    const token = await storage.getApiTokenByHash(hashApiToken(rawToken));
+    if (!token || (token.expiresAt && token.expiresAt.getTime() <= Date.now())) {
+      return null;
+    }
+
+    const user = await storage.getUser(token.userId);
+    if (!user) {
+      return null;
+    }
+
+    storage
+      .recordApiTokenUse(token.id, ipAddress)
+      .catch((error) =>
+        moduleLogger.error({ error, tokenId: token.id }, "Failed to record API token use")
+      );
+
+    return { user, token };
+  }
+}
+
+export const apiTokenService = new ApiTokenService();
@@ -0,0 +1,102 @@
+import type { Request } from "express";
+import { storage, type AuditEventFilters } from "../storage";
+import type { AuditEvent } from "../../shared/schema";
+import { withModule } from "../../../packages/shared-utils";
+
+const moduleLogger = withModule("audit");
+
+// Credential-like fields are never written to the audit trail
+const REDACTED_KEY = /password|secret|token|recoverycode/i;
+
+export interface AuditEventInput {
+  action: string;
+  entityType: string;
+  entityId?: string | number | null;
+  before?: unknown;
+  after?: unknown;
+}
+
+export type AuditDiff = Record<string, { before: unknown; after: unknown }>;
+
+function redact(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, v]) => [
+        key,
+        REDACTED_KEY.test(key) ? "[redacted]" : redact(v),
+      ])
+    );
+  }
+  return value;
+}
+
+// Top-level fields whose values differ between two snapshots
+export function diffSnapshots(before: unknown, after: unknown): AuditDiff {
+  const a = (before && typeof before === "object" ? before : {}) as Record<string, unknown>;
+  const b = (after && typeof after === "object" ? after : {}) as Record<string, unknown>;
+  const diff: AuditDiff = {};
+
+  for (const key of Array.from(new Set([...Object.keys(a), ...Object.keys(b)]))) {
+    if (JSON.stringify(a[key]) !== JSON.stringify(b[key])) {
+      diff[key] = { before: a[key] ?? null, after: b[key] ?? null };
+    }
+  }
+  return diff;
+}
+
+export class AuditService {
+  // Records who changed what, taking the actor and client details from the request
+  async record(req: Request, event: AuditEventInput): Promise<void> {
+    await this.write(event, {
+      actorId: req.user?.id ?? null,
+      actorUsername: req.user?.username ?? null,
+      ipAddress: req.ip ?? null,
+      userAgent: req.get("User-Agent") ?? null,
+    });
+  }
+
+  // For changes made by the server itself (scheduler, workers)
+  async recordSystem(event: AuditEventInput): Promise<void> {
+    await this.write(event, {
+      actorId: null,
+      actorUsername: "system",
+      ipAddress: null,
+      userAgent: null,
+    });
+  }
+
+  async list(filters: AuditEventFilters) {
+    return storage.getAuditEvents(filters);
+  }
+
+  // Auditing never fails the mutation it describes; errors are logged instead
+  private async write(
+    event: AuditEventInput,
+    actor: Pick<AuditEvent, "actorId" | "actorUsername" | "ipAddress" | "userAgent">
+  ): Promise<void> {
+    const before = event.before === undefined ? null : redact(event.before);
+    const after = event.after === undefined ? null : redact(event.after);
+
+    try {
+      await storage.createAuditEvent({
+        ...actor,
+        action: event.action,
+        entityType: event.entityType,
+        entityId: event.entityId == null ? null : String(event.entityId),
+        before,
+        after,
+        diff: diffSnapshots(before, after),
+      });
+    } catch (error) {
+      moduleLogger.error(
+        { error, action: event.action, entityType: event.entityType, entityId: event.entityId },
+        "Failed to persist audit event"
+      );
+    }
+  }
+}
+
+export const auditService = new AuditService();
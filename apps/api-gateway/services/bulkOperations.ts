@@ -0,0 +1,94 @@
+/**
+ * Bulk operations from the admin lists: request validation, the per-item
+ * checks that decide whether a request may run, and the result report. The
+ * changes themselves are applied by storage in a single batch.
+ */
+import { z } from "zod";
+import { AppError } from "../../../packages/shared-utils";
+import { csvCell } from "./csv";
+import {
+  caseStudyStatuses,
+  type BulkAction,
+  type BulkEntityType,
+  type BulkItemResult,
+  type BulkReport,
+} from "../../shared/schema";
+
+const ids = z.array(z.number().int().positive()).min(1).max(500);
+const tagList = z.array(z.string().trim().min(1).max(50)).max(50).default([]);
+
+export const bulkOperationSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("delete"), ids }),
+  z.object({ action: z.literal("status"), ids, status: z.enum(caseStudyStatuses) }),
+  z.object({ action: z.literal("feature"), ids, featured: z.boolean() }),
+  z.object({ action: z.literal("tags"), ids, add: tagList, remove: tagList }),
+  // `ids` in their new order; positions are assigned from 0
+  z.object({ action: z.literal("reorder"), ids }),
+]);
+
+export type BulkOperation = z.infer<typeof bulkOperationSchema>;
+
+export const bulkCapabilities: Record<BulkEntityType, readonly BulkAction[]> = {
+  case_study: ["delete", "status", "feature", "tags", "reorder"],
+  experience: ["delete", "feature", "reorder"],
+  skill: ["delete", "reorder"],
+  contact: ["delete"],
+};
+
+/**
+ * Checks every item a bulk request names against the rows that exist. The
+ * request is rejected outright when the action does not apply to the entity
+ * type; otherwise each item gets a result, and a single failure means
+ * nothing is applied.
+ */
+export function checkBulkOperation(
+  entityType: BulkEntityType,
+  operation: BulkOperation,
+  existingIds: ReadonlySet<number>
+): BulkItemResult[] {
+  if (!bulkCapabilities[entityType].includes(operation.action)) {
+    throw AppError.badRequest(`Bulk ${operation.action} is not available for ${entityType}`, {
+      supported: bulkCapabilities[entityType],
+    });
+  }
+  if (operation.action === "tags" && operation.add.length === 0 && operation.remove.length === 0) {
+    throw AppError.badRequest("Name at least one tag to add or remove");
+  }
+
+  const seen = new Set<number>();
+  return operation.ids.map((id) => {
+    if (seen.has(id)) {
+      return { id, ok: false, error: "Listed more than once" };
+    }
+    seen.add(id);
+    if (!existingIds.has(id)) {
+      return { id, ok: false, error: "Not found" };
+    }
+    return { id, ok: true };
+  });
+}
+
+export function bulkReport(
+  entityType: BulkEntityType,
+  action: BulkAction,
+  results: BulkItemResult[],
+  applied: boolean
+): BulkReport {
+  const succeeded = results.filter((result) => result.ok).length;
+  return {
+    entityType,
+    action,
+    applied,
+    succeeded,
+    failed: results.length - succeeded,
+    results,
+  };
+}
+
+export function toCsv<T extends Record<string, unknown>>(rows: T[], columns: readonly (keyof T & string)[]): string {
+  const lines = [columns.join(",")];
+  for (const row of rows) {
+    lines.push(columns.map((column) => csvCell(row[column])).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
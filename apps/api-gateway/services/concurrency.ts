@@ -0,0 +1,69 @@
+import type { Request, Response } from "express";
+import { AppError } from "../../../packages/shared-utils";
+
+/**
+ * Optimistic concurrency for admin editors. Every versioned row carries a
+ * `version` that each update bumps. An editor sends back the version it
+ * loaded, as `If-Match: "<version>"` or an `expectedVersion` body field, and
+ * the update only applies while the row is still at that version. Requests
+ * with neither are unconditional, so scripts and older clients keep working.
+ */
+export const VERSION_CONFLICT = "VERSION_CONFLICT";
+
+export function versionEtag(version: number): string {
+  return `"${version}"`;
+}
+
+// The version the client last saw, or undefined for an unconditional write
+export function expectedVersion(req: Pick<Request, "get" | "body">): number | undefined {
+  const ifMatch = req.get("If-Match")?.trim();
+  if (ifMatch && ifMatch !== "*") {
+    const match = ifMatch.match(/^(?:W\/)?"(\d+)"$/);
+    if (!match) {
+      throw AppError.badRequest('If-Match must be a version ETag such as "3"');
+    }
+    return Number(match[1]);
+  }
+
+  const fromBody = req.body?.expectedVersion;
+  if (fromBody === undefined || fromBody === null) {
+    return undefined;
+  }
+  if (!Number.isInteger(fromBody) || fromBody < 1) {
+    throw AppError.badRequest("expectedVersion must be a positive integer");
+  }
+  return fromBody;
+}
+
+// Update payloads without the concurrency fields, which are never written as data
+export function withoutVersionFields<T extends Record<string, any>>(body: T): Omit<T, "version" | "expectedVersion"> {
+  const { version, expectedVersion: _expected, ...data } = body ?? {};
+  return data as Omit<T, "version" | "expectedVersion">;
+}
+
+// 409 carrying the server copy, so the editor can merge, overwrite or reload
+export function staleWriteError(current: { version: number }) {
+  return new AppError(
+    "Someone else changed this since you opened it",
+    409,
+    VERSION_CONFLICT,
+    { currentVersion: current.version, current }
+  );
+}
+
+/**
+ * For an update that matched no row: 404 when the row is gone, otherwise the
+ * expected version was stale.
+ */
+export async function missedUpdateError<T extends { version: number }>(
+  load: () => Promise<T | undefined>,
+  notFoundMessage: string
+): Promise<AppError> {
+  const current = await load();
+  return current ? staleWriteError(current) : AppError.notFound(notFoundMessage);
+}
+
+export function sendVersioned(res: Response, row: { version: number }) {
+  res.setHeader("ETag", versionEtag(row.version));
+  res.json(row);
+}
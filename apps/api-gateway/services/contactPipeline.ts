@@ -0,0 +1,47 @@
+/**
+ * The contact submissions pipeline: request validation for the admin list
+ * filters, lead updates and notes, and the follow-up rules.
+ */
+import { z } from "zod";
+import { contactStatuses, type ContactStatus, type ContactSubmission } from "../../shared/schema";
+
+// Leads in these statuses are finished; their follow-ups are never overdue
+export const closedContactStatuses: readonly ContactStatus[] = ["won", "closed", "spam"];
+
+const tag = z.string().trim().toLowerCase().min(1).max(40);
+
+export const contactListQuerySchema = z.object({
+  view: z.enum(["inbox", "spam", "overdue"]).default("inbox"),
+  status: z.enum(contactStatuses).optional(),
+  tag: tag.optional(),
+  // "me", "none" (unassigned) or a user id
+  assignee: z.union([z.enum(["me", "none"]), z.coerce.number().int().positive()]).optional(),
+  q: z.string().trim().min(1).max(200).optional(),
+});
+
+export const contactUpdateSchema = z
+  .object({
+    status: z.enum(contactStatuses),
+    tags: z.array(tag).max(20).transform((tags) => Array.from(new Set(tags))),
+    assigneeId: z.number().int().positive().nullable(),
+    followUpAt: z.coerce.date().nullable(),
+  })
+  .partial()
+  .refine((update) => Object.keys(update).length > 0, "Nothing to update");
+
+export type ContactUpdate = z.infer<typeof contactUpdateSchema>;
+
+export const contactNoteSchema = z.object({
+  body: z.string().trim().min(1, "Write something first").max(5000),
+});
+
+export function isFollowUpOverdue(
+  submission: Pick<ContactSubmission, "status" | "followUpAt">,
+  now: Date = new Date()
+): boolean {
+  return (
+    submission.followUpAt !== null &&
+    submission.followUpAt <= now &&
+    !closedContactStatuses.includes(submission.status as ContactStatus)
+  );
+}
@@ -0,0 +1,70 @@
+/**
+ * Field-level diff between two JSON content snapshots. Objects are compared
+ * key by key and arrays item by item, so a change to one achievement card is
+ * reported as `achievementCards[1].label` rather than the whole list.
+ */
+
+export type ContentChangeKind = "added" | "removed" | "changed";
+
+export interface ContentChange {
+  path: string;
+  kind: ContentChangeKind;
+  before: unknown;
+  after: unknown;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function childPath(parent: string, key: string | number): string {
+  if (typeof key === "number") {
+    return `${parent}[${key}]`;
+  }
+  return parent ? `${parent}.${key}` : key;
+}
+
+function walk(
+  path: string,
+  before: unknown,
+  after: unknown,
+  changes: ContentChange[]
+): void {
+  if (before === undefined && after === undefined) {
+    return;
+  }
+  if (before === undefined) {
+    changes.push({ path, kind: "added", before: null, after });
+    return;
+  }
+  if (after === undefined) {
+    changes.push({ path, kind: "removed", before, after: null });
+    return;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    Array.from(keys)
+      .sort()
+      .forEach((key) => walk(childPath(path, key), before[key], after[key], changes));
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length);
+    for (let i = 0; i < length; i++) {
+      walk(childPath(path, i), before[i], after[i], changes);
+    }
+    return;
+  }
+
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    changes.push({ path, kind: "changed", before, after });
+  }
+}
+
+export function diffContent(before: unknown, after: unknown): ContentChange[] {
+  const changes: ContentChange[] = [];
+  walk("", before ?? {}, after ?? {}, changes);
+  return changes;
+}
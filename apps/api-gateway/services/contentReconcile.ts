@@ -0,0 +1,83 @@
+/**
+ * Compares the sections of a content file with the content_sections table
+ * and decides what importing the file should do with each one. The database
+ * copy always stays live; a file section that disagrees with it is offered
+ * as a draft instead, so nothing from either side is lost.
+ */
+import type { ContentSection } from "../../shared/schema";
+import { diffContent, type ContentChange } from "./contentDiff";
+
+export type ReconcileAction =
+  // Not live in the database yet; the file copy is published
+  | "import"
+  // Identical on both sides
+  | "unchanged"
+  // Both sides differ; the file copy becomes a draft unless one already exists
+  | "conflict"
+  // Only in the database; left alone
+  | "database_only";
+
+// What the import does (or, on a dry run, would do) with the section
+export type ReconcileResolution =
+  | "published"
+  | "unchanged"
+  | "draft_created"
+  | "kept_existing_draft"
+  | "left_alone";
+
+export interface SectionReconciliation {
+  sectionId: string;
+  action: ReconcileAction;
+  resolution: ReconcileResolution;
+  // For conflicts, what publishing the file copy would change on the live site
+  changes: ContentChange[];
+  hasDraft: boolean;
+}
+
+export interface ReconcileSummary {
+  import: number;
+  unchanged: number;
+  conflict: number;
+  database_only: number;
+}
+
+type StoredSection = Pick<ContentSection, "id" | "status" | "content" | "draftContent">;
+
+export function reconcileSections(
+  fileSections: Record<string, unknown>,
+  storedSections: StoredSection[]
+): SectionReconciliation[] {
+  const stored = new Map(storedSections.map((section) => [section.id, section]));
+  const sectionIds = Array.from(new Set([...Object.keys(fileSections), ...Array.from(stored.keys())])).sort();
+
+  return sectionIds.map((sectionId): SectionReconciliation => {
+    const fileCopy = fileSections[sectionId];
+    const section = stored.get(sectionId);
+    const hasDraft = !!section?.draftContent;
+
+    if (fileCopy === undefined) {
+      return { sectionId, action: "database_only", resolution: "left_alone", changes: [], hasDraft };
+    }
+    if (!section || section.status !== "published") {
+      return { sectionId, action: "import", resolution: "published", changes: [], hasDraft };
+    }
+
+    const changes = diffContent(section.content, fileCopy);
+    if (changes.length === 0) {
+      return { sectionId, action: "unchanged", resolution: "unchanged", changes, hasDraft };
+    }
+    return {
+      sectionId,
+      action: "conflict",
+      resolution: hasDraft ? "kept_existing_draft" : "draft_created",
+      changes,
+      hasDraft,
+    };
+  });
+}
+
+export function summarize(sections: SectionReconciliation[]): ReconcileSummary {
+  const summary: ReconcileSummary = { import: 0, unchanged: 0, conflict: 0, database_only: 0 };
+  sections.forEach((section) => summary[section.action]++);
+  return summary;
+}
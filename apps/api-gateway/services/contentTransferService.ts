@@ -0,0 +1,93 @@
+import { dbContentManager } from "../contentStorage";
+import { contentFile, type ContentFileSections } from "../contentFile";
+import { cacheSync } from "../cacheSync";
+import {
+  reconcileSections,
+  summarize,
+  type ReconcileSummary,
+  type SectionReconciliation,
+} from "./contentReconcile";
+import { validateSection, type ContentFieldIssue } from "./contentValidation";
+import { withModule } from "../../../packages/shared-utils";
+
+const moduleLogger = withModule("contentTransferService");
+
+export interface ContentImportOptions {
+  dryRun?: boolean;
+  // Recorded as the author of drafts created from conflicting sections
+  createdBy?: string | null;
+  // Where the content came from, for the version history
+  source?: string;
+}
+
+export interface ContentImportReport {
+  dryRun: boolean;
+  sections: SectionReconciliation[];
+  summary: ReconcileSummary;
+  // File sections that fail their schema; they are left out of the import
+  invalid: { sectionId: string; issues: ContentFieldIssue[] }[];
+}
+
+/**
+ * Moves portfolio content between the content store and the JSON content
+ * file format. Imports never overwrite live content: see contentReconcile.
+ */
+export class ContentTransferService {
+  async exportContent(): Promise<Record<string, unknown>> {
+    const content = await dbContentManager.getAllContent();
+    return contentFile.build(content as ContentFileSections);
+  }
+
+  async importContent(
+    fileSections: ContentFileSections,
+    options: ContentImportOptions = {}
+  ): Promise<ContentImportReport> {
+    const dryRun = options.dryRun ?? false;
+
+    const validSections: ContentFileSections = {};
+    const invalid: ContentImportReport["invalid"] = [];
+    for (const [sectionId, content] of Object.entries(fileSections)) {
+      const validation = validateSection(sectionId, content);
+      if (validation.valid) {
+        validSections[sectionId as keyof ContentFileSections] = validation.content;
+      } else {
+        invalid.push({ sectionId, issues: validation.issues });
+      }
+    }
+
+    const sections = reconcileSections(validSections, await dbContentManager.listSections());
+    const report = { dryRun, sections, summary: summarize(sections), invalid };
+
+    if (dryRun) {
+      return report;
+    }
+
+    for (const section of sections) {
+      const fileCopy = validSections[section.sectionId as keyof ContentFileSections];
+      if (section.resolution === "published") {
+        await dbContentManager.importContent(section.sectionId, fileCopy);
+      } else if (section.resolution === "draft_created") {
+        await dbContentManager.saveDraft(section.sectionId, fileCopy, {
+          changeSummary: `Imported from ${options.source ?? "content file"} (differs from live)`,
+          createdBy: options.createdBy ?? "system",
+        });
+      }
+    }
+
+    if (report.summary.import > 0) {
+      await cacheSync.invalidateContentCache({
+        invalidatePortfolio: true,
+        invalidateContent: true,
+        broadcastUpdate: true,
+      });
+    }
+
+    moduleLogger.info(
+      { summary: report.summary, invalid: invalid.map((entry) => entry.sectionId) },
+      "Content file imported"
+    );
+    return report;
+  }
+}
+
+export const contentTransferService = new ContentTransferService();
@@ -0,0 +1,100 @@
+/**
+ * Checks section content against its schema in the section registry
+ * (shared/contentSchema.ts), both when it is saved and, for the validation
+ * report, after the fact: content saved before a schema tightened, or
+ * written straight to the database, shows up there.
+ */
+import type { z } from "zod";
+import type { ContentSection } from "../../shared/schema";
+import { contentSectionRegistry, isContentSectionType } from "../../shared/contentSchema";
+
+export interface ContentFieldIssue {
+  // Dotted path into the content, e.g. "achievementCards.1.value"; empty for the whole section
+  path: string;
+  message: string;
+  code: string;
+}
+
+export type SectionValidation =
+  | { valid: true; content: unknown }
+  | { valid: false; issues: ContentFieldIssue[]; fieldErrors: Record<string, string[]> };
+
+function toIssues(error: z.ZodError): ContentFieldIssue[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.join("."),
+    message: issue.message,
+    code: issue.code,
+  }));
+}
+
+// On success `content` is the parsed copy, with schema defaults filled in
+export function validateSection(sectionId: string, content: unknown): SectionValidation {
+  if (!isContentSectionType(sectionId)) {
+    return {
+      valid: false,
+      issues: [{ path: "", message: `Unknown content section: ${sectionId}`, code: "unknown_section" }],
+      fieldErrors: {},
+    };
+  }
+
+  const result = contentSectionRegistry[sectionId].schema.safeParse(content);
+  if (result.success) {
+    return { valid: true, content: result.data };
+  }
+  return {
+    valid: false,
+    issues: toIssues(result.error),
+    fieldErrors: result.error.flatten().fieldErrors as Record<string, string[]>,
+  };
+}
+
+export interface SectionCheck {
+  sectionId: string;
+  name: string;
+  copy: "live" | "draft";
+  valid: boolean;
+  issues: ContentFieldIssue[];
+}
+
+export interface ValidationReport {
+  checkedAt: Date;
+  summary: { sections: number; checked: number; invalid: number };
+  results: SectionCheck[];
+}
+
+type StoredSection = Pick<ContentSection, "id" | "name" | "status" | "content" | "draftContent">;
+
+// Checks the live copy of every published section and every pending draft
+export function buildValidationReport(sections: StoredSection[], checkedAt: Date = new Date()): ValidationReport {
+  const results: SectionCheck[] = [];
+
+  const check = (section: StoredSection, copy: SectionCheck["copy"], content: unknown) => {
+    const validation = validateSection(section.id, content);
+    results.push({
+      sectionId: section.id,
+      name: section.name,
+      copy,
+      valid: validation.valid,
+      issues: validation.valid ? [] : validation.issues,
+    });
+  };
+
+  for (const section of sections) {
+    if (section.status === "published") {
+      check(section, "live", section.content);
+    }
+    if (section.draftContent) {
+      check(section, "draft", section.draftContent);
+    }
+  }
+
+  return {
+    checkedAt,
+    summary: {
+      sections: sections.length,
+      checked: results.length,
+      invalid: results.filter((result) => !result.valid).length,
+    },
+    results,
+  };
+}
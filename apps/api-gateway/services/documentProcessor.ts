@@ -3,7 +3,7 @@ import path from "path";
 import mammoth from "mammoth";
 import { db } from "../db";
 import { knowledgeBaseDocuments, documentCategories } from "../../shared/schema";
-import { eq } from "drizzle-orm";
+import { eq, and, isNull } from "drizzle-orm";
 import { aiService } from "./aiService";
 import { vectorEmbeddingService } from "./vectorEmbeddingService";
 
@@ -369,25 +369,15 @@ KEY_INSIGHTS: {
     }
   }
 
-  // Delete document and cleanup
+  // Move the document to the trash; its file is removed when the trash is purged
   async deleteDocument(documentId: number) {
     try {
-      const document = await db.select()
-        .from(knowledgeBaseDocuments)
-        .where(eq(knowledgeBaseDocuments.id, documentId))
-        .limit(1);
+      const document = await db.update(knowledgeBaseDocuments)
+        .set({ deletedAt: new Date() })
+        .where(and(eq(knowledgeBaseDocuments.id, documentId), isNull(knowledgeBaseDocuments.deletedAt)))
+        .returning({ id: knowledgeBaseDocuments.id });
 
       if (document[0]) {
-        // Delete file from filesystem
-        const filePath = path.join("uploads", document[0].filename);
-        if (fs.existsSync(filePath)) {
-          fs.unlinkSync(filePath);
-        }
-
-        // Delete from database
-        await db.delete(knowledgeBaseDocuments)
-          .where(eq(knowledgeBaseDocuments.id, documentId));
-
         return { success: true, message: "Document deleted successfully" };
       } else {
         throw new Error("Document not found");
@@ -403,7 +393,7 @@ KEY_INSIGHTS: {
     try {
       const document = await db.select()
         .from(knowledgeBaseDocuments)
-        .where(eq(knowledgeBaseDocuments.id, documentId))
+        .where(and(eq(knowledgeBaseDocuments.id, documentId), isNull(knowledgeBaseDocuments.deletedAt)))
         .limit(1);
 
       return document[0] || null;
@@ -0,0 +1,196 @@
+import nodemailer from "nodemailer";
+import { storage } from "../storage";
+import {
+  autoReplyTemplate,
+  autoReplyVars,
+  contactNotificationTemplate,
+  contactTemplateVars,
+  nextAttemptAt,
+  renderTemplate,
+  type RenderedEmail,
+} from "./emailTemplates";
+import type { ContactSubmission, InsertOutboxEmail, OutboxEmail } from "../../shared/schema";
+import { env, withModule, AppError } from "../../../packages/shared-utils";
+
+const moduleLogger = withModule("emailService");
+
+const OUTBOX_INTERVAL_MS = 60 * 1000;
+// A claimed email is not picked up again for this long, even if the process dies mid-send
+const SEND_LEASE_MS = 5 * 60 * 1000;
+const BATCH_SIZE = 20;
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export class SmtpTransport implements MailTransport {
+  private readonly transporter: nodemailer.Transporter;
+
+  constructor(url: string, private readonly from: string) {
+    this.transporter = nodemailer.createTransport(url);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
+
+function splitAddresses(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((address) => address.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Contact emails go through the email_outbox table rather than straight to
+ * SMTP: a submission is never lost to a mail server outage, failed sends are
+ * retried with backoff, and the admin can see and retry what did not go out.
+ */
+export class EmailService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly transport: MailTransport | null = env.SMTP_URL ? new SmtpTransport(env.SMTP_URL, env.EMAIL_FROM) : null,
+    private readonly notifyTo: string[] = splitAddresses(env.CONTACT_NOTIFY_TO),
+    private readonly autoReply: boolean = env.CONTACT_AUTO_REPLY
+  ) {}
+
+  get enabled(): boolean {
+    return this.transport !== null;
+  }
+
+  status() {
+    return {
+      enabled: this.enabled,
+      from: env.EMAIL_FROM,
+      notifyTo: this.notifyTo,
+      autoReply: this.autoReply,
+    };
+  }
+
+  // Queues the owner notification and, when enabled, the sender's auto-reply.
+  // Flagged spam gets neither, so spammers cannot use the form to send mail.
+  async notifyContactSubmission(submission: ContactSubmission): Promise<void> {
+    if (!this.enabled || submission.isSpam) {
+      return;
+    }
+
+    const vars = contactTemplateVars(submission, env.PUBLIC_URL ? new URL("/admin", env.PUBLIC_URL).toString() : "/admin");
+    const emails: InsertOutboxEmail[] = this.notifyTo.map((recipient) =>
+      this.outboxEmail("contact_notification", recipient, renderTemplate(contactNotificationTemplate, vars), submission.id)
+    );
+    if (this.autoReply) {
+      emails.push(
+        this.outboxEmail("contact_auto_reply", submission.email, renderTemplate(autoReplyTemplate(submission.projectType), autoReplyVars(submission)), submission.id)
+      );
+    }
+
+    try {
+      const queued = await storage.createOutboxEmails(emails);
+      if (queued.length > 0) {
+        this.processOutbox();
+      }
+    } catch (error) {
+      moduleLogger.error({ error, submissionId: submission.id }, "Could not queue contact emails");
+    }
+  }
+
+  async sendTest(recipient: string): Promise<OutboxEmail> {
+    if (!this.enabled) {
+      throw AppError.conflict("Email is not configured; set SMTP_URL first");
+    }
+    const [queued] = await storage.createOutboxEmails([
+      this.outboxEmail("test", recipient, {
+        subject: "Test email from your portfolio",
+        text: "If you can read this, outgoing email is working.",
+        html: "<p>If you can read this, outgoing email is working.</p>",
+      }),
+    ]);
+    await this.processOutbox();
+    return (await storage.getOutboxEmail(queued.id)) ?? queued;
+  }
+
+  async retry(id: number): Promise<OutboxEmail> {
+    const email = await storage.retryEmail(id);
+    if (!email) {
+      throw AppError.notFound("No unsent email with that ID");
+    }
+    this.processOutbox();
+    return email;
+  }
+
+  start(): void {
+    if (this.timer || !this.enabled) {
+      return;
+    }
+    this.processOutbox();
+    this.timer = setInterval(() => {
+      this.processOutbox();
+    }, OUTBOX_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  // Sends whatever is due; returns how many went out
+  async processOutbox(now: Date = new Date()): Promise<number> {
+    if (this.running || !this.transport) {
+      return 0;
+    }
+    this.running = true;
+    let sent = 0;
+    try {
+      const due = await storage.claimDueEmails(now, new Date(now.getTime() + SEND_LEASE_MS), BATCH_SIZE);
+      for (const email of due) {
+        if (await this.deliver(email)) {
+          sent++;
+        }
+      }
+    } catch (error) {
+      moduleLogger.error({ error }, "Email outbox run failed");
+    } finally {
+      this.running = false;
+    }
+    return sent;
+  }
+
+  private async deliver(email: OutboxEmail): Promise<boolean> {
+    try {
+      await this.transport!.send({
+        to: email.recipient,
+        subject: email.subject,
+        text: email.textBody,
+        html: email.htmlBody ?? undefined,
+      });
+      await storage.markEmailSent(email.id);
+      return true;
+    } catch (error) {
+      const attempts = email.attempts + 1;
+      const retryAt = nextAttemptAt(attempts);
+      const lastError = error instanceof Error ? error.message : String(error);
+      await storage.markEmailFailed(email.id, { attempts, lastError, nextAttemptAt: retryAt });
+      moduleLogger.warn({ id: email.id, kind: email.kind, attempts, retryAt, error: lastError }, "Email send failed");
+      return false;
+    }
+  }
+
+  private outboxEmail(kind: string, recipient: string, content: RenderedEmail, submissionId?: number): InsertOutboxEmail {
+    return {
+      kind,
+      recipient,
+      subject: content.subject,
+      textBody: content.text,
+      htmlBody: content.html,
+      submissionId,
+    };
+  }
+}
+
+export const emailService = new EmailService();
@@ -0,0 +1,148 @@
+/**
+ * Email content for contact submissions: the owner notification and the
+ * auto-reply to the sender, picked by project type, plus the retry schedule
+ * for sends that fail. The sending itself lives in emailService.
+ */
+import type { ContactSubmission } from "../../shared/schema";
+
+export interface EmailTemplate {
+  subject: string;
+  text: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Waits before each retry; an email that still fails after the last one is
+// marked failed and left for someone to retry from the admin
+export const retryDelaysMs = [60_000, 5 * 60_000, 30 * 60_000, 2 * 60 * 60_000, 12 * 60 * 60_000];
+
+// When to try again after `attempts` failed sends, or null to give up
+export function nextAttemptAt(attempts: number, now: Date = new Date()): Date | null {
+  const delay = retryDelaysMs[attempts - 1];
+  return delay === undefined ? null : new Date(now.getTime() + delay);
+}
+
+const htmlEscapes: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => htmlEscapes[char]);
+}
+
+// Fills {{name}} placeholders; unknown names render as empty strings
+export function fillTemplate(template: string, vars: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, name: string) => vars[name] ?? "");
+}
+
+// The HTML part is the text part, escaped, with paragraphs and line breaks
+export function renderTemplate(template: EmailTemplate, vars: Record<string, string>): RenderedEmail {
+  const text = fillTemplate(template.text, vars);
+  const html = text
+    .split(/\n{2,}/)
+    .map((paragraph) => `<p>${escapeHtml(paragraph).replace(/\n/g, "<br>")}</p>`)
+    .join("\n");
+  // Subjects are single-line headers
+  return { subject: fillTemplate(template.subject, vars).replace(/[\r\n]+/g, " "), text, html };
+}
+
+export const contactNotificationTemplate: EmailTemplate = {
+  subject: "New enquiry from {{name}}: {{projectType}}",
+  text: `{{name}} <{{email}}> sent a message through the contact form.
+
+Company: {{company}}
+Project type: {{projectType}}
+Received: {{submittedAt}}
+
+{{message}}
+
+Review it in the admin: {{adminUrl}}`,
+};
+
+const autoReplyClosing = `
+
+Best regards`;
+
+const defaultAutoReply: EmailTemplate = {
+  subject: "Thanks for getting in touch",
+  text: `Hi {{firstName}},
+
+Thanks for your message. I read every enquiry myself and will get back to you within two working days.${autoReplyClosing}`,
+};
+
+// Keyed by the contact form's project types; anything else gets the default
+export const autoReplyTemplates: Record<string, EmailTemplate> = {
+  "AI Strategy Consultation": {
+    subject: "Your AI strategy consultation request",
+    text: `Hi {{firstName}},
+
+Thanks for reaching out about AI strategy. I'll review what you shared and reply within two working days with a few questions and some times for an initial call.${autoReplyClosing}`,
+  },
+  "Product Development": {
+    subject: "Your product development enquiry",
+    text: `Hi {{firstName}},
+
+Thanks for telling me about your product. I'll get back to you within two working days; if you have a brief, roadmap or deck, feel free to reply with it in the meantime.${autoReplyClosing}`,
+  },
+  "Startup Advisory": {
+    subject: "Your startup advisory enquiry",
+    text: `Hi {{firstName}},
+
+Thanks for getting in touch about advisory work. I'll reply within two working days. It helps to know your stage, team size and the main challenge you want help with.${autoReplyClosing}`,
+  },
+  "Partnership Opportunity": {
+    subject: "Your partnership proposal",
+    text: `Hi {{firstName}},
+
+Thanks for the partnership proposal. I'll look it over and get back to you within a week.${autoReplyClosing}`,
+  },
+  "Speaking Engagement": {
+    subject: "Your speaking invitation",
+    text: `Hi {{firstName}},
+
+Thanks for the invitation to speak. I'll check my calendar and reply within a few working days. Event dates, audience and format help me answer quickly.${autoReplyClosing}`,
+  },
+  "Investment Discussion": {
+    subject: "Your investment enquiry",
+    text: `Hi {{firstName}},
+
+Thanks for reaching out about investment. I'll get back to you within a week.${autoReplyClosing}`,
+  },
+};
+
+export function autoReplyTemplate(projectType: string): EmailTemplate {
+  return Object.prototype.hasOwnProperty.call(autoReplyTemplates, projectType)
+    ? autoReplyTemplates[projectType]
+    : defaultAutoReply;
+}
+
+// Nobody has verified the address an auto-reply goes to, so it must not carry
+// anything the sender wrote beyond a short first name; otherwise the contact
+// form would relay arbitrary text to any address from the site's mail identity
+const AUTO_REPLY_NAME_LENGTH = 40;
+
+export function autoReplyVars(submission: ContactSubmission): Record<string, string> {
+  const firstName = submission.name.trim().split(/\s+/)[0] ?? "";
+  return { firstName: firstName.length > 0 && firstName.length <= AUTO_REPLY_NAME_LENGTH ? firstName : "there" };
+}
+
+export function contactTemplateVars(submission: ContactSubmission, adminUrl: string): Record<string, string> {
+  return {
+    name: submission.name,
+    firstName: submission.name.trim().split(/\s+/)[0] || submission.name,
+    email: submission.email,
+    company: submission.company || "—",
+    projectType: submission.projectType,
+    message: submission.message,
+    submittedAt: new Date(submission.submittedAt).toUTCString(),
+    adminUrl,
+  };
+}
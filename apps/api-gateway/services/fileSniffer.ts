@@ -0,0 +1,188 @@
+import path from "path";
+
+/**
+ * Content sniffing for uploads. The client-supplied MIME type and extension
+ * are only trusted when the file's own bytes agree with them.
+ */
+
+export type FileKind =
+  | "pdf"
+  | "docx"
+  | "txt"
+  | "jpeg"
+  | "png"
+  | "webp"
+  | "gif"
+  | "svg";
+
+export const fileKinds: Record<
+  FileKind,
+  { mimeType: string; extensions: string[] }
+> = {
+  pdf: { mimeType: "application/pdf", extensions: [".pdf"] },
+  docx: {
+    mimeType:
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    extensions: [".docx"],
+  },
+  txt: { mimeType: "text/plain", extensions: [".txt"] },
+  jpeg: { mimeType: "image/jpeg", extensions: [".jpg", ".jpeg"] },
+  png: { mimeType: "image/png", extensions: [".png"] },
+  webp: { mimeType: "image/webp", extensions: [".webp"] },
+  gif: { mimeType: "image/gif", extensions: [".gif"] },
+  svg: { mimeType: "image/svg+xml", extensions: [".svg"] },
+};
+
+export const IMAGE_KINDS: FileKind[] = ["jpeg", "png", "webp", "gif", "svg"];
+export const DOCUMENT_KINDS: FileKind[] = ["pdf", "docx", "txt"];
+
+// Raster formats a browser renders without interpreting any script
+export const INLINE_KINDS: FileKind[] = ["jpeg", "png", "webp", "gif"];
+
+export type InspectionResult =
+  | { ok: true; kind: FileKind; mimeType: string; extension: string }
+  | { ok: false; reason: string; kind: FileKind | null };
+
+function startsWith(buffer: Buffer, signature: number[], offset = 0): boolean {
+  return signature.every((byte, i) => buffer[offset + i] === byte);
+}
+
+function ascii(buffer: Buffer, start: number, end: number): string {
+  return buffer.subarray(start, end).toString("latin1");
+}
+
+function isUtf8Text(buffer: Buffer): boolean {
+  if (buffer.includes(0)) {
+    return false;
+  }
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function looksLikeSvg(buffer: Buffer): boolean {
+  const head = buffer
+    .subarray(0, 4096)
+    .toString("utf8")
+    .replace(/^\uFEFF/, "")
+    .trimStart();
+  return (
+    /^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE svg[^>]*>\s*)?<svg[\s>]/i.test(
+      head
+    )
+  );
+}
+
+// Identifies the format from its magic bytes, falling back to plain text
+export function detectFileKind(buffer: Buffer): FileKind | null {
+  if (ascii(buffer, 0, 5) === "%PDF-") return "pdf";
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) return "jpeg";
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return "png";
+  }
+  if (["GIF87a", "GIF89a"].includes(ascii(buffer, 0, 6))) return "gif";
+  if (ascii(buffer, 0, 4) === "RIFF" && ascii(buffer, 8, 12) === "WEBP") {
+    return "webp";
+  }
+  // DOCX is a zip whose entry names are stored uncompressed
+  if (startsWith(buffer, [0x50, 0x4b, 0x03, 0x04])) {
+    return buffer.includes("word/document.xml") ? "docx" : null;
+  }
+  if (!isUtf8Text(buffer)) return null;
+  return looksLikeSvg(buffer) ? "svg" : "txt";
+}
+
+const ACTIVE_CONTENT =
+  /<script|<\?php|<html|<iframe|<object|<embed|javascript:/i;
+const SVG_ACTIVE_CONTENT =
+  /<script|<foreignObject|<iframe|<object|<embed|<!ENTITY|\son[a-z]+\s*=|javascript:|data:text\/html/i;
+const PDF_ACTIVE_CONTENT = /\/(JavaScript|JS|Launch|EmbeddedFile)\b/;
+
+// Returns why a file that sniffed as `kind` also carries another format
+function findPolyglot(buffer: Buffer, kind: FileKind): string | null {
+  const text = buffer.toString("latin1");
+
+  switch (kind) {
+    case "svg":
+      return SVG_ACTIVE_CONTENT.test(text)
+        ? "SVG contains scripts or active content"
+        : null;
+    case "txt":
+      return null;
+    case "pdf":
+      if (PDF_ACTIVE_CONTENT.test(text)) {
+        return "PDF contains embedded scripts, launch actions or attachments";
+      }
+      break;
+  }
+
+  if (ACTIVE_CONTENT.test(text)) {
+    return `${kind.toUpperCase()} file also contains HTML or script content`;
+  }
+
+  // A zip local header plus end-of-central-directory inside a non-zip format
+  // is an appended archive (e.g. a JPEG/JAR polyglot)
+  if (
+    kind !== "docx" &&
+    buffer.includes(Buffer.from([0x50, 0x4b, 0x03, 0x04])) &&
+    buffer.includes(Buffer.from([0x50, 0x4b, 0x05, 0x06]))
+  ) {
+    return `${kind.toUpperCase()} file has an embedded archive`;
+  }
+
+  return null;
+}
+
+/**
+ * Accepts a file only if its bytes are one of the `allowed` formats, the
+ * original extension belongs to that format, and nothing else is hidden in
+ * it. The caller should quarantine anything that is rejected.
+ */
+export function inspectFile(
+  buffer: Buffer,
+  originalName: string,
+  allowed: FileKind[]
+): InspectionResult {
+  if (buffer.length === 0) {
+    return { ok: false, reason: "File is empty", kind: null };
+  }
+
+  const kind = detectFileKind(buffer);
+  if (!kind || !allowed.includes(kind)) {
+    return {
+      ok: false,
+      reason: kind
+        ? `File content is ${kind.toUpperCase()}, which is not allowed here`
+        : "File content does not match any allowed format",
+      kind,
+    };
+  }
+
+  const extension = path.extname(originalName).toLowerCase();
+  if (!fileKinds[kind].extensions.includes(extension)) {
+    return {
+      ok: false,
+      reason: `File content is ${kind.toUpperCase()} but the name ends in "${extension || "(none)"}"`,
+      kind,
+    };
+  }
+
+  const polyglot = findPolyglot(buffer, kind);
+  if (polyglot) {
+    return { ok: false, reason: polyglot, kind };
+  }
+
+  return { ok: true, kind, mimeType: fileKinds[kind].mimeType, extension };
+}
+
+// Content-Type for a stored upload, from the extension it was saved with
+export function kindForStoredFile(filename: string): FileKind | null {
+  const extension = path.extname(filename).toLowerCase();
+  const match = (Object.keys(fileKinds) as FileKind[]).find((kind) =>
+    fileKinds[kind].extensions.includes(extension)
+  );
+  return match ?? null;
+}
@@ -6,7 +6,7 @@
 
 import { db } from "../db";
 import { conversationMemory, knowledgeBaseDocuments, vectorEmbeddings } from "../../shared/schema";
-import { eq, desc, and, sql } from "drizzle-orm";
+import { eq, desc, and, sql, isNull } from "drizzle-orm";
 import { aiService } from "./aiService";
 
 interface MemoryEntry {
@@ -280,7 +280,10 @@ Respond with just the category name:`;
       // Search knowledge base documents
       const documents = await db.select()
         .from(knowledgeBaseDocuments)
-        .where(sql`${knowledgeBaseDocuments.content} ILIKE ${`%${query}%`}`)
+        .where(and(
+          sql`${knowledgeBaseDocuments.content} ILIKE ${`%${query}%`}`,
+          isNull(knowledgeBaseDocuments.deletedAt)
+        ))
         .limit(5);
 
       return documents;
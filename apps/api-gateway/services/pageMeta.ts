@@ -0,0 +1,169 @@
+/**
+ * Per-page meta tags for the HTML shell. Crawlers and link previews don't run
+ * the SPA, so the title, description, Open Graph/Twitter tags, canonical link
+ * and JSON-LD of a page are written into index.html before it is sent.
+ */
+import type { CaseStudy, SeoSettings } from "../../shared/schema";
+
+export interface PageMeta {
+  title: string;
+  description: string;
+  keywords: string[];
+  canonical: string;
+  robots: string | null;
+  ogType: "website" | "article";
+  ogTitle: string;
+  ogDescription: string;
+  ogImage: string | null;
+  twitterTitle: string;
+  twitterDescription: string;
+  twitterImage: string | null;
+  structuredData: unknown;
+}
+
+// Descriptions longer than this get cut off in search results anyway
+const DESCRIPTION_LENGTH = 160;
+
+// The SEO settings key of a site path, the reverse of seoPagePath in ./sitemap
+export function seoPageKey(pathname: string): string | null {
+  const path = pathname.length > 1 ? pathname.replace(/\/+$/, "") : pathname;
+  if (path === "/") {
+    return "home";
+  }
+  if (path === "/case-studies") {
+    return "case-studies";
+  }
+  const match = /^\/case-study\/([^/]+)$/.exec(path);
+  if (!match) {
+    return null;
+  }
+  try {
+    return `case-study/${decodeURIComponent(match[1])}`;
+  } catch {
+    return null;
+  }
+}
+
+function absoluteUrl(url: string | null | undefined, origin: string): string | null {
+  if (!url) {
+    return null;
+  }
+  try {
+    return new URL(url, origin).toString();
+  } catch {
+    return null;
+  }
+}
+
+function summarize(text: string): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > DESCRIPTION_LENGTH ? `${flat.slice(0, DESCRIPTION_LENGTH - 1).trimEnd()}…` : flat;
+}
+
+function caseStudyImage(study: CaseStudy): string | null {
+  return study.imageUrl || (study.imageFile ? `/uploads/${study.imageFile}` : null);
+}
+
+function caseStudyStructuredData(study: CaseStudy, url: string, description: string, image: string | null) {
+  return {
+    "@context": "https://schema.org",
+    "@type": "Article",
+    headline: study.title,
+    description,
+    url,
+    ...(image && { image }),
+    ...(study.technologies.length > 0 && { keywords: study.technologies.join(", ") }),
+    ...(study.createdAt && { datePublished: new Date(study.createdAt).toISOString() }),
+    ...(study.updatedAt && { dateModified: new Date(study.updatedAt).toISOString() }),
+  };
+}
+
+/**
+ * The meta for a page from its SEO settings, with any field left empty filled
+ * from the case study it shows. Null when there is nothing to say about the
+ * page, in which case the defaults in index.html stay.
+ */
+export function resolvePageMeta(
+  origin: string,
+  pathname: string,
+  settings: SeoSettings | undefined,
+  caseStudy?: CaseStudy
+): PageMeta | null {
+  if (!settings && !caseStudy) {
+    return null;
+  }
+
+  const title = settings?.title || caseStudy?.title || "";
+  const description = settings?.description || (caseStudy ? summarize(caseStudy.subtitle || caseStudy.challenge) : "");
+  const canonical = absoluteUrl(settings?.canonicalUrl, origin) ?? new URL(pathname, origin).toString();
+  const studyImage = caseStudy ? absoluteUrl(caseStudyImage(caseStudy), origin) : null;
+  const ogImage = absoluteUrl(settings?.ogImage, origin) ?? studyImage;
+
+  return {
+    title,
+    description,
+    keywords: settings?.keywords?.length ? settings.keywords : caseStudy?.technologies ?? [],
+    canonical,
+    robots: settings?.robotsDirective || null,
+    ogType: caseStudy ? "article" : "website",
+    ogTitle: settings?.ogTitle || title,
+    ogDescription: settings?.ogDescription || description,
+    ogImage,
+    twitterTitle: settings?.twitterTitle || settings?.ogTitle || title,
+    twitterDescription: settings?.twitterDescription || settings?.ogDescription || description,
+    twitterImage: absoluteUrl(settings?.twitterImage, origin) ?? ogImage,
+    structuredData:
+      settings?.structuredData ?? (caseStudy ? caseStudyStructuredData(caseStudy, canonical, description, studyImage) : null),
+  };
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+// JSON.stringify leaves "</script>" alone, which would end the script element early
+function scriptJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, "\\u003c").replace(/\u2028/g, "\\u2028").replace(/\u2029/g, "\\u2029");
+}
+
+function metaTag(attribute: "name" | "property", key: string): RegExp {
+  return new RegExp(`<meta\\s[^>]*${attribute}="${key}"[^>]*>`, "gi");
+}
+
+/**
+ * Writes the meta into the page head. Each tag that has a value replaces the
+ * template's tag of the same kind; the rest of the template's tags are kept.
+ */
+export function injectPageMeta(html: string, meta: PageMeta): string {
+  const tags: [RegExp, string | null][] = [
+    [/<title>[\s\S]*?<\/title>/gi, meta.title ? `<title>${escapeAttribute(meta.title)}</title>` : null],
+    [metaTag("name", "description"), meta.description ? `<meta name="description" content="${escapeAttribute(meta.description)}" />` : null],
+    [metaTag("name", "keywords"), meta.keywords.length > 0 ? `<meta name="keywords" content="${escapeAttribute(meta.keywords.join(", "))}" />` : null],
+    [metaTag("name", "robots"), meta.robots ? `<meta name="robots" content="${escapeAttribute(meta.robots)}" />` : null],
+    [/<link\s[^>]*rel="canonical"[^>]*>/gi, `<link rel="canonical" href="${escapeAttribute(meta.canonical)}" />`],
+    [metaTag("property", "og:type"), `<meta property="og:type" content="${meta.ogType}" />`],
+    [metaTag("property", "og:url"), `<meta property="og:url" content="${escapeAttribute(meta.canonical)}" />`],
+    [metaTag("property", "og:title"), meta.ogTitle ? `<meta property="og:title" content="${escapeAttribute(meta.ogTitle)}" />` : null],
+    [metaTag("property", "og:description"), meta.ogDescription ? `<meta property="og:description" content="${escapeAttribute(meta.ogDescription)}" />` : null],
+    [metaTag("property", "og:image"), meta.ogImage ? `<meta property="og:image" content="${escapeAttribute(meta.ogImage)}" />` : null],
+    [metaTag("name", "twitter:card"), meta.twitterImage ? `<meta name="twitter:card" content="summary_large_image" />` : null],
+    [metaTag("name", "twitter:title"), meta.twitterTitle ? `<meta name="twitter:title" content="${escapeAttribute(meta.twitterTitle)}" />` : null],
+    [metaTag("name", "twitter:description"), meta.twitterDescription ? `<meta name="twitter:description" content="${escapeAttribute(meta.twitterDescription)}" />` : null],
+    [metaTag("name", "twitter:image"), meta.twitterImage ? `<meta name="twitter:image" content="${escapeAttribute(meta.twitterImage)}" />` : null],
+    [
+      /<script\s[^>]*type="application\/ld\+json"[^>]*>[\s\S]*?<\/script>/gi,
+      meta.structuredData ? `<script type="application/ld+json">${scriptJson(meta.structuredData)}</script>` : null,
+    ],
+  ];
+
+  let page = html;
+  const added: string[] = [];
+  for (const [existing, tag] of tags) {
+    if (tag !== null) {
+      page = page.replace(existing, "");
+      added.push(tag);
+    }
+  }
+  // A replacer function, since "$&" and the like in a string replacement would copy parts of the page
+  return page.replace(/<\/head>/i, () => `  ${added.join("\n    ")}\n  </head>`);
+}
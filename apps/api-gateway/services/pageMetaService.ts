@@ -0,0 +1,60 @@
+import { storage } from "../storage";
+import { cache } from "../cache";
+import { injectPageMeta, resolvePageMeta, seoPageKey, type PageMeta } from "./pageMeta";
+import { seoPagePath } from "./sitemap";
+import { withModule } from "../../../packages/shared-utils";
+
+const moduleLogger = withModule("pageMeta");
+
+// Dropped by cacheSync along with the sitemap whenever content or SEO settings change
+const CACHE_TTL_SECONDS = 60 * 60;
+
+/**
+ * Fills in the head of index.html for the public pages that have SEO
+ * settings or a published case study behind them.
+ */
+export class PageMetaService {
+  // Never throws: when the meta can't be loaded the page goes out with the template's defaults
+  async render(pathname: string, origin: string, html: string): Promise<string> {
+    const key = seoPageKey(pathname);
+    if (!key) {
+      return html;
+    }
+
+    try {
+      const meta = await this.load(key, origin);
+      return meta ? injectPageMeta(html, meta) : html;
+    } catch (error) {
+      moduleLogger.error({ error, pathname }, "Could not load page meta");
+      return html;
+    }
+  }
+
+  private async load(key: string, origin: string): Promise<PageMeta | null> {
+    const cacheKey = `route:/page-meta:${key}:${origin}`;
+    const cacheable = !cache.isPatternDisabled(cacheKey);
+    const cached = cacheable ? cache.get<PageMeta>(cacheKey) : null;
+    if (cached) {
+      return cached;
+    }
+
+    const slug = key.startsWith("case-study/") ? key.slice("case-study/".length) : null;
+    const [settings, caseStudy] = await Promise.all([
+      storage.getSeoSettingsForPage(key),
+      slug ? storage.getPublishedCaseStudyBySlug(slug) : undefined,
+    ]);
+    // A case study that isn't published keeps its settings to itself
+    if (slug && !caseStudy) {
+      return null;
+    }
+
+    const meta = resolvePageMeta(origin, seoPagePath(key) ?? "/", settings, caseStudy);
+    // Only pages that exist are cached, so made-up slugs can't fill the cache
+    if (meta && cacheable) {
+      cache.set(cacheKey, meta, CACHE_TTL_SECONDS);
+    }
+    return meta;
+  }
+}
+
+export const pageMetaService = new PageMetaService();
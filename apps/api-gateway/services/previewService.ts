@@ -0,0 +1,157 @@
+import type { SessionData } from "express-session";
+import { storage } from "../storage";
+import { dbContentManager } from "../contentStorage";
+import { userService } from "./userService";
+import { signPreviewToken, verifyPreviewToken, hashPreviewToken } from "./previewToken";
+import { AppError, env, withModule } from "../../../packages/shared-utils";
+import type { CaseStudy, PreviewLink, PublicPreviewLink, PublicUser } from "../../shared/schema";
+
+const moduleLogger = withModule("previewLinks");
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const PREVIEW_PASSWORD_REQUIRED = "PREVIEW_PASSWORD_REQUIRED";
+
+type PreviewSession = Partial<SessionData>;
+
+export interface CreatedPreviewLink {
+  // Only returned at creation time
+  token: string;
+  link: PublicPreviewLink;
+}
+
+function invalidLink() {
+  return AppError.unauthorized("This preview link is invalid, expired or revoked");
+}
+
+function previewCaseStudy(study: CaseStudy): boolean {
+  return study.status !== "archived";
+}
+
+/**
+ * Shareable links that let someone without an account see the public pages
+ * with draft content in place: section drafts over the live sections, and
+ * draft case studies alongside published ones.
+ */
+export class PreviewService {
+  toPublicLink(link: PreviewLink): PublicPreviewLink {
+    const { tokenHash, passwordHash, ...publicLink } = link;
+    return { ...publicLink, hasPassword: passwordHash !== null };
+  }
+
+  async list(): Promise<PublicPreviewLink[]> {
+    const links = await storage.getPreviewLinks();
+    return links.map((link) => this.toPublicLink(link));
+  }
+
+  async create(
+    user: PublicUser,
+    data: { label: string; expiresInHours: number; password?: string }
+  ): Promise<CreatedPreviewLink> {
+    const expiresAt = new Date(Date.now() + data.expiresInHours * HOUR_MS);
+    const token = signPreviewToken(expiresAt, env.SESSION_SECRET);
+
+    const created = await storage.createPreviewLink({
+      label: data.label,
+      tokenHash: hashPreviewToken(token),
+      passwordHash: data.password ? await userService.hashPassword(data.password) : null,
+      expiresAt,
+      createdBy: user.id,
+    });
+
+    moduleLogger.info({ linkId: created.id, expiresAt }, "Preview link created");
+    return { token, link: this.toPublicLink(created) };
+  }
+
+  async revoke(id: number): Promise<PublicPreviewLink> {
+    const revoked = await storage.revokePreviewLink(id);
+    if (!revoked) {
+      throw AppError.notFound("Preview link not found or already revoked");
+    }
+    moduleLogger.info({ linkId: id }, "Preview link revoked");
+    return this.toPublicLink(revoked);
+  }
+
+  // The stored link for a token that is correctly signed, unexpired and not revoked
+  private async findLink(token: string): Promise<PreviewLink> {
+    if (!verifyPreviewToken(token, env.SESSION_SECRET)) {
+      throw invalidLink();
+    }
+
+    const link = await storage.getPreviewLinkByHash(hashPreviewToken(token));
+    if (!link || link.revokedAt || link.expiresAt.getTime() <= Date.now()) {
+      throw invalidLink();
+    }
+    return link;
+  }
+
+  /**
+   * Resolves a token for a preview request. Password-protected links only
+   * work in a browser session that has unlocked them.
+   */
+  async authorize(token: string, session: PreviewSession | undefined): Promise<PreviewLink> {
+    const link = await this.findLink(token);
+    if (link.passwordHash && !session?.unlockedPreviewLinks?.includes(link.id)) {
+      throw new AppError("This preview link needs a password", 401, PREVIEW_PASSWORD_REQUIRED);
+    }
+    return link;
+  }
+
+  async unlock(token: string, password: string, session: PreviewSession): Promise<void> {
+    const link = await this.findLink(token);
+    if (!link.passwordHash) {
+      return;
+    }
+    if (!(await userService.verifyPassword(password, link.passwordHash))) {
+      throw AppError.unauthorized("Incorrect preview password");
+    }
+    session.unlockedPreviewLinks = Array.from(new Set([...(session.unlockedPreviewLinks ?? []), link.id]));
+  }
+
+  // Called once when a preview is opened; counts the view
+  async open(token: string, session: PreviewSession | undefined) {
+    const link = await this.authorize(token, session);
+    await storage.recordPreviewView(link.id);
+    return { label: link.label, expiresAt: link.expiresAt };
+  }
+
+  // Draft content over the live content
+  async getAllContent(): Promise<Record<string, unknown>> {
+    const content: Record<string, unknown> = {};
+    for (const section of await dbContentManager.listSections()) {
+      const copy = this.sectionCopy(section);
+      if (copy !== null) {
+        content[section.id] = copy;
+      }
+    }
+    return content;
+  }
+
+  async getContent(sectionId: string): Promise<any | null> {
+    const section = await dbContentManager.getSection(sectionId);
+    return section ? this.sectionCopy(section) : null;
+  }
+
+  private sectionCopy(section: { status: string; content: unknown; draftContent: unknown }) {
+    return section.draftContent ?? (section.status === "published" ? section.content : null);
+  }
+
+  async getCaseStudies(): Promise<CaseStudy[]> {
+    const studies = await storage.getCaseStudies();
+    return studies
+      .filter(previewCaseStudy)
+      .sort((a, b) => (a.displayOrder ?? 0) - (b.displayOrder ?? 0));
+  }
+
+  async getFeaturedCaseStudies(): Promise<CaseStudy[]> {
+    const studies = await this.getCaseStudies();
+    return studies.filter((study) => study.featured).slice(0, 3);
+  }
+
+  async getCaseStudyBySlug(slug: string): Promise<CaseStudy | undefined> {
+    const studies = await storage.getCaseStudies();
+    return studies.find((study) => study.slug === slug && previewCaseStudy(study));
+  }
+}
+
+export const previewService = new PreviewService();
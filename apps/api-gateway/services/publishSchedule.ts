@@ -0,0 +1,72 @@
+/**
+ * Scheduled publish and unpublish times for case studies and content section
+ * drafts: request validation and the upcoming-changes calendar. The scheduler
+ * that applies them lives in publishingService.
+ */
+import { z } from "zod";
+import type { CaseStudy, ContentSection, PublishSchedule } from "../../shared/schema";
+
+// A missing or null time clears that half of the schedule
+const scheduleTime = z.coerce.date().nullable().default(null);
+
+export const publishScheduleSchema = z.object({
+  publishAt: scheduleTime,
+  unpublishAt: scheduleTime,
+});
+
+export type ScheduledAction = "publish" | "unpublish";
+
+export interface ScheduledChange {
+  entityType: "case_study" | "content_section";
+  entityId: string;
+  title: string;
+  action: ScheduledAction;
+  at: Date;
+}
+
+// Returns the reason a schedule cannot be applied, or null when it can
+export function validateSchedule(schedule: PublishSchedule, now: Date = new Date()): string | null {
+  const { publishAt, unpublishAt } = schedule;
+
+  if (publishAt && publishAt <= now) {
+    return "Publish time must be in the future";
+  }
+  if (unpublishAt && unpublishAt <= now) {
+    return "Unpublish time must be in the future";
+  }
+  if (publishAt && unpublishAt && unpublishAt <= publishAt) {
+    return "Unpublish time must be after the publish time";
+  }
+  return null;
+}
+
+function changesFor(
+  entityType: ScheduledChange["entityType"],
+  entityId: string,
+  title: string,
+  schedule: PublishSchedule
+): ScheduledChange[] {
+  const changes: ScheduledChange[] = [];
+  if (schedule.publishAt) {
+    changes.push({ entityType, entityId, title, action: "publish", at: schedule.publishAt });
+  }
+  if (schedule.unpublishAt) {
+    changes.push({ entityType, entityId, title, action: "unpublish", at: schedule.unpublishAt });
+  }
+  return changes;
+}
+
+// Every pending change in time order; publishes sort before unpublishes at the same moment
+export function upcomingChanges(
+  caseStudies: Pick<CaseStudy, "id" | "title" | "publishAt" | "unpublishAt">[],
+  sections: Pick<ContentSection, "id" | "name" | "publishAt" | "unpublishAt">[]
+): ScheduledChange[] {
+  const changes = [
+    ...caseStudies.flatMap((study) => changesFor("case_study", String(study.id), study.title, study)),
+    ...sections.flatMap((section) => changesFor("content_section", section.id, section.name, section)),
+  ];
+
+  return changes.sort(
+    (a, b) => a.at.getTime() - b.at.getTime() || (a.action === b.action ? 0 : a.action === "publish" ? -1 : 1)
+  );
+}
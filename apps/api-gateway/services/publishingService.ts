@@ -0,0 +1,209 @@
+import { storage } from "../storage";
+import { dbContentManager } from "../contentStorage";
+import { cacheSync } from "../cacheSync";
+import { auditService } from "./auditService";
+import { webhookService } from "./webhookService";
+import { caseStudyEventData } from "./webhooks";
+import { upcomingChanges, validateSchedule, type ScheduledChange } from "./publishSchedule";
+import type { CaseStudy, ContentSection, PublishSchedule } from "../../shared/schema";
+import { withModule, AppError } from "../../../packages/shared-utils";
+
+const moduleLogger = withModule("publishingService");
+
+const SCHEDULER_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Publishing of content section drafts and case studies, now or at a
+ * scheduled time. Schedules are stored on the rows themselves, so they
+ * survive restarts; the first run after startup applies anything that fell
+ * due while the server was down.
+ */
+export class PublishingService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  // Promotes the draft to the live copy and drops cached portfolio responses
+  async publishSection(sectionId: string): Promise<ContentSection | undefined> {
+    const section = await dbContentManager.publish(sectionId);
+    if (section) {
+      await this.invalidateSectionCaches(section);
+    }
+    return section;
+  }
+
+  async scheduleSection(sectionId: string, schedule: PublishSchedule): Promise<ContentSection> {
+    this.assertValid(schedule);
+
+    const section = await dbContentManager.getSection(sectionId);
+    if (!section) {
+      throw AppError.notFound("Content section not found");
+    }
+    if (schedule.publishAt && !section.draftContent) {
+      throw AppError.conflict("There is no draft to schedule");
+    }
+    if (schedule.unpublishAt) {
+      // With a publish scheduled first, today's live copy is what comes back
+      const revertible = schedule.publishAt
+        ? section.status === "published"
+        : !!(await dbContentManager.getRevertTarget(sectionId));
+      if (!revertible) {
+        throw AppError.conflict("There is no earlier published version to revert to");
+      }
+    }
+
+    return (await dbContentManager.setSchedule(sectionId, schedule))!;
+  }
+
+  async scheduleCaseStudy(id: number, schedule: PublishSchedule): Promise<CaseStudy> {
+    this.assertValid(schedule);
+
+    const study = await storage.setCaseStudySchedule(id, schedule);
+    if (!study) {
+      throw AppError.notFound("Case study not found");
+    }
+    return study;
+  }
+
+  async getUpcoming(): Promise<ScheduledChange[]> {
+    const [caseStudies, sections] = await Promise.all([
+      storage.getScheduledCaseStudies(),
+      dbContentManager.getScheduledSections(),
+    ]);
+    return upcomingChanges(caseStudies, sections);
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.runDue();
+    this.timer = setInterval(() => {
+      this.runDue();
+    }, SCHEDULER_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  /**
+   * Applies every change that is due. Each storage call claims its rows by
+   * clearing the schedule in the same statement that applies it, so an item
+   * is changed once even when several instances run the scheduler.
+   */
+  async runDue(now: Date = new Date()): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+    this.running = true;
+
+    let applied = 0;
+    try {
+      applied += await this.applyCaseStudies(now);
+      applied += await this.applySections(now);
+    } catch (error) {
+      moduleLogger.error({ error }, "Scheduled publishing run failed");
+    } finally {
+      this.running = false;
+    }
+
+    if (applied > 0) {
+      moduleLogger.info({ applied }, "Applied scheduled publishing changes");
+    }
+    return applied;
+  }
+
+  private async applyCaseStudies(now: Date): Promise<number> {
+    const published = await storage.publishDueCaseStudies(now);
+    const unpublished = await storage.unpublishDueCaseStudies(now);
+
+    for (const study of published) {
+      await auditService.recordSystem({
+        action: "case_study.publish",
+        entityType: "case_study",
+        entityId: study.id,
+        after: { status: study.status },
+      });
+      await webhookService.emit("case_study.published", caseStudyEventData(study));
+    }
+    for (const study of unpublished) {
+      await auditService.recordSystem({
+        action: "case_study.unpublish",
+        entityType: "case_study",
+        entityId: study.id,
+        after: { status: study.status },
+      });
+    }
+
+    const changed = published.length + unpublished.length;
+    if (changed > 0) {
+      await cacheSync.invalidateContentCache({
+        invalidatePortfolio: true,
+        broadcastUpdate: true,
+      });
+    }
+    return changed;
+  }
+
+  private async applySections(now: Date): Promise<number> {
+    const published = await dbContentManager.publishDue(now);
+    for (const section of published) {
+      await this.invalidateSectionCaches(section);
+      await auditService.recordSystem({
+        action: "content.publish",
+        entityType: "content_section",
+        entityId: section.id,
+        after: section.content,
+      });
+      await this.emitContentUpdated(section);
+    }
+
+    const { reverted, skipped } = await dbContentManager.revertDue(now);
+    for (const section of reverted) {
+      await this.invalidateSectionCaches(section);
+      await auditService.recordSystem({
+        action: "content.unpublish",
+        entityType: "content_section",
+        entityId: section.id,
+        after: { publishedVersion: section.publishedVersion },
+      });
+      await this.emitContentUpdated(section);
+    }
+    for (const section of skipped) {
+      moduleLogger.warn(
+        { sectionId: section.id },
+        "Scheduled unpublish skipped: no earlier published version"
+      );
+    }
+
+    return published.length + reverted.length;
+  }
+
+  private async emitContentUpdated(section: ContentSection): Promise<void> {
+    await webhookService.emit("content.updated", {
+      sectionId: section.id,
+      version: section.publishedVersion,
+      publishedAt: section.publishedAt,
+    });
+  }
+
+  private async invalidateSectionCaches(section: ContentSection): Promise<void> {
+    await cacheSync.invalidateContentCache({
+      invalidatePortfolio: true,
+      invalidateContent: true,
+      invalidateSpecific: [
+        `route:/content/${section.id}`,
+        `route:/api/portfolio/content/${section.id}`,
+        'route:/content/about',
+        'route:/api/portfolio/content'
+      ],
+      broadcastUpdate: true
+    });
+  }
+
+  private assertValid(schedule: PublishSchedule): void {
+    const problem = validateSchedule(schedule);
+    if (problem) {
+      throw AppError.badRequest(problem);
+    }
+  }
+}
+
+export const publishingService = new PublishingService();
@@ -0,0 +1,134 @@
+import type { Application } from "express";
+import type { Permission } from "../../shared/schema";
+import {
+  policyOf,
+  type PolicyDeclaration,
+  type RouteAccess,
+} from "../src/middleware/routePolicy";
+
+/**
+ * Reads the declared access policy of every route registered on the app, as
+ * found on the middleware in each route's handler chain, and reports routes
+ * that must not be served as they are.
+ */
+
+export type RouteProblemKind = "undeclared" | "conflicting" | "public_pii";
+
+export interface RouteProblem {
+  kind: RouteProblemKind;
+  message: string;
+}
+
+export interface RouteEntry {
+  method: string;
+  path: string;
+  access: RouteAccess | null;
+  permission: Permission | null;
+  pii: boolean;
+  problems: RouteProblem[];
+  // A route with the same method and path was registered earlier, so this one never runs
+  shadowed: boolean;
+}
+
+export interface RouteReport {
+  routes: RouteEntry[];
+  summary: {
+    total: number;
+    public: number;
+    authenticated: number;
+    permission: number;
+    pii: number;
+    shadowed: number;
+    problems: number;
+  };
+}
+
+interface RouterLayer {
+  route?: {
+    path: string | RegExp | Array<string | RegExp>;
+    methods: Record<string, boolean>;
+    stack: Array<{ handle: unknown }>;
+  };
+}
+
+function describePath(path: string | RegExp | Array<string | RegExp>): string {
+  return Array.isArray(path) ? path.map(String).join(", ") : String(path);
+}
+
+export function collectRoutes(app: Application): RouteEntry[] {
+  const stack: RouterLayer[] = (app as any)._router?.stack ?? [];
+  const seen = new Set<string>();
+  const entries: RouteEntry[] = [];
+
+  for (const layer of stack) {
+    if (!layer.route) {
+      continue;
+    }
+
+    const path = describePath(layer.route.path);
+    const declarations = layer.route.stack
+      .map((handler) => policyOf(handler.handle))
+      .filter((declaration): declaration is PolicyDeclaration => !!declaration);
+    const accessDeclarations = declarations.filter((d) => d.access);
+    const access = accessDeclarations[0]?.access ?? null;
+    const permission = accessDeclarations[0]?.permission ?? null;
+    const pii = declarations.some((d) => d.pii);
+
+    const problems: RouteProblem[] = [];
+    if (!access) {
+      problems.push({
+        kind: "undeclared",
+        message: "No access policy declared (publicRoute, requireAuth or requirePermission)",
+      });
+    } else if (accessDeclarations.length > 1) {
+      problems.push({
+        kind: "conflicting",
+        message: `Declares ${accessDeclarations.length} access policies`,
+      });
+    }
+    if (access === "public" && pii) {
+      problems.push({
+        kind: "public_pii",
+        message: "Returns personal data without authentication",
+      });
+    }
+
+    const methods = Object.keys(layer.route.methods).filter(
+      (method) => layer.route!.methods[method]
+    );
+    for (const method of methods) {
+      const key = `${method} ${path}`;
+      entries.push({
+        method: method.toUpperCase(),
+        path,
+        access,
+        permission,
+        pii,
+        problems,
+        shadowed: seen.has(key),
+      });
+      seen.add(key);
+    }
+  }
+
+  return entries;
+}
+
+export function buildRouteReport(app: Application): RouteReport {
+  const routes = collectRoutes(app);
+  const count = (predicate: (route: RouteEntry) => boolean) =>
+    routes.filter(predicate).length;
+
+  return {
+    routes,
+    summary: {
+      total: routes.length,
+      public: count((route) => route.access === "public"),
+      authenticated: count((route) => route.access === "authenticated"),
+      permission: count((route) => route.access === "permission"),
+      pii: count((route) => route.pii),
+      shadowed: count((route) => route.shadowed),
+      problems: count((route) => route.problems.length > 0),
+    },
+  };
+}
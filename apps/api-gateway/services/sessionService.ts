@@ -0,0 +1,95 @@
+import crypto from "crypto";
+import { storage } from "../storage";
+import { AppError } from "../../../packages/shared-utils";
+import type { UserSession } from "../../shared/schema";
+
+export interface ActiveSession {
+  id: string;
+  current: boolean;
+  device: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+}
+
+// The raw sid is the cookie secret, so clients only ever see a digest of it
+export function publicSessionId(sid: string): string {
+  return crypto.createHash("sha256").update(sid).digest("hex").slice(0, 24);
+}
+
+// Order matters: Edge and Opera user agents also contain "Chrome"
+const BROWSERS: [string, RegExp][] = [
+  ["Edge", /Edg\//],
+  ["Opera", /OPR\//],
+  ["Chrome", /Chrome\//],
+  ["Firefox", /Firefox\//],
+  ["Safari", /Version\/.*Safari\//],
+  ["curl", /^curl\//],
+];
+
+const OPERATING_SYSTEMS: [string, RegExp][] = [
+  ["iOS", /iPhone|iPad|iPod/],
+  ["Android", /Android/],
+  ["Windows", /Windows/],
+  ["macOS", /Mac OS X|Macintosh/],
+  ["Linux", /Linux/],
+];
+
+// Coarse "Browser on OS" label; good enough to recognise your own devices
+export function describeDevice(userAgent: string | null | undefined): string {
+  if (!userAgent) {
+    return "Unknown device";
+  }
+
+  const browser =
+    BROWSERS.find(([, pattern]) => pattern.test(userAgent))?.[0] ??
+    "Unknown browser";
+  const os = OPERATING_SYSTEMS.find(([, pattern]) => pattern.test(userAgent))?.[0];
+
+  return os ? `${browser} on ${os}` : browser;
+}
+
+export class SessionService {
+  async listForUser(userId: number, currentSid: string): Promise<ActiveSession[]> {
+    const sessions = await storage.getActiveUserSessions(userId);
+    return sessions.map((session) => this.toActiveSession(session, currentSid));
+  }
+
+  async revoke(userId: number, sessionId: string, currentSid: string): Promise<void> {
+    const sessions = await storage.getActiveUserSessions(userId);
+    const target = sessions.find((session) => publicSessionId(session.sid) === sessionId);
+    if (!target) {
+      throw AppError.notFound("Session not found");
+    }
+    if (target.sid === currentSid) {
+      throw AppError.badRequest("Use sign out to end the current session");
+    }
+    await storage.deleteUserSession(target.sid);
+  }
+
+  // Returns how many sessions were ended
+  async revokeOthers(userId: number, currentSid: string): Promise<number> {
+    return storage.deleteUserSessions(userId, currentSid);
+  }
+
+  async revokeAll(userId: number): Promise<number> {
+    return storage.deleteUserSessions(userId);
+  }
+
+  private toActiveSession(session: UserSession, currentSid: string): ActiveSession {
+    return {
+      id: publicSessionId(session.sid),
+      current: session.sid === currentSid,
+      device: describeDevice(session.userAgent),
+      ipAddress: session.ipAddress,
+      userAgent: session.userAgent,
+      createdAt: session.createdAt,
+      lastSeenAt: session.lastSeenAt,
+      expiresAt: session.expiresAt,
+    };
+  }
+}
+
+export const sessionService = new SessionService();
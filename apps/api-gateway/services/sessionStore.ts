@@ -0,0 +1,104 @@
+import session, { type SessionData } from "express-session";
+import { storage } from "../storage";
+import { env, withModule } from "../../../packages/shared-utils";
+
+const moduleLogger = withModule("sessionStore");
+
+export const SESSION_IDLE_TIMEOUT_MS = env.SESSION_IDLE_TIMEOUT_MINUTES * 60 * 1000;
+export const SESSION_ABSOLUTE_TIMEOUT_MS =
+  env.SESSION_ABSOLUTE_TIMEOUT_HOURS * 60 * 60 * 1000;
+
+// Unmodified sessions refresh their expiry at most this often
+const TOUCH_INTERVAL_MS = 60 * 1000;
+const PURGE_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * The idle deadline comes from the rolling cookie; the absolute deadline is
+ * counted from `authenticatedAt` so activity can never extend a login forever.
+ */
+export function sessionExpiry(sess: SessionData, now: number = Date.now()): Date {
+  const cookieExpiry = sess.cookie?.expires
+    ? new Date(sess.cookie.expires).getTime()
+    : now + SESSION_IDLE_TIMEOUT_MS;
+  const absoluteExpiry = sess.authenticatedAt
+    ? sess.authenticatedAt + SESSION_ABSOLUTE_TIMEOUT_MS
+    : Infinity;
+  return new Date(Math.min(cookieExpiry, absoluteExpiry));
+}
+
+/**
+ * express-session store backed by the `user_sessions` table, so logins
+ * survive restarts and can be listed and revoked per user.
+ */
+export class PgSessionStore extends session.Store {
+  private lastTouched = new Map<string, number>();
+
+  constructor() {
+    super();
+    setInterval(() => {
+      this.purgeExpired();
+    }, PURGE_INTERVAL_MS).unref();
+  }
+
+  get(sid: string, callback: (err: any, session?: SessionData | null) => void): void {
+    storage
+      .getUserSession(sid)
+      .then((row) => callback(null, row ? (row.sess as SessionData) : null))
+      .catch((error) => callback(error));
+  }
+
+  set(sid: string, sess: SessionData, callback?: (err?: any) => void): void {
+    this.lastTouched.set(sid, Date.now());
+    storage
+      .upsertUserSession({
+        sid,
+        sess,
+        userId: sess.userId ?? null,
+        ipAddress: sess.client?.ipAddress ?? null,
+        userAgent: sess.client?.userAgent ?? null,
+        lastSeenAt: new Date(),
+        expiresAt: sessionExpiry(sess),
+      })
+      .then(() => callback?.())
+      .catch((error) => callback?.(error));
+  }
+
+  destroy(sid: string, callback?: (err?: any) => void): void {
+    this.lastTouched.delete(sid);
+    storage
+      .deleteUserSession(sid)
+      .then(() => callback?.())
+      .catch((error) => callback?.(error));
+  }
+
+  touch(sid: string, sess: SessionData, callback?: () => void): void {
+    const now = Date.now();
+    if (now - (this.lastTouched.get(sid) ?? 0) < TOUCH_INTERVAL_MS) {
+      callback?.();
+      return;
+    }
+
+    this.lastTouched.set(sid, now);
+    storage
+      .touchUserSession(sid, sessionExpiry(sess, now))
+      .catch((error) => moduleLogger.error({ error }, "Failed to touch session"))
+      .finally(() => callback?.());
+  }
+
+  async purgeExpired(): Promise<void> {
+    try {
+      const purged = await storage.deleteExpiredUserSessions();
+      const cutoff = Date.now() - SESSION_IDLE_TIMEOUT_MS;
+      this.lastTouched.forEach((touchedAt, sid) => {
+        if (touchedAt < cutoff) this.lastTouched.delete(sid);
+      });
+      if (purged > 0) {
+        moduleLogger.info({ purged }, "Purged expired sessions");
+      }
+    } catch (error) {
+      moduleLogger.error({ error }, "Failed to purge expired sessions");
+    }
+  }
+}
+
+export const sessionStore = new PgSessionStore();
@@ -0,0 +1,98 @@
+/**
+ * sitemap.xml and robots.txt, built from the published case studies and the
+ * per-page SEO settings. Pages whose robots directive says noindex are left
+ * out of the sitemap but not disallowed in robots.txt: a crawler kept away
+ * from a page never sees its noindex meta tag.
+ */
+import type { CaseStudy, SeoSettings } from "../../shared/schema";
+
+export interface SitemapEntry {
+  loc: string;
+  lastmod: Date | null;
+}
+
+// SEO settings are stored per page key: "home", "case-studies", and
+// "case-study/<slug>" for a single case study. This is the site path a key
+// belongs to; keys for sections of the home page (about, contact, ...) have none.
+export function seoPagePath(key: string): string | null {
+  if (key === "home") {
+    return "/";
+  }
+  return key === "case-studies" || /^case-study\/[^/]+$/.test(key) ? `/${key}` : null;
+}
+
+export function isNoindex(settings: Pick<SeoSettings, "robotsDirective"> | undefined): boolean {
+  return !!settings?.robotsDirective && /\bnoindex\b|\bnone\b/i.test(settings.robotsDirective);
+}
+
+function latest(dates: (Date | string | null | undefined)[]): Date | null {
+  const times = dates.filter((date): date is Date | string => !!date).map((date) => new Date(date).getTime());
+  return times.length > 0 ? new Date(Math.max(...times)) : null;
+}
+
+// The page's canonical URL when it has one, otherwise its address on this site
+function pageUrl(origin: string, path: string, settings: SeoSettings | undefined): string {
+  if (settings?.canonicalUrl) {
+    try {
+      return new URL(settings.canonicalUrl, origin).toString();
+    } catch {
+      // An unparseable canonical URL is ignored rather than published
+    }
+  }
+  return new URL(path, origin).toString();
+}
+
+export function buildSitemapEntries(origin: string, seo: SeoSettings[], caseStudies: CaseStudy[]): SitemapEntry[] {
+  const settings = new Map(seo.map((page) => [page.page, page]));
+  const newestStudy = latest(caseStudies.map((study) => study.updatedAt));
+
+  const pages = [
+    { path: "/", key: "home", lastmod: latest([settings.get("home")?.updatedAt, newestStudy]) },
+    { path: "/case-studies", key: "case-studies", lastmod: latest([settings.get("case-studies")?.updatedAt, newestStudy]) },
+    ...caseStudies.map((study) => ({
+      path: `/case-study/${encodeURIComponent(study.slug)}`,
+      key: `case-study/${study.slug}`,
+      lastmod: latest([study.updatedAt, settings.get(`case-study/${study.slug}`)?.updatedAt]),
+    })),
+  ];
+
+  return pages
+    .filter((page) => !isNoindex(settings.get(page.key)))
+    .map((page) => ({ loc: pageUrl(origin, page.path, settings.get(page.key)), lastmod: page.lastmod }));
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+export function renderSitemap(entries: SitemapEntry[]): string {
+  const urls = entries.map((entry) => {
+    const lastmod = entry.lastmod ? `\n    <lastmod>${entry.lastmod.toISOString().split("T")[0]}</lastmod>` : "";
+    return `  <url>\n    <loc>${escapeXml(entry.loc)}</loc>${lastmod}\n  </url>`;
+  });
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">`,
+    ...urls,
+    `</urlset>`,
+    "",
+  ].join("\n");
+}
+
+// Paths that are never worth crawling
+const disallowed = ["/admin", "/api/"];
+
+export function renderRobots(origin: string): string {
+  return [
+    "User-agent: *",
+    ...disallowed.map((path) => `Disallow: ${path}`),
+    "",
+    `Sitemap: ${new URL("/sitemap.xml", origin).toString()}`,
+    "",
+  ].join("\n");
+}
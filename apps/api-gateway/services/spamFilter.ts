@@ -0,0 +1,154 @@
+import crypto from "crypto";
+
+/**
+ * Offline spam screening for the public contact form: a signed form-load
+ * token for minimum fill time, a honeypot field and a heuristic score.
+ * Submissions at or above SPAM_THRESHOLD are stored flagged, never dropped.
+ */
+
+export const SPAM_THRESHOLD = 50;
+
+// Humans take longer than this to fill in name, email and message
+export const MIN_FILL_TIME_MS = 3000;
+const FORM_TOKEN_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+const SPAM_KEYWORDS = [
+  "casino",
+  "viagra",
+  "cialis",
+  "crypto",
+  "bitcoin",
+  "forex",
+  "loan",
+  "backlink",
+  "seo service",
+  "guest post",
+  "rank your website",
+  "first page of google",
+  "click here",
+  "buy now",
+  "limited offer",
+  "earn money",
+  "work from home",
+  "adult",
+];
+
+export interface SpamCheckInput {
+  name: string;
+  email: string;
+  company?: string | null;
+  message: string;
+  // Hidden field real visitors never see
+  honeypot?: unknown;
+  formToken?: unknown;
+  // Normalised messages received recently, for duplicate detection
+  recentMessages?: string[];
+  now?: number;
+}
+
+export interface SpamCheckResult {
+  score: number;
+  isSpam: boolean;
+  reasons: string[];
+}
+
+function sign(secret: string, issuedAt: string): string {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(`contact-form:${issuedAt}`)
+    .digest("base64url");
+}
+
+// Issued when the form renders; proves when it was loaded without server state
+export function createFormToken(secret: string, now: number = Date.now()): string {
+  const issuedAt = String(now);
+  return `${issuedAt}.${sign(secret, issuedAt)}`;
+}
+
+// Milliseconds since the token was issued, or null if it is missing or forged
+export function formTokenAge(
+  secret: string,
+  token: unknown,
+  now: number = Date.now()
+): number | null {
+  if (typeof token !== "string") {
+    return null;
+  }
+  const [issuedAt, signature] = token.split(".");
+  if (!issuedAt || !signature || !/^\d+$/.test(issuedAt)) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(secret, issuedAt));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  return now - Number(issuedAt);
+}
+
+export function normalizeMessage(message: string): string {
+  return message.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function countLinks(text: string): number {
+  return (text.match(/https?:\/\/|www\.|\[url=/gi) ?? []).length;
+}
+
+export function scoreSubmission(secret: string, input: SpamCheckInput): SpamCheckResult {
+  const now = input.now ?? Date.now();
+  const reasons: string[] = [];
+  let score = 0;
+  const add = (points: number, reason: string) => {
+    score += points;
+    reasons.push(reason);
+  };
+
+  if (typeof input.honeypot === "string" && input.honeypot.trim() !== "") {
+    add(100, "Hidden honeypot field was filled in");
+  }
+
+  const age = formTokenAge(secret, input.formToken, now);
+  if (age === null) {
+    add(40, "Missing or invalid form token");
+  } else if (age < MIN_FILL_TIME_MS) {
+    add(50, `Form submitted ${Math.max(0, Math.round(age / 100) / 10)}s after loading`);
+  } else if (age > FORM_TOKEN_MAX_AGE_MS) {
+    add(20, "Form token expired");
+  }
+
+  const links = countLinks(input.message);
+  if (links > 0) {
+    add(links === 1 ? 10 : Math.min(60, 10 + (links - 1) * 15), `${links} link(s) in message`);
+  }
+  if (countLinks(`${input.name} ${input.company ?? ""}`) > 0) {
+    add(30, "Link in name or company");
+  }
+
+  const text = normalizeMessage(`${input.name} ${input.company ?? ""} ${input.message}`);
+  const keywords = SPAM_KEYWORDS.filter((keyword) => text.includes(keyword));
+  if (keywords.length > 0) {
+    add(Math.min(60, keywords.length * 20), `Spam keywords: ${keywords.join(", ")}`);
+  }
+
+  const normalized = normalizeMessage(input.message);
+  if (input.recentMessages?.includes(normalized)) {
+    add(40, "Same message was submitted recently");
+  }
+
+  // Word or line repeated over and over within the message itself
+  const words = normalized.split(" ").filter((word) => word.length > 2);
+  const counts = new Map<string, number>();
+  words.forEach((word) => counts.set(word, (counts.get(word) ?? 0) + 1));
+  const mostRepeated = Math.max(0, ...Array.from(counts.values()));
+  if (words.length >= 10 && mostRepeated / words.length > 0.3) {
+    add(20, "Repetitive message content");
+  }
+
+  const letters = input.message.replace(/[^a-zA-Z]/g, "");
+  if (letters.length >= 20 && letters === letters.toUpperCase()) {
+    add(10, "Message is all capitals");
+  }
+
+  return { score, isSpam: score >= SPAM_THRESHOLD, reasons };
+}
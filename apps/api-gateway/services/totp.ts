@@ -0,0 +1,131 @@
+import crypto from "crypto";
+
+/**
+ * RFC 6238 time-based one-time passwords (HMAC-SHA1, 30s step, 6 digits) -
+ * the defaults every authenticator app understands. Implemented on top of
+ * node's crypto so enrolment and login work without network access.
+ */
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/=+$/, "").replace(/\s/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+// 160-bit secret, the key length recommended by RFC 4226
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+export function timeStep(timeMs: number = Date.now()): number {
+  return Math.floor(timeMs / 1000 / STEP_SECONDS);
+}
+
+// RFC 4226 HOTP value for a single counter
+export function generateHotp(secret: string, counter: number): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto
+    .createHmac("sha1", base32Decode(secret))
+    .update(counterBuffer)
+    .digest();
+
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** DIGITS).toString().padStart(DIGITS, "0");
+}
+
+export function generateTotp(
+  secret: string,
+  timeMs: number = Date.now()
+): string {
+  return generateHotp(secret, timeStep(timeMs));
+}
+
+/**
+ * Checks `token` against the current step and `window` steps either side to
+ * tolerate clock drift. Returns the matching step so callers can reject a
+ * code that has already been used, or null when nothing matches.
+ */
+export function verifyTotp(
+  secret: string,
+  token: string,
+  options: { window?: number; timeMs?: number } = {}
+): number | null {
+  const { window = 1, timeMs = Date.now() } = options;
+  const normalized = token.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(normalized)) {
+    return null;
+  }
+
+  const current = timeStep(timeMs);
+  for (let step = current - window; step <= current + window; step++) {
+    const expected = Buffer.from(generateHotp(secret, step));
+    if (crypto.timingSafeEqual(expected, Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+export function buildOtpauthUri(params: {
+  secret: string;
+  accountName: string;
+  issuer: string;
+}): string {
+  const label = encodeURIComponent(`${params.issuer}:${params.accountName}`);
+  const query = new URLSearchParams({
+    secret: params.secret,
+    issuer: params.issuer,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${query.toString()}`;
+}
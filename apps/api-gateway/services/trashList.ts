@@ -0,0 +1,46 @@
+/**
+ * The Trash view: one item per deletion, with the date it will be purged.
+ * Purging and restoring live in trashService.
+ */
+import type { TrashedRow } from "../storage";
+import type { TrashEntityType, TrashItem } from "../../shared/schema";
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+const trashKey = (type: TrashEntityType, id: number) => `${type}:${id}`;
+
+/**
+ * Rows that went to the trash with their parent (a category's skills, a case
+ * study's images) share its deletedAt and are folded into the parent's
+ * `children` count; rows deleted on their own are listed separately.
+ */
+export function buildTrashList(rows: TrashedRow[], retentionDays: number): TrashItem[] {
+  const byKey = new Map(rows.map((row) => [trashKey(row.type, row.id), row]));
+  const items = new Map<string, TrashItem>();
+  const cascaded: TrashedRow[] = [];
+
+  for (const row of rows) {
+    const parent = row.parent && byKey.get(trashKey(row.parent.type, row.parent.id));
+    if (parent && parent.deletedAt.getTime() === row.deletedAt.getTime()) {
+      cascaded.push(row);
+      continue;
+    }
+    items.set(trashKey(row.type, row.id), {
+      type: row.type,
+      id: row.id,
+      title: row.title,
+      deletedAt: row.deletedAt,
+      purgeAt: new Date(row.deletedAt.getTime() + retentionDays * DAY_MS),
+      children: 0,
+    });
+  }
+
+  for (const row of cascaded) {
+    const parent = items.get(trashKey(row.parent!.type, row.parent!.id));
+    if (parent) {
+      parent.children++;
+    }
+  }
+
+  return Array.from(items.values()).sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+}
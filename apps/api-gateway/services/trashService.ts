@@ -0,0 +1,120 @@
+import fs from "fs/promises";
+import path from "path";
+import { storage } from "../storage";
+import { cacheSync } from "../cacheSync";
+import { auditService } from "./auditService";
+import { buildTrashList, DAY_MS } from "./trashList";
+import type { TrashEntityType, TrashItem } from "../../shared/schema";
+import { env, withModule, AppError } from "../../../packages/shared-utils";
+
+const moduleLogger = withModule("trashService");
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Deleted portfolio items wait in the trash for TRASH_RETENTION_DAYS before
+ * they are purged for good. Restoring an item brings back the children that
+ * were deleted with it.
+ */
+export class TrashService {
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly retentionDays: number = env.TRASH_RETENTION_DAYS) {}
+
+  async list(): Promise<{ retentionDays: number; items: TrashItem[] }> {
+    const rows = await storage.getTrashedRows();
+    return { retentionDays: this.retentionDays, items: buildTrashList(rows, this.retentionDays) };
+  }
+
+  async restore(type: TrashEntityType, id: number): Promise<{ restored: number }> {
+    const row = await storage.getTrashedRow(type, id);
+    if (!row) {
+      throw AppError.notFound("Item not found in the trash");
+    }
+    if (row.parent && (await storage.isTrashed(row.parent.type, row.parent.id))) {
+      throw AppError.conflict("It belongs to an item that is also in the trash; restore that first", {
+        parent: row.parent,
+      });
+    }
+
+    const restored = await storage.restoreTrashed(type, id);
+    await this.invalidateCaches();
+    return { restored };
+  }
+
+  // A trashed case study keeps its slug under the unique constraint until it is purged
+  async assertSlugAvailable(slug: string | undefined, exceptId?: number): Promise<void> {
+    const trashed = slug ? await storage.getTrashedCaseStudyBySlug(slug) : undefined;
+    if (trashed && trashed.id !== exceptId) {
+      throw AppError.conflict(`A case study in the trash still uses the slug "${slug}"; restore it or choose another slug`, {
+        trashed: { type: "case_study", id: trashed.id },
+      });
+    }
+  }
+
+  async purge(type: TrashEntityType, id: number): Promise<Record<string, any>> {
+    const row = await storage.purgeTrashed(type, id);
+    if (!row) {
+      throw AppError.notFound("Item not found in the trash");
+    }
+    await this.removeFiles(type, row);
+    return row;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.purgeExpired();
+    this.timer = setInterval(() => {
+      this.purgeExpired();
+    }, PURGE_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    try {
+      const cutoff = new Date(now.getTime() - this.retentionDays * DAY_MS);
+      const purged = await storage.purgeTrashedBefore(cutoff);
+
+      for (const { type, row } of purged) {
+        await this.removeFiles(type, row);
+        await auditService.recordSystem({
+          action: "trash.purge",
+          entityType: type,
+          entityId: row.id,
+          before: row,
+        });
+      }
+
+      if (purged.length > 0) {
+        moduleLogger.info({ purged: purged.length }, "Purged expired trash");
+      }
+      return purged.length;
+    } catch (error) {
+      moduleLogger.error({ error }, "Trash purge failed");
+      return 0;
+    }
+  }
+
+  // Knowledge base files outlive the soft delete so that restores work
+  private async removeFiles(type: TrashEntityType, row: Record<string, any>): Promise<void> {
+    if (type !== "kb_document" || !row.filename) {
+      return;
+    }
+    await fs.unlink(path.join("uploads", row.filename)).catch((error: NodeJS.ErrnoException) => {
+      if (error.code !== "ENOENT") {
+        moduleLogger.warn({ error, filename: row.filename }, "Could not remove purged document file");
+      }
+    });
+  }
+
+  private async invalidateCaches(): Promise<void> {
+    await cacheSync.invalidateContentCache({
+      invalidatePortfolio: true,
+      broadcastUpdate: true,
+    });
+  }
+}
+
+export const trashService = new TrashService();
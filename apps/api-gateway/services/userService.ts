@@ -0,0 +1,426 @@
+import bcrypt from "bcrypt";
+import crypto from "crypto";
+import { storage } from "../storage";
+import type { User, PublicUser, UserRole } from "../../shared/schema";
+import { env, withModule, AppError } from "../../../packages/shared-utils";
+import { generateTotpSecret, verifyTotp, buildOtpauthUri } from "./totp";
+
+const moduleLogger = withModule("userService");
+
+const BCRYPT_ROUNDS = 12;
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000; // 1 hour
+export const MIN_PASSWORD_LENGTH = 8;
+const TOTP_ISSUER = "Portfolio Admin";
+const RECOVERY_CODE_COUNT = 10;
+
+export interface TotpEnrolment {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface PasswordResetTicket {
+  userId: number;
+  username: string;
+  token: string;
+  expiresAt: Date;
+}
+
+// Hash compared against when the username does not exist, so failed logins
+// for unknown and known users take comparable time.
+let dummyHash: Promise<string> | null = null;
+function getDummyHash(): Promise<string> {
+  if (!dummyHash) {
+    dummyHash = bcrypt.hash("timing-equaliser", BCRYPT_ROUNDS);
+  }
+  return dummyHash;
+}
+
+function hashResetToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// Recovery codes are random enough that a plain sha256 is sufficient
+function hashRecoveryCode(code: string): string {
+  const normalized = code
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+  return crypto.createHash("sha256").update(normalized).digest("hex");
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+}
+
+export class UserService {
+  // Strip credential material before a user leaves the server
+  toPublicUser(user: User): PublicUser {
+    const {
+      password: _password,
+      passwordResetTokenHash: _tokenHash,
+      passwordResetExpiresAt: _tokenExpiry,
+      totpSecret: _totpSecret,
+      totpPendingSecret: _totpPendingSecret,
+      totpLastUsedStep: _totpLastUsedStep,
+      recoveryCodeHashes: _recoveryCodeHashes,
+      ...publicUser
+    } = user;
+    return publicUser;
+  }
+
+  async hashPassword(plain: string): Promise<string> {
+    return bcrypt.hash(plain, BCRYPT_ROUNDS);
+  }
+
+  async verifyPassword(plain: string, hash: string): Promise<boolean> {
+    return bcrypt.compare(plain, hash);
+  }
+
+  assertPasswordStrength(password: string): void {
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      throw AppError.badRequest(
+        `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+      );
+    }
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    return storage.getUser(id);
+  }
+
+  async listUsers(): Promise<PublicUser[]> {
+    const users = await storage.getUsers();
+    return users.map((user) => this.toPublicUser(user));
+  }
+
+  // Returns the user when the password matches, undefined otherwise. Users
+  // with 2FA enabled still need verifySecondFactor before they are logged in.
+  async authenticate(
+    username: string,
+    password: string
+  ): Promise<User | undefined> {
+    const user = await storage.getUserByUsername(username);
+    if (!user) {
+      await bcrypt.compare(password, await getDummyHash());
+      return undefined;
+    }
+
+    const valid = await this.verifyPassword(password, user.password);
+    if (!valid) {
+      return undefined;
+    }
+
+    return user;
+  }
+
+  async recordLogin(userId: number): Promise<void> {
+    await storage.updateUser(userId, { lastLoginAt: new Date() });
+  }
+
+  isTotpEnabled(user: User): boolean {
+    return !!user.totpEnabledAt && !!user.totpSecret;
+  }
+
+  // Accepts either a current TOTP code or an unused recovery code
+  async verifySecondFactor(userId: number, code: string): Promise<boolean> {
+    const user = await storage.getUser(userId);
+    if (!user || !this.isTotpEnabled(user)) {
+      return false;
+    }
+
+    const step = verifyTotp(user.totpSecret!, code);
+    if (step !== null) {
+      if (user.totpLastUsedStep !== null && step <= user.totpLastUsedStep) {
+        moduleLogger.warn({ userId }, "Rejected reused TOTP code");
+        return false;
+      }
+      await storage.updateUser(userId, { totpLastUsedStep: step });
+      return true;
+    }
+
+    const hashes = user.recoveryCodeHashes ?? [];
+    const codeHash = hashRecoveryCode(code);
+    if (hashes.includes(codeHash)) {
+      await storage.updateUser(userId, {
+        recoveryCodeHashes: hashes.filter((hash) => hash !== codeHash),
+      });
+      moduleLogger.info(
+        { userId, remaining: hashes.length - 1 },
+        "Recovery code used"
+      );
+      return true;
+    }
+
+    return false;
+  }
+
+  // Starts enrolment with a fresh secret; 2FA stays off until confirmTotpEnrolment
+  async beginTotpEnrolment(userId: number): Promise<TotpEnrolment> {
+    const user = await storage.getUser(userId);
+    if (!user) {
+      throw AppError.notFound("User not found");
+    }
+    if (this.isTotpEnabled(user)) {
+      throw AppError.conflict("Two-factor authentication is already enabled");
+    }
+
+    const secret = generateTotpSecret();
+    await storage.updateUser(userId, { totpPendingSecret: secret });
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri({
+        secret,
+        accountName: user.username,
+        issuer: TOTP_ISSUER,
+      }),
+    };
+  }
+
+  // Enables 2FA once the user proves their app produces valid codes, and
+  // returns the recovery codes - the only time they are available in plain text
+  async confirmTotpEnrolment(userId: number, code: string): Promise<string[]> {
+    const user = await storage.getUser(userId);
+    if (!user || !user.totpPendingSecret) {
+      throw AppError.badRequest("Start two-factor setup first");
+    }
+
+    const step = verifyTotp(user.totpPendingSecret, code);
+    if (step === null) {
+      throw AppError.badRequest("Invalid verification code");
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await storage.updateUser(userId, {
+      totpSecret: user.totpPendingSecret,
+      totpPendingSecret: null,
+      totpEnabledAt: new Date(),
+      totpLastUsedStep: step,
+      recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+    });
+
+    moduleLogger.info({ userId }, "Two-factor authentication enabled");
+    return recoveryCodes;
+  }
+
+  async regenerateRecoveryCodes(
+    userId: number,
+    code: string
+  ): Promise<string[]> {
+    if (!(await this.verifySecondFactor(userId, code))) {
+      throw AppError.unauthorized("Invalid verification code");
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await storage.updateUser(userId, {
+      recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+    });
+
+    moduleLogger.info({ userId }, "Recovery codes regenerated");
+    return recoveryCodes;
+  }
+
+  async disableTotp(userId: number, password: string): Promise<void> {
+    const user = await storage.getUser(userId);
+    if (!user) {
+      throw AppError.notFound("User not found");
+    }
+
+    if (!(await this.verifyPassword(password, user.password))) {
+      throw AppError.unauthorized("Password is incorrect");
+    }
+
+    await storage.updateUser(userId, {
+      totpSecret: null,
+      totpPendingSecret: null,
+      totpEnabledAt: null,
+      totpLastUsedStep: null,
+      recoveryCodeHashes: null,
+    });
+    moduleLogger.info({ userId }, "Two-factor authentication disabled");
+  }
+
+  async createUser(data: {
+    username: string;
+    password: string;
+    displayName?: string | null;
+    email?: string | null;
+    role?: UserRole;
+  }): Promise<PublicUser> {
+    this.assertPasswordStrength(data.password);
+
+    const existing = await storage.getUserByUsername(data.username);
+    if (existing) {
+      throw AppError.conflict("Username is already taken");
+    }
+
+    const user = await storage.createUser({
+      username: data.username,
+      password: await this.hashPassword(data.password),
+      displayName: data.displayName ?? null,
+      email: data.email ?? null,
+      role: data.role ?? "viewer",
+    });
+
+    moduleLogger.info(
+      { userId: user.id, username: user.username, role: user.role },
+      "User created"
+    );
+    return this.toPublicUser(user);
+  }
+
+  // Changes a user's role, refusing to leave the team without an owner
+  async updateRole(userId: number, role: UserRole): Promise<PublicUser> {
+    const user = await storage.getUser(userId);
+    if (!user) {
+      throw AppError.notFound("User not found");
+    }
+
+    if (user.role === "owner" && role !== "owner") {
+      const owners = (await storage.getUsers()).filter(
+        (u) => u.role === "owner"
+      );
+      if (owners.length <= 1) {
+        throw AppError.conflict("At least one owner account is required");
+      }
+    }
+
+    const updated = await storage.updateUser(userId, { role });
+    moduleLogger.info({ userId, role }, "User role changed");
+    return this.toPublicUser(updated!);
+  }
+
+  async changePassword(
+    userId: number,
+    currentPassword: string,
+    newPassword: string
+  ): Promise<void> {
+    const user = await storage.getUser(userId);
+    if (!user) {
+      throw AppError.notFound("User not found");
+    }
+
+    const valid = await this.verifyPassword(currentPassword, user.password);
+    if (!valid) {
+      throw AppError.unauthorized("Current password is incorrect");
+    }
+
+    this.assertPasswordStrength(newPassword);
+    await this.setPassword(userId, newPassword);
+  }
+
+  // Issues a one-time reset token. Only the hash is stored; the caller hands
+  // the plain token to the user out of band.
+  async createPasswordResetTicket(
+    userId: number
+  ): Promise<PasswordResetTicket> {
+    const user = await storage.getUser(userId);
+    if (!user) {
+      throw AppError.notFound("User not found");
+    }
+
+    const token = crypto.randomBytes(24).toString("base64url");
+    const expiresAt = new Date(Date.now() + RESET_TOKEN_TTL_MS);
+
+    await storage.updateUser(userId, {
+      passwordResetTokenHash: hashResetToken(token),
+      passwordResetExpiresAt: expiresAt,
+    });
+
+    moduleLogger.info({ userId }, "Password reset ticket issued");
+    return { userId, username: user.username, token, expiresAt };
+  }
+
+  // Returns the id of the account whose password was reset
+  async resetPasswordWithToken(
+    username: string,
+    token: string,
+    newPassword: string
+  ): Promise<number> {
+    const user = await storage.getUserByUsername(username);
+    const invalid = AppError.unauthorized("Invalid or expired reset token");
+
+    if (!user || !user.passwordResetTokenHash || !user.passwordResetExpiresAt) {
+      throw invalid;
+    }
+
+    if (user.passwordResetExpiresAt.getTime() < Date.now()) {
+      throw invalid;
+    }
+
+    const expected = Buffer.from(user.passwordResetTokenHash, "hex");
+    const actual = Buffer.from(hashResetToken(token), "hex");
+    if (
+      expected.length !== actual.length ||
+      !crypto.timingSafeEqual(expected, actual)
+    ) {
+      throw invalid;
+    }
+
+    this.assertPasswordStrength(newPassword);
+    await this.setPassword(user.id, newPassword);
+    return user.id;
+  }
+
+  // Creates the owner account from ADMIN_USERNAME/ADMIN_PASSWORD the first
+  // time the server starts against an empty users table. Accounts created
+  // before roles existed default to viewer, so the oldest one is promoted if
+  // no owner is left. In production a missing or short ADMIN_PASSWORD (its
+  // default is "admin") stops the server instead of creating the owner.
+  async ensureBootstrapUser(): Promise<void> {
+    const users = await storage.getUsers();
+    if (users.length > 0) {
+      if (!users.some((user) => user.role === "owner")) {
+        await storage.updateUser(users[0].id, { role: "owner" });
+        moduleLogger.warn(
+          { userId: users[0].id },
+          "No owner account found - promoted oldest user to owner"
+        );
+      }
+      return;
+    }
+
+    const weakPassword = env.ADMIN_PASSWORD.length < MIN_PASSWORD_LENGTH;
+    if (weakPassword && env.NODE_ENV === "production") {
+      throw new Error(
+        `Refusing to start: there are no accounts yet and ADMIN_PASSWORD is unset or shorter than ${MIN_PASSWORD_LENGTH} characters, ` +
+          "set it to create the owner account"
+      );
+    }
+
+    await storage.createUser({
+      username: env.ADMIN_USERNAME,
+      password: await this.hashPassword(env.ADMIN_PASSWORD),
+      displayName: "Owner",
+      role: "owner",
+    });
+
+    if (weakPassword) {
+      moduleLogger.warn(
+        "Bootstrap owner created with a weak ADMIN_PASSWORD - change it after first login"
+      );
+    }
+    moduleLogger.info(
+      { username: env.ADMIN_USERNAME },
+      "Bootstrap owner account created"
+    );
+  }
+
+  private async setPassword(
+    userId: number,
+    newPassword: string
+  ): Promise<void> {
+    await storage.updateUser(userId, {
+      password: await this.hashPassword(newPassword),
+      passwordChangedAt: new Date(),
+      passwordResetTokenHash: null,
+      passwordResetExpiresAt: null,
+    });
+    moduleLogger.info({ userId }, "Password updated");
+  }
+}
+
+export const userService = new UserService();
@@ -1,7 +1,7 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import { db } from '../db';
 import { knowledgeBaseDocuments } from '../../shared/schema';
-import { eq } from 'drizzle-orm';
+import { eq, and, isNull } from 'drizzle-orm';
 
 interface EmbeddingResult {
   embedding: number[];
@@ -150,7 +150,7 @@ export class VectorEmbeddingService {
       // Get all documents with embeddings
       const documents = await db.select()
         .from(knowledgeBaseDocuments)
-        .where(eq(knowledgeBaseDocuments.status, 'embedded'));
+        .where(and(eq(knowledgeBaseDocuments.status, 'embedded'), isNull(knowledgeBaseDocuments.deletedAt)));
 
       const similarities: SimilarDocument[] = [];
 
@@ -214,7 +214,7 @@ export class VectorEmbeddingService {
     try {
       const unprocessedDocs = await db.select()
         .from(knowledgeBaseDocuments)
-        .where(eq(knowledgeBaseDocuments.status, 'processing'));
+        .where(and(eq(knowledgeBaseDocuments.status, 'processing'), isNull(knowledgeBaseDocuments.deletedAt)));
 
       let processed = 0;
       let failed = 0;
@@ -0,0 +1,222 @@
+import dns from "dns/promises";
+import { storage, type WebhookAttempt } from "../storage";
+import {
+  buildPayload,
+  isPrivateAddress,
+  nextDeliveryAttempt,
+  signPayload,
+  webhookHostname,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+} from "./webhooks";
+import type { WebhookDelivery, WebhookEventType, WebhookSubscription } from "../../shared/schema";
+import { env, withModule, AppError } from "../../../packages/shared-utils";
+
+const moduleLogger = withModule("webhookService");
+
+const DELIVERY_INTERVAL_MS = 30 * 1000;
+// A claimed delivery is not picked up again for this long, even if the process dies mid-request
+const DELIVERY_LEASE_MS = 2 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const BATCH_SIZE = 20;
+// Enough of the receiver's answer to debug with
+const RESPONSE_BODY_LIMIT = 1000;
+
+// fetch reports network problems as "fetch failed" with the reason in `cause`
+function describeError(error: unknown): string {
+  if (!(error instanceof Error)) {
+    return String(error);
+  }
+  const cause = error.cause instanceof Error ? error.cause.message : null;
+  return cause ? `${error.message}: ${cause}` : error.message;
+}
+
+/**
+ * Portfolio events are queued as one webhook_deliveries row per subscriber
+ * and posted from there, so a receiver that is down gets the event later
+ * instead of never. The ingestion worker queues its events in the same table.
+ */
+export class WebhookService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly allowedHosts: string[] = (env.WEBHOOK_ALLOWED_HOSTS ?? "")
+      .split(",")
+      .map((host) => host.trim().toLowerCase())
+      .filter(Boolean)
+  ) {}
+
+  // Why the URL may not be posted to, or null when it may. Checked on the
+  // resolved addresses, so a public name pointing at an internal one is caught
+  async targetProblem(url: string): Promise<string | null> {
+    const hostname = webhookHostname(url);
+    if (this.allowedHosts.includes(hostname)) {
+      return null;
+    }
+
+    let addresses: { address: string }[];
+    try {
+      addresses = await dns.lookup(hostname, { all: true, verbatim: true });
+    } catch (error) {
+      return `Could not resolve ${hostname}: ${describeError(error)}`;
+    }
+    const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+    return blocked
+      ? `${hostname} resolves to a private or loopback address (${blocked.address}); list it in WEBHOOK_ALLOWED_HOSTS to allow it`
+      : null;
+  }
+
+  async assertPublicTarget(url: string): Promise<void> {
+    const problem = await this.targetProblem(url);
+    if (problem) {
+      throw AppError.badRequest(problem);
+    }
+  }
+
+  // Never throws: a broken webhook setup must not fail the change that caused the event
+  async emit(event: WebhookEventType, data: Record<string, unknown>): Promise<void> {
+    try {
+      const queued = await storage.enqueueWebhookEvent(buildPayload(event, data));
+      if (queued.length > 0) {
+        this.processDue();
+      }
+    } catch (error) {
+      moduleLogger.error({ error, event }, "Could not queue webhook event");
+    }
+  }
+
+  // Posts a webhook.test event right away; a failed test is not retried
+  async sendTest(subscriptionId: number): Promise<WebhookDelivery> {
+    const subscription = await storage.getWebhookSubscription(subscriptionId);
+    if (!subscription) {
+      throw AppError.notFound("Webhook not found");
+    }
+
+    const payload = buildPayload("webhook.test", { subscriptionId, message: "This is a test delivery" });
+    const delivery = await storage.createWebhookDelivery({
+      subscriptionId,
+      event: payload.event,
+      payload,
+      nextAttemptAt: new Date(Date.now() + DELIVERY_LEASE_MS),
+    });
+    return this.deliver(delivery, subscription, false);
+  }
+
+  async retry(id: number): Promise<WebhookDelivery> {
+    const delivery = await storage.retryWebhookDelivery(id);
+    if (!delivery) {
+      throw AppError.notFound("No undelivered webhook with that ID");
+    }
+    this.processDue();
+    return delivery;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.processDue();
+    this.timer = setInterval(() => {
+      this.processDue();
+    }, DELIVERY_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  // Posts every delivery that is due; returns how many were accepted
+  async processDue(now: Date = new Date()): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+    this.running = true;
+    let delivered = 0;
+    try {
+      const due = await storage.claimDueWebhookDeliveries(now, new Date(now.getTime() + DELIVERY_LEASE_MS), BATCH_SIZE);
+      if (due.length > 0) {
+        const subscriptions = new Map((await storage.getWebhookSubscriptions()).map((s) => [s.id, s]));
+        for (const delivery of due) {
+          const subscription = subscriptions.get(delivery.subscriptionId);
+          if (subscription && (await this.deliver(delivery, subscription, true)).status === "delivered") {
+            delivered++;
+          }
+        }
+      }
+    } catch (error) {
+      moduleLogger.error({ error }, "Webhook delivery run failed");
+    } finally {
+      this.running = false;
+    }
+    return delivered;
+  }
+
+  private async deliver(delivery: WebhookDelivery, subscription: WebhookSubscription, retry: boolean): Promise<WebhookDelivery> {
+    const attempt = subscription.active
+      ? await this.post(subscription, delivery)
+      : { responseStatus: null, responseBody: null, lastError: "The webhook is paused", durationMs: 0 };
+    const ok = attempt.lastError === null;
+    const retryAt = ok || !retry || !subscription.active ? null : nextDeliveryAttempt(delivery.attempts + 1);
+
+    const result: WebhookAttempt = {
+      ...attempt,
+      status: ok ? "delivered" : retryAt ? "pending" : "failed",
+      nextAttemptAt: retryAt,
+    };
+    if (!ok) {
+      moduleLogger.warn(
+        { id: delivery.id, subscriptionId: subscription.id, event: delivery.event, attempts: delivery.attempts + 1, retryAt, error: attempt.lastError },
+        "Webhook delivery failed"
+      );
+    }
+    return (await storage.recordWebhookAttempt(delivery.id, result)) ?? delivery;
+  }
+
+  private async post(
+    subscription: WebhookSubscription,
+    delivery: WebhookDelivery
+  ): Promise<Omit<WebhookAttempt, "status" | "nextAttemptAt">> {
+    // Checked again on every attempt, since DNS can change after the webhook was saved;
+    // nothing is sent, so nothing from such a host ends up in the delivery log
+    const problem = await this.targetProblem(subscription.url);
+    if (problem) {
+      return { responseStatus: null, responseBody: null, lastError: problem, durationMs: 0 };
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const started = Date.now();
+
+    try {
+      const response = await fetch(subscription.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "Portfolio-Webhooks/1.0",
+          "X-Webhook-Event": delivery.event,
+          "X-Webhook-Delivery": String(delivery.id),
+          [TIMESTAMP_HEADER]: String(timestamp),
+          [SIGNATURE_HEADER]: signPayload(subscription.secret, timestamp, body),
+        },
+        body,
+        // A redirect could send the signed payload somewhere nobody configured
+        redirect: "manual",
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      const responseBody = (await response.text().catch(() => "")).slice(0, RESPONSE_BODY_LIMIT);
+      return {
+        responseStatus: response.status,
+        responseBody: responseBody || null,
+        lastError: response.ok ? null : `Receiver answered ${response.status}`,
+        durationMs: Date.now() - started,
+      };
+    } catch (error) {
+      return {
+        responseStatus: null,
+        responseBody: null,
+        lastError: describeError(error),
+        durationMs: Date.now() - started,
+      };
+    }
+  }
+}
+
+export const webhookService = new WebhookService();
@@ -0,0 +1,144 @@
+/**
+ * Outbound webhooks: subscription validation, payload signing and the retry
+ * schedule. Delivery lives in webhookService.
+ */
+import crypto from "crypto";
+import net from "net";
+import { z } from "zod";
+import {
+  webhookEventTypes,
+  type CaseStudy,
+  type ContactSubmission,
+  type PublicWebhookSubscription,
+  type WebhookPayload,
+  type WebhookSubscription,
+} from "../../shared/schema";
+
+export const SIGNATURE_HEADER = "X-Webhook-Signature";
+export const TIMESTAMP_HEADER = "X-Webhook-Timestamp";
+
+// The wait after each failed attempt doubles, from one minute to about two
+// hours; a delivery still failing after the last attempt is marked failed
+const BASE_DELAY_MS = 60_000;
+export const maxDeliveryAttempts = 9;
+
+export function nextDeliveryAttempt(attempts: number, now: Date = new Date()): Date | null {
+  if (attempts >= maxDeliveryAttempts) {
+    return null;
+  }
+  return new Date(now.getTime() + BASE_DELAY_MS * 2 ** (attempts - 1));
+}
+
+const webhookUrl = z
+  .string()
+  .trim()
+  .url()
+  .refine((value) => ["http:", "https:"].includes(new URL(value).protocol), "Webhook URLs must use http or https");
+
+// Addresses a webhook may not be sent to: the server itself, private
+// networks, link-local (which includes cloud metadata at 169.254.169.254)
+// and anything that isn't a unicast host
+const blockedAddresses = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+export function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:127.0.0.1) is checked as the IPv4 address it wraps
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  const ip = mapped ? mapped[1] : address;
+  const family = net.isIP(ip);
+  if (family === 0) {
+    return true;
+  }
+  return blockedAddresses.check(ip, family === 4 ? "ipv4" : "ipv6");
+}
+
+// The URL's host as DNS and the allowlist know it; IPv6 literals lose their brackets
+export function webhookHostname(url: string): string {
+  return new URL(url).hostname.replace(/^\[(.*)\]$/, "$1").toLowerCase();
+}
+
+const events = z
+  .array(z.enum(webhookEventTypes))
+  .min(1, "Pick at least one event")
+  .transform((list) => Array.from(new Set(list)));
+
+export const webhookCreateSchema = z.object({
+  url: webhookUrl,
+  events,
+  description: z.string().trim().max(200).optional(),
+  active: z.boolean().default(true),
+});
+
+export const webhookUpdateSchema = z
+  .object({
+    url: webhookUrl,
+    events,
+    description: z.string().trim().max(200).nullable(),
+    active: z.boolean(),
+    // Replaces the signing secret; the new one is returned once
+    rotateSecret: z.literal(true),
+  })
+  .partial()
+  .refine((update) => Object.keys(update).length > 0, "Nothing to update");
+
+export type WebhookUpdate = z.infer<typeof webhookUpdateSchema>;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString("base64url")}`;
+}
+
+export function toPublicSubscription({ secret, ...subscription }: WebhookSubscription): PublicWebhookSubscription {
+  return { ...subscription, secretHint: `…${secret.slice(-4)}` };
+}
+
+export function buildPayload(event: WebhookPayload["event"], data: Record<string, unknown>, now: Date = new Date()): WebhookPayload {
+  return { id: crypto.randomUUID(), event, createdAt: now.toISOString(), data };
+}
+
+export function contactEventData(submission: ContactSubmission): Record<string, unknown> {
+  const { id, name, email, company, projectType, message, submittedAt } = submission;
+  return { id, name, email, company, projectType, message, submittedAt };
+}
+
+export function caseStudyEventData(study: CaseStudy): Record<string, unknown> {
+  const { id, title, subtitle, slug, featured, technologies, updatedAt } = study;
+  return { id, title, subtitle, slug, path: `/case-study/${slug}`, featured, technologies, updatedAt };
+}
+
+/**
+ * Receivers check `X-Webhook-Signature` by computing
+ * HMAC-SHA256(secret, `${timestamp}.${body}`) over the raw request body, with
+ * the timestamp from `X-Webhook-Timestamp` (Unix seconds), and comparing it to
+ * the hex digest after "sha256=". The timestamp lets them refuse replays.
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+export function verifySignature(secret: string, timestamp: number, body: string, signature: string): boolean {
+  const expected = Buffer.from(signPayload(secret, timestamp, body));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from "vitest";
+import { bulkOperationSchema, bulkReport, checkBulkOperation, toCsv } from "../../services/bulkOperations";
+
+// shared-utils validates the environment on import
+vi.mock("../../../../packages/shared-utils/env", () => ({ env: {} }));
+
+describe("bulkOperationSchema", () => {
+  it("parses each action with its own fields", () => {
+    expect(bulkOperationSchema.parse({ action: "status", ids: [1], status: "published" })).toEqual({
+      action: "status",
+      ids: [1],
+      status: "published",
+    });
+    expect(bulkOperationSchema.parse({ action: "tags", ids: [1], add: [" AI "] })).toEqual({
+      action: "tags",
+      ids: [1],
+      add: ["AI"],
+      remove: [],
+    });
+  });
+
+  it("rejects unknown actions, statuses and empty selections", () => {
+    expect(bulkOperationSchema.safeParse({ action: "explode", ids: [1] }).success).toBe(false);
+    expect(bulkOperationSchema.safeParse({ action: "status", ids: [1], status: "live" }).success).toBe(false);
+    expect(bulkOperationSchema.safeParse({ action: "delete", ids: [] }).success).toBe(false);
+  });
+});
+
+describe("checkBulkOperation", () => {
+  it("reports missing and repeated items", () => {
+    const results = checkBulkOperation("case_study", { action: "delete", ids: [1, 2, 1] }, new Set([1]));
+
+    expect(results).toEqual([
+      { id: 1, ok: true },
+      { id: 2, ok: false, error: "Not found" },
+      { id: 1, ok: false, error: "Listed more than once" },
+    ]);
+  });
+
+  it("rejects actions the entity type does not support", () => {
+    expect(() =>
+      checkBulkOperation("contact", { action: "feature", ids: [1], featured: true }, new Set([1]))
+    ).toThrow(/not available for contact/);
+  });
+
+  it("requires a tag change", () => {
+    expect(() =>
+      checkBulkOperation("case_study", { action: "tags", ids: [1], add: [], remove: [] }, new Set([1]))
+    ).toThrow(/at least one tag/);
+  });
+
+  it("counts outcomes in the report", () => {
+    const report = bulkReport("skill", "delete", [{ id: 1, ok: true }, { id: 2, ok: false, error: "Not found" }], false);
+
+    expect(report).toMatchObject({ applied: false, succeeded: 1, failed: 1 });
+  });
+});
+
+describe("toCsv", () => {
+  it("quotes, flattens and neutralises cell values", () => {
+    const csv = toCsv(
+      [{ id: 1, name: 'Ada "A" Lovelace', tags: ["ai", "ml"], note: "=HYPERLINK()", missing: null }],
+      ["id", "name", "tags", "note", "missing"]
+    );
+
+    expect(csv).toBe('id,name,tags,note,missing\r\n1,"Ada ""A"" Lovelace",ai; ml,\'=HYPERLINK(),\r\n');
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  expectedVersion,
+  withoutVersionFields,
+  staleWriteError,
+  missedUpdateError,
+  VERSION_CONFLICT,
+} from "../../services/concurrency";
+
+// shared-utils validates the environment on import
+vi.mock("../../../../packages/shared-utils/env", () => ({ env: {} }));
+
+const request = (headers: Record<string, string>, body: unknown = {}) => ({
+  get: (name: string) => headers[name],
+  body,
+});
+
+describe("expectedVersion", () => {
+  it("reads a version ETag from If-Match, strong or weak", () => {
+    expect(expectedVersion(request({ "If-Match": '"3"' }) as any)).toBe(3);
+    expect(expectedVersion(request({ "If-Match": 'W/"12"' }) as any)).toBe(12);
+  });
+
+  it("prefers If-Match over the body and falls back to expectedVersion", () => {
+    expect(expectedVersion(request({ "If-Match": '"4"' }, { expectedVersion: 2 }) as any)).toBe(4);
+    expect(expectedVersion(request({}, { expectedVersion: 2 }) as any)).toBe(2);
+  });
+
+  it("treats a missing version or If-Match: * as an unconditional write", () => {
+    expect(expectedVersion(request({}) as any)).toBeUndefined();
+    expect(expectedVersion(request({ "If-Match": "*" }) as any)).toBeUndefined();
+  });
+
+  it("rejects versions that are not positive integers", () => {
+    expect(() => expectedVersion(request({ "If-Match": "abc" }) as any)).toThrow(/If-Match/);
+    expect(() => expectedVersion(request({}, { expectedVersion: "2" }) as any)).toThrow(/expectedVersion/);
+    expect(() => expectedVersion(request({}, { expectedVersion: 0 }) as any)).toThrow(/expectedVersion/);
+  });
+});
+
+describe("stale writes", () => {
+  it("strips the concurrency fields from update payloads", () => {
+    expect(withoutVersionFields({ title: "New", version: 3, expectedVersion: 3 })).toEqual({ title: "New" });
+  });
+
+  it("reports a conflict with the current server copy", () => {
+    const error = staleWriteError({ id: 7, title: "Theirs", version: 5 } as any);
+
+    expect(error.statusCode).toBe(409);
+    expect(error.code).toBe(VERSION_CONFLICT);
+    expect(error.details).toEqual({ currentVersion: 5, current: { id: 7, title: "Theirs", version: 5 } });
+  });
+
+  it("tells a stale version apart from a missing row", async () => {
+    const stale = await missedUpdateError(async () => ({ version: 2 }), "Skill not found");
+    const missing = await missedUpdateError(async () => undefined, "Skill not found");
+
+    expect(stale.statusCode).toBe(409);
+    expect(missing.statusCode).toBe(404);
+    expect(missing.message).toBe("Skill not found");
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { contactListQuerySchema, contactUpdateSchema, isFollowUpOverdue } from "../../services/contactPipeline";
+
+const now = new Date("2026-03-10T12:00:00Z");
+
+describe("contactListQuerySchema", () => {
+  it("defaults to the inbox and reads assignee filters", () => {
+    expect(contactListQuerySchema.parse({})).toEqual({ view: "inbox" });
+    expect(contactListQuerySchema.parse({ assignee: "me" }).assignee).toBe("me");
+    expect(contactListQuerySchema.parse({ assignee: "7" }).assignee).toBe(7);
+  });
+
+  it("rejects unknown views and statuses", () => {
+    expect(contactListQuerySchema.safeParse({ view: "archive" }).success).toBe(false);
+    expect(contactListQuerySchema.safeParse({ status: "maybe" }).success).toBe(false);
+  });
+});
+
+describe("contactUpdateSchema", () => {
+  it("normalises tags and parses follow-up dates", () => {
+    expect(contactUpdateSchema.parse({ tags: [" Recruiter", "recruiter", "FinTech"], followUpAt: "2026-03-12T09:00:00Z" })).toEqual({
+      tags: ["recruiter", "fintech"],
+      followUpAt: new Date("2026-03-12T09:00:00Z"),
+    });
+  });
+
+  it("allows clearing the assignee and follow-up date", () => {
+    expect(contactUpdateSchema.parse({ assigneeId: null, followUpAt: null })).toEqual({ assigneeId: null, followUpAt: null });
+  });
+
+  it("rejects empty updates", () => {
+    expect(contactUpdateSchema.safeParse({}).success).toBe(false);
+  });
+});
+
+describe("isFollowUpOverdue", () => {
+  it("flags open leads whose follow-up date has passed", () => {
+    expect(isFollowUpOverdue({ status: "in-discussion", followUpAt: new Date("2026-03-09T09:00:00Z") }, now)).toBe(true);
+    expect(isFollowUpOverdue({ status: "new", followUpAt: new Date("2026-03-11T09:00:00Z") }, now)).toBe(false);
+    expect(isFollowUpOverdue({ status: "new", followUpAt: null }, now)).toBe(false);
+  });
+
+  it("never flags finished leads", () => {
+    expect(isFollowUpOverdue({ status: "won", followUpAt: new Date("2026-03-01T09:00:00Z") }, now)).toBe(false);
+    expect(isFollowUpOverdue({ status: "spam", followUpAt: new Date("2026-03-01T09:00:00Z") }, now)).toBe(false);
+  });
+});
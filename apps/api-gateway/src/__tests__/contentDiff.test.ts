@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { diffContent } from "../../services/contentDiff";
+
+describe("diffContent", () => {
+  it("reports nothing for identical snapshots", () => {
+    const hero = { headline: "Product Visionary", statusBadge: { text: "Available", showIndicator: true } };
+    expect(diffContent(hero, structuredClone(hero))).toEqual([]);
+  });
+
+  it("reports changed, added and removed fields by path", () => {
+    const before = { headline: "Product Visionary", description: "Old", ctaText: "Contact" };
+    const after = { headline: "Product Leader", description: "Old", subheadline: "AI" };
+
+    expect(diffContent(before, after)).toEqual([
+      { path: "ctaText", kind: "removed", before: "Contact", after: null },
+      { path: "headline", kind: "changed", before: "Product Visionary", after: "Product Leader" },
+      { path: "subheadline", kind: "added", before: null, after: "AI" },
+    ]);
+  });
+
+  it("descends into nested objects and arrays", () => {
+    const before = {
+      statusBadge: { text: "Available", type: "available" },
+      achievementCards: [
+        { value: "$110K", label: "ARR" },
+        { value: "3", label: "Markets" },
+      ],
+    };
+    const after = {
+      statusBadge: { text: "Booked", type: "available" },
+      achievementCards: [
+        { value: "$110K", label: "ARR" },
+        { value: "4", label: "Markets" },
+        { value: "70%", label: "Automation" },
+      ],
+    };
+
+    expect(diffContent(before, after).map((change) => [change.kind, change.path])).toEqual([
+      ["changed", "achievementCards[1].value"],
+      ["added", "achievementCards[2]"],
+      ["changed", "statusBadge.text"],
+    ]);
+  });
+
+  it("treats a missing snapshot as empty", () => {
+    expect(diffContent(null, { headline: "New" })).toEqual([
+      { path: "headline", kind: "added", before: null, after: "New" },
+    ]);
+  });
+
+  it("reports a change of type as a single change", () => {
+    expect(diffContent({ skills: ["AI"] }, { skills: "AI" })).toEqual([
+      { path: "skills", kind: "changed", before: ["AI"], after: "AI" },
+    ]);
+  });
+});
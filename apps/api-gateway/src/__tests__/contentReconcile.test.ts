@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { reconcileSections, summarize } from "../../services/contentReconcile";
+
+const published = (id: string, content: unknown, draftContent: unknown = null) => ({
+  id,
+  status: "published",
+  content,
+  draftContent,
+});
+
+describe("reconcileSections", () => {
+  it("imports sections the database does not have live yet", () => {
+    const sections = reconcileSections(
+      { hero: { headline: "Product Visionary" }, about: { title: "About" } },
+      [{ id: "about", status: "draft", content: {}, draftContent: { title: "Draft" } }]
+    );
+
+    expect(sections.map((s) => [s.sectionId, s.action, s.resolution, s.hasDraft])).toEqual([
+      ["about", "import", "published", true],
+      ["hero", "import", "published", false],
+    ]);
+  });
+
+  it("leaves matching and database-only sections alone", () => {
+    const sections = reconcileSections(
+      { hero: { headline: "Product Visionary" } },
+      [published("hero", { headline: "Product Visionary" }), published("seo", { title: "SEO" })]
+    );
+
+    expect(sections.map((s) => [s.sectionId, s.action, s.resolution])).toEqual([
+      ["hero", "unchanged", "unchanged"],
+      ["seo", "database_only", "left_alone"],
+    ]);
+  });
+
+  it("reports conflicts with their field changes and keeps an existing draft", () => {
+    const sections = reconcileSections(
+      { hero: { headline: "From file" }, about: { title: "File about" } },
+      [
+        published("hero", { headline: "Live" }),
+        published("about", { title: "Live about" }, { title: "Pending edit" }),
+      ]
+    );
+
+    expect(sections).toEqual([
+      {
+        sectionId: "about",
+        action: "conflict",
+        resolution: "kept_existing_draft",
+        changes: [{ path: "title", kind: "changed", before: "Live about", after: "File about" }],
+        hasDraft: true,
+      },
+      {
+        sectionId: "hero",
+        action: "conflict",
+        resolution: "draft_created",
+        changes: [{ path: "headline", kind: "changed", before: "Live", after: "From file" }],
+        hasDraft: false,
+      },
+    ]);
+    expect(summarize(sections)).toEqual({ import: 0, unchanged: 0, conflict: 2, database_only: 0 });
+  });
+});
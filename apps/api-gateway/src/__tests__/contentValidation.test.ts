@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { validateSection, buildValidationReport } from "../../services/contentValidation";
+import { contentFile, defaultPortfolioContent } from "../../contentFile";
+
+const hero = defaultPortfolioContent.hero;
+
+describe("validateSection", () => {
+  it("accepts every section of the seed content", () => {
+    for (const [sectionId, content] of Object.entries(contentFile.parse(defaultPortfolioContent))) {
+      expect(validateSection(sectionId, content)).toMatchObject({ valid: true });
+    }
+  });
+
+  it("reports field-level issues with dotted paths", () => {
+    const cards = hero.achievementCards.map((card, index) => (index === 1 ? { ...card, value: "" } : card));
+    const result = validateSection("hero", { ...hero, headline: "", achievementCards: cards });
+
+    expect(result.valid).toBe(false);
+    if (result.valid) return;
+    expect(result.issues).toEqual([
+      { path: "headline", message: "Headline is required", code: "too_small" },
+      { path: "achievementCards.1.value", message: "Achievement value is required", code: "too_small" },
+    ]);
+    expect(result.fieldErrors.headline).toEqual(["Headline is required"]);
+  });
+
+  it("rejects sections missing from the registry", () => {
+    expect(validateSection("footer", {})).toMatchObject({
+      valid: false,
+      issues: [{ path: "", code: "unknown_section" }],
+    });
+  });
+});
+
+describe("buildValidationReport", () => {
+  it("checks live copies of published sections and pending drafts", () => {
+    const checkedAt = new Date("2026-01-01T00:00:00Z");
+    const report = buildValidationReport(
+      [
+        { id: "hero", name: "Hero Section", status: "published", content: hero, draftContent: { headline: "" } },
+        { id: "about", name: "About Section", status: "draft", content: {}, draftContent: null },
+      ],
+      checkedAt
+    );
+
+    expect(report.checkedAt).toBe(checkedAt);
+    expect(report.summary).toEqual({ sections: 2, checked: 2, invalid: 1 });
+    expect(report.results.map((r) => [r.sectionId, r.copy, r.valid])).toEqual([
+      ["hero", "live", true],
+      ["hero", "draft", false],
+    ]);
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import { csvCell } from "../../services/csv";
+
+describe("csvCell", () => {
+  it("quotes only when the text needs it", () => {
+    expect(csvCell("plain")).toBe("plain");
+    expect(csvCell('say "hi", then\nleave')).toBe('"say ""hi"", then\nleave"');
+    expect(csvCell(null)).toBe("");
+  });
+
+  it("flattens dates, arrays and objects", () => {
+    expect(csvCell(new Date("2026-03-05T12:00:00Z"))).toBe("2026-03-05T12:00:00.000Z");
+    expect(csvCell(["ai", "ml"])).toBe("ai; ml");
+    expect(csvCell({ title: { from: "a", to: "b" } })).toBe('"{""title"":{""from"":""a"",""to"":""b""}}"');
+  });
+
+  it("keeps strings that look like formulas from running", () => {
+    for (const value of ["=HYPERLINK(\"x\")", "+1", "-1", "@SUM(A1)", "\tcmd"]) {
+      expect(csvCell(value).replace(/^"/, "")).toMatch(/^'/);
+    }
+    expect(csvCell(-1)).toBe("-1");
+  });
+});
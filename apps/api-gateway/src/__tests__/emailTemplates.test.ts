@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import {
+  autoReplyTemplate,
+  autoReplyTemplates,
+  autoReplyVars,
+  contactNotificationTemplate,
+  contactTemplateVars,
+  nextAttemptAt,
+  renderTemplate,
+  retryDelaysMs,
+} from "../../services/emailTemplates";
+import type { ContactSubmission } from "../../../shared/schema";
+
+const submission: ContactSubmission = {
+  id: 7,
+  name: "Ada Lovelace",
+  email: "ada@example.com",
+  company: null,
+  projectType: "Product Development",
+  message: "We need <help> with an engine & its notes.",
+  submittedAt: "2026-03-01T10:00:00.000Z",
+  isSpam: false,
+  spamScore: 0,
+  spamReasons: null,
+  status: "new",
+  tags: [],
+  assigneeId: null,
+  followUpAt: null,
+  updatedAt: null,
+};
+
+describe("renderTemplate", () => {
+  it("fills placeholders and escapes them in the HTML part only", () => {
+    const email = renderTemplate({ subject: "Hi {{ name }}", text: "Message:\n{{message}}" }, { name: "Ada", message: "<b>bold</b> & co" });
+
+    expect(email.subject).toBe("Hi Ada");
+    expect(email.text).toBe("Message:\n<b>bold</b> & co");
+    expect(email.html).toBe("<p>Message:<br>&lt;b&gt;bold&lt;/b&gt; &amp; co</p>");
+  });
+
+  it("renders unknown placeholders as empty strings", () => {
+    expect(renderTemplate({ subject: "{{missing}}x", text: "" }, {}).subject).toBe("x");
+  });
+
+  it("keeps subjects on one line", () => {
+    const email = renderTemplate(contactNotificationTemplate, { name: "Eve\r\nBcc: victim@example.com", projectType: "x" });
+
+    expect(email.subject).not.toMatch(/[\r\n]/);
+  });
+});
+
+describe("contact templates", () => {
+  it("picks the auto-reply for the submission's project type", () => {
+    expect(autoReplyTemplate("Product Development")).toBe(autoReplyTemplates["Product Development"]);
+  });
+
+  it("falls back to the default auto-reply for other project types", () => {
+    const fallback = autoReplyTemplate("General Inquiry");
+
+    expect(fallback.subject).toBe("Thanks for getting in touch");
+    expect(autoReplyTemplate("constructor")).toBe(fallback);
+  });
+
+  it("addresses the sender by first name and never echoes their message", () => {
+    for (const template of [autoReplyTemplate("General Inquiry"), ...Object.values(autoReplyTemplates)]) {
+      const email = renderTemplate(template, autoReplyVars(submission));
+
+      expect(email.text).toMatch(/^Hi Ada,/);
+      expect(email.text).not.toContain("engine");
+      expect(email.text).not.toContain("{{");
+    }
+  });
+
+  it("doesn't put a long name into the auto-reply", () => {
+    const email = renderTemplate(autoReplyTemplate("General Inquiry"), autoReplyVars({ ...submission, name: "x".repeat(41) }));
+
+    expect(email.text).toMatch(/^Hi there,/);
+  });
+
+  it("tells the owner who wrote and links to the admin", () => {
+    const email = renderTemplate(contactNotificationTemplate, contactTemplateVars(submission, "https://example.com/admin"));
+
+    expect(email.subject).toBe("New enquiry from Ada Lovelace: Product Development");
+    expect(email.text).toContain("Ada Lovelace <ada@example.com>");
+    expect(email.text).toContain("Company: —");
+    expect(email.text).toContain("https://example.com/admin");
+  });
+});
+
+describe("nextAttemptAt", () => {
+  const now = new Date("2026-03-01T10:00:00Z");
+
+  it("backs off further after each failure", () => {
+    expect(nextAttemptAt(1, now)).toEqual(new Date("2026-03-01T10:01:00Z"));
+    expect(nextAttemptAt(2, now)).toEqual(new Date("2026-03-01T10:05:00Z"));
+  });
+
+  it("gives up once the retries are used up", () => {
+    expect(nextAttemptAt(retryDelaysMs.length, now)).not.toBeNull();
+    expect(nextAttemptAt(retryDelaysMs.length + 1, now)).toBeNull();
+  });
+});
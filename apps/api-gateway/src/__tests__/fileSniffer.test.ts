@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import {
+  detectFileKind,
+  inspectFile,
+  kindForStoredFile,
+  DOCUMENT_KINDS,
+  IMAGE_KINDS,
+} from "../../services/fileSniffer";
+
+const png = Buffer.concat([
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  Buffer.alloc(32, 1),
+]);
+const jpeg = Buffer.concat([Buffer.from([0xff, 0xd8, 0xff, 0xe0]), Buffer.alloc(32, 2)]);
+const gif = Buffer.concat([Buffer.from("GIF89a"), Buffer.alloc(16, 3)]);
+const webp = Buffer.concat([
+  Buffer.from("RIFF"),
+  Buffer.alloc(4, 0x10),
+  Buffer.from("WEBPVP8 "),
+  Buffer.alloc(16, 4),
+]);
+const pdf = Buffer.from("%PDF-1.7\n1 0 obj << /Type /Catalog >> endobj\n%%EOF");
+const docx = Buffer.concat([
+  Buffer.from([0x50, 0x4b, 0x03, 0x04]),
+  Buffer.alloc(26, 0),
+  Buffer.from("word/document.xml"),
+]);
+const svg = (body: string) =>
+  Buffer.from(`<?xml version="1.0"?>\n<svg xmlns="http://www.w3.org/2000/svg">${body}</svg>`);
+
+describe("detectFileKind", () => {
+  it("recognises formats by their magic bytes", () => {
+    expect(detectFileKind(png)).toBe("png");
+    expect(detectFileKind(jpeg)).toBe("jpeg");
+    expect(detectFileKind(gif)).toBe("gif");
+    expect(detectFileKind(webp)).toBe("webp");
+    expect(detectFileKind(pdf)).toBe("pdf");
+    expect(detectFileKind(docx)).toBe("docx");
+    expect(detectFileKind(svg("<rect/>"))).toBe("svg");
+    expect(detectFileKind(Buffer.from("Plain notes\nline two"))).toBe("txt");
+  });
+
+  it("does not treat arbitrary zips or binary data as allowed formats", () => {
+    expect(detectFileKind(Buffer.from([0x50, 0x4b, 0x03, 0x04, 0, 0, 0]))).toBeNull();
+    expect(detectFileKind(Buffer.from([0x00, 0x01, 0x02, 0xff]))).toBeNull();
+  });
+});
+
+describe("inspectFile", () => {
+  it("accepts a file whose content and extension agree", () => {
+    const result = inspectFile(png, "headshot.PNG", IMAGE_KINDS);
+    expect(result).toEqual({ ok: true, kind: "png", mimeType: "image/png", extension: ".png" });
+  });
+
+  it("rejects content that does not match the extension", () => {
+    const result = inspectFile(pdf, "notes.txt", DOCUMENT_KINDS);
+    expect(result.ok).toBe(false);
+  });
+
+  it("rejects formats not allowed for the upload", () => {
+    expect(inspectFile(pdf, "cv.pdf", IMAGE_KINDS).ok).toBe(false);
+    expect(inspectFile(Buffer.from("<html><script>alert(1)</script>"), "x.html", DOCUMENT_KINDS).ok).toBe(false);
+  });
+
+  it("rejects SVGs with scripts or event handlers", () => {
+    expect(inspectFile(svg("<script>alert(1)</script>"), "logo.svg", IMAGE_KINDS).ok).toBe(false);
+    expect(inspectFile(svg('<rect onload="alert(1)"/>'), "logo.svg", IMAGE_KINDS).ok).toBe(false);
+    expect(inspectFile(svg('<a href="javascript:alert(1)"/>'), "logo.svg", IMAGE_KINDS).ok).toBe(false);
+    expect(inspectFile(svg('<rect width="10"/>'), "logo.svg", IMAGE_KINDS).ok).toBe(true);
+  });
+
+  it("rejects polyglots", () => {
+    const imageWithHtml = Buffer.concat([gif, Buffer.from("<script>alert(1)</script>")]);
+    expect(inspectFile(imageWithHtml, "pixel.gif", IMAGE_KINDS).ok).toBe(false);
+
+    const imageWithZip = Buffer.concat([
+      jpeg,
+      Buffer.from([0x50, 0x4b, 0x03, 0x04]),
+      Buffer.alloc(8, 0),
+      Buffer.from([0x50, 0x4b, 0x05, 0x06]),
+    ]);
+    expect(inspectFile(imageWithZip, "photo.jpg", IMAGE_KINDS).ok).toBe(false);
+
+    const scriptedPdf = Buffer.from("%PDF-1.4\n<< /OpenAction << /S /JavaScript /JS (app.alert(1)) >> >>");
+    expect(inspectFile(scriptedPdf, "cv.pdf", DOCUMENT_KINDS).ok).toBe(false);
+  });
+
+  it("rejects empty files", () => {
+    expect(inspectFile(Buffer.alloc(0), "empty.txt", DOCUMENT_KINDS).ok).toBe(false);
+  });
+});
+
+describe("kindForStoredFile", () => {
+  it("maps stored extensions back to a format", () => {
+    expect(kindForStoredFile("uploads/image-1.jpeg")).toBe("jpeg");
+    expect(kindForStoredFile("uploads/image-1.JPG")).toBe("jpeg");
+    expect(kindForStoredFile("uploads/page.html")).toBeNull();
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+import { injectPageMeta, resolvePageMeta, seoPageKey } from "../../services/pageMeta";
+import type { CaseStudy, SeoSettings } from "../../../shared/schema";
+
+const origin = "https://portfolio.example";
+
+const template = `<html>
+  <head>
+    <title>Default title</title>
+    <meta name="description" content="Default description" />
+    <meta name="author" content="Someone" />
+    <meta property="og:title" content="Default OG" />
+    <meta property="og:image" content="https://cdn.example/default.png" />
+    <link rel="canonical" href="https://old.example" />
+    <script type="application/ld+json">{"@type":"Person"}</script>
+  </head>
+  <body></body>
+</html>`;
+
+const settings = (fields: Partial<SeoSettings> = {}) =>
+  ({
+    page: "home",
+    title: "Home",
+    description: "Welcome",
+    keywords: [],
+    ogTitle: null,
+    ogDescription: null,
+    ogImage: null,
+    twitterTitle: null,
+    twitterDescription: null,
+    twitterImage: null,
+    canonicalUrl: null,
+    robotsDirective: "index,follow",
+    structuredData: null,
+    ...fields,
+  }) as SeoSettings;
+
+const study = {
+  slug: "rag-pipeline",
+  title: "RAG pipeline",
+  subtitle: "Search over 2M documents",
+  challenge: "Support agents could not find answers",
+  technologies: ["Python", "pgvector"],
+  imageUrl: null,
+  imageFile: "rag.png",
+  createdAt: new Date("2026-01-10T00:00:00Z"),
+  updatedAt: new Date("2026-03-05T12:00:00Z"),
+} as CaseStudy;
+
+describe("seoPageKey", () => {
+  it("maps public paths to SEO settings keys", () => {
+    expect(seoPageKey("/")).toBe("home");
+    expect(seoPageKey("/case-studies/")).toBe("case-studies");
+    expect(seoPageKey("/case-study/rag%20pipeline")).toBe("case-study/rag pipeline");
+    expect(seoPageKey("/admin")).toBeNull();
+    expect(seoPageKey("/case-study/a/b")).toBeNull();
+  });
+});
+
+describe("resolvePageMeta", () => {
+  it("leaves pages without settings or a case study alone", () => {
+    expect(resolvePageMeta(origin, "/", undefined)).toBeNull();
+  });
+
+  it("uses the page's settings and falls back within them", () => {
+    const meta = resolvePageMeta(origin, "/", settings({ ogTitle: "Shared title", canonicalUrl: "/home" }))!;
+
+    expect(meta.title).toBe("Home");
+    expect(meta.ogTitle).toBe("Shared title");
+    expect(meta.twitterTitle).toBe("Shared title");
+    expect(meta.twitterDescription).toBe("Welcome");
+    expect(meta.canonical).toBe("https://portfolio.example/home");
+    expect(meta.ogType).toBe("website");
+  });
+
+  it("fills a case study page from the case study when it has no settings", () => {
+    const meta = resolvePageMeta(origin, "/case-study/rag-pipeline", undefined, study)!;
+
+    expect(meta).toMatchObject({
+      title: "RAG pipeline",
+      description: "Search over 2M documents",
+      keywords: ["Python", "pgvector"],
+      canonical: "https://portfolio.example/case-study/rag-pipeline",
+      ogType: "article",
+      ogImage: "https://portfolio.example/uploads/rag.png",
+      twitterImage: "https://portfolio.example/uploads/rag.png",
+    });
+    expect(meta.structuredData).toMatchObject({
+      "@type": "Article",
+      headline: "RAG pipeline",
+      dateModified: "2026-03-05T12:00:00.000Z",
+    });
+  });
+
+  it("prefers explicit settings over case study fields", () => {
+    const meta = resolvePageMeta(
+      origin,
+      "/case-study/rag-pipeline",
+      settings({ page: "case-study/rag-pipeline", title: "Custom", structuredData: { "@type": "CreativeWork" } }),
+      study
+    )!;
+
+    expect(meta.title).toBe("Custom");
+    expect(meta.ogImage).toBe("https://portfolio.example/uploads/rag.png");
+    expect(meta.structuredData).toEqual({ "@type": "CreativeWork" });
+  });
+});
+
+describe("injectPageMeta", () => {
+  it("replaces the template's tags and keeps the others", () => {
+    const meta = resolvePageMeta(origin, "/case-study/rag-pipeline", undefined, study)!;
+    const html = injectPageMeta(template, meta);
+
+    expect(html).toContain("<title>RAG pipeline</title>");
+    expect(html).not.toContain("Default");
+    expect(html).not.toContain("old.example");
+    expect(html).not.toContain('"@type":"Person"');
+    expect(html).toContain('<meta name="author" content="Someone" />');
+    expect(html).toContain('<meta property="og:image" content="https://portfolio.example/uploads/rag.png" />');
+    expect(html).toContain('<link rel="canonical" href="https://portfolio.example/case-study/rag-pipeline" />');
+    expect(html.indexOf("application/ld+json")).toBeLessThan(html.indexOf("</head>"));
+  });
+
+  it("keeps template tags the page has no value for", () => {
+    const html = injectPageMeta(template, resolvePageMeta(origin, "/", settings())!);
+
+    expect(html).toContain('<meta property="og:image" content="https://cdn.example/default.png" />');
+    expect(html).toContain('"@type":"Person"');
+  });
+
+  it("escapes values so they can't break out of the head", () => {
+    const meta = resolvePageMeta(
+      origin,
+      "/",
+      settings({ title: 'A "quoted" <title>', structuredData: { name: "</script><script>alert(1)</script>" } })
+    )!;
+    const html = injectPageMeta(template, meta);
+
+    expect(html).toContain("<title>A &quot;quoted&quot; &lt;title&gt;</title>");
+    expect(html).not.toContain("</script><script>alert(1)");
+    expect(html).toContain("\\u003c/script>");
+  });
+
+  it("writes dollar signs literally", () => {
+    const html = injectPageMeta(template, resolvePageMeta(origin, "/", settings({ title: "Saved $` and $' and $&" }))!);
+
+    expect(html).toContain("<title>Saved $` and $' and $&amp;</title>");
+    expect(html.match(/<html>/g)).toHaveLength(1);
+  });
+});
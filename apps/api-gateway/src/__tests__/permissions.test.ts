@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { hasPermission, permissions, rolePermissions, tokenScopes } from "../../../shared/schema";
+
+describe("Role permission matrix", () => {
+  it("grants owners every permission", () => {
+    for (const permission of permissions) {
+      expect(hasPermission("owner", permission)).toBe(true);
+    }
+  });
+
+  it("lets editors manage content but not backups, workflows or system", () => {
+    expect(hasPermission("editor", "content:write")).toBe(true);
+    expect(hasPermission("editor", "kb:write")).toBe(true);
+    expect(hasPermission("editor", "backups:manage")).toBe(false);
+    expect(hasPermission("editor", "workflows:manage")).toBe(false);
+    expect(hasPermission("editor", "system:manage")).toBe(false);
+    expect(hasPermission("editor", "users:manage")).toBe(false);
+  });
+
+  it("limits viewers to read-only contacts and analytics", () => {
+    expect(rolePermissions.viewer).toEqual(["contacts:read", "analytics:read"]);
+    expect(hasPermission("viewer", "contacts:write")).toBe(false);
+    expect(hasPermission("viewer", "content:read")).toBe(false);
+  });
+
+  it("denies unknown or missing roles", () => {
+    expect(hasPermission("admin", "content:read")).toBe(false);
+    expect(hasPermission(undefined, "content:read")).toBe(false);
+    expect(hasPermission(null, "analytics:read")).toBe(false);
+  });
+});
+
+describe("API token scopes", () => {
+  it("offers every permission except managing users", () => {
+    expect(tokenScopes).not.toContain("users:manage");
+    expect(tokenScopes).toHaveLength(permissions.length - 1);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { signPreviewToken, verifyPreviewToken, hashPreviewToken } from "../../services/previewToken";
+
+const secret = "test-secret-key-with-enough-length";
+const now = new Date("2026-03-01T12:00:00Z");
+const expiresAt = new Date("2026-03-02T12:00:00Z");
+
+describe("preview tokens", () => {
+  it("verifies a signed token until it expires", () => {
+    const token = signPreviewToken(expiresAt, secret);
+
+    expect(token.startsWith("prv_")).toBe(true);
+    expect(verifyPreviewToken(token, secret, now)).toEqual(expiresAt);
+    expect(verifyPreviewToken(token, secret, expiresAt)).toBeNull();
+  });
+
+  it("rejects tokens with an altered expiry or another secret", () => {
+    const token = signPreviewToken(expiresAt, secret, "nonce");
+    const [nonce, expires, signature] = token.slice(4).split(".");
+    const extended = `prv_${nonce}.${Number(expires) + 86400}.${signature}`;
+
+    expect(verifyPreviewToken(extended, secret, now)).toBeNull();
+    expect(verifyPreviewToken(token, "another-secret-key-with-enough-length", now)).toBeNull();
+  });
+
+  it("rejects malformed tokens", () => {
+    for (const token of ["", "prv_", "pat_abc.1.sig", "prv_abc.soon.sig", "prv_a.b"]) {
+      expect(verifyPreviewToken(token, secret, now)).toBeNull();
+    }
+  });
+
+  it("hashes tokens for lookup", () => {
+    const token = signPreviewToken(expiresAt, secret, "nonce");
+    expect(hashPreviewToken(token)).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashPreviewToken(token)).not.toEqual(hashPreviewToken(signPreviewToken(expiresAt, secret, "other")));
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { publishScheduleSchema, upcomingChanges, validateSchedule } from "../../services/publishSchedule";
+
+const now = new Date("2026-03-01T12:00:00Z");
+const at = (iso: string) => new Date(iso);
+
+describe("publishScheduleSchema", () => {
+  it("parses ISO times and treats missing times as cleared", () => {
+    const result = publishScheduleSchema.parse({ publishAt: "2026-03-02T09:00:00Z" });
+    expect(result).toEqual({ publishAt: at("2026-03-02T09:00:00Z"), unpublishAt: null });
+  });
+
+  it("rejects times that are not dates", () => {
+    expect(publishScheduleSchema.safeParse({ publishAt: "next tuesday" }).success).toBe(false);
+  });
+});
+
+describe("validateSchedule", () => {
+  it("accepts a future window and an empty schedule", () => {
+    expect(validateSchedule({ publishAt: at("2026-03-02T00:00:00Z"), unpublishAt: at("2026-03-09T00:00:00Z") }, now)).toBeNull();
+    expect(validateSchedule({ publishAt: null, unpublishAt: null }, now)).toBeNull();
+  });
+
+  it("rejects times in the past", () => {
+    expect(validateSchedule({ publishAt: at("2026-02-28T00:00:00Z"), unpublishAt: null }, now)).toMatch(/Publish time/);
+    expect(validateSchedule({ publishAt: null, unpublishAt: now }, now)).toMatch(/Unpublish time/);
+  });
+
+  it("rejects an unpublish before the publish", () => {
+    expect(
+      validateSchedule({ publishAt: at("2026-03-05T00:00:00Z"), unpublishAt: at("2026-03-04T00:00:00Z") }, now)
+    ).toBe("Unpublish time must be after the publish time");
+  });
+});
+
+describe("upcomingChanges", () => {
+  it("lists case study and section changes in time order", () => {
+    const changes = upcomingChanges(
+      [{ id: 7, title: "Fintech launch", publishAt: at("2026-03-03T09:00:00Z"), unpublishAt: null }],
+      [{ id: "hero", name: "Hero Section", publishAt: at("2026-03-02T09:00:00Z"), unpublishAt: at("2026-03-31T00:00:00Z") }]
+    );
+
+    expect(changes.map((change) => [change.entityType, change.entityId, change.action])).toEqual([
+      ["content_section", "hero", "publish"],
+      ["case_study", "7", "publish"],
+      ["content_section", "hero", "unpublish"],
+    ]);
+  });
+
+  it("puts a publish ahead of an unpublish at the same moment", () => {
+    const moment = at("2026-03-02T09:00:00Z");
+    const changes = upcomingChanges(
+      [{ id: 1, title: "Old study", publishAt: null, unpublishAt: moment }],
+      [{ id: "about", name: "About Section", publishAt: moment, unpublishAt: null }]
+    );
+    expect(changes.map((change) => change.action)).toEqual(["publish", "unpublish"]);
+  });
+});
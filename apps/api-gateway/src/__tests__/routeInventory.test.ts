@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import express, { type Request, type Response, type NextFunction } from "express";
+import { buildRouteReport, collectRoutes } from "../../services/routeInventory";
+import { declarePolicy, publicRoute, returnsPii } from "../middleware/routePolicy";
+
+// Stand-in for requirePermission, which needs the database-backed user service
+const requireContactsRead = declarePolicy(
+  (req: Request, res: Response, next: NextFunction) => next(),
+  { access: "permission", permission: "contacts:read" }
+);
+const handler = (req: Request, res: Response) => res.json({});
+
+describe("collectRoutes", () => {
+  it("reads the declared policy from each route's middleware", () => {
+    const app = express();
+    app.get("/api/portfolio/timeline", publicRoute, handler);
+    app.get("/api/admin/contact-submissions", requireContactsRead, returnsPii, handler);
+
+    expect(collectRoutes(app)).toEqual([
+      {
+        method: "GET",
+        path: "/api/portfolio/timeline",
+        access: "public",
+        permission: null,
+        pii: false,
+        problems: [],
+        shadowed: false,
+      },
+      {
+        method: "GET",
+        path: "/api/admin/contact-submissions",
+        access: "permission",
+        permission: "contacts:read",
+        pii: true,
+        problems: [],
+        shadowed: false,
+      },
+    ]);
+  });
+
+  it("flags routes without a policy and public routes returning PII", () => {
+    const app = express();
+    app.post("/api/undeclared", handler);
+    app.get("/api/contact", publicRoute, returnsPii, handler);
+    app.get("/api/both", publicRoute, requireContactsRead, handler);
+
+    const problems = collectRoutes(app).map((route) =>
+      route.problems.map((problem) => problem.kind)
+    );
+    expect(problems).toEqual([["undeclared"], ["public_pii"], ["conflicting"]]);
+  });
+
+  it("marks later registrations of the same route as shadowed", () => {
+    const app = express();
+    app.get("/api/admin/case-studies", requireContactsRead, handler);
+    app.get("/api/admin/case-studies", requireContactsRead, handler);
+    app.put("/api/admin/case-studies", requireContactsRead, handler);
+
+    expect(collectRoutes(app).map((route) => route.shadowed)).toEqual([false, true, false]);
+  });
+});
+
+describe("buildRouteReport", () => {
+  it("summarises routes by access level", () => {
+    const app = express();
+    app.use(express.json());
+    app.get("/api/search", publicRoute, handler);
+    app.get("/api/admin/contact-submissions", requireContactsRead, returnsPii, handler);
+    app.delete("/api/undeclared", handler);
+
+    expect(buildRouteReport(app).summary).toEqual({
+      total: 3,
+      public: 1,
+      authenticated: 0,
+      permission: 1,
+      pii: 1,
+      shadowed: 0,
+      problems: 1,
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { buildSitemapEntries, isNoindex, renderRobots, renderSitemap, seoPagePath } from "../../services/sitemap";
+import type { CaseStudy, SeoSettings } from "../../../shared/schema";
+
+const origin = "https://portfolio.example";
+
+const page = (key: string, fields: Partial<SeoSettings> = {}) =>
+  ({ page: key, robotsDirective: "index,follow", canonicalUrl: null, updatedAt: new Date("2026-01-01T00:00:00Z"), ...fields }) as SeoSettings;
+
+const study = (slug: string, updatedAt: string) => ({ slug, updatedAt: new Date(updatedAt) }) as CaseStudy;
+
+describe("seoPagePath", () => {
+  it("maps page keys to site paths", () => {
+    expect(seoPagePath("home")).toBe("/");
+    expect(seoPagePath("case-studies")).toBe("/case-studies");
+    expect(seoPagePath("case-study/rag-pipeline")).toBe("/case-study/rag-pipeline");
+    expect(seoPagePath("about")).toBeNull();
+  });
+});
+
+describe("isNoindex", () => {
+  it("reads noindex and none from the robots directive", () => {
+    expect(isNoindex(page("home", { robotsDirective: "noindex, follow" }))).toBe(true);
+    expect(isNoindex(page("home", { robotsDirective: "NONE" }))).toBe(true);
+    expect(isNoindex(page("home"))).toBe(false);
+    expect(isNoindex(undefined)).toBe(false);
+  });
+});
+
+describe("buildSitemapEntries", () => {
+  const studies = [study("rag-pipeline", "2026-03-05T12:00:00Z"), study("agents", "2026-02-01T00:00:00Z")];
+
+  it("lists home, the index and every published case study with its last change", () => {
+    const entries = buildSitemapEntries(origin, [], studies);
+
+    expect(entries).toEqual([
+      { loc: "https://portfolio.example/", lastmod: new Date("2026-03-05T12:00:00Z") },
+      { loc: "https://portfolio.example/case-studies", lastmod: new Date("2026-03-05T12:00:00Z") },
+      { loc: "https://portfolio.example/case-study/rag-pipeline", lastmod: new Date("2026-03-05T12:00:00Z") },
+      { loc: "https://portfolio.example/case-study/agents", lastmod: new Date("2026-02-01T00:00:00Z") },
+    ]);
+  });
+
+  it("leaves out noindex pages and uses canonical URLs", () => {
+    const seo = [
+      page("case-study/agents", { robotsDirective: "noindex" }),
+      page("case-studies", { canonicalUrl: "/work" }),
+    ];
+
+    const locs = buildSitemapEntries(origin, seo, studies).map((entry) => entry.loc);
+
+    expect(locs).toEqual([
+      "https://portfolio.example/",
+      "https://portfolio.example/work",
+      "https://portfolio.example/case-study/rag-pipeline",
+    ]);
+  });
+});
+
+describe("renderSitemap", () => {
+  it("escapes locations and writes dates only", () => {
+    const xml = renderSitemap([{ loc: "https://portfolio.example/?a=1&b=2", lastmod: new Date("2026-03-05T12:00:00Z") }]);
+
+    expect(xml).toContain("<loc>https://portfolio.example/?a=1&amp;b=2</loc>");
+    expect(xml).toContain("<lastmod>2026-03-05</lastmod>");
+  });
+});
+
+describe("renderRobots", () => {
+  it("disallows only the admin and the API and points at the sitemap", () => {
+    const robots = renderRobots(origin);
+
+    expect(robots.split("\n")).toEqual([
+      "User-agent: *",
+      "Disallow: /admin",
+      "Disallow: /api/",
+      "",
+      "Sitemap: https://portfolio.example/sitemap.xml",
+      "",
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import {
+  createFormToken,
+  formTokenAge,
+  normalizeMessage,
+  scoreSubmission,
+  MIN_FILL_TIME_MS,
+  SPAM_THRESHOLD,
+} from "../../services/spamFilter";
+
+const secret = "test-secret";
+const loadedAt = 1_700_000_000_000;
+const submittedAt = loadedAt + 45_000;
+
+const genuine = {
+  name: "Jane Doe",
+  email: "jane@example.com",
+  company: "Acme Health",
+  message:
+    "Hi, we're building an AI triage product and would love to talk about a fractional product leadership engagement.",
+  honeypot: "",
+  formToken: createFormToken(secret, loadedAt),
+  now: submittedAt,
+};
+
+describe("form tokens", () => {
+  it("round-trips the time the form was loaded", () => {
+    const token = createFormToken(secret, loadedAt);
+    expect(formTokenAge(secret, token, submittedAt)).toBe(45_000);
+  });
+
+  it("rejects forged, tampered or missing tokens", () => {
+    const token = createFormToken(secret, loadedAt);
+    const [, signature] = token.split(".");
+    expect(formTokenAge("other-secret", token, submittedAt)).toBeNull();
+    expect(formTokenAge(secret, `${loadedAt - 60_000}.${signature}`, submittedAt)).toBeNull();
+    expect(formTokenAge(secret, "not-a-token", submittedAt)).toBeNull();
+    expect(formTokenAge(secret, undefined, submittedAt)).toBeNull();
+  });
+});
+
+describe("scoreSubmission", () => {
+  it("lets a genuine enquiry through", () => {
+    const result = scoreSubmission(secret, genuine);
+    expect(result).toEqual({ score: 0, isSpam: false, reasons: [] });
+  });
+
+  it("flags a filled-in honeypot", () => {
+    const result = scoreSubmission(secret, { ...genuine, honeypot: "https://spam.example" });
+    expect(result.isSpam).toBe(true);
+  });
+
+  it("flags forms submitted faster than a human could fill them", () => {
+    const result = scoreSubmission(secret, {
+      ...genuine,
+      now: loadedAt + MIN_FILL_TIME_MS - 1000,
+    });
+    expect(result.isSpam).toBe(true);
+    expect(result.reasons[0]).toMatch(/after loading/);
+  });
+
+  it("penalises a missing token without flagging on its own", () => {
+    const result = scoreSubmission(secret, { ...genuine, formToken: undefined });
+    expect(result.score).toBeGreaterThan(0);
+    expect(result.score).toBeLessThan(SPAM_THRESHOLD);
+  });
+
+  it("flags link-stuffed keyword spam", () => {
+    const result = scoreSubmission(secret, {
+      ...genuine,
+      name: "SEO Expert",
+      message:
+        "Get your site on the first page of google! Our backlink and guest post packages: https://a.example https://b.example www.c.example",
+    });
+    expect(result.isSpam).toBe(true);
+    expect(result.reasons.some((reason) => reason.startsWith("Spam keywords"))).toBe(true);
+  });
+
+  it("adds points for a message repeated from another submission", () => {
+    const result = scoreSubmission(secret, {
+      ...genuine,
+      recentMessages: [normalizeMessage(`  ${genuine.message.toUpperCase()} `)],
+    });
+    expect(result.score).toBe(40);
+    expect(result.reasons).toContain("Same message was submitted recently");
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import {
+  base32Encode,
+  base32Decode,
+  generateTotp,
+  verifyTotp,
+  buildOtpauthUri,
+  generateTotpSecret,
+} from "../../services/totp";
+
+// RFC 6238 appendix B uses the ASCII key "12345678901234567890" with SHA1
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+describe("TOTP", () => {
+  it("round-trips base32", () => {
+    const bytes = Buffer.from("hello totp");
+    expect(base32Decode(base32Encode(bytes)).equals(bytes)).toBe(true);
+    expect(RFC_SECRET).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+  });
+
+  it("matches the RFC 6238 SHA1 test vectors", () => {
+    expect(generateTotp(RFC_SECRET, 59 * 1000)).toBe("287082");
+    expect(generateTotp(RFC_SECRET, 1111111109 * 1000)).toBe("081804");
+    expect(generateTotp(RFC_SECRET, 1234567890 * 1000)).toBe("005924");
+    expect(generateTotp(RFC_SECRET, 2000000000 * 1000)).toBe("279037");
+  });
+
+  it("accepts codes within the drift window and returns their step", () => {
+    const now = 1_700_000_000_000;
+    const previous = generateTotp(RFC_SECRET, now - 30_000);
+    const step = verifyTotp(RFC_SECRET, previous, { timeMs: now });
+    expect(step).toBe(Math.floor(now / 1000 / 30) - 1);
+  });
+
+  it("rejects codes outside the window and malformed input", () => {
+    const now = 1_700_000_000_000;
+    const stale = generateTotp(RFC_SECRET, now - 120_000);
+    expect(verifyTotp(RFC_SECRET, stale, { timeMs: now })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "abc123", { timeMs: now })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "12345", { timeMs: now })).toBeNull();
+  });
+
+  it("builds an otpauth URI authenticator apps can import", () => {
+    const secret = generateTotpSecret();
+    const uri = buildOtpauthUri({ secret, accountName: "owner", issuer: "Portfolio Admin" });
+    expect(uri.startsWith("otpauth://totp/Portfolio%20Admin%3Aowner?")).toBe(true);
+    expect(new URL(uri).searchParams.get("secret")).toBe(secret);
+  });
+});
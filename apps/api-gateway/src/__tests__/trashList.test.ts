@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { buildTrashList } from "../../services/trashList";
+import type { TrashedRow } from "../../storage";
+
+const deletedAt = new Date("2026-03-01T10:00:00Z");
+const later = new Date("2026-03-02T10:00:00Z");
+
+const row = (overrides: Partial<TrashedRow>): TrashedRow => ({
+  type: "skill",
+  id: 1,
+  title: "TypeScript",
+  deletedAt,
+  parent: null,
+  ...overrides,
+});
+
+describe("buildTrashList", () => {
+  it("sets the purge date from the retention period", () => {
+    const [item] = buildTrashList([row({})], 30);
+
+    expect(item.purgeAt).toEqual(new Date("2026-03-31T10:00:00Z"));
+    expect(item.children).toBe(0);
+  });
+
+  it("folds children deleted with their parent into its count", () => {
+    const items = buildTrashList(
+      [
+        row({ type: "skill_category", id: 4, title: "Languages" }),
+        row({ id: 1, parent: { type: "skill_category", id: 4 } }),
+        row({ id: 2, title: "Go", parent: { type: "skill_category", id: 4 } }),
+      ],
+      30
+    );
+
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ type: "skill_category", id: 4, children: 2 });
+  });
+
+  it("lists children deleted on their own separately", () => {
+    const items = buildTrashList(
+      [
+        row({ type: "skill_category", id: 4, title: "Languages", deletedAt: later }),
+        row({ id: 1, parent: { type: "skill_category", id: 4 } }),
+      ],
+      30
+    );
+
+    expect(items.map((item) => [item.type, item.children])).toEqual([
+      ["skill_category", 0],
+      ["skill", 0],
+    ]);
+  });
+
+  it("lists the most recent deletions first", () => {
+    const items = buildTrashList([row({ id: 1 }), row({ id: 2, deletedAt: later })], 30);
+
+    expect(items.map((item) => item.id)).toEqual([2, 1]);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import crypto from "crypto";
+import {
+  buildPayload,
+  generateWebhookSecret,
+  isPrivateAddress,
+  maxDeliveryAttempts,
+  nextDeliveryAttempt,
+  signPayload,
+  toPublicSubscription,
+  verifySignature,
+  webhookCreateSchema,
+  webhookHostname,
+  webhookUpdateSchema,
+} from "../../services/webhooks";
+import type { WebhookSubscription } from "../../../shared/schema";
+
+describe("signPayload", () => {
+  const secret = "whsec_test";
+  const body = JSON.stringify({ event: "contact.created", data: { id: 1 } });
+
+  it("signs the timestamp and body with HMAC-SHA256", () => {
+    const expected = crypto.createHmac("sha256", secret).update(`1700000000.${body}`).digest("hex");
+
+    expect(signPayload(secret, 1700000000, body)).toBe(`sha256=${expected}`);
+  });
+
+  it("verifies its own signatures and nothing else", () => {
+    const signature = signPayload(secret, 1700000000, body);
+
+    expect(verifySignature(secret, 1700000000, body, signature)).toBe(true);
+    expect(verifySignature(secret, 1700000001, body, signature)).toBe(false);
+    expect(verifySignature("whsec_other", 1700000000, body, signature)).toBe(false);
+    expect(verifySignature(secret, 1700000000, body, "sha256=short")).toBe(false);
+  });
+});
+
+describe("nextDeliveryAttempt", () => {
+  const now = new Date("2026-03-01T10:00:00Z");
+
+  it("doubles the wait after each failure", () => {
+    expect(nextDeliveryAttempt(1, now)).toEqual(new Date("2026-03-01T10:01:00Z"));
+    expect(nextDeliveryAttempt(2, now)).toEqual(new Date("2026-03-01T10:02:00Z"));
+    expect(nextDeliveryAttempt(4, now)).toEqual(new Date("2026-03-01T10:08:00Z"));
+  });
+
+  it("gives up after the last attempt", () => {
+    expect(nextDeliveryAttempt(maxDeliveryAttempts - 1, now)).not.toBeNull();
+    expect(nextDeliveryAttempt(maxDeliveryAttempts, now)).toBeNull();
+  });
+});
+
+describe("webhook subscriptions", () => {
+  it("accepts http(s) URLs and known events, without duplicates", () => {
+    const parsed = webhookCreateSchema.parse({
+      url: "https://hooks.example.com/portfolio",
+      events: ["contact.created", "contact.created", "backup.completed"],
+    });
+
+    expect(parsed.events).toEqual(["contact.created", "backup.completed"]);
+    expect(parsed.active).toBe(true);
+  });
+
+  it("rejects other schemes, unknown events and empty subscriptions", () => {
+    expect(webhookCreateSchema.safeParse({ url: "ftp://example.com", events: ["contact.created"] }).success).toBe(false);
+    expect(webhookCreateSchema.safeParse({ url: "https://example.com", events: ["contact.deleted"] }).success).toBe(false);
+    expect(webhookCreateSchema.safeParse({ url: "https://example.com", events: [] }).success).toBe(false);
+    expect(webhookUpdateSchema.safeParse({}).success).toBe(false);
+  });
+
+  it("hides the secret apart from a hint", () => {
+    const secret = generateWebhookSecret();
+    const subscription = { id: 1, url: "https://example.com", secret, events: ["contact.created"] } as WebhookSubscription;
+
+    const shown = toPublicSubscription(subscription);
+
+    expect(secret).toMatch(/^whsec_/);
+    expect(shown).not.toHaveProperty("secret");
+    expect(shown.secretHint).toBe(`…${secret.slice(-4)}`);
+  });
+
+  it("gives every event its own id", () => {
+    expect(buildPayload("content.updated", {}).id).not.toBe(buildPayload("content.updated", {}).id);
+  });
+});
+
+describe("isPrivateAddress", () => {
+  it("blocks loopback, private, link-local and metadata addresses", () => {
+    for (const address of ["127.0.0.1", "10.1.2.3", "172.20.0.5", "192.168.1.1", "169.254.169.254", "100.64.0.1", "0.0.0.0", "::1", "fd00::1", "fe80::1", "::ffff:127.0.0.1"]) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+  });
+
+  it("allows public addresses", () => {
+    for (const address of ["93.184.216.34", "172.32.0.1", "2606:2800:220:1::1", "::ffff:93.184.216.34"]) {
+      expect(isPrivateAddress(address), address).toBe(false);
+    }
+  });
+
+  it("treats anything that isn't an IP address as blocked", () => {
+    expect(isPrivateAddress("localhost")).toBe(true);
+  });
+});
+
+describe("webhookHostname", () => {
+  it("lowercases the host and drops IPv6 brackets", () => {
+    expect(webhookHostname("https://Hooks.Example.com:8443/in")).toBe("hooks.example.com");
+    expect(webhookHostname("http://[::1]:3000/")).toBe("::1");
+  });
+});
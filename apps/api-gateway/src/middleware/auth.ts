@@ -0,0 +1,103 @@
+import { Request, Response, NextFunction } from "express";
+import { AppError } from "../../../../packages/shared-utils";
+import { hasPermission, tokenScopes, type Permission } from "../../../shared/schema";
+import { userService } from "../../services/userService";
+import { apiTokenService } from "../../services/apiTokenService";
+import { declarePolicy } from "./routePolicy";
+
+function bearerToken(req: Request): string | undefined {
+  const match = req.get("Authorization")?.match(/^Bearer\s+(\S+)\s*$/i);
+  return match?.[1];
+}
+
+/**
+ * Requires a logged-in session and attaches the current user to `req.user`.
+ * Sessions pointing at a deleted account are destroyed. API tokens are not
+ * accepted here, so they cannot manage passwords, 2FA, sessions or tokens.
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const userId = req.session?.userId;
+  if (!userId) {
+    if (bearerToken(req)) {
+      return next(AppError.forbidden("API tokens cannot access this endpoint"));
+    }
+    return next(AppError.unauthorized("Admin access required"));
+  }
+
+  userService
+    .getUser(userId)
+    .then((user) => {
+      if (!user) {
+        req.session.destroy(() => undefined);
+        return next(AppError.unauthorized("Admin access required"));
+      }
+
+      req.user = userService.toPublicUser(user);
+      next();
+    })
+    .catch(next);
+}
+
+declarePolicy(requireAuth, { access: "authenticated" });
+
+// Authenticates an `Authorization: Bearer` personal access token
+function requireApiToken(req: Request, token: string, next: NextFunction) {
+  apiTokenService
+    .authenticate(token, req.ip ?? null)
+    .then((result) => {
+      if (!result) {
+        return next(AppError.unauthorized("Invalid or expired API token"));
+      }
+
+      req.user = userService.toPublicUser(result.user);
+      req.apiToken = {
+        id: result.token.id,
+        // Tokens created before a scope was withdrawn from tokens don't keep it
+        scopes: (result.token.scopes as Permission[]).filter((scope) => (tokenScopes as Permission[]).includes(scope)),
+      };
+      next();
+    })
+    .catch(next);
+}
+
+/**
+ * Authenticates the request by session or API token and rejects it with 403
+ * unless the user's role grants `permission` (see `rolePermissions` in the
+ * shared schema). Token requests also need `permission` among their scopes.
+ */
+export function requirePermission(permission: Permission) {
+  const middleware = (req: Request, res: Response, next: NextFunction) => {
+    const authorize = (err?: unknown) => {
+      if (err) {
+        return next(err);
+      }
+
+      if (!hasPermission(req.user?.role, permission)) {
+        return next(
+          AppError.forbidden("Insufficient permissions", {
+            required: permission,
+          })
+        );
+      }
+
+      if (req.apiToken && !req.apiToken.scopes.includes(permission)) {
+        return next(
+          AppError.forbidden("API token is missing the required scope", {
+            required: permission,
+          })
+        );
+      }
+
+      next();
+    };
+
+    const token = bearerToken(req);
+    if (token && !req.session?.userId) {
+      requireApiToken(req, token, authorize);
+    } else {
+      requireAuth(req, res, authorize);
+    }
+  };
+
+  return declarePolicy(middleware, { access: "permission", permission });
+}
@@ -0,0 +1,33 @@
+import rateLimit from "express-rate-limit";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const throttled = {
+  success: false,
+  message:
+    "You have sent several messages already. Please wait a while or reach out by email.",
+};
+
+// Per-IP cap on contact form submissions, on top of the global API limiter
+export const contactIpThrottle = rateLimit({
+  windowMs: HOUR_MS,
+  max: 10,
+  message: throttled,
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Per-address cap, so rotating IPs cannot flood a single sender's thread
+export const contactEmailThrottle = rateLimit({
+  windowMs: HOUR_MS,
+  max: 3,
+  message: throttled,
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => {
+    const email = typeof req.body?.email === "string" ? req.body.email : "";
+    return `email:${email.trim().toLowerCase()}`;
+  },
+  // Malformed bodies are rejected by validation, not counted against anyone
+  skip: (req) => typeof req.body?.email !== "string" || !req.body.email.trim(),
+});
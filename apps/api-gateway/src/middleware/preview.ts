@@ -0,0 +1,24 @@
+import { Request, Response, NextFunction } from "express";
+import { previewService } from "../../services/previewService";
+
+/**
+ * For public content routes: a `?preview=<token>` query switches the request
+ * to draft content. Invalid, expired and revoked tokens are rejected rather
+ * than silently showing live content. Preview responses are never cached;
+ * cacheMiddleware skips them as well.
+ */
+export function loadPreview(req: Request, res: Response, next: NextFunction) {
+  const token = req.query.preview;
+  if (token === undefined) {
+    return next();
+  }
+
+  previewService
+    .authorize(String(token), req.session)
+    .then((link) => {
+      req.preview = { linkId: link.id };
+      res.setHeader("Cache-Control", "private, no-store");
+      next();
+    })
+    .catch(next);
+}
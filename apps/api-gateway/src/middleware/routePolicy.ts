@@ -0,0 +1,45 @@
+import { Request, Response, NextFunction, RequestHandler } from "express";
+import type { Permission } from "../../../shared/schema";
+
+export type RouteAccess = "public" | "authenticated" | "permission";
+
+/**
+ * What a middleware in a route's handler chain declares about that route.
+ * Access comes from `publicRoute`, `requireAuth` or `requirePermission`;
+ * `returnsPii` marks handlers whose responses carry personal data.
+ */
+export interface PolicyDeclaration {
+  access?: RouteAccess;
+  permission?: Permission;
+  pii?: boolean;
+}
+
+const POLICY = Symbol("routePolicy");
+
+type DeclaredHandler = RequestHandler & { [POLICY]?: PolicyDeclaration };
+
+export function declarePolicy<T extends RequestHandler>(
+  handler: T,
+  declaration: PolicyDeclaration
+): T {
+  (handler as DeclaredHandler)[POLICY] = declaration;
+  return handler;
+}
+
+export function policyOf(handler: unknown): PolicyDeclaration | undefined {
+  return typeof handler === "function"
+    ? (handler as DeclaredHandler)[POLICY]
+    : undefined;
+}
+
+// Anyone may call the route; the startup check refuses it alongside returnsPii
+export const publicRoute = declarePolicy(
+  (req: Request, res: Response, next: NextFunction) => next(),
+  { access: "public" }
+);
+
+// The response contains visitors' or users' personal data
+export const returnsPii = declarePolicy(
+  (req: Request, res: Response, next: NextFunction) => next(),
+  { pii: true }
+);
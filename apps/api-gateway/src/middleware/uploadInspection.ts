@@ -0,0 +1,110 @@
+import fs from "fs";
+import path from "path";
+import { Request } from "express";
+import { AppError, withModule } from "../../../../packages/shared-utils";
+import { asyncHandler } from "./errorHandler";
+import { inspectFile, type FileKind } from "../../services/fileSniffer";
+import { auditService } from "../../services/auditService";
+
+const moduleLogger = withModule("uploadInspection");
+
+// Outside the statically served uploads directory, so nothing in it is reachable over HTTP
+export const QUARANTINE_DIR = "quarantine";
+
+export interface RejectedUpload {
+  originalName: string;
+  reason: string;
+}
+
+async function quarantine(
+  req: Request,
+  file: Express.Multer.File,
+  reason: string,
+  detectedKind: FileKind | null
+): Promise<void> {
+  await fs.promises.mkdir(QUARANTINE_DIR, { recursive: true });
+  const quarantinedName = `${Date.now()}-${path.basename(file.path)}`;
+  const target = path.join(QUARANTINE_DIR, quarantinedName);
+  const details = {
+    originalName: file.originalname,
+    claimedMimeType: file.mimetype,
+    detectedKind,
+    size: file.size,
+    reason,
+  };
+
+  await fs.promises.rename(file.path, target);
+  await fs.promises.writeFile(
+    `${target}.json`,
+    JSON.stringify(
+      {
+        ...details,
+        uploadedBy: req.user?.username ?? null,
+        ipAddress: req.ip ?? null,
+        quarantinedAt: new Date().toISOString(),
+      },
+      null,
+      2
+    )
+  );
+
+  moduleLogger.warn({ ...details, quarantinedName }, "Upload quarantined");
+  await auditService.record(req, {
+    action: "upload.quarantine",
+    entityType: "upload",
+    entityId: quarantinedName,
+    after: details,
+  });
+}
+
+/**
+ * Runs after multer: sniffs every stored file and moves the ones that are not
+ * an allowed format (or hide another one) into the quarantine directory.
+ * Accepted files keep their place in `req.file`/`req.files` with the detected
+ * MIME type; rejected ones are listed in `req.rejectedUploads`. Fails with 415
+ * when nothing was accepted.
+ */
+export function inspectUploads(allowed: FileKind[]) {
+  return asyncHandler(async (req, res, next) => {
+    const files = req.file
+      ? [req.file]
+      : Array.isArray(req.files)
+        ? req.files
+        : [];
+
+    const accepted: Express.Multer.File[] = [];
+    const rejected: RejectedUpload[] = [];
+
+    for (const file of files) {
+      const buffer = await fs.promises.readFile(file.path);
+      const result = inspectFile(buffer, file.originalname, allowed);
+
+      if (result.ok) {
+        file.mimetype = result.mimeType;
+        accepted.push(file);
+      } else {
+        await quarantine(req, file, result.reason, result.kind);
+        rejected.push({ originalName: file.originalname, reason: result.reason });
+      }
+    }
+
+    req.rejectedUploads = rejected;
+    if (req.file && accepted.length === 0) {
+      req.file = undefined;
+    }
+    if (Array.isArray(req.files)) {
+      req.files = accepted;
+    }
+
+    if (files.length > 0 && accepted.length === 0) {
+      throw AppError.unsupportedMediaType(
+        rejected.length === 1
+          ? rejected[0].reason
+          : "None of the uploaded files were accepted",
+        { rejected }
+      );
+    }
+
+    next();
+  });
+}
@@ -0,0 +1,68 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { AppError } from "../../../../packages/shared-utils";
+import { asyncHandler } from "../middleware/errorHandler";
+import { requireAuth } from "../middleware/auth";
+import { apiTokenService } from "../../services/apiTokenService";
+import { auditService } from "../../services/auditService";
+import { tokenScopes } from "../../../shared/schema";
+
+const createTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scopes: z.array(z.enum(tokenScopes)).min(1, "Pick at least one scope"),
+  expiresInDays: z.number().int().min(1).max(365).optional(),
+});
+
+// Personal access tokens of the signed-in user. Managed from a browser
+// session only; requireAuth rejects bearer tokens.
+export function registerApiTokenRoutes(app: Express) {
+  app.get(
+    "/api/admin/account/tokens",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const tokens = await apiTokenService.list(req.user!.id);
+      res.json(tokens);
+    })
+  );
+
+  app.post(
+    "/api/admin/account/tokens",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const result = createTokenSchema.safeParse(req.body);
+      if (!result.success) {
+        throw AppError.badRequest("Invalid request", {
+          validation: result.error.flatten().fieldErrors,
+        });
+      }
+
+      const created = await apiTokenService.create(req.user!, result.data);
+      await auditService.record(req, {
+        action: "api_token.create",
+        entityType: "api_token",
+        entityId: created.apiToken.id,
+        after: created.apiToken,
+      });
+      res.status(201).json(created);
+    })
+  );
+
+  app.delete(
+    "/api/admin/account/tokens/:id",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const tokenId = parseInt(req.params.id);
+      if (isNaN(tokenId)) {
+        throw AppError.badRequest("Valid token ID required");
+      }
+
+      await apiTokenService.revoke(req.user!.id, tokenId);
+      await auditService.record(req, {
+        action: "api_token.revoke",
+        entityType: "api_token",
+        entityId: tokenId,
+      });
+      res.json({ success: true, message: "API token revoked" });
+    })
+  );
+}
@@ -0,0 +1,108 @@
+import type { Express, Request } from "express";
+import { z } from "zod";
+import { AppError } from "../../../../packages/shared-utils";
+import { asyncHandler } from "../middleware/errorHandler";
+import { requirePermission } from "../middleware/auth";
+import { returnsPii } from "../middleware/routePolicy";
+import { auditService } from "../../services/auditService";
+import { csvCell } from "../../services/csv";
+import type { AuditEventFilters } from "../../storage";
+import type { AuditEvent } from "../../../shared/schema";
+
+const CSV_EXPORT_LIMIT = 10000;
+
+const auditQuerySchema = z.object({
+  actorId: z.coerce.number().int().optional(),
+  action: z.string().optional(),
+  entityType: z.string().optional(),
+  entityId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+function parseFilters(req: Request): AuditEventFilters {
+  const result = auditQuerySchema.safeParse(req.query);
+  if (!result.success) {
+    throw AppError.badRequest("Invalid audit filters", {
+      validation: result.error.flatten().fieldErrors,
+    });
+  }
+  return result.data;
+}
+
+export function auditEventsToCsv(events: AuditEvent[]): string {
+  const header = [
+    "ID",
+    "Timestamp",
+    "Actor ID",
+    "Actor",
+    "Action",
+    "Entity Type",
+    "Entity ID",
+    "Changed Fields",
+    "Diff",
+    "IP Address",
+    "User Agent",
+  ].join(",");
+
+  const rows = events.map((event) =>
+    [
+      event.id,
+      event.createdAt.toISOString(),
+      event.actorId ?? "",
+      csvCell(event.actorUsername),
+      csvCell(event.action),
+      csvCell(event.entityType),
+      csvCell(event.entityId),
+      csvCell(Object.keys(event.diff ?? {}).join(" ")),
+      csvCell(event.diff),
+      csvCell(event.ipAddress),
+      csvCell(event.userAgent),
+    ].join(",")
+  );
+
+  return [header, ...rows].join("\n");
+}
+
+export function registerAuditRoutes(app: Express) {
+  app.get(
+    "/api/admin/audit",
+    requirePermission("audit:read"),
+    returnsPii,
+    asyncHandler(async (req, res) => {
+      const filters = parseFilters(req);
+      const { events, total } = await auditService.list(filters);
+      res.json({ events, total, limit: filters.limit, offset: filters.offset });
+    })
+  );
+
+  app.get(
+    "/api/admin/audit/export",
+    requirePermission("audit:read"),
+    returnsPii,
+    asyncHandler(async (req, res) => {
+      const filters = parseFilters(req);
+      const { events } = await auditService.list({
+        ...filters,
+        limit: CSV_EXPORT_LIMIT,
+        offset: 0,
+      });
+
+      await auditService.record(req, {
+        action: "audit.export",
+        entityType: "audit_event",
+        after: { filters, count: events.length },
+      });
+
+      const date = new Date().toISOString().split("T")[0];
+      res.setHeader("Content-Type", "text/csv");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="audit-log-${date}.csv"`
+      );
+      res.send(auditEventsToCsv(events));
+    })
+  );
+}
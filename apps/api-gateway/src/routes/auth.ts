@@ -0,0 +1,390 @@
+import type { Express, Request } from "express";
+import { z } from "zod";
+import { withModule, AppError } from "../../../../packages/shared-utils";
+import { asyncHandler } from "../middleware/errorHandler";
+import { requireAuth, requirePermission } from "../middleware/auth";
+import { issueCsrfToken } from "../middleware/csrf";
+import { publicRoute, returnsPii } from "../middleware/routePolicy";
+import { userService, MIN_PASSWORD_LENGTH } from "../../services/userService";
+import { auditService } from "../../services/auditService";
+import { sessionService } from "../../services/sessionService";
+import { userRoles } from "../../../shared/schema";
+
+const moduleLogger = withModule("authRoutes");
+
+// How long a password-verified login may wait for its second factor
+const OTP_STAGE_TTL_MS = 5 * 60 * 1000;
+const OTP_MAX_ATTEMPTS = 5;
+
+const loginSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+const otpSchema = z.object({
+  code: z.string().min(1, "Verification code is required"),
+});
+
+const disableTotpSchema = z.object({
+  password: z.string().min(1),
+});
+
+const createUserSchema = z.object({
+  username: z
+    .string()
+    .min(3, "Username must be at least 3 characters")
+    .regex(
+      /^[a-zA-Z0-9._-]+$/,
+      "Username may only contain letters, numbers, dots, dashes and underscores"
+    ),
+  password: z.string().min(MIN_PASSWORD_LENGTH),
+  displayName: z.string().optional(),
+  email: z.string().email().optional(),
+  role: z.enum(userRoles).default("viewer"),
+});
+
+const updateRoleSchema = z.object({
+  role: z.enum(userRoles),
+});
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: z.string().min(MIN_PASSWORD_LENGTH),
+});
+
+const resetPasswordSchema = z.object({
+  username: z.string().min(1),
+  token: z.string().min(1),
+  newPassword: z.string().min(MIN_PASSWORD_LENGTH),
+});
+
+function parseBody<T>(schema: z.ZodSchema<T>, body: unknown): T {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    throw AppError.badRequest("Invalid request", {
+      validation: result.error.flatten().fieldErrors,
+    });
+  }
+  return result.data;
+}
+
+// Issue a fresh session id on login so a pre-login session id cannot be fixated
+async function regenerateSession(req: Request): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    req.session.regenerate((err) => (err ? reject(err) : resolve()));
+  });
+  req.session.client = {
+    ipAddress: req.ip ?? null,
+    userAgent: req.get("User-Agent") ?? null,
+  };
+}
+
+async function completeLogin(req: Request, userId: number): Promise<void> {
+  await regenerateSession(req);
+  req.session.userId = userId;
+  req.session.authenticatedAt = Date.now();
+  await userService.recordLogin(userId);
+}
+
+export function registerAuthRoutes(app: Express) {
+  // Admin login endpoint
+  app.post(
+    "/api/admin/login",
+    publicRoute,
+    asyncHandler(async (req, res) => {
+      const { username, password } = parseBody(loginSchema, req.body);
+
+      const user = await userService.authenticate(username, password);
+      if (!user) {
+        moduleLogger.warn({ username }, "Login failed - invalid credentials");
+        throw AppError.unauthorized("Invalid credentials");
+      }
+
+      await regenerateSession(req);
+
+      if (userService.isTotpEnabled(user)) {
+        req.session.pendingUserId = user.id;
+        req.session.pendingExpiresAt = Date.now() + OTP_STAGE_TTL_MS;
+        moduleLogger.info(
+          { userId: user.id },
+          "Password accepted - awaiting second factor"
+        );
+        return res.json({
+          success: false,
+          requiresOtp: true,
+          message: "Enter the code from your authenticator app",
+        });
+      }
+
+      await completeLogin(req, user.id);
+
+      moduleLogger.info({ userId: user.id }, "Login successful");
+      res.json({
+        success: true,
+        message: "Login successful",
+        user: userService.toPublicUser(user),
+      });
+    })
+  );
+
+  // Second login stage for users with 2FA enabled
+  app.post(
+    "/api/admin/login/verify-otp",
+    publicRoute,
+    asyncHandler(async (req, res) => {
+      const { code } = parseBody(otpSchema, req.body);
+      const userId = req.session.pendingUserId;
+      const expiresAt = req.session.pendingExpiresAt ?? 0;
+
+      const attempts = req.session.pendingAttempts ?? 0;
+
+      if (!userId || expiresAt < Date.now() || attempts >= OTP_MAX_ATTEMPTS) {
+        delete req.session.pendingUserId;
+        delete req.session.pendingExpiresAt;
+        delete req.session.pendingAttempts;
+        throw AppError.unauthorized("Login session expired, sign in again");
+      }
+
+      if (!(await userService.verifySecondFactor(userId, code))) {
+        req.session.pendingAttempts = attempts + 1;
+        moduleLogger.warn({ userId }, "Login failed - invalid second factor");
+        throw AppError.unauthorized("Invalid verification code");
+      }
+
+      const user = await userService.getUser(userId);
+      if (!user) {
+        throw AppError.unauthorized("Login session expired, sign in again");
+      }
+
+      await completeLogin(req, user.id);
+
+      moduleLogger.info({ userId: user.id }, "Login successful");
+      res.json({
+        success: true,
+        message: "Login successful",
+        user: userService.toPublicUser(user),
+      });
+    })
+  );
+
+  // Admin logout endpoint
+  app.post("/api/admin/logout", publicRoute, (req, res) => {
+    req.session.destroy((err) => {
+      if (err) {
+        res.status(500).json({ message: "Logout failed" });
+      } else {
+        res.json({ message: "Logout successful" });
+      }
+    });
+  });
+
+  // Token the admin client sends back in X-CSRF-Token on mutations
+  app.get("/api/admin/csrf-token", publicRoute, (req, res) => {
+    res.set("Cache-Control", "no-store");
+    res.json({ csrfToken: issueCsrfToken(req) });
+  });
+
+  // Admin status endpoint
+  app.get(
+    "/api/admin/status",
+    publicRoute,
+    asyncHandler(async (req, res) => {
+      const userId = req.session?.userId;
+      const user = userId ? await userService.getUser(userId) : undefined;
+
+      res.json({
+        isAdmin: !!user,
+        user: user ? userService.toPublicUser(user) : null,
+      });
+    })
+  );
+
+  // Change own password
+  app.post(
+    "/api/admin/account/password",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const { currentPassword, newPassword } = parseBody(
+        changePasswordSchema,
+        req.body
+      );
+      await userService.changePassword(
+        req.user!.id,
+        currentPassword,
+        newPassword
+      );
+      // A changed password should lock out anyone still holding an old session
+      const signedOut = await sessionService.revokeOthers(
+        req.user!.id,
+        req.sessionID
+      );
+      await auditService.record(req, {
+        action: "user.password_change",
+        entityType: "user",
+        entityId: req.user!.id,
+        after: { sessionsSignedOut: signedOut },
+      });
+      res.json({ success: true, message: "Password changed successfully" });
+    })
+  );
+
+  // Two-factor enrolment for the signed-in user
+  app.post(
+    "/api/admin/account/2fa/setup",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const enrolment = await userService.beginTotpEnrolment(req.user!.id);
+      res.json(enrolment);
+    })
+  );
+
+  app.post(
+    "/api/admin/account/2fa/enable",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const { code } = parseBody(otpSchema, req.body);
+      const recoveryCodes = await userService.confirmTotpEnrolment(
+        req.user!.id,
+        code
+      );
+      await auditService.record(req, {
+        action: "user.2fa_enable",
+        entityType: "user",
+        entityId: req.user!.id,
+      });
+      res.json({ success: true, recoveryCodes });
+    })
+  );
+
+  app.post(
+    "/api/admin/account/2fa/recovery-codes",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const { code } = parseBody(otpSchema, req.body);
+      const recoveryCodes = await userService.regenerateRecoveryCodes(
+        req.user!.id,
+        code
+      );
+      await auditService.record(req, {
+        action: "user.recovery_codes_regenerate",
+        entityType: "user",
+        entityId: req.user!.id,
+      });
+      res.json({ success: true, recoveryCodes });
+    })
+  );
+
+  app.post(
+    "/api/admin/account/2fa/disable",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const { password } = parseBody(disableTotpSchema, req.body);
+      await userService.disableTotp(req.user!.id, password);
+      await auditService.record(req, {
+        action: "user.2fa_disable",
+        entityType: "user",
+        entityId: req.user!.id,
+      });
+      res.json({
+        success: true,
+        message: "Two-factor authentication disabled",
+      });
+    })
+  );
+
+  // Complete a password reset with a one-time token issued by a team member
+  app.post(
+    "/api/admin/password/reset",
+    publicRoute,
+    asyncHandler(async (req, res) => {
+      const { username, token, newPassword } = parseBody(
+        resetPasswordSchema,
+        req.body
+      );
+      const userId = await userService.resetPasswordWithToken(
+        username,
+        token,
+        newPassword
+      );
+      await sessionService.revokeAll(userId);
+      res.json({ success: true, message: "Password reset successfully" });
+    })
+  );
+
+  // Team accounts
+  app.get(
+    "/api/admin/users",
+    requirePermission("users:manage"),
+    returnsPii,
+    asyncHandler(async (req, res) => {
+      const users = await userService.listUsers();
+      res.json(users);
+    })
+  );
+
+  app.post(
+    "/api/admin/users",
+    requirePermission("users:manage"),
+    returnsPii,
+    asyncHandler(async (req, res) => {
+      const data = parseBody(createUserSchema, req.body);
+      const user = await userService.createUser(data);
+      await auditService.record(req, {
+        action: "user.create",
+        entityType: "user",
+        entityId: user.id,
+        after: user,
+      });
+      res.status(201).json(user);
+    })
+  );
+
+  app.patch(
+    "/api/admin/users/:id/role",
+    requirePermission("users:manage"),
+    returnsPii,
+    asyncHandler(async (req, res) => {
+      const userId = parseInt(req.params.id);
+      if (isNaN(userId)) {
+        throw AppError.badRequest("Valid user ID required");
+      }
+
+      const { role } = parseBody(updateRoleSchema, req.body);
+      const existing = await userService.getUser(userId);
+      const user = await userService.updateRole(userId, role);
+      await auditService.record(req, {
+        action: "user.role_change",
+        entityType: "user",
+        entityId: userId,
+        before: { role: existing?.role },
+        after: { role: user.role },
+      });
+      res.json(user);
+    })
+  );
+
+  // Issue a reset token for another account; it is shown once and expires in an hour
+  app.post(
+    "/api/admin/users/:id/reset-password",
+    requirePermission("users:manage"),
+    asyncHandler(async (req, res) => {
+      const userId = parseInt(req.params.id);
+      if (isNaN(userId)) {
+        throw AppError.badRequest("Valid user ID required");
+      }
+
+      const ticket = await userService.createPasswordResetTicket(userId);
+      await auditService.record(req, {
+        action: "user.password_reset_issue",
+        entityType: "user",
+        entityId: userId,
+        after: { expiresAt: ticket.expiresAt },
+      });
+      res.json({
+        username: ticket.username,
+        token: ticket.token,
+        expiresAt: ticket.expiresAt.toISOString(),
+      });
+    })
+  );
+}
@@ -0,0 +1,172 @@
+import type { Express, RequestHandler } from "express";
+import { z } from "zod";
+import { AppError } from "../../../../packages/shared-utils";
+import { asyncHandler } from "../middleware/errorHandler";
+import { requirePermission } from "../middleware/auth";
+import { returnsPii } from "../middleware/routePolicy";
+import { storage } from "../../storage";
+import { cacheSync } from "../../cacheSync";
+import { auditService } from "../../services/auditService";
+import { webhookService } from "../../services/webhookService";
+import { caseStudyEventData } from "../../services/webhooks";
+import { bulkOperationSchema, bulkReport, checkBulkOperation, toCsv } from "../../services/bulkOperations";
+import { exportFormats, type BulkEntityType, type Permission } from "../../../shared/schema";
+
+interface BulkEndpoint {
+  entityType: BulkEntityType;
+  path: string;
+  read: Permission;
+  write: Permission;
+  pii?: boolean;
+  // Entity type in the audit log, where it differs
+  auditType?: string;
+  load: (view?: string) => Promise<Record<string, unknown>[]>;
+  // Columns in the CSV export; the JSON export has every field
+  columns: string[];
+}
+
+const endpoints: BulkEndpoint[] = [
+  {
+    entityType: "case_study",
+    path: "case-studies",
+    read: "content:read",
+    write: "content:write",
+    load: () => storage.getCaseStudies(),
+    columns: ["id", "title", "slug", "status", "featured", "displayOrder", "clientName", "technologies", "metrics", "externalUrl", "publishAt", "unpublishAt", "createdAt", "updatedAt"],
+  },
+  {
+    entityType: "experience",
+    path: "experience",
+    read: "content:read",
+    write: "content:write",
+    load: () => storage.getExperienceEntries(),
+    columns: ["id", "year", "title", "company", "location", "description", "highlight", "orderIndex", "achievements", "createdAt", "updatedAt"],
+  },
+  {
+    entityType: "skill",
+    path: "skills",
+    read: "content:read",
+    write: "content:write",
+    load: () => storage.getSkills(),
+    columns: ["id", "categoryId", "name", "proficiencyLevel", "orderIndex", "createdAt"],
+  },
+  {
+    entityType: "contact",
+    path: "contact-submissions",
+    read: "contacts:read",
+    write: "contacts:write",
+    pii: true,
+    auditType: "contact_submission",
+    load: (view) => storage.getContactSubmissions({ spam: view === "spam" }),
+    columns: ["id", "name", "email", "company", "projectType", "message", "submittedAt", "status", "tags", "assigneeId", "followUpAt", "isSpam", "spamScore"],
+  },
+];
+
+const exportQuerySchema = z.object({
+  format: z.enum(exportFormats).default("json"),
+  // Comma-separated; exports everything when absent
+  ids: z
+    .string()
+    .regex(/^\d+(,\d+)*$/, "ids must be a comma-separated list of numbers")
+    .transform((value) => new Set(value.split(",").map(Number)))
+    .optional(),
+  view: z.enum(["inbox", "spam"]).optional(),
+});
+
+function parse<S extends z.ZodTypeAny>(schema: S, input: unknown): z.output<S> {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    throw AppError.badRequest("Invalid request", {
+      validation: result.error.flatten().fieldErrors,
+    });
+  }
+  return result.data;
+}
+
+const withoutTrashFields = ({ deletedAt, ...row }: Record<string, unknown>) => row;
+
+// Bulk changes and exports behind the admin lists' BulkOperations toolbar
+export function registerBulkRoutes(app: Express) {
+  for (const endpoint of endpoints) {
+    const { entityType } = endpoint;
+    const auditType = endpoint.auditType ?? entityType;
+    const pii: RequestHandler[] = endpoint.pii ? [returnsPii] : [];
+
+    // All or nothing: if any item fails its checks the report comes back with
+    // a 422 and nothing is changed
+    app.post(
+      `/api/admin/bulk/${endpoint.path}`,
+      requirePermission(endpoint.write),
+      asyncHandler(async (req, res) => {
+        const operation = parse(bulkOperationSchema, req.body);
+        const existing = new Set(await storage.getBulkTargetIds(entityType, operation.ids));
+        const checked = checkBulkOperation(entityType, operation, existing);
+        if (checked.some((result) => !result.ok)) {
+          throw AppError.unprocessable(
+            "Nothing was changed because some items cannot be updated",
+            bulkReport(entityType, operation.action, checked, false)
+          );
+        }
+
+        // Case studies that were already live are not announced again
+        const publishing = entityType === "case_study" && operation.action === "status" && operation.status === "published";
+        const unpublished = publishing
+          ? new Set((await storage.getCaseStudies()).filter((study) => study.status !== "published").map((study) => study.id))
+          : new Set<number>();
+
+        const changed = new Set(await storage.applyBulkOperation(entityType, operation));
+        const report = bulkReport(
+          entityType,
+          operation.action,
+          checked.map(({ id }) => (changed.has(id) ? { id, ok: true } : { id, ok: false, error: "Changed by someone else during the operation" })),
+          true
+        );
+
+        await auditService.record(req, {
+          action: `bulk.${operation.action}`,
+          entityType: auditType,
+          after: { ...operation, succeeded: report.succeeded, failed: report.failed },
+        });
+        if (entityType !== "contact") {
+          await cacheSync.invalidateContentCache({
+            invalidatePortfolio: true,
+            broadcastUpdate: true,
+          });
+        }
+        if (publishing) {
+          const published = (await storage.getCaseStudies()).filter((study) => changed.has(study.id) && unpublished.has(study.id));
+          for (const study of published) {
+            await webhookService.emit("case_study.published", caseStudyEventData(study));
+          }
+        }
+        res.json(report);
+      })
+    );
+
+    app.get(
+      `/api/admin/export/${endpoint.path}`,
+      requirePermission(endpoint.read),
+      ...pii,
+      asyncHandler(async (req, res) => {
+        const { format, ids, view } = parse(exportQuerySchema, req.query);
+        const rows = (await endpoint.load(view))
+          .filter((row) => !ids || ids.has(row.id as number))
+          .map(withoutTrashFields);
+
+        await auditService.record(req, {
+          action: `${auditType}.export`,
+          entityType: auditType,
+          after: { format, count: rows.length },
+        });
+
+        const filename = `${endpoint.path}-${new Date().toISOString().split("T")[0]}.${format}`;
+        res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+        if (format === "csv") {
+          res.type("text/csv").send(toCsv(rows, endpoint.columns));
+        } else {
+          res.json(rows);
+        }
+      })
+    );
+  }
+}
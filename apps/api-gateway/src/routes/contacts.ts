@@ -0,0 +1,174 @@
+import type { Express, Request } from "express";
+import { z } from "zod";
+import { AppError } from "../../../../packages/shared-utils";
+import { asyncHandler } from "../middleware/errorHandler";
+import { requirePermission } from "../middleware/auth";
+import { returnsPii } from "../middleware/routePolicy";
+import { storage, type ContactFilters } from "../../storage";
+import { auditService } from "../../services/auditService";
+import { contactListQuerySchema, contactNoteSchema, contactUpdateSchema } from "../../services/contactPipeline";
+import { hasPermission } from "../../../shared/schema";
+
+function parse<S extends z.ZodTypeAny>(schema: S, input: unknown): z.output<S> {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    throw AppError.badRequest("Invalid request", {
+      validation: result.error.flatten().fieldErrors,
+    });
+  }
+  return result.data;
+}
+
+function submissionId(req: Request): number {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    throw AppError.badRequest("Valid submission ID required");
+  }
+  return id;
+}
+
+async function getSubmissionOr404(id: number) {
+  const submission = await storage.getContactSubmission(id);
+  if (!submission) {
+    throw AppError.notFound("Submission not found");
+  }
+  return submission;
+}
+
+// Contact submissions as a lightweight lead pipeline: status, tags, assignee,
+// follow-up date and an internal notes thread
+export function registerContactRoutes(app: Express) {
+  // ?view=inbox|spam|overdue, narrowed by status, tag, assignee and q (full-text)
+  app.get(
+    "/api/admin/contact-submissions",
+    requirePermission("contacts:read"),
+    returnsPii,
+    asyncHandler(async (req, res) => {
+      const query = parse(contactListQuerySchema, req.query);
+      const filters: ContactFilters = {
+        spam: query.view === "spam",
+        overdueAt: query.view === "overdue" ? new Date() : undefined,
+        status: query.status,
+        tag: query.tag,
+        assigneeId: query.assignee === "me" ? req.user!.id : query.assignee === "none" ? null : query.assignee,
+        search: query.q,
+      };
+      res.json(await storage.getContactSubmissions(filters));
+    })
+  );
+
+  // People leads can be assigned to
+  app.get(
+    "/api/admin/contact-submissions/assignees",
+    requirePermission("contacts:read"),
+    asyncHandler(async (_req, res) => {
+      const users = await storage.getUsers();
+      res.json(
+        users
+          .filter((user) => hasPermission(user.role, "contacts:read"))
+          .map((user) => ({ id: user.id, name: user.displayName || user.username }))
+      );
+    })
+  );
+
+  app.patch(
+    "/api/admin/contact-submissions/:id",
+    requirePermission("contacts:write"),
+    returnsPii,
+    asyncHandler(async (req, res) => {
+      const id = submissionId(req);
+      const update = parse(contactUpdateSchema, req.body);
+      const before = await getSubmissionOr404(id);
+
+      if (update.assigneeId) {
+        const assignee = await storage.getUser(update.assigneeId);
+        if (!assignee || !hasPermission(assignee.role, "contacts:read")) {
+          throw AppError.badRequest("Leads can only be assigned to users who can see contacts");
+        }
+      }
+
+      const submission = await storage.updateContactSubmission(id, update);
+      const changed = Object.keys(update) as (keyof typeof update)[];
+      await auditService.record(req, {
+        action: "contact_submission.update",
+        entityType: "contact_submission",
+        entityId: id,
+        before: Object.fromEntries(changed.map((field) => [field, before[field]])),
+        after: update,
+      });
+      res.json(submission);
+    })
+  );
+
+  // Move a submission in or out of the spam view
+  app.patch(
+    "/api/admin/contact-submissions/:id/spam",
+    requirePermission("contacts:write"),
+    returnsPii,
+    asyncHandler(async (req, res) => {
+      const id = submissionId(req);
+      const parsed = z.object({ isSpam: z.boolean() }).safeParse(req.body);
+      if (!parsed.success) {
+        throw AppError.badRequest("isSpam must be true or false");
+      }
+      const { isSpam } = parsed.data;
+      const before = await getSubmissionOr404(id);
+
+      const submission = await storage.updateContactSubmissionSpam(id, { isSpam });
+      await auditService.record(req, {
+        action: isSpam ? "contact_submission.mark_spam" : "contact_submission.mark_not_spam",
+        entityType: "contact_submission",
+        entityId: id,
+        before: { isSpam: before.isSpam },
+        after: { isSpam },
+      });
+      res.json(submission);
+    })
+  );
+
+  app.get(
+    "/api/admin/contact-submissions/:id/notes",
+    requirePermission("contacts:read"),
+    asyncHandler(async (req, res) => {
+      const id = submissionId(req);
+      await getSubmissionOr404(id);
+      res.json(await storage.getContactNotes(id));
+    })
+  );
+
+  app.post(
+    "/api/admin/contact-submissions/:id/notes",
+    requirePermission("contacts:write"),
+    asyncHandler(async (req, res) => {
+      const id = submissionId(req);
+      const { body } = parse(contactNoteSchema, req.body);
+      await getSubmissionOr404(id);
+
+      const note = await storage.createContactNote({ submissionId: id, authorId: req.user!.id, body });
+      await auditService.record(req, {
+        action: "contact_submission.note",
+        entityType: "contact_submission",
+        entityId: id,
+        after: { noteId: note.id },
+      });
+      res.status(201).json({ ...note, authorName: req.user!.displayName || req.user!.username });
+    })
+  );
+
+  app.delete(
+    "/api/admin/contact-submissions/:id",
+    requirePermission("contacts:write"),
+    asyncHandler(async (req, res) => {
+      const id = submissionId(req);
+      const before = await storage.getContactSubmission(id);
+      await storage.deleteContactSubmission(id);
+      await auditService.record(req, {
+        action: "contact_submission.delete",
+        entityType: "contact_submission",
+        entityId: id,
+        before,
+      });
+      res.json({ message: "Submission deleted successfully" });
+    })
+  );
+}
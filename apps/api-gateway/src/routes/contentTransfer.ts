@@ -0,0 +1,66 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { AppError } from "../../../../packages/shared-utils";
+import { asyncHandler } from "../middleware/errorHandler";
+import { requirePermission } from "../middleware/auth";
+import { contentTransferService } from "../../services/contentTransferService";
+import { auditService } from "../../services/auditService";
+import { contentFile } from "../../contentFile";
+
+const importSchema = z.object({
+  content: z.record(z.unknown()),
+  dryRun: z.boolean().default(true),
+});
+
+// The JSON content file as an explicit import/export format; the content
+// store itself never reads or writes it
+export function registerContentTransferRoutes(app: Express) {
+  app.get(
+    "/api/admin/content/export",
+    requirePermission("content:read"),
+    asyncHandler(async (_req, res) => {
+      const document = await contentTransferService.exportContent();
+
+      const date = new Date().toISOString().split("T")[0];
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="portfolio-content-${date}.json"`
+      );
+      res.json(document);
+    })
+  );
+
+  // Dry run by default: returns the reconciliation report without changing anything
+  app.post(
+    "/api/admin/content/import",
+    requirePermission("content:write"),
+    asyncHandler(async (req, res) => {
+      const result = importSchema.safeParse(req.body);
+      if (!result.success) {
+        throw AppError.badRequest("Invalid request", {
+          validation: result.error.flatten().fieldErrors,
+        });
+      }
+
+      const sections = contentFile.parse(result.data.content);
+      if (Object.keys(sections).length === 0) {
+        throw AppError.badRequest("The file contains no known content sections");
+      }
+
+      const report = await contentTransferService.importContent(sections, {
+        dryRun: result.data.dryRun,
+        createdBy: req.user?.username,
+        source: "uploaded content file",
+      });
+
+      if (!report.dryRun) {
+        await auditService.record(req, {
+          action: "content.import",
+          entityType: "content_section",
+          after: report.summary,
+        });
+      }
+      res.json(report);
+    })
+  );
+}
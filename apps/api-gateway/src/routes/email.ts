@@ -0,0 +1,92 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { AppError } from "../../../../packages/shared-utils";
+import { asyncHandler } from "../middleware/errorHandler";
+import { requirePermission } from "../middleware/auth";
+import { returnsPii } from "../middleware/routePolicy";
+import { storage } from "../../storage";
+import { auditService } from "../../services/auditService";
+import { emailService } from "../../services/emailService";
+import { emailStatuses } from "../../../shared/schema";
+
+function parse<S extends z.ZodTypeAny>(schema: S, input: unknown): z.output<S> {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    throw AppError.badRequest("Invalid request", {
+      validation: result.error.flatten().fieldErrors,
+    });
+  }
+  return result.data;
+}
+
+const outboxQuerySchema = z.object({
+  status: z.enum(emailStatuses).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+// Defaults to the signed-in user's address
+const testEmailSchema = z.object({
+  to: z.string().trim().email().optional(),
+});
+
+// The email outbox: what was sent, what is waiting for a retry and what gave up
+export function registerEmailRoutes(app: Express) {
+  app.get(
+    "/api/admin/email/status",
+    requirePermission("contacts:read"),
+    asyncHandler(async (_req, res) => {
+      res.json(emailService.status());
+    })
+  );
+
+  app.get(
+    "/api/admin/email/outbox",
+    requirePermission("contacts:read"),
+    returnsPii,
+    asyncHandler(async (req, res) => {
+      res.json(await storage.getOutboxEmails(parse(outboxQuerySchema, req.query)));
+    })
+  );
+
+  app.post(
+    "/api/admin/email/outbox/:id/retry",
+    requirePermission("contacts:write"),
+    asyncHandler(async (req, res) => {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        throw AppError.badRequest("Valid email ID required");
+      }
+
+      const email = await emailService.retry(id);
+      await auditService.record(req, {
+        action: "email.retry",
+        entityType: "email",
+        entityId: id,
+        after: { kind: email.kind, attempts: email.attempts },
+      });
+      res.json(email);
+    })
+  );
+
+  app.post(
+    "/api/admin/email/test",
+    requirePermission("system:manage"),
+    returnsPii,
+    asyncHandler(async (req, res) => {
+      const { to } = parse(testEmailSchema, req.body);
+      const recipient = to ?? req.user!.email;
+      if (!recipient) {
+        throw AppError.badRequest("Give an address to send the test to; your account has none");
+      }
+
+      const email = await emailService.sendTest(recipient);
+      await auditService.record(req, {
+        action: "email.test",
+        entityType: "email",
+        entityId: email.id,
+        after: { status: email.status },
+      });
+      res.json(email);
+    })
+  );
+}
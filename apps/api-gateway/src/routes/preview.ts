@@ -0,0 +1,107 @@
+import type { Express } from "express";
+import rateLimit from "express-rate-limit";
+import { z } from "zod";
+import { AppError } from "../../../../packages/shared-utils";
+import { asyncHandler } from "../middleware/errorHandler";
+import { requirePermission } from "../middleware/auth";
+import { publicRoute } from "../middleware/routePolicy";
+import { previewService } from "../../services/previewService";
+import { auditService } from "../../services/auditService";
+
+const createLinkSchema = z.object({
+  label: z.string().trim().min(1, "Say who the link is for").max(100),
+  expiresInHours: z.number().int().min(1).max(30 * 24),
+  password: z.string().min(4, "Use at least 4 characters").max(100).optional(),
+});
+
+const tokenSchema = z.object({ token: z.string().min(1).max(200) });
+
+const unlockSchema = tokenSchema.extend({ password: z.string().min(1).max(100) });
+
+// Password guesses per IP, on top of the global API limiter
+const unlockThrottle = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  message: { error: "Too many password attempts, please try again later." },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+function parseBody<T>(schema: z.ZodSchema<T>, body: unknown): T {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    throw AppError.badRequest("Invalid request", {
+      validation: result.error.flatten().fieldErrors,
+    });
+  }
+  return result.data;
+}
+
+// Draft preview links: managed in the admin, opened by anyone holding one.
+// The public content routes honour them through loadPreview.
+export function registerPreviewRoutes(app: Express) {
+  app.get(
+    "/api/admin/preview-links",
+    requirePermission("content:read"),
+    asyncHandler(async (_req, res) => {
+      res.json(await previewService.list());
+    })
+  );
+
+  app.post(
+    "/api/admin/preview-links",
+    requirePermission("content:write"),
+    asyncHandler(async (req, res) => {
+      const data = parseBody(createLinkSchema, req.body);
+      const created = await previewService.create(req.user!, data);
+      await auditService.record(req, {
+        action: "preview_link.create",
+        entityType: "preview_link",
+        entityId: created.link.id,
+        after: created.link,
+      });
+      res.status(201).json(created);
+    })
+  );
+
+  app.delete(
+    "/api/admin/preview-links/:id",
+    requirePermission("content:write"),
+    asyncHandler(async (req, res) => {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        throw AppError.badRequest("Valid preview link ID required");
+      }
+
+      const revoked = await previewService.revoke(id);
+      await auditService.record(req, {
+        action: "preview_link.revoke",
+        entityType: "preview_link",
+        entityId: id,
+        after: revoked,
+      });
+      res.json({ success: true, message: "Preview link revoked" });
+    })
+  );
+
+  // Called once per visit by the preview banner; counts the view
+  app.post(
+    "/api/preview/open",
+    publicRoute,
+    asyncHandler(async (req, res) => {
+      const { token } = parseBody(tokenSchema, req.body);
+      res.json(await previewService.open(token, req.session));
+    })
+  );
+
+  app.post(
+    "/api/preview/unlock",
+    publicRoute,
+    unlockThrottle,
+    asyncHandler(async (req, res) => {
+      const { token, password } = parseBody(unlockSchema, req.body);
+      await previewService.unlock(token, password, req.session);
+      res.json({ success: true });
+    })
+  );
+}
@@ -0,0 +1,61 @@
+import type { Express } from "express";
+import { env, withModule } from "../../../../packages/shared-utils";
+import { asyncHandler } from "../middleware/errorHandler";
+import { requirePermission } from "../middleware/auth";
+import { buildRouteReport } from "../../services/routeInventory";
+
+const moduleLogger = withModule("routePolicy");
+
+export function registerRoutePolicyRoutes(app: Express) {
+  // Declared access policy of every registered route, with any problems found
+  app.get(
+    "/api/admin/system/routes",
+    requirePermission("system:manage"),
+    asyncHandler(async (req, res) => {
+      res.json(buildRouteReport(req.app));
+    })
+  );
+}
+
+/**
+ * Run once every route is registered. In strict mode (the production default)
+ * a route without a declared policy, or a public one returning PII, stops the
+ * server from starting; otherwise each problem is logged as an error.
+ */
+export function verifyRoutePolicies(app: Express): void {
+  const report = buildRouteReport(app);
+  const failing = report.routes.filter((route) => route.problems.length > 0);
+  const strict =
+    (env.ROUTE_POLICY_ENFORCEMENT ??
+      (env.NODE_ENV === "production" ? "strict" : "warn")) === "strict";
+
+  for (const route of report.routes.filter((r) => r.shadowed)) {
+    moduleLogger.warn(
+      { method: route.method, path: route.path },
+      "Route is registered twice; the later handler never runs"
+    );
+  }
+
+  if (failing.length === 0) {
+    moduleLogger.info(report.summary, "Route policies verified");
+    return;
+  }
+
+  for (const route of failing) {
+    moduleLogger.error(
+      {
+        method: route.method,
+        path: route.path,
+        problems: route.problems.map((problem) => problem.message),
+      },
+      "Route policy violation"
+    );
+  }
+
+  if (strict) {
+    throw new Error(
+      `Refusing to start: ${failing.length} route(s) violate their access policy, ` +
+        "see the errors logged above"
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import type { Express } from "express";
+import { AppError } from "../../../../packages/shared-utils";
+import { asyncHandler } from "../middleware/errorHandler";
+import { requirePermission } from "../middleware/auth";
+import { publishingService } from "../../services/publishingService";
+import { publishScheduleSchema } from "../../services/publishSchedule";
+import { auditService } from "../../services/auditService";
+
+function parseSchedule(body: unknown) {
+  const result = publishScheduleSchema.safeParse(body);
+  if (!result.success) {
+    throw AppError.badRequest("Invalid schedule", {
+      validation: result.error.flatten().fieldErrors,
+    });
+  }
+  return result.data;
+}
+
+// Scheduled publish and unpublish times, and the calendar of pending changes
+export function registerScheduleRoutes(app: Express) {
+  app.get(
+    "/api/admin/schedule",
+    requirePermission("content:read"),
+    asyncHandler(async (_req, res) => {
+      res.json(await publishingService.getUpcoming());
+    })
+  );
+
+  app.put(
+    "/api/admin/case-studies/:id/schedule",
+    requirePermission("content:write"),
+    asyncHandler(async (req, res) => {
+      const caseStudyId = parseInt(req.params.id);
+      if (isNaN(caseStudyId)) {
+        throw AppError.badRequest("Invalid case study ID");
+      }
+
+      const schedule = parseSchedule(req.body);
+      const study = await publishingService.scheduleCaseStudy(caseStudyId, schedule);
+      await auditService.record(req, {
+        action: "case_study.schedule",
+        entityType: "case_study",
+        entityId: caseStudyId,
+        after: schedule,
+      });
+      res.json(study);
+    })
+  );
+
+  app.put(
+    "/api/admin/content/sections/:sectionId/schedule",
+    requirePermission("content:write"),
+    asyncHandler(async (req, res) => {
+      const { sectionId } = req.params;
+      const schedule = parseSchedule(req.body);
+
+      const section = await publishingService.scheduleSection(sectionId, schedule);
+      await auditService.record(req, {
+        action: "content.schedule",
+        entityType: "content_section",
+        entityId: sectionId,
+        after: schedule,
+      });
+      res.json({ sectionId, publishAt: section.publishAt, unpublishAt: section.unpublishAt });
+    })
+  );
+}
@@ -0,0 +1,55 @@
+import type { Express } from "express";
+import { asyncHandler } from "../middleware/errorHandler";
+import { requireAuth } from "../middleware/auth";
+import { returnsPii } from "../middleware/routePolicy";
+import { sessionService } from "../../services/sessionService";
+import { auditService } from "../../services/auditService";
+
+// Active sessions of the signed-in user, across devices
+export function registerSessionRoutes(app: Express) {
+  app.get(
+    "/api/admin/account/sessions",
+    requireAuth,
+    returnsPii,
+    asyncHandler(async (req, res) => {
+      const sessions = await sessionService.listForUser(
+        req.user!.id,
+        req.sessionID
+      );
+      res.json(sessions);
+    })
+  );
+
+  app.delete(
+    "/api/admin/account/sessions/:id",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      await sessionService.revoke(req.user!.id, req.params.id, req.sessionID);
+      await auditService.record(req, {
+        action: "session.revoke",
+        entityType: "user",
+        entityId: req.user!.id,
+        after: { session: req.params.id },
+      });
+      res.json({ success: true, message: "Session signed out" });
+    })
+  );
+
+  app.post(
+    "/api/admin/account/sessions/revoke-others",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const signedOut = await sessionService.revokeOthers(
+        req.user!.id,
+        req.sessionID
+      );
+      await auditService.record(req, {
+        action: "session.revoke_others",
+        entityType: "user",
+        entityId: req.user!.id,
+        after: { sessionsSignedOut: signedOut },
+      });
+      res.json({ success: true, signedOut });
+    })
+  );
+}
@@ -0,0 +1,63 @@
+import type { Express, Request, Response } from "express";
+import { env } from "../../../../packages/shared-utils";
+import { asyncHandler } from "../middleware/errorHandler";
+import { publicRoute } from "../middleware/routePolicy";
+import { storage } from "../../storage";
+import { cache } from "../../cache";
+import { buildSitemapEntries, renderRobots, renderSitemap } from "../../services/sitemap";
+
+// Kept until cacheSync drops it, which happens whenever published content or
+// SEO settings change; the TTL only bounds how long a missed change lingers
+const CACHE_TTL_SECONDS = 60 * 60;
+
+/**
+ * The origin of the absolute URLs in sitemap.xml, robots.txt and the page meta
+ * tags. The Host header is up to the client, so outside development the
+ * configured PUBLIC_URL is the only source; the request's host is a fallback
+ * for running locally.
+ */
+export function siteOrigin(req: Request): string {
+  return env.PUBLIC_URL ?? `${req.protocol}://${req.get("host")}`;
+}
+
+async function sendCached(req: Request, res: Response, path: string, type: string, build: (origin: string) => Promise<string>) {
+  const origin = siteOrigin(req);
+  const key = `route:${path}:${origin}`;
+
+  // Right after an invalidation the key is briefly disabled, like the route cache's
+  const cacheable = !cache.isPatternDisabled(key);
+  let body = cacheable ? cache.get<string>(key) : null;
+  if (body === null) {
+    body = await build(origin);
+    if (cacheable) {
+      cache.set(key, body, CACHE_TTL_SECONDS);
+    }
+  }
+  res.type(type).set("Cache-Control", "public, max-age=300").send(body);
+}
+
+// Generated replacements for the static sitemap.xml and robots.txt
+export function registerSitemapRoutes(app: Express) {
+  if (env.NODE_ENV === "production" && !env.PUBLIC_URL) {
+    throw new Error("Refusing to start: PUBLIC_URL must be set in production, it is the origin of sitemap and canonical URLs");
+  }
+
+  app.get(
+    "/sitemap.xml",
+    publicRoute,
+    asyncHandler(async (req, res) => {
+      await sendCached(req, res, "/sitemap.xml", "application/xml", async (origin) => {
+        const [seo, caseStudies] = await Promise.all([storage.getSeoSettings(), storage.getPublishedCaseStudies()]);
+        return renderSitemap(buildSitemapEntries(origin, seo, caseStudies));
+      });
+    })
+  );
+
+  app.get(
+    "/robots.txt",
+    publicRoute,
+    asyncHandler(async (req, res) => {
+      await sendCached(req, res, "/robots.txt", "text/plain", async (origin) => renderRobots(origin));
+    })
+  );
+}
@@ -0,0 +1,67 @@
+import type { Express, Request } from "express";
+import { z } from "zod";
+import { AppError } from "../../../../packages/shared-utils";
+import { asyncHandler } from "../middleware/errorHandler";
+import { requirePermission } from "../middleware/auth";
+import { trashService } from "../../services/trashService";
+import { auditService } from "../../services/auditService";
+import { trashEntityTypes } from "../../../shared/schema";
+
+const trashItemSchema = z.object({
+  type: z.enum(trashEntityTypes),
+  id: z.coerce.number().int().positive(),
+});
+
+function parseItem(req: Request) {
+  const result = trashItemSchema.safeParse(req.params);
+  if (!result.success) {
+    throw AppError.badRequest("Invalid trash item", {
+      validation: result.error.flatten().fieldErrors,
+    });
+  }
+  return result.data;
+}
+
+// Deleted portfolio items, restorable until the retention period purges them
+export function registerTrashRoutes(app: Express) {
+  app.get(
+    "/api/admin/trash",
+    requirePermission("content:read"),
+    asyncHandler(async (_req, res) => {
+      res.json(await trashService.list());
+    })
+  );
+
+  app.post(
+    "/api/admin/trash/:type/:id/restore",
+    requirePermission("content:write"),
+    asyncHandler(async (req, res) => {
+      const { type, id } = parseItem(req);
+      const result = await trashService.restore(type, id);
+      await auditService.record(req, {
+        action: "trash.restore",
+        entityType: type,
+        entityId: id,
+        after: result,
+      });
+      res.json(result);
+    })
+  );
+
+  // Deletes the item for good, without waiting for the retention period
+  app.delete(
+    "/api/admin/trash/:type/:id",
+    requirePermission("content:write"),
+    asyncHandler(async (req, res) => {
+      const { type, id } = parseItem(req);
+      const purged = await trashService.purge(type, id);
+      await auditService.record(req, {
+        action: "trash.purge",
+        entityType: type,
+        entityId: id,
+        before: purged,
+      });
+      res.json({ success: true, message: "Deleted permanently" });
+    })
+  );
+}
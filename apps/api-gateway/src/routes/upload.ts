@@ -6,6 +6,8 @@ import { db } from '../db';
 import { knowledgeBaseDocuments } from '../../shared/schema';
 import { queueService } from '../queueService';
 import { logger, withModule } from '../../../packages/shared-utils';
+import { inspectUploads } from '../middleware/uploadInspection';
+import { DOCUMENT_KINDS } from '../../services/fileSniffer';
 
 const moduleLogger = withModule('uploadRoutes');
 
@@ -60,6 +62,7 @@ function getContentType(filename: string): string {
  */
 export const uploadDocuments = [
   documentUpload.array('files', 10),
+  inspectUploads(DOCUMENT_KINDS),
   async (req: Request, res: Response) => {
     try {
       const files = req.files as Express.Multer.File[];
@@ -127,6 +130,7 @@ export const uploadDocuments = [
         message: 'Documents queued for processing',
         totalFiles: files.length,
         results,
+        rejectedFiles: req.rejectedUploads ?? [],
         note: 'Documents will be processed asynchronously. Use the job IDs to check processing status.'
       });
 
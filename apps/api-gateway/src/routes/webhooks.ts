@@ -0,0 +1,168 @@
+import type { Express, Request } from "express";
+import { z } from "zod";
+import { AppError } from "../../../../packages/shared-utils";
+import { asyncHandler } from "../middleware/errorHandler";
+import { requirePermission } from "../middleware/auth";
+import { returnsPii } from "../middleware/routePolicy";
+import { storage } from "../../storage";
+import { auditService } from "../../services/auditService";
+import { webhookService } from "../../services/webhookService";
+import {
+  generateWebhookSecret,
+  toPublicSubscription,
+  webhookCreateSchema,
+  webhookUpdateSchema,
+} from "../../services/webhooks";
+import { webhookDeliveryStatuses, webhookEventTypes } from "../../../shared/schema";
+
+function parse<S extends z.ZodTypeAny>(schema: S, input: unknown): z.output<S> {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    throw AppError.badRequest("Invalid request", {
+      validation: result.error.flatten().fieldErrors,
+    });
+  }
+  return result.data;
+}
+
+function idParam(req: Request, what: string): number {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    throw AppError.badRequest(`Valid ${what} ID required`);
+  }
+  return id;
+}
+
+const deliveryQuerySchema = z.object({
+  subscriptionId: z.coerce.number().int().positive().optional(),
+  status: z.enum(webhookDeliveryStatuses).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+// Webhook subscriptions, their delivery log and test sends. Secrets are only
+// returned when they are created or rotated.
+export function registerWebhookRoutes(app: Express) {
+  app.get(
+    "/api/admin/webhooks",
+    requirePermission("system:manage"),
+    asyncHandler(async (_req, res) => {
+      const subscriptions = await storage.getWebhookSubscriptions();
+      res.json({ eventTypes: webhookEventTypes, subscriptions: subscriptions.map(toPublicSubscription) });
+    })
+  );
+
+  app.post(
+    "/api/admin/webhooks",
+    requirePermission("system:manage"),
+    asyncHandler(async (req, res) => {
+      const input = parse(webhookCreateSchema, req.body);
+      await webhookService.assertPublicTarget(input.url);
+      const subscription = await storage.createWebhookSubscription({
+        ...input,
+        secret: generateWebhookSecret(),
+        createdBy: req.user!.id,
+      });
+
+      const created = toPublicSubscription(subscription);
+      await auditService.record(req, {
+        action: "webhook.create",
+        entityType: "webhook",
+        entityId: subscription.id,
+        after: created,
+      });
+      res.status(201).json({ ...created, secret: subscription.secret });
+    })
+  );
+
+  app.patch(
+    "/api/admin/webhooks/:id",
+    requirePermission("system:manage"),
+    asyncHandler(async (req, res) => {
+      const id = idParam(req, "webhook");
+      const { rotateSecret, ...update } = parse(webhookUpdateSchema, req.body);
+      if (update.url) {
+        await webhookService.assertPublicTarget(update.url);
+      }
+      const before = await storage.getWebhookSubscription(id);
+      if (!before) {
+        throw AppError.notFound("Webhook not found");
+      }
+
+      const subscription = await storage.updateWebhookSubscription(id, {
+        ...update,
+        ...(rotateSecret ? { secret: generateWebhookSecret() } : {}),
+      });
+      const updated = toPublicSubscription(subscription!);
+      await auditService.record(req, {
+        action: rotateSecret ? "webhook.rotate_secret" : "webhook.update",
+        entityType: "webhook",
+        entityId: id,
+        before: toPublicSubscription(before),
+        after: updated,
+      });
+      res.json(rotateSecret ? { ...updated, secret: subscription!.secret } : updated);
+    })
+  );
+
+  app.delete(
+    "/api/admin/webhooks/:id",
+    requirePermission("system:manage"),
+    asyncHandler(async (req, res) => {
+      const id = idParam(req, "webhook");
+      const subscription = await storage.deleteWebhookSubscription(id);
+      if (!subscription) {
+        throw AppError.notFound("Webhook not found");
+      }
+
+      await auditService.record(req, {
+        action: "webhook.delete",
+        entityType: "webhook",
+        entityId: id,
+        before: toPublicSubscription(subscription),
+      });
+      res.json({ message: "Webhook deleted" });
+    })
+  );
+
+  app.post(
+    "/api/admin/webhooks/:id/test",
+    requirePermission("system:manage"),
+    asyncHandler(async (req, res) => {
+      const id = idParam(req, "webhook");
+      const delivery = await webhookService.sendTest(id);
+      await auditService.record(req, {
+        action: "webhook.test",
+        entityType: "webhook",
+        entityId: id,
+        after: { deliveryId: delivery.id, status: delivery.status, responseStatus: delivery.responseStatus },
+      });
+      res.json(delivery);
+    })
+  );
+
+  // Payloads can carry contact details
+  app.get(
+    "/api/admin/webhooks/deliveries",
+    requirePermission("system:manage"),
+    returnsPii,
+    asyncHandler(async (req, res) => {
+      res.json(await storage.getWebhookDeliveries(parse(deliveryQuerySchema, req.query)));
+    })
+  );
+
+  app.post(
+    "/api/admin/webhooks/deliveries/:id/retry",
+    requirePermission("system:manage"),
+    asyncHandler(async (req, res) => {
+      const id = idParam(req, "delivery");
+      const delivery = await webhookService.retry(id);
+      await auditService.record(req, {
+        action: "webhook.retry",
+        entityType: "webhook_delivery",
+        entityId: id,
+        after: { subscriptionId: delivery.subscriptionId, event: delivery.event },
+      });
+      res.json(delivery);
+    })
+  );
+}
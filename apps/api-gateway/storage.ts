@@ -3,8 +3,6 @@ import {
   contactSubmissions,
   caseStudies,
   mediaAssets,
-  contentSections,
-  contentVersions,
   knowledgeBaseDocuments,
   experienceEntries,
   skillCategories,
@@ -13,18 +11,38 @@ import {
   coreValues,
   portfolioStatus,
   portfolioImages,
+  auditEvents,
+  userSessions,
+  apiTokens,
+  previewLinks,
+  seoSettings,
+  contactNotes,
+  emailOutbox,
+  webhookSubscriptions,
+  webhookDeliveries,
   type User,
   type InsertUser,
   type ContactSubmission,
   type InsertContactSubmission,
+  type ContactSpamScreening,
+  type ContactStatus,
+  type ContactNote,
+  type ContactNoteView,
+  type InsertContactNote,
+  type OutboxEmail,
+  type InsertOutboxEmail,
+  type EmailStatus,
+  type WebhookSubscription,
+  type InsertWebhookSubscription,
+  type WebhookDelivery,
+  type InsertWebhookDelivery,
+  type WebhookDeliveryStatus,
+  type WebhookPayload,
   type CaseStudy,
   type InsertCaseStudy,
+  type PublishSchedule,
   type MediaAsset,
   type InsertMediaAsset,
-  type ContentSection,
-  type InsertContentSection,
-  type ContentVersion,
-  type InsertContentVersion,
   type KnowledgeBaseDocument,
   type InsertKnowledgeBaseDocument,
   type ExperienceEntry,
@@ -41,32 +59,180 @@ import {
   type InsertPortfolioStatus,
   type PortfolioImage,
   type InsertPortfolioImage,
+  type AuditEvent,
+  type InsertAuditEvent,
+  type UserSession,
+  type InsertUserSession,
+  type ApiToken,
+  type InsertApiToken,
+  type PreviewLink,
+  type InsertPreviewLink,
+  type SeoSettings,
+  type TrashEntityType,
+  type BulkEntityType,
 } from "../shared/schema";
 import { db } from "./db";
-import { eq, desc } from "drizzle-orm";
+import { eq, ne, asc, desc, and, or, gt, gte, lt, lte, count, inArray, notInArray, isNull, isNotNull, sql, type SQL, type Column } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import type { PgColumn, PgTable } from "drizzle-orm/pg-core";
+import type { BulkOperation } from "./services/bulkOperations";
+import { closedContactStatuses, type ContactUpdate } from "./services/contactPipeline";
+
+// Optimistic concurrency guard; no condition for unconditional updates
+function versionIs(column: Column, expectedVersion: number | undefined): SQL | undefined {
+  return expectedVersion === undefined ? undefined : eq(column, expectedVersion);
+}
+
+interface TrashTable {
+  table: PgTable;
+  id: PgColumn;
+  deletedAt: PgColumn;
+  title: PgColumn | SQL<string>;
+  // Rows of this type go to the trash with their parent, and can only be
+  // restored while the parent is live
+  parent?: { type: TrashEntityType; id: PgColumn };
+}
+
+const trashTables: Record<TrashEntityType, TrashTable> = {
+  case_study: { table: caseStudies, id: caseStudies.id, deletedAt: caseStudies.deletedAt, title: caseStudies.title },
+  experience: {
+    table: experienceEntries,
+    id: experienceEntries.id,
+    deletedAt: experienceEntries.deletedAt,
+    title: sql<string>`${experienceEntries.title} || ' at ' || ${experienceEntries.company}`,
+  },
+  skill_category: { table: skillCategories, id: skillCategories.id, deletedAt: skillCategories.deletedAt, title: skillCategories.name },
+  skill: {
+    table: skills,
+    id: skills.id,
+    deletedAt: skills.deletedAt,
+    title: skills.name,
+    parent: { type: "skill_category", id: skills.categoryId },
+  },
+  metric: { table: portfolioMetrics, id: portfolioMetrics.id, deletedAt: portfolioMetrics.deletedAt, title: portfolioMetrics.metricLabel },
+  core_value: { table: coreValues, id: coreValues.id, deletedAt: coreValues.deletedAt, title: coreValues.title },
+  portfolio_image: {
+    table: portfolioImages,
+    id: portfolioImages.id,
+    deletedAt: portfolioImages.deletedAt,
+    title: portfolioImages.altText,
+    parent: { type: "case_study", id: portfolioImages.caseStudyId },
+  },
+  kb_document: {
+    table: knowledgeBaseDocuments,
+    id: knowledgeBaseDocuments.id,
+    deletedAt: knowledgeBaseDocuments.deletedAt,
+    title: knowledgeBaseDocuments.originalName,
+  },
+};
+
+const trashChildTypes = (type: TrashEntityType) =>
+  (Object.keys(trashTables) as TrashEntityType[]).filter((child) => trashTables[child].parent?.type === type);
+
+// Contacts have no trash, so bulk deletes remove them outright
+const bulkTables: Record<BulkEntityType, { table: PgTable; id: PgColumn; deletedAt?: PgColumn }> = {
+  case_study: { table: caseStudies, id: caseStudies.id, deletedAt: caseStudies.deletedAt },
+  experience: { table: experienceEntries, id: experienceEntries.id, deletedAt: experienceEntries.deletedAt },
+  skill: { table: skills, id: skills.id, deletedAt: skills.deletedAt },
+  contact: { table: contactSubmissions, id: contactSubmissions.id },
+};
+
+type BulkStatement = BatchItem<"pg">;
+
+const textArray = (values: string[]) =>
+  values.length > 0 ? sql`ARRAY[${sql.join(values.map((value) => sql`${value}`), sql`, `)}]::text[]` : sql`'{}'::text[]`;
+
+export interface TrashedRow {
+  type: TrashEntityType;
+  id: number;
+  title: string;
+  deletedAt: Date;
+  // The row this one belongs to (a skill's category, a case study image's case study)
+  parent: { type: TrashEntityType; id: number } | null;
+}
+
+export interface ContactFilters {
+  // Spam-flagged submissions are only returned when asked for explicitly
+  spam?: boolean;
+  // Open leads whose follow-up date is at or before this time
+  overdueAt?: Date;
+  status?: ContactStatus;
+  tag?: string;
+  // null lists the unassigned ones
+  assigneeId?: number | null;
+  search?: string;
+}
+
+// The outcome of one delivery attempt; nextAttemptAt is set when a failed
+// attempt will be retried
+export interface WebhookAttempt {
+  status: WebhookDeliveryStatus;
+  responseStatus: number | null;
+  responseBody: string | null;
+  lastError: string | null;
+  durationMs: number;
+  nextAttemptAt: Date | null;
+}
+
+// Full-text match on the sender's details, message, tags and internal notes
+function contactSearch(query: string): SQL {
+  const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+  return sql`(to_tsvector('english', concat_ws(' ', ${contactSubmissions.name}, ${contactSubmissions.email}, ${contactSubmissions.company}, ${contactSubmissions.projectType}, ${contactSubmissions.message}, array_to_string(${contactSubmissions.tags}, ' '))) @@ ${tsQuery}
+    or exists (select 1 from ${contactNotes} where ${contactNotes.submissionId} = ${contactSubmissions.id} and to_tsvector('english', ${contactNotes.body}) @@ ${tsQuery}))`;
+}
+
+export interface AuditEventFilters {
+  actorId?: number;
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
 
 export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUsers(): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, user: Partial<User>): Promise<User | undefined>;
   
   // Contact submissions
-  createContactSubmission(submission: InsertContactSubmission): Promise<ContactSubmission>;
-  getContactSubmissions(): Promise<ContactSubmission[]>;
+  createContactSubmission(submission: InsertContactSubmission, screening?: ContactSpamScreening): Promise<ContactSubmission>;
+  getContactSubmissions(filters?: ContactFilters): Promise<ContactSubmission[]>;
+  getContactSubmission(id: number): Promise<ContactSubmission | undefined>;
+  getContactMessagesSince(since: Date): Promise<Pick<ContactSubmission, "email" | "message">[]>;
+  updateContactSubmissionSpam(id: number, screening: Partial<ContactSpamScreening>): Promise<ContactSubmission | undefined>;
+  updateContactSubmission(id: number, update: ContactUpdate): Promise<ContactSubmission | undefined>;
   deleteContactSubmission(id: number): Promise<void>;
+  getContactNotes(submissionId: number): Promise<ContactNoteView[]>;
+  createContactNote(note: InsertContactNote): Promise<ContactNote>;
   
   // Case studies
   getCaseStudies(): Promise<CaseStudy[]>;
   getCaseStudy(id: number): Promise<CaseStudy | undefined>;
   createCaseStudy(caseStudy: InsertCaseStudy): Promise<CaseStudy>;
-  updateCaseStudy(id: number, caseStudy: Partial<InsertCaseStudy>): Promise<CaseStudy>;
+  // Versioned updates bump `version`; with expectedVersion they only apply
+  // while the row is still at that version, and return undefined otherwise
+  updateCaseStudy(id: number, caseStudy: Partial<InsertCaseStudy>, expectedVersion?: number): Promise<CaseStudy | undefined>;
   deleteCaseStudy(id: number): Promise<void>;
+  getTrashedCaseStudyBySlug(slug: string): Promise<CaseStudy | undefined>;
   updateCaseStudyFeatured(id: number, featured: boolean): Promise<CaseStudy>;
   reorderCaseStudies(studies: { id: number; displayOrder: number }[]): Promise<void>;
   getPublishedCaseStudies(): Promise<CaseStudy[]>;
   getFeaturedCaseStudies(): Promise<CaseStudy[]>;
-  getCaseStudyBySlug(slug: string): Promise<CaseStudy | undefined>;
+  getPublishedCaseStudyBySlug(slug: string): Promise<CaseStudy | undefined>;
+  setCaseStudySchedule(id: number, schedule: PublishSchedule): Promise<CaseStudy | undefined>;
+  getScheduledCaseStudies(): Promise<CaseStudy[]>;
+  publishDueCaseStudies(now: Date): Promise<CaseStudy[]>;
+  unpublishDueCaseStudies(now: Date): Promise<CaseStudy[]>;
+
+  // SEO settings, one row per page
+  getSeoSettings(): Promise<SeoSettings[]>;
+  getSeoSettingsForPage(page: string): Promise<SeoSettings | undefined>;
   
   // Media assets
   getMediaAssets(): Promise<MediaAsset[]>;
@@ -75,17 +241,8 @@ export interface IStorage {
   updateMediaAsset(id: number, asset: Partial<InsertMediaAsset>): Promise<MediaAsset>;
   deleteMediaAsset(id: number): Promise<void>;
   
-  // Content sections
-  getContentSections(): Promise<ContentSection[]>;
-  getContentSection(id: string): Promise<ContentSection | undefined>;
-  createContentSection(section: InsertContentSection): Promise<ContentSection>;
-  updateContentSection(id: string, section: Partial<InsertContentSection>): Promise<ContentSection>;
-  deleteContentSection(id: string): Promise<void>;
-  
-  // Content versions
-  getContentVersions(sectionId?: string): Promise<ContentVersion[]>;
-  createContentVersion(version: InsertContentVersion): Promise<ContentVersion>;
-  
+  // Content sections and their versions live behind IContentStore (contentStorage.ts)
+
   // Knowledge base documents
   getKnowledgeBaseDocuments(): Promise<KnowledgeBaseDocument[]>;
   getKnowledgeBaseDocument(id: number): Promise<KnowledgeBaseDocument | undefined>;
@@ -97,7 +254,7 @@ export interface IStorage {
   getExperienceEntries(): Promise<ExperienceEntry[]>;
   getExperienceEntry(id: number): Promise<ExperienceEntry | undefined>;
   createExperienceEntry(entry: InsertExperienceEntry): Promise<ExperienceEntry>;
-  updateExperienceEntry(id: number, entry: Partial<InsertExperienceEntry>): Promise<ExperienceEntry>;
+  updateExperienceEntry(id: number, entry: Partial<InsertExperienceEntry>, expectedVersion?: number): Promise<ExperienceEntry | undefined>;
   deleteExperienceEntry(id: number): Promise<void>;
   
   // Skills and categories
@@ -107,7 +264,8 @@ export interface IStorage {
   createSkillCategory(category: InsertSkillCategory): Promise<SkillCategory>;
   createSkill(skill: InsertSkill): Promise<Skill>;
   updateSkillCategory(id: number, category: Partial<InsertSkillCategory>): Promise<SkillCategory>;
-  updateSkill(id: number, skill: Partial<InsertSkill>): Promise<Skill>;
+  getSkill(id: number): Promise<Skill | undefined>;
+  updateSkill(id: number, skill: Partial<InsertSkill>, expectedVersion?: number): Promise<Skill | undefined>;
   deleteSkillCategory(id: number): Promise<void>;
   deleteSkill(id: number): Promise<void>;
   
@@ -115,7 +273,7 @@ export interface IStorage {
   getPortfolioMetrics(): Promise<PortfolioMetric[]>;
   getPortfolioMetric(id: number): Promise<PortfolioMetric | undefined>;
   createPortfolioMetric(metric: InsertPortfolioMetric): Promise<PortfolioMetric>;
-  updatePortfolioMetric(id: number, metric: Partial<InsertPortfolioMetric>): Promise<PortfolioMetric>;
+  updatePortfolioMetric(id: number, metric: Partial<InsertPortfolioMetric>, expectedVersion?: number): Promise<PortfolioMetric | undefined>;
   deletePortfolioMetric(id: number): Promise<void>;
   
   // Portfolio status
@@ -126,8 +284,77 @@ export interface IStorage {
   getPortfolioImages(section?: string): Promise<PortfolioImage[]>;
   getPortfolioImage(id: number): Promise<PortfolioImage | undefined>;
   createPortfolioImage(image: InsertPortfolioImage): Promise<PortfolioImage>;
-  updatePortfolioImage(id: number, image: Partial<InsertPortfolioImage>): Promise<PortfolioImage>;
+  updatePortfolioImage(id: number, image: Partial<InsertPortfolioImage>, expectedVersion?: number): Promise<PortfolioImage | undefined>;
   deletePortfolioImage(id: number): Promise<void>;
+
+  // Audit trail
+  createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  getAuditEvents(filters?: AuditEventFilters): Promise<{ events: AuditEvent[]; total: number }>;
+
+  // Login sessions
+  getUserSession(sid: string): Promise<UserSession | undefined>;
+  upsertUserSession(session: InsertUserSession): Promise<void>;
+  touchUserSession(sid: string, expiresAt: Date): Promise<void>;
+  deleteUserSession(sid: string): Promise<void>;
+  getActiveUserSessions(userId: number): Promise<UserSession[]>;
+  deleteUserSessions(userId: number, exceptSid?: string): Promise<number>;
+  deleteExpiredUserSessions(): Promise<number>;
+
+  // API tokens
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  getApiTokensForUser(userId: number): Promise<ApiToken[]>;
+  deleteApiToken(id: number, userId: number): Promise<boolean>;
+  recordApiTokenUse(id: number, ipAddress: string | null): Promise<void>;
+
+  // Draft preview links
+  createPreviewLink(link: InsertPreviewLink): Promise<PreviewLink>;
+  getPreviewLinks(): Promise<PreviewLink[]>;
+  getPreviewLinkByHash(tokenHash: string): Promise<PreviewLink | undefined>;
+  revokePreviewLink(id: number): Promise<PreviewLink | undefined>;
+  recordPreviewView(id: number): Promise<void>;
+
+  // Email outbox
+  createOutboxEmails(emails: InsertOutboxEmail[]): Promise<OutboxEmail[]>;
+  getOutboxEmails(filters?: { status?: EmailStatus; limit?: number }): Promise<OutboxEmail[]>;
+  getOutboxEmail(id: number): Promise<OutboxEmail | undefined>;
+  // Leases pending emails that are due by pushing their next attempt past
+  // `leaseUntil`, so overlapping runs never send the same email twice
+  claimDueEmails(now: Date, leaseUntil: Date, limit: number): Promise<OutboxEmail[]>;
+  markEmailSent(id: number): Promise<void>;
+  markEmailFailed(id: number, failure: { attempts: number; lastError: string; nextAttemptAt: Date | null }): Promise<void>;
+  // Queues an unsent email for another attempt right away
+  retryEmail(id: number): Promise<OutboxEmail | undefined>;
+
+  // Webhooks
+  getWebhookSubscriptions(): Promise<WebhookSubscription[]>;
+  getWebhookSubscription(id: number): Promise<WebhookSubscription | undefined>;
+  createWebhookSubscription(subscription: InsertWebhookSubscription): Promise<WebhookSubscription>;
+  updateWebhookSubscription(id: number, update: Partial<InsertWebhookSubscription>): Promise<WebhookSubscription | undefined>;
+  deleteWebhookSubscription(id: number): Promise<WebhookSubscription | undefined>;
+  // Queues a delivery of the payload to every active subscription to its event
+  enqueueWebhookEvent(payload: WebhookPayload): Promise<WebhookDelivery[]>;
+  createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery>;
+  getWebhookDeliveries(filters?: { subscriptionId?: number; status?: WebhookDeliveryStatus; limit?: number }): Promise<WebhookDelivery[]>;
+  getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined>;
+  // Same lease as claimDueEmails
+  claimDueWebhookDeliveries(now: Date, leaseUntil: Date, limit: number): Promise<WebhookDelivery[]>;
+  recordWebhookAttempt(id: number, attempt: WebhookAttempt): Promise<WebhookDelivery | undefined>;
+  retryWebhookDelivery(id: number): Promise<WebhookDelivery | undefined>;
+
+  // Trash: the delete methods above move rows here instead of removing them
+  getTrashedRows(): Promise<TrashedRow[]>;
+  getTrashedRow(type: TrashEntityType, id: number): Promise<TrashedRow | undefined>;
+  isTrashed(type: TrashEntityType, id: number): Promise<boolean>;
+  // Restores the row and the children trashed with it; returns how many rows came back
+  restoreTrashed(type: TrashEntityType, id: number): Promise<number>;
+  // Permanent deletes; return the removed rows
+  purgeTrashed(type: TrashEntityType, id: number): Promise<Record<string, any> | undefined>;
+  purgeTrashedBefore(cutoff: Date): Promise<{ type: TrashEntityType; row: Record<string, any> }[]>;
+
+  // Bulk operations, applied in one transaction; return the ids that changed
+  getBulkTargetIds(entityType: BulkEntityType, ids: number[]): Promise<number[]>;
+  applyBulkOperation(entityType: BulkEntityType, operation: BulkOperation): Promise<number[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -142,6 +369,10 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(users.id);
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const [user] = await db
       .insert(users)
@@ -150,41 +381,124 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async updateUser(id: number, updateData: Partial<User>): Promise<User | undefined> {
+    // Never let callers rewrite the primary key or creation time
+    const { id: _id, createdAt, ...cleanUpdateData } = updateData;
+
+    const [user] = await db
+      .update(users)
+      .set({ ...cleanUpdateData, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
+  }
+
   // Contact submissions
-  async createContactSubmission(insertSubmission: InsertContactSubmission): Promise<ContactSubmission> {
+  async createContactSubmission(insertSubmission: InsertContactSubmission, screening?: ContactSpamScreening): Promise<ContactSubmission> {
     const [submission] = await db
       .insert(contactSubmissions)
       .values({
         ...insertSubmission,
+        ...screening,
+        status: screening?.isSpam ? "spam" : "new",
         submittedAt: new Date().toISOString()
       })
       .returning();
     return submission;
   }
 
-  async getContactSubmissions(): Promise<ContactSubmission[]> {
+  async getContactSubmissions(filters: ContactFilters = {}): Promise<ContactSubmission[]> {
+    const { overdueAt, assigneeId } = filters;
     const submissions = await db
       .select()
       .from(contactSubmissions)
-      .orderBy(desc(contactSubmissions.submittedAt));
+      .where(and(
+        eq(contactSubmissions.isSpam, filters.spam ?? false),
+        overdueAt ? lte(contactSubmissions.followUpAt, overdueAt) : undefined,
+        overdueAt ? notInArray(contactSubmissions.status, [...closedContactStatuses]) : undefined,
+        filters.status ? eq(contactSubmissions.status, filters.status) : undefined,
+        filters.tag ? sql`${filters.tag} = any(${contactSubmissions.tags})` : undefined,
+        assigneeId === null ? isNull(contactSubmissions.assigneeId) : undefined,
+        assigneeId ? eq(contactSubmissions.assigneeId, assigneeId) : undefined,
+        filters.search ? contactSearch(filters.search) : undefined
+      ))
+      // The overdue view is a to-do list, oldest follow-up first
+      .orderBy(overdueAt ? asc(contactSubmissions.followUpAt) : desc(contactSubmissions.submittedAt));
     return submissions;
   }
 
+  async getContactSubmission(id: number): Promise<ContactSubmission | undefined> {
+    const [submission] = await db.select().from(contactSubmissions).where(eq(contactSubmissions.id, id));
+    return submission || undefined;
+  }
+
+  // submittedAt is an ISO string, so string comparison orders correctly
+  async getContactMessagesSince(since: Date): Promise<Pick<ContactSubmission, "email" | "message">[]> {
+    return db
+      .select({ email: contactSubmissions.email, message: contactSubmissions.message })
+      .from(contactSubmissions)
+      .where(gte(contactSubmissions.submittedAt, since.toISOString()));
+  }
+
+  // Moving a submission in or out of spam moves it to the matching pipeline status
+  async updateContactSubmissionSpam(id: number, screening: Partial<ContactSpamScreening>): Promise<ContactSubmission | undefined> {
+    const status = screening.isSpam === undefined ? {} : { status: screening.isSpam ? "spam" : "new" };
+    const [submission] = await db
+      .update(contactSubmissions)
+      .set({ ...screening, ...status, updatedAt: new Date() })
+      .where(eq(contactSubmissions.id, id))
+      .returning();
+    return submission || undefined;
+  }
+
+  async updateContactSubmission(id: number, update: ContactUpdate): Promise<ContactSubmission | undefined> {
+    const spam = update.status === undefined ? {} : { isSpam: update.status === "spam" };
+    const [submission] = await db
+      .update(contactSubmissions)
+      .set({ ...update, ...spam, updatedAt: new Date() })
+      .where(eq(contactSubmissions.id, id))
+      .returning();
+    return submission || undefined;
+  }
+
   async deleteContactSubmission(id: number): Promise<void> {
     await db.delete(contactSubmissions).where(eq(contactSubmissions.id, id));
   }
 
+  async getContactNotes(submissionId: number): Promise<ContactNoteView[]> {
+    const rows = await db
+      .select({ note: contactNotes, authorName: sql<string | null>`coalesce(${users.displayName}, ${users.username})` })
+      .from(contactNotes)
+      .leftJoin(users, eq(contactNotes.authorId, users.id))
+      .where(eq(contactNotes.submissionId, submissionId))
+      .orderBy(asc(contactNotes.createdAt));
+    return rows.map(({ note, authorName }) => ({ ...note, authorName }));
+  }
+
+  async createContactNote(note: InsertContactNote): Promise<ContactNote> {
+    const [created] = await db.insert(contactNotes).values(note).returning();
+    await db
+      .update(contactSubmissions)
+      .set({ updatedAt: new Date() })
+      .where(eq(contactSubmissions.id, note.submissionId));
+    return created;
+  }
+
   // Case studies
   async getCaseStudies(): Promise<CaseStudy[]> {
     const studies = await db
       .select()
       .from(caseStudies)
+      .where(isNull(caseStudies.deletedAt))
       .orderBy(desc(caseStudies.updatedAt));
     return studies;
   }
 
   async getCaseStudy(id: number): Promise<CaseStudy | undefined> {
-    const [study] = await db.select().from(caseStudies).where(eq(caseStudies.id, id));
+    const [study] = await db
+      .select()
+      .from(caseStudies)
+      .where(and(eq(caseStudies.id, id), isNull(caseStudies.deletedAt)));
     return study || undefined;
   }
 
@@ -219,7 +533,7 @@ export class DatabaseStorage implements IStorage {
     return study;
   }
 
-  async updateCaseStudy(id: number, updateData: Partial<InsertCaseStudy>): Promise<CaseStudy> {
+  async updateCaseStudy(id: number, updateData: Partial<InsertCaseStudy>, expectedVersion?: number): Promise<CaseStudy | undefined> {
     // Remove undefined values and ensure proper data types
     const cleanData = Object.fromEntries(
       Object.entries(updateData).filter(([_, value]) => value !== undefined)
@@ -227,26 +541,45 @@ export class DatabaseStorage implements IStorage {
     
     const [study] = await db
       .update(caseStudies)
-      .set({ ...cleanData, updatedAt: new Date() })
-      .where(eq(caseStudies.id, id))
+      .set({ ...cleanData, version: sql`${caseStudies.version} + 1`, updatedAt: new Date() })
+      .where(and(eq(caseStudies.id, id), isNull(caseStudies.deletedAt), versionIs(caseStudies.version, expectedVersion)))
       .returning();
-    
-    if (!study) {
-      throw new Error(`Case study with ID ${id} not found`);
-    }
-    
-    return study;
+    return study || undefined;
   }
 
+  // Moves the case study to the trash along with its images, in one batch so
+  // the images can't stay live behind a trashed study. They only follow when
+  // this call is the one that trashed it.
   async deleteCaseStudy(id: number): Promise<void> {
-    await db.delete(caseStudies).where(eq(caseStudies.id, id));
+    const deletedAt = new Date();
+    const trashedNow = db
+      .select({ id: caseStudies.id })
+      .from(caseStudies)
+      .where(and(eq(caseStudies.id, id), eq(caseStudies.deletedAt, deletedAt)));
+    await db.batch([
+      db.update(caseStudies)
+        .set({ deletedAt })
+        .where(and(eq(caseStudies.id, id), isNull(caseStudies.deletedAt))),
+      db.update(portfolioImages)
+        .set({ deletedAt })
+        .where(and(inArray(portfolioImages.caseStudyId, trashedNow), isNull(portfolioImages.deletedAt))),
+    ]);
+  }
+
+  // A trashed case study keeps its slug until it is purged
+  async getTrashedCaseStudyBySlug(slug: string): Promise<CaseStudy | undefined> {
+    const [study] = await db
+      .select()
+      .from(caseStudies)
+      .where(and(eq(caseStudies.slug, slug), isNotNull(caseStudies.deletedAt)));
+    return study || undefined;
   }
 
   async updateCaseStudyFeatured(id: number, featured: boolean): Promise<CaseStudy> {
     const [study] = await db
       .update(caseStudies)
-      .set({ featured, updatedAt: new Date() })
-      .where(eq(caseStudies.id, id))
+      .set({ featured, version: sql`${caseStudies.version} + 1`, updatedAt: new Date() })
+      .where(and(eq(caseStudies.id, id), isNull(caseStudies.deletedAt)))
       .returning();
     return study;
   }
@@ -255,7 +588,7 @@ export class DatabaseStorage implements IStorage {
     for (const study of studies) {
       await db
         .update(caseStudies)
-        .set({ displayOrder: study.displayOrder, updatedAt: new Date() })
+        .set({ displayOrder: study.displayOrder, version: sql`${caseStudies.version} + 1`, updatedAt: new Date() })
         .where(eq(caseStudies.id, study.id));
     }
   }
@@ -264,7 +597,7 @@ export class DatabaseStorage implements IStorage {
     const studies = await db
       .select()
       .from(caseStudies)
-      .where(eq(caseStudies.status, 'published'))
+      .where(and(eq(caseStudies.status, 'published'), isNull(caseStudies.deletedAt)))
       .orderBy(caseStudies.displayOrder);
     return studies;
   }
@@ -273,17 +606,67 @@ export class DatabaseStorage implements IStorage {
     const studies = await db
       .select()
       .from(caseStudies)
-      .where(eq(caseStudies.featured, true))
+      .where(and(eq(caseStudies.featured, true), eq(caseStudies.status, 'published'), isNull(caseStudies.deletedAt)))
       .orderBy(caseStudies.displayOrder)
       .limit(3);
     return studies;
   }
 
-  async getCaseStudyBySlug(slug: string): Promise<CaseStudy | undefined> {
-    const [study] = await db.select().from(caseStudies).where(eq(caseStudies.slug, slug));
+  async getPublishedCaseStudyBySlug(slug: string): Promise<CaseStudy | undefined> {
+    const [study] = await db
+      .select()
+      .from(caseStudies)
+      .where(and(eq(caseStudies.slug, slug), eq(caseStudies.status, 'published'), isNull(caseStudies.deletedAt)));
     return study || undefined;
   }
 
+  async setCaseStudySchedule(id: number, schedule: PublishSchedule): Promise<CaseStudy | undefined> {
+    const [study] = await db
+      .update(caseStudies)
+      .set({ ...schedule, updatedAt: new Date() })
+      .where(and(eq(caseStudies.id, id), isNull(caseStudies.deletedAt)))
+      .returning();
+    return study;
+  }
+
+  async getScheduledCaseStudies(): Promise<CaseStudy[]> {
+    return db
+      .select()
+      .from(caseStudies)
+      .where(and(
+        or(isNotNull(caseStudies.publishAt), isNotNull(caseStudies.unpublishAt)),
+        isNull(caseStudies.deletedAt)
+      ));
+  }
+
+  // Flipping the status and clearing the schedule in one statement means a
+  // due study is claimed by exactly one scheduler run, even across instances
+  async publishDueCaseStudies(now: Date): Promise<CaseStudy[]> {
+    return db
+      .update(caseStudies)
+      .set({ status: 'published', publishAt: null, version: sql`${caseStudies.version} + 1`, updatedAt: now })
+      .where(and(lte(caseStudies.publishAt, now), isNull(caseStudies.deletedAt)))
+      .returning();
+  }
+
+  async unpublishDueCaseStudies(now: Date): Promise<CaseStudy[]> {
+    return db
+      .update(caseStudies)
+      .set({ status: 'archived', unpublishAt: null, version: sql`${caseStudies.version} + 1`, updatedAt: now })
+      .where(and(lte(caseStudies.unpublishAt, now), isNull(caseStudies.deletedAt)))
+      .returning();
+  }
+
+  // SEO settings
+  async getSeoSettings(): Promise<SeoSettings[]> {
+    return db.select().from(seoSettings);
+  }
+
+  async getSeoSettingsForPage(page: string): Promise<SeoSettings | undefined> {
+    const [settings] = await db.select().from(seoSettings).where(eq(seoSettings.page, page));
+    return settings;
+  }
+
   // Media assets
   async getMediaAssets(): Promise<MediaAsset[]> {
     const assets = await db
@@ -319,72 +702,21 @@ export class DatabaseStorage implements IStorage {
     await db.delete(mediaAssets).where(eq(mediaAssets.id, id));
   }
 
-  // Content sections
-  async getContentSections(): Promise<ContentSection[]> {
-    const sections = await db
-      .select()
-      .from(contentSections)
-      .orderBy(contentSections.lastModified);
-    return sections;
-  }
-
-  async getContentSection(id: string): Promise<ContentSection | undefined> {
-    const [section] = await db.select().from(contentSections).where(eq(contentSections.id, id));
-    return section || undefined;
-  }
-
-  async createContentSection(insertSection: InsertContentSection): Promise<ContentSection> {
-    const [section] = await db
-      .insert(contentSections)
-      .values(insertSection)
-      .returning();
-    return section;
-  }
-
-  async updateContentSection(id: string, updateData: Partial<InsertContentSection>): Promise<ContentSection> {
-    const [section] = await db
-      .update(contentSections)
-      .set({ ...updateData, lastModified: new Date() })
-      .where(eq(contentSections.id, id))
-      .returning();
-    return section;
-  }
-
-  async deleteContentSection(id: string): Promise<void> {
-    await db.delete(contentSections).where(eq(contentSections.id, id));
-  }
-
-  // Content versions
-  async getContentVersions(sectionId?: string): Promise<ContentVersion[]> {
-    let query = db.select().from(contentVersions);
-    
-    if (sectionId) {
-      query = query.where(eq(contentVersions.sectionId, sectionId));
-    }
-    
-    const versions = await query.orderBy(desc(contentVersions.createdAt));
-    return versions;
-  }
-
-  async createContentVersion(insertVersion: InsertContentVersion): Promise<ContentVersion> {
-    const [version] = await db
-      .insert(contentVersions)
-      .values(insertVersion)
-      .returning();
-    return version;
-  }
-
   // Knowledge base documents
   async getKnowledgeBaseDocuments(): Promise<KnowledgeBaseDocument[]> {
     const documents = await db
       .select()
       .from(knowledgeBaseDocuments)
+      .where(isNull(knowledgeBaseDocuments.deletedAt))
       .orderBy(desc(knowledgeBaseDocuments.uploadedAt));
     return documents;
   }
 
   async getKnowledgeBaseDocument(id: number): Promise<KnowledgeBaseDocument | undefined> {
-    const [document] = await db.select().from(knowledgeBaseDocuments).where(eq(knowledgeBaseDocuments.id, id));
+    const [document] = await db
+      .select()
+      .from(knowledgeBaseDocuments)
+      .where(and(eq(knowledgeBaseDocuments.id, id), isNull(knowledgeBaseDocuments.deletedAt)));
     return document || undefined;
   }
 
@@ -405,8 +737,12 @@ export class DatabaseStorage implements IStorage {
     return document;
   }
 
+  // Moves the document to the trash; its file stays on disk until it is purged
   async deleteKnowledgeBaseDocument(id: number): Promise<void> {
-    await db.delete(knowledgeBaseDocuments).where(eq(knowledgeBaseDocuments.id, id));
+    await db
+      .update(knowledgeBaseDocuments)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(knowledgeBaseDocuments.id, id), isNull(knowledgeBaseDocuments.deletedAt)));
   }
 
   // Experience entries
@@ -414,12 +750,16 @@ export class DatabaseStorage implements IStorage {
     const entries = await db
       .select()
       .from(experienceEntries)
+      .where(isNull(experienceEntries.deletedAt))
       .orderBy(experienceEntries.orderIndex);
     return entries;
   }
 
   async getExperienceEntry(id: number): Promise<ExperienceEntry | undefined> {
-    const [entry] = await db.select().from(experienceEntries).where(eq(experienceEntries.id, id));
+    const [entry] = await db
+      .select()
+      .from(experienceEntries)
+      .where(and(eq(experienceEntries.id, id), isNull(experienceEntries.deletedAt)));
     return entry || undefined;
   }
 
@@ -431,20 +771,23 @@ export class DatabaseStorage implements IStorage {
     return entry;
   }
 
-  async updateExperienceEntry(id: number, updateData: Partial<InsertExperienceEntry>): Promise<ExperienceEntry> {
+  async updateExperienceEntry(id: number, updateData: Partial<InsertExperienceEntry>, expectedVersion?: number): Promise<ExperienceEntry | undefined> {
     // Remove timestamp fields from update data to avoid conversion errors
     const { createdAt, updatedAt, ...cleanUpdateData } = updateData as any;
     
     const [entry] = await db
       .update(experienceEntries)
-      .set({ ...cleanUpdateData, updatedAt: new Date() })
-      .where(eq(experienceEntries.id, id))
+      .set({ ...cleanUpdateData, version: sql`${experienceEntries.version} + 1`, updatedAt: new Date() })
+      .where(and(eq(experienceEntries.id, id), isNull(experienceEntries.deletedAt), versionIs(experienceEntries.version, expectedVersion)))
       .returning();
-    return entry;
+    return entry || undefined;
   }
 
   async deleteExperienceEntry(id: number): Promise<void> {
-    await db.delete(experienceEntries).where(eq(experienceEntries.id, id));
+    await db
+      .update(experienceEntries)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(experienceEntries.id, id), isNull(experienceEntries.deletedAt)));
   }
 
   // Skills and categories
@@ -452,6 +795,7 @@ export class DatabaseStorage implements IStorage {
     const categories = await db
       .select()
       .from(skillCategories)
+      .where(isNull(skillCategories.deletedAt))
       .orderBy(skillCategories.orderIndex);
     return categories;
   }
@@ -460,6 +804,7 @@ export class DatabaseStorage implements IStorage {
     const skillList = await db
       .select()
       .from(skills)
+      .where(isNull(skills.deletedAt))
       .orderBy(skills.orderIndex);
     return skillList;
   }
@@ -468,7 +813,7 @@ export class DatabaseStorage implements IStorage {
     const skillList = await db
       .select()
       .from(skills)
-      .where(eq(skills.categoryId, categoryId))
+      .where(and(eq(skills.categoryId, categoryId), isNull(skills.deletedAt)))
       .orderBy(skills.orderIndex);
     return skillList;
   }
@@ -493,29 +838,53 @@ export class DatabaseStorage implements IStorage {
     const [category] = await db
       .update(skillCategories)
       .set(updateData)
-      .where(eq(skillCategories.id, id))
+      .where(and(eq(skillCategories.id, id), isNull(skillCategories.deletedAt)))
       .returning();
     return category;
   }
 
-  async updateSkill(id: number, updateData: Partial<InsertSkill>): Promise<Skill> {
+  async getSkill(id: number): Promise<Skill | undefined> {
+    const [skill] = await db
+      .select()
+      .from(skills)
+      .where(and(eq(skills.id, id), isNull(skills.deletedAt)));
+    return skill || undefined;
+  }
+
+  async updateSkill(id: number, updateData: Partial<InsertSkill>, expectedVersion?: number): Promise<Skill | undefined> {
     // Remove timestamp fields from update data to avoid conversion errors
     const { createdAt, updatedAt, ...cleanUpdateData } = updateData as any;
     
     const [skill] = await db
       .update(skills)
-      .set({ ...cleanUpdateData, updatedAt: new Date() })
-      .where(eq(skills.id, id))
+      .set({ ...cleanUpdateData, version: sql`${skills.version} + 1`, updatedAt: new Date() })
+      .where(and(eq(skills.id, id), isNull(skills.deletedAt), versionIs(skills.version, expectedVersion)))
       .returning();
-    return skill;
+    return skill || undefined;
   }
 
+  // Moves the category to the trash along with its skills, batched like deleteCaseStudy
   async deleteSkillCategory(id: number): Promise<void> {
-    await db.delete(skillCategories).where(eq(skillCategories.id, id));
+    const deletedAt = new Date();
+    const trashedNow = db
+      .select({ id: skillCategories.id })
+      .from(skillCategories)
+      .where(and(eq(skillCategories.id, id), eq(skillCategories.deletedAt, deletedAt)));
+    await db.batch([
+      db.update(skillCategories)
+        .set({ deletedAt })
+        .where(and(eq(skillCategories.id, id), isNull(skillCategories.deletedAt))),
+      db.update(skills)
+        .set({ deletedAt })
+        .where(and(inArray(skills.categoryId, trashedNow), isNull(skills.deletedAt))),
+    ]);
   }
 
   async deleteSkill(id: number): Promise<void> {
-    await db.delete(skills).where(eq(skills.id, id));
+    await db
+      .update(skills)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(skills.id, id), isNull(skills.deletedAt)));
   }
 
   // Portfolio metrics
@@ -523,12 +892,16 @@ export class DatabaseStorage implements IStorage {
     const metrics = await db
       .select()
       .from(portfolioMetrics)
+      .where(isNull(portfolioMetrics.deletedAt))
       .orderBy(portfolioMetrics.displayOrder);
     return metrics;
   }
 
   async getPortfolioMetric(id: number): Promise<PortfolioMetric | undefined> {
-    const [metric] = await db.select().from(portfolioMetrics).where(eq(portfolioMetrics.id, id));
+    const [metric] = await db
+      .select()
+      .from(portfolioMetrics)
+      .where(and(eq(portfolioMetrics.id, id), isNull(portfolioMetrics.deletedAt)));
     return metric || undefined;
   }
 
@@ -540,22 +913,29 @@ export class DatabaseStorage implements IStorage {
     return metric;
   }
 
-  async updatePortfolioMetric(id: number, updateData: Partial<InsertPortfolioMetric>): Promise<PortfolioMetric> {
+  async updatePortfolioMetric(id: number, updateData: Partial<InsertPortfolioMetric>, expectedVersion?: number): Promise<PortfolioMetric | undefined> {
     const [metric] = await db
       .update(portfolioMetrics)
-      .set({ ...updateData, updatedAt: new Date() })
-      .where(eq(portfolioMetrics.id, id))
+      .set({ ...updateData, version: sql`${portfolioMetrics.version} + 1`, updatedAt: new Date() })
+      .where(and(eq(portfolioMetrics.id, id), isNull(portfolioMetrics.deletedAt), versionIs(portfolioMetrics.version, expectedVersion)))
       .returning();
-    return metric;
+    return metric || undefined;
   }
 
   async deletePortfolioMetric(id: number): Promise<void> {
-    await db.delete(portfolioMetrics).where(eq(portfolioMetrics.id, id));
+    await db
+      .update(portfolioMetrics)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(portfolioMetrics.id, id), isNull(portfolioMetrics.deletedAt)));
   }
 
   // Core Values operations
   async getCoreValues(): Promise<CoreValue[]> {
-    return await db.select().from(coreValues).orderBy(coreValues.orderIndex);
+    return await db
+      .select()
+      .from(coreValues)
+      .where(isNull(coreValues.deletedAt))
+      .orderBy(coreValues.orderIndex);
   }
 
   async createCoreValue(value: InsertCoreValue): Promise<CoreValue> {
@@ -563,17 +943,28 @@ export class DatabaseStorage implements IStorage {
     return newValue;
   }
 
-  async updateCoreValue(id: number, updates: Partial<InsertCoreValue>): Promise<CoreValue> {
+  async getCoreValue(id: number): Promise<CoreValue | undefined> {
+    const [value] = await db
+      .select()
+      .from(coreValues)
+      .where(and(eq(coreValues.id, id), isNull(coreValues.deletedAt)));
+    return value || undefined;
+  }
+
+  async updateCoreValue(id: number, updates: Partial<InsertCoreValue>, expectedVersion?: number): Promise<CoreValue | undefined> {
     const [updatedValue] = await db
       .update(coreValues)
-      .set({ ...updates, updatedAt: new Date() })
-      .where(eq(coreValues.id, id))
+      .set({ ...updates, version: sql`${coreValues.version} + 1`, updatedAt: new Date() })
+      .where(and(eq(coreValues.id, id), isNull(coreValues.deletedAt), versionIs(coreValues.version, expectedVersion)))
       .returning();
-    return updatedValue;
+    return updatedValue || undefined;
   }
 
   async deleteCoreValue(id: number): Promise<void> {
-    await db.delete(coreValues).where(eq(coreValues.id, id));
+    await db
+      .update(coreValues)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(coreValues.id, id), isNull(coreValues.deletedAt)));
   }
 
   // Portfolio status operations
@@ -623,13 +1014,20 @@ export class DatabaseStorage implements IStorage {
   async getPortfolioImages(section?: string): Promise<PortfolioImage[]> {
     const query = db.select().from(portfolioImages);
     if (section) {
-      return await query.where(eq(portfolioImages.section, section)).orderBy(portfolioImages.orderIndex);
+      return await query
+        .where(and(eq(portfolioImages.section, section), isNull(portfolioImages.deletedAt)))
+        .orderBy(portfolioImages.orderIndex);
     }
-    return await query.orderBy(portfolioImages.section, portfolioImages.orderIndex);
+    return await query
+      .where(isNull(portfolioImages.deletedAt))
+      .orderBy(portfolioImages.section, portfolioImages.orderIndex);
   }
 
   async getPortfolioImage(id: number): Promise<PortfolioImage | undefined> {
-    const result = await db.select().from(portfolioImages).where(eq(portfolioImages.id, id));
+    const result = await db
+      .select()
+      .from(portfolioImages)
+      .where(and(eq(portfolioImages.id, id), isNull(portfolioImages.deletedAt)));
     return result[0];
   }
 
@@ -638,19 +1036,22 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
-  async updatePortfolioImage(id: number, updateData: Partial<InsertPortfolioImage>): Promise<PortfolioImage> {
+  async updatePortfolioImage(id: number, updateData: Partial<InsertPortfolioImage>, expectedVersion?: number): Promise<PortfolioImage | undefined> {
     // Remove timestamp fields from update data to avoid conversion errors
     const { createdAt, updatedAt, ...cleanUpdateData } = updateData as any;
     
     const result = await db.update(portfolioImages)
-      .set({ ...cleanUpdateData, updatedAt: new Date() })
-      .where(eq(portfolioImages.id, id))
+      .set({ ...cleanUpdateData, version: sql`${portfolioImages.version} + 1`, updatedAt: new Date() })
+      .where(and(eq(portfolioImages.id, id), isNull(portfolioImages.deletedAt), versionIs(portfolioImages.version, expectedVersion)))
       .returning();
     return result[0];
   }
 
   async deletePortfolioImage(id: number): Promise<void> {
-    await db.delete(portfolioImages).where(eq(portfolioImages.id, id));
+    await db
+      .update(portfolioImages)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(portfolioImages.id, id), isNull(portfolioImages.deletedAt)));
   }
 
   // Case study images - using portfolioImages table with case study reference
@@ -658,7 +1059,7 @@ export class DatabaseStorage implements IStorage {
     const images = await db
       .select()
       .from(portfolioImages)
-      .where(eq(portfolioImages.caseStudyId, caseStudyId))
+      .where(and(eq(portfolioImages.caseStudyId, caseStudyId), isNull(portfolioImages.deletedAt)))
       .orderBy(portfolioImages.orderIndex);
     return images;
   }
@@ -680,7 +1081,569 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteCaseStudyImage(id: number): Promise<void> {
-    await db.delete(portfolioImages).where(eq(portfolioImages.id, id));
+    await this.deletePortfolioImage(id);
+  }
+
+  // Audit trail
+  async createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    const [created] = await db.insert(auditEvents).values(event).returning();
+    return created;
+  }
+
+  async getAuditEvents(filters: AuditEventFilters = {}): Promise<{ events: AuditEvent[]; total: number }> {
+    const conditions: SQL[] = [];
+    if (filters.actorId !== undefined) conditions.push(eq(auditEvents.actorId, filters.actorId));
+    if (filters.action) conditions.push(eq(auditEvents.action, filters.action));
+    if (filters.entityType) conditions.push(eq(auditEvents.entityType, filters.entityType));
+    if (filters.entityId) conditions.push(eq(auditEvents.entityId, filters.entityId));
+    if (filters.from) conditions.push(gte(auditEvents.createdAt, filters.from));
+    if (filters.to) conditions.push(lte(auditEvents.createdAt, filters.to));
+
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const events = await db
+      .select()
+      .from(auditEvents)
+      .where(where)
+      .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+      .limit(filters.limit ?? 100)
+      .offset(filters.offset ?? 0);
+
+    const [{ total }] = await db.select({ total: count() }).from(auditEvents).where(where);
+
+    return { events, total: Number(total) };
+  }
+
+  // Login sessions
+  async getUserSession(sid: string): Promise<UserSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(userSessions)
+      .where(and(eq(userSessions.sid, sid), gt(userSessions.expiresAt, new Date())));
+    return session || undefined;
+  }
+
+  async upsertUserSession(session: InsertUserSession): Promise<void> {
+    const { sid, ...fields } = session;
+    await db
+      .insert(userSessions)
+      .values(session)
+      .onConflictDoUpdate({ target: userSessions.sid, set: fields });
+  }
+
+  async touchUserSession(sid: string, expiresAt: Date): Promise<void> {
+    await db
+      .update(userSessions)
+      .set({ expiresAt, lastSeenAt: new Date() })
+      .where(eq(userSessions.sid, sid));
+  }
+
+  async deleteUserSession(sid: string): Promise<void> {
+    await db.delete(userSessions).where(eq(userSessions.sid, sid));
+  }
+
+  async getActiveUserSessions(userId: number): Promise<UserSession[]> {
+    return db
+      .select()
+      .from(userSessions)
+      .where(and(eq(userSessions.userId, userId), gt(userSessions.expiresAt, new Date())))
+      .orderBy(desc(userSessions.lastSeenAt));
+  }
+
+  async deleteUserSessions(userId: number, exceptSid?: string): Promise<number> {
+    const conditions = [eq(userSessions.userId, userId)];
+    if (exceptSid) conditions.push(ne(userSessions.sid, exceptSid));
+    const deleted = await db
+      .delete(userSessions)
+      .where(and(...conditions))
+      .returning({ sid: userSessions.sid });
+    return deleted.length;
+  }
+
+  async deleteExpiredUserSessions(): Promise<number> {
+    const deleted = await db
+      .delete(userSessions)
+      .where(lte(userSessions.expiresAt, new Date()))
+      .returning({ sid: userSessions.sid });
+    return deleted.length;
+  }
+
+  // API tokens
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const [created] = await db.insert(apiTokens).values(token).returning();
+    return created;
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token || undefined;
+  }
+
+  async getApiTokensForUser(userId: number): Promise<ApiToken[]> {
+    return db
+      .select()
+      .from(apiTokens)
+      .where(eq(apiTokens.userId, userId))
+      .orderBy(desc(apiTokens.createdAt));
+  }
+
+  async deleteApiToken(id: number, userId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(apiTokens)
+      .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId)))
+      .returning({ id: apiTokens.id });
+    return deleted.length > 0;
+  }
+
+  async recordApiTokenUse(id: number, ipAddress: string | null): Promise<void> {
+    await db
+      .update(apiTokens)
+      .set({ lastUsedAt: new Date(), lastUsedIp: ipAddress })
+      .where(eq(apiTokens.id, id));
+  }
+
+  // Draft preview links
+  async createPreviewLink(link: InsertPreviewLink): Promise<PreviewLink> {
+    const [created] = await db.insert(previewLinks).values(link).returning();
+    return created;
+  }
+
+  async getPreviewLinks(): Promise<PreviewLink[]> {
+    return db.select().from(previewLinks).orderBy(desc(previewLinks.createdAt));
+  }
+
+  async getPreviewLinkByHash(tokenHash: string): Promise<PreviewLink | undefined> {
+    const [link] = await db.select().from(previewLinks).where(eq(previewLinks.tokenHash, tokenHash));
+    return link || undefined;
+  }
+
+  // Revoked links stay listed, with their view counts
+  async revokePreviewLink(id: number): Promise<PreviewLink | undefined> {
+    const [link] = await db
+      .update(previewLinks)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(previewLinks.id, id), isNull(previewLinks.revokedAt)))
+      .returning();
+    return link || undefined;
+  }
+
+  async recordPreviewView(id: number): Promise<void> {
+    await db
+      .update(previewLinks)
+      .set({ viewCount: sql`${previewLinks.viewCount} + 1`, lastViewedAt: new Date() })
+      .where(eq(previewLinks.id, id));
+  }
+
+  // Email outbox
+  async createOutboxEmails(emails: InsertOutboxEmail[]): Promise<OutboxEmail[]> {
+    if (emails.length === 0) {
+      return [];
+    }
+    return db.insert(emailOutbox).values(emails).returning();
+  }
+
+  async getOutboxEmails(filters: { status?: EmailStatus; limit?: number } = {}): Promise<OutboxEmail[]> {
+    return db
+      .select()
+      .from(emailOutbox)
+      .where(filters.status ? eq(emailOutbox.status, filters.status) : undefined)
+      .orderBy(desc(emailOutbox.createdAt))
+      .limit(filters.limit ?? 100);
+  }
+
+  async getOutboxEmail(id: number): Promise<OutboxEmail | undefined> {
+    const [email] = await db.select().from(emailOutbox).where(eq(emailOutbox.id, id));
+    return email || undefined;
+  }
+
+  async claimDueEmails(now: Date, leaseUntil: Date, limit: number): Promise<OutboxEmail[]> {
+    const due = db
+      .select({ id: emailOutbox.id })
+      .from(emailOutbox)
+      .where(and(eq(emailOutbox.status, "pending"), lte(emailOutbox.nextAttemptAt, now)))
+      .orderBy(asc(emailOutbox.nextAttemptAt))
+      .limit(limit);
+    return db
+      .update(emailOutbox)
+      .set({ nextAttemptAt: leaseUntil })
+      .where(and(inArray(emailOutbox.id, due), eq(emailOutbox.status, "pending"), lte(emailOutbox.nextAttemptAt, now)))
+      .returning();
+  }
+
+  async markEmailSent(id: number): Promise<void> {
+    await db
+      .update(emailOutbox)
+      .set({ status: "sent", attempts: sql`${emailOutbox.attempts} + 1`, lastError: null, sentAt: new Date() })
+      .where(eq(emailOutbox.id, id));
+  }
+
+  // A null nextAttemptAt means the email has run out of attempts
+  async markEmailFailed(id: number, failure: { attempts: number; lastError: string; nextAttemptAt: Date | null }): Promise<void> {
+    await db
+      .update(emailOutbox)
+      .set({
+        status: failure.nextAttemptAt ? "pending" : "failed",
+        attempts: failure.attempts,
+        lastError: failure.lastError,
+        ...(failure.nextAttemptAt ? { nextAttemptAt: failure.nextAttemptAt } : {}),
+      })
+      .where(eq(emailOutbox.id, id));
+  }
+
+  async retryEmail(id: number): Promise<OutboxEmail | undefined> {
+    const [email] = await db
+      .update(emailOutbox)
+      .set({ status: "pending", nextAttemptAt: new Date() })
+      .where(and(eq(emailOutbox.id, id), ne(emailOutbox.status, "sent")))
+      .returning();
+    return email || undefined;
+  }
+
+  // Webhooks
+  async getWebhookSubscriptions(): Promise<WebhookSubscription[]> {
+    return db.select().from(webhookSubscriptions).orderBy(asc(webhookSubscriptions.createdAt));
+  }
+
+  async getWebhookSubscription(id: number): Promise<WebhookSubscription | undefined> {
+    const [subscription] = await db.select().from(webhookSubscriptions).where(eq(webhookSubscriptions.id, id));
+    return subscription || undefined;
+  }
+
+  async createWebhookSubscription(subscription: InsertWebhookSubscription): Promise<WebhookSubscription> {
+    const [created] = await db.insert(webhookSubscriptions).values(subscription).returning();
+    return created;
+  }
+
+  async updateWebhookSubscription(id: number, update: Partial<InsertWebhookSubscription>): Promise<WebhookSubscription | undefined> {
+    const [subscription] = await db
+      .update(webhookSubscriptions)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(webhookSubscriptions.id, id))
+      .returning();
+    return subscription || undefined;
+  }
+
+  // Its delivery log goes with it
+  async deleteWebhookSubscription(id: number): Promise<WebhookSubscription | undefined> {
+    const [subscription] = await db.delete(webhookSubscriptions).where(eq(webhookSubscriptions.id, id)).returning();
+    return subscription || undefined;
+  }
+
+  async enqueueWebhookEvent(payload: WebhookPayload): Promise<WebhookDelivery[]> {
+    const subscribers = await db
+      .select({ id: webhookSubscriptions.id })
+      .from(webhookSubscriptions)
+      .where(and(eq(webhookSubscriptions.active, true), sql`${payload.event} = any(${webhookSubscriptions.events})`));
+    if (subscribers.length === 0) {
+      return [];
+    }
+    return db
+      .insert(webhookDeliveries)
+      .values(subscribers.map(({ id }) => ({ subscriptionId: id, event: payload.event, payload })))
+      .returning();
+  }
+
+  async createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const [created] = await db.insert(webhookDeliveries).values(delivery).returning();
+    return created;
+  }
+
+  async getWebhookDeliveries(
+    filters: { subscriptionId?: number; status?: WebhookDeliveryStatus; limit?: number } = {}
+  ): Promise<WebhookDelivery[]> {
+    return db
+      .select()
+      .from(webhookDeliveries)
+      .where(
+        and(
+          filters.subscriptionId ? eq(webhookDeliveries.subscriptionId, filters.subscriptionId) : undefined,
+          filters.status ? eq(webhookDeliveries.status, filters.status) : undefined
+        )
+      )
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(filters.limit ?? 100);
+  }
+
+  async getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return delivery || undefined;
+  }
+
+  async claimDueWebhookDeliveries(now: Date, leaseUntil: Date, limit: number): Promise<WebhookDelivery[]> {
+    const due = db
+      .select({ id: webhookDeliveries.id })
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.status, "pending"), lte(webhookDeliveries.nextAttemptAt, now)))
+      .orderBy(asc(webhookDeliveries.nextAttemptAt))
+      .limit(limit);
+    return db
+      .update(webhookDeliveries)
+      .set({ nextAttemptAt: leaseUntil })
+      .where(
+        and(inArray(webhookDeliveries.id, due), eq(webhookDeliveries.status, "pending"), lte(webhookDeliveries.nextAttemptAt, now))
+      )
+      .returning();
+  }
+
+  async recordWebhookAttempt(id: number, attempt: WebhookAttempt): Promise<WebhookDelivery | undefined> {
+    const { nextAttemptAt, ...result } = attempt;
+    const [delivery] = await db
+      .update(webhookDeliveries)
+      .set({
+        ...result,
+        attempts: sql`${webhookDeliveries.attempts} + 1`,
+        ...(nextAttemptAt ? { nextAttemptAt } : {}),
+        deliveredAt: result.status === "delivered" ? new Date() : null,
+      })
+      .where(eq(webhookDeliveries.id, id))
+      .returning();
+    return delivery || undefined;
+  }
+
+  async retryWebhookDelivery(id: number): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await db
+      .update(webhookDeliveries)
+      .set({ status: "pending", nextAttemptAt: new Date() })
+      .where(and(eq(webhookDeliveries.id, id), ne(webhookDeliveries.status, "delivered")))
+      .returning();
+    return delivery || undefined;
+  }
+
+  // Trash
+  private async selectTrashed(type: TrashEntityType, where?: SQL): Promise<TrashedRow[]> {
+    const t = trashTables[type];
+    const rows = await db
+      .select({
+        id: sql<number>`${t.id}`,
+        title: sql<string>`${t.title}`,
+        deletedAt: sql<Date>`${t.deletedAt}`.mapWith(t.deletedAt),
+        parentId: t.parent ? sql<number | null>`${t.parent.id}` : sql<null>`null`,
+      })
+      .from(t.table)
+      .where(and(isNotNull(t.deletedAt), where));
+
+    return rows.map(({ parentId, deletedAt, ...row }) => ({
+      type,
+      ...row,
+      deletedAt: deletedAt as Date,
+      parent: t.parent && parentId !== null ? { type: t.parent.type, id: parentId } : null,
+    }));
+  }
+
+  async getTrashedRows(): Promise<TrashedRow[]> {
+    const rows: TrashedRow[] = [];
+    for (const type of Object.keys(trashTables) as TrashEntityType[]) {
+      rows.push(...(await this.selectTrashed(type)));
+    }
+    return rows;
+  }
+
+  async getTrashedRow(type: TrashEntityType, id: number): Promise<TrashedRow | undefined> {
+    const [row] = await this.selectTrashed(type, eq(trashTables[type].id, id));
+    return row;
+  }
+
+  async isTrashed(type: TrashEntityType, id: number): Promise<boolean> {
+    return !!(await this.getTrashedRow(type, id));
+  }
+
+  // Children are matched on the parent's deletedAt, so rows deleted on their
+  // own before the parent stay in the trash. Parent and children are restored
+  // in one batch; the children only come back if the parent did.
+  async restoreTrashed(type: TrashEntityType, id: number): Promise<number> {
+    const row = await this.getTrashedRow(type, id);
+    if (!row) {
+      return 0;
+    }
+
+    const t = trashTables[type];
+    const parentLive = db
+      .select({ id: sql<number>`${t.id}` })
+      .from(t.table)
+      .where(and(eq(t.id, id), isNull(t.deletedAt)));
+    const statements: BulkStatement[] = [
+      db.update(t.table)
+        .set({ deletedAt: null })
+        .where(and(eq(t.id, id), eq(t.deletedAt, row.deletedAt)))
+        .returning({ id: t.id }),
+      ...trashChildTypes(type).map((childType) => {
+        const child = trashTables[childType];
+        return db.update(child.table)
+          .set({ deletedAt: null })
+          .where(and(inArray(child.parent!.id, parentLive), eq(child.deletedAt, row.deletedAt)))
+          .returning({ id: child.id });
+      }),
+    ];
+    const [restored, ...children]: { id: number }[][] = await db.batch(statements as [BulkStatement, ...BulkStatement[]]);
+    return restored.length === 0 ? 0 : restored.length + children.flat().length;
+  }
+
+  // Children are removed by the foreign keys' ON DELETE CASCADE
+  async purgeTrashed(type: TrashEntityType, id: number): Promise<Record<string, any> | undefined> {
+    const t = trashTables[type];
+    const [row] = await db
+      .delete(t.table)
+      .where(and(eq(t.id, id), isNotNull(t.deletedAt)))
+      .returning();
+    return row;
+  }
+
+  async purgeTrashedBefore(cutoff: Date): Promise<{ type: TrashEntityType; row: Record<string, any> }[]> {
+    const purged: { type: TrashEntityType; row: Record<string, any> }[] = [];
+    for (const type of Object.keys(trashTables) as TrashEntityType[]) {
+      const t = trashTables[type];
+      const rows = await db.delete(t.table).where(lt(t.deletedAt, cutoff)).returning();
+      purged.push(...rows.map((row) => ({ type, row })));
+    }
+    return purged;
+  }
+
+  // Bulk operations
+  async getBulkTargetIds(entityType: BulkEntityType, ids: number[]): Promise<number[]> {
+    const t = bulkTables[entityType];
+    const rows = await db
+      .select({ id: sql<number>`${t.id}` })
+      .from(t.table)
+      .where(and(inArray(t.id, ids), t.deletedAt ? isNull(t.deletedAt) : undefined));
+    return rows.map((row) => row.id);
+  }
+
+  async applyBulkOperation(entityType: BulkEntityType, operation: BulkOperation): Promise<number[]> {
+    const { statements, cascades } = this.bulkStatements(entityType, operation);
+    // Neon runs a batch as a single transaction
+    const results: { id: number }[][] = await db.batch([...statements, ...cascades] as [BulkStatement, ...BulkStatement[]]);
+    return results.slice(0, statements.length).flat().map((row) => row.id);
+  }
+
+  // One statement per change, each returning the ids it touched; cascades
+  // (a case study's images going to the trash with it) run in the same batch
+  private bulkStatements(
+    entityType: BulkEntityType,
+    operation: BulkOperation
+  ): { statements: BulkStatement[]; cascades: BulkStatement[] } {
+    const { ids } = operation;
+    const now = new Date();
+
+    switch (operation.action) {
+      case "delete": {
+        if (entityType === "contact") {
+          return {
+            statements: [db.delete(contactSubmissions).where(inArray(contactSubmissions.id, ids)).returning({ id: contactSubmissions.id })],
+            cascades: [],
+          };
+        }
+        if (entityType === "case_study") {
+          return {
+            statements: [
+              db.update(caseStudies)
+                .set({ deletedAt: now })
+                .where(and(inArray(caseStudies.id, ids), isNull(caseStudies.deletedAt)))
+                .returning({ id: caseStudies.id }),
+            ],
+            cascades: [
+              db.update(portfolioImages)
+                .set({ deletedAt: now })
+                .where(and(inArray(portfolioImages.caseStudyId, ids), isNull(portfolioImages.deletedAt))),
+            ],
+          };
+        }
+        if (entityType === "experience") {
+          return {
+            statements: [
+              db.update(experienceEntries)
+                .set({ deletedAt: now })
+                .where(and(inArray(experienceEntries.id, ids), isNull(experienceEntries.deletedAt)))
+                .returning({ id: experienceEntries.id }),
+            ],
+            cascades: [],
+          };
+        }
+        return {
+          statements: [
+            db.update(skills)
+              .set({ deletedAt: now })
+              .where(and(inArray(skills.id, ids), isNull(skills.deletedAt)))
+              .returning({ id: skills.id }),
+          ],
+          cascades: [],
+        };
+      }
+
+      case "status":
+        return {
+          statements: [
+            db.update(caseStudies)
+              .set({ status: operation.status, version: sql`${caseStudies.version} + 1`, updatedAt: now })
+              .where(and(inArray(caseStudies.id, ids), isNull(caseStudies.deletedAt)))
+              .returning({ id: caseStudies.id }),
+          ],
+          cascades: [],
+        };
+
+      case "feature":
+        if (entityType === "experience") {
+          return {
+            statements: [
+              db.update(experienceEntries)
+                .set({ highlight: operation.featured, version: sql`${experienceEntries.version} + 1`, updatedAt: now })
+                .where(and(inArray(experienceEntries.id, ids), isNull(experienceEntries.deletedAt)))
+                .returning({ id: experienceEntries.id }),
+            ],
+            cascades: [],
+          };
+        }
+        return {
+          statements: [
+            db.update(caseStudies)
+              .set({ featured: operation.featured, version: sql`${caseStudies.version} + 1`, updatedAt: now })
+              .where(and(inArray(caseStudies.id, ids), isNull(caseStudies.deletedAt)))
+              .returning({ id: caseStudies.id }),
+          ],
+          cascades: [],
+        };
+
+      case "tags":
+        // Case study tags are its technologies; order is kept and duplicates dropped
+        return {
+          statements: [
+            db.update(caseStudies)
+              .set({
+                technologies: sql`array(
+                  select tag from unnest(${caseStudies.technologies} || ${textArray(operation.add)}) with ordinality as t(tag, position)
+                  where tag <> all(${textArray(operation.remove)})
+                  group by tag order by min(position))`,
+                version: sql`${caseStudies.version} + 1`,
+                updatedAt: now,
+              })
+              .where(and(inArray(caseStudies.id, ids), isNull(caseStudies.deletedAt)))
+              .returning({ id: caseStudies.id }),
+          ],
+          cascades: [],
+        };
+
+      case "reorder":
+        return {
+          statements: ids.map((id, position) => {
+            if (entityType === "case_study") {
+              return db.update(caseStudies)
+                .set({ displayOrder: position, version: sql`${caseStudies.version} + 1`, updatedAt: now })
+                .where(and(eq(caseStudies.id, id), isNull(caseStudies.deletedAt)))
+                .returning({ id: caseStudies.id });
+            }
+            if (entityType === "experience") {
+              return db.update(experienceEntries)
+                .set({ orderIndex: position, version: sql`${experienceEntries.version} + 1`, updatedAt: now })
+                .where(and(eq(experienceEntries.id, id), isNull(experienceEntries.deletedAt)))
+                .returning({ id: experienceEntries.id });
+            }
+            return db.update(skills)
+              .set({ orderIndex: position, version: sql`${skills.version} + 1` })
+              .where(and(eq(skills.id, id), isNull(skills.deletedAt)))
+              .returning({ id: skills.id });
+          }),
+          cascades: [],
+        };
+    }
   }
 }
 
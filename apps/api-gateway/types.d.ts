@@ -1,7 +1,35 @@
 import 'express-session';
+import type { Permission, PublicUser } from '../shared/schema';
+import type { RejectedUpload } from './src/middleware/uploadInspection';
 
 declare module 'express-session' {
   interface SessionData {
-    isAdmin?: boolean;
+    userId?: number;
+    // Start of the login, for the absolute session timeout
+    authenticatedAt?: number;
+    // Shown in the active sessions list
+    client?: { ipAddress: string | null; userAgent: string | null };
+    // Synchronizer token echoed back in X-CSRF-Token on mutations
+    csrfToken?: string;
+    // Set between a correct password and a verified TOTP/recovery code
+    pendingUserId?: number;
+    pendingExpiresAt?: number;
+    pendingAttempts?: number;
+    // Password-protected preview links this browser has unlocked
+    unlockedPreviewLinks?: number[];
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: PublicUser;
+      // Set when the request authenticated with a personal access token
+      apiToken?: { id: number; scopes: Permission[] };
+      // Files inspectUploads moved to quarantine
+      rejectedUploads?: RejectedUpload[];
+      // Set by loadPreview for requests made with a valid ?preview= token
+      preview?: { linkId: number };
+    }
   }
 }
\ No newline at end of file
@@ -6,6 +6,8 @@ import { type Server } from "http";
 // import viteConfig from "../../vite.config.js"; // Commented out due to top-level await issue
 import { nanoid } from "nanoid";
 import { logger, withModule } from "../../packages/shared-utils/index.js";
+import { pageMetaService } from "./services/pageMetaService";
+import { siteOrigin } from "./src/routes/sitemap";
 
 const viteLogger = createLogger();
 const moduleLogger = withModule('vite');
@@ -62,6 +64,7 @@ export async function setupVite(app: Express, server: Server) {
         `src="/src/main.tsx"`,
         `src="/src/main.tsx?v=${nanoid()}"`,
       );
+      template = await pageMetaService.render(url.split("?")[0], siteOrigin(req), template);
       const page = await vite.transformIndexHtml(url, template);
       res.status(200).set({ "Content-Type": "text/html" }).end(page);
     } catch (e) {
@@ -80,10 +83,13 @@ export function serveStatic(app: Express) {
     );
   }
 
-  app.use(express.static(distPath));
+  // index.html is never served as-is, so the pages below get their meta tags
+  app.use(express.static(distPath, { index: false }));
+  const template = fs.readFileSync(path.resolve(distPath, "index.html"), "utf-8");
 
   // fall through to index.html if the file doesn't exist
-  app.use("*", (_req, res) => {
-    res.sendFile(path.resolve(distPath, "index.html"));
+  app.use("*", async (req, res) => {
+    const page = await pageMetaService.render(req.originalUrl.split("?")[0], siteOrigin(req), template);
+    res.status(200).set({ "Content-Type": "text/html" }).end(page);
   });
 }
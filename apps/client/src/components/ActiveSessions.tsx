@@ -0,0 +1,92 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { MonitorSmartphone, LogOut } from "lucide-react";
+
+interface ActiveSession {
+  id: string;
+  current: boolean;
+  device: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+}
+
+export default function ActiveSessions() {
+  const { toast } = useToast();
+
+  const { data: sessions = [], isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/admin/account/sessions"],
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/admin/account/sessions/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/account/sessions"] });
+      toast({ title: "Success", description: "Session signed out" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", "/api/admin/account/sessions/revoke-others"),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/account/sessions"] });
+      toast({ title: "Success", description: `Signed out ${data.signedOut} other session(s)` });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const otherSessions = sessions.filter((session) => !session.current);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MonitorSmartphone className="h-5 w-5" />
+          Active Sessions
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading sessions...</p>
+        ) : (
+          <div className="divide-y border rounded-md">
+            {sessions.map((session) => (
+              <div key={session.id} className="flex items-center justify-between gap-4 p-3">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900">{session.device}</span>
+                    {session.current && <Badge variant="secondary">This device</Badge>}
+                  </div>
+                  <p className="text-xs text-gray-500" title={session.userAgent ?? undefined}>
+                    {session.ipAddress ?? "Unknown IP"} · last active {new Date(session.lastSeenAt).toLocaleString()} · signed in {new Date(session.createdAt).toLocaleDateString()}
+                  </p>
+                </div>
+                {!session.current && (
+                  <Button variant="outline" size="sm" onClick={() => revokeMutation.mutate(session.id)} disabled={revokeMutation.isPending}>
+                    Sign out
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Button variant="outline" onClick={() => revokeOthersMutation.mutate()} disabled={otherSessions.length === 0 || revokeOthersMutation.isPending}>
+          <LogOut className="h-4 w-4 mr-2" />
+          Sign out other sessions
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -10,7 +10,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Save, Eye, Check, AlertCircle, History, RotateCcw, Monitor } from "lucide-react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient } from "@/lib/queryClient";
+import { queryClient, csrfFetch } from "@/lib/queryClient";
 
 interface ContentVersion {
   id: number;
@@ -45,7 +45,7 @@ export default function AdvancedContentManager() {
 
   // Fetch content versions for rollback functionality
   const { data: versions = [] } = useQuery<ContentVersion[]>({
-    queryKey: ["/api/admin/content/versions", activeTab],
+    queryKey: [`/api/admin/content/versions/${activeTab}`],
     enabled: showVersionHistory,
   });
 
@@ -85,7 +85,7 @@ export default function AdvancedContentManager() {
   // Update content mutation - directly updates the live portfolio
   const updateMutation = useMutation({
     mutationFn: async ({ sectionId, content }: { sectionId: string; content: any }) => {
-      const response = await fetch(`/api/admin/portfolio/content/${sectionId}`, {
+      const response = await csrfFetch(`/api/admin/portfolio/content/${sectionId}`, {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(content),
@@ -115,7 +115,7 @@ export default function AdvancedContentManager() {
   // Version rollback mutation
   const rollbackMutation = useMutation({
     mutationFn: async ({ sectionId, versionId }: { sectionId: string; versionId: number }) => {
-      const response = await fetch(`/api/admin/content/${sectionId}/rollback/${versionId}`, {
+      const response = await csrfFetch(`/api/admin/content/${sectionId}/rollback/${versionId}`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
       });
@@ -124,7 +124,7 @@ export default function AdvancedContentManager() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/portfolio/content"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/admin/content/versions", activeTab] });
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/content/versions/${activeTab}`] });
       setShowVersionHistory(false);
       toast({
         title: "Content restored",
@@ -136,7 +136,7 @@ export default function AdvancedContentManager() {
   // Save portfolio section status
   const saveStatusMutation = useMutation({
     mutationFn: async (status: typeof sectionStatus) => {
-      const response = await fetch("/api/admin/portfolio-status", {
+      const response = await csrfFetch("/api/admin/portfolio-status", {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(status),
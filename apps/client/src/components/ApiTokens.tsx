@@ -0,0 +1,186 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAdmin } from "@/hooks/useAdmin";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, KeySquare, Trash2 } from "lucide-react";
+import { tokenScopes, type Permission, type PublicApiToken } from "@shared/schema";
+
+// Dates arrive as ISO strings over JSON
+type ApiTokenRow = Omit<PublicApiToken, "expiresAt" | "lastUsedAt" | "createdAt"> & {
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+};
+
+const expiryOptions = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "No expiry" },
+];
+
+const emptyToken = { name: "", scopes: [] as Permission[], expiry: "90" };
+
+export default function ApiTokens() {
+  const { toast } = useToast();
+  const { can } = useAdmin();
+  const [newToken, setNewToken] = useState(emptyToken);
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const grantableScopes = tokenScopes.filter((scope) => can(scope));
+
+  const { data: tokens = [], isLoading } = useQuery<ApiTokenRow[]>({
+    queryKey: ["/api/admin/account/tokens"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: typeof newToken) =>
+      apiRequest("POST", "/api/admin/account/tokens", {
+        name: data.name,
+        scopes: data.scopes,
+        expiresInDays: data.expiry === "never" ? undefined : Number(data.expiry),
+      }),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/account/tokens"] });
+      setCreatedToken(data.token);
+      setNewToken(emptyToken);
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest("DELETE", `/api/admin/account/tokens/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/account/tokens"] });
+      toast({ title: "Success", description: "API token revoked" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleScope = (scope: Permission, checked: boolean) => {
+    setNewToken({
+      ...newToken,
+      scopes: checked ? [...newToken.scopes, scope] : newToken.scopes.filter((s) => s !== scope),
+    });
+  };
+
+  const isExpired = (token: ApiTokenRow) => !!token.expiresAt && new Date(token.expiresAt) <= new Date();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeySquare className="h-5 w-5" />
+          API Tokens
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Use a token from scripts with <code className="text-xs bg-gray-100 px-1 rounded">Authorization: Bearer &lt;token&gt;</code> on the admin API. A token can only use the scopes you give it, and never more than your own role allows.
+        </p>
+
+        {createdToken && (
+          <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 space-y-3">
+            <p className="text-sm text-amber-900">Copy this token now. It will not be shown again.</p>
+            <code className="block break-all rounded bg-white border px-3 py-2 text-sm">{createdToken}</code>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  navigator.clipboard.writeText(createdToken);
+                  toast({ title: "Copied", description: "API token copied to clipboard" });
+                }}
+              >
+                <Copy className="h-4 w-4 mr-2" />
+                Copy
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setCreatedToken(null)}>
+                Done
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="token-name">Name</Label>
+            <Input id="token-name" placeholder="Metrics sync script" value={newToken.name} onChange={(e) => setNewToken({ ...newToken, name: e.target.value })} />
+          </div>
+          <div>
+            <Label>Expires</Label>
+            <Select value={newToken.expiry} onValueChange={(expiry) => setNewToken({ ...newToken, expiry })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {expiryOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div>
+          <Label>Scopes</Label>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mt-2">
+            {grantableScopes.map((scope) => (
+              <label key={scope} className="flex items-center gap-2 text-sm">
+                <Checkbox checked={newToken.scopes.includes(scope)} onCheckedChange={(checked) => toggleScope(scope, checked === true)} />
+                <code className="text-xs">{scope}</code>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <Button onClick={() => createMutation.mutate(newToken)} disabled={!newToken.name.trim() || newToken.scopes.length === 0 || createMutation.isPending}>
+          Create Token
+        </Button>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading tokens...</p>
+        ) : tokens.length > 0 && (
+          <div className="divide-y border rounded-md">
+            {tokens.map((token) => (
+              <div key={token.id} className="flex items-start justify-between gap-4 p-3">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900">{token.name}</span>
+                    <code className="text-xs text-gray-500">{token.tokenPrefix}…</code>
+                    {isExpired(token) && <Badge variant="destructive">Expired</Badge>}
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {token.scopes.map((scope) => (
+                      <Badge key={scope} variant="secondary" className="text-xs">{scope}</Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {token.expiresAt ? `Expires ${new Date(token.expiresAt).toLocaleDateString()}` : "No expiry"} · {token.lastUsedAt ? `last used ${new Date(token.lastUsedAt).toLocaleString()}${token.lastUsedIp ? ` from ${token.lastUsedIp}` : ""}` : "never used"}
+                  </p>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => revokeMutation.mutate(token.id)} disabled={revokeMutation.isPending}>
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Revoke
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Download, History, ChevronLeft, ChevronRight } from "lucide-react";
+import type { AuditEvent } from "@shared/schema";
+
+interface AuditPage {
+  events: AuditEvent[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+const PAGE_SIZE = 50;
+
+const emptyFilters = { entityType: "", action: "", actorId: "", from: "", to: "" };
+
+function buildQuery(filters: typeof emptyFilters, offset?: number) {
+  const params = new URLSearchParams();
+  if (filters.entityType) params.set("entityType", filters.entityType);
+  if (filters.action) params.set("action", filters.action);
+  if (filters.actorId) params.set("actorId", filters.actorId);
+  if (filters.from) params.set("from", new Date(filters.from).toISOString());
+  // Include the whole "to" day
+  if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+  if (offset !== undefined) {
+    params.set("limit", String(PAGE_SIZE));
+    params.set("offset", String(offset));
+  }
+  return params.toString();
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined) return "—";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 120 ? `${text.slice(0, 120)}…` : text;
+}
+
+export default function AuditLog() {
+  const [draftFilters, setDraftFilters] = useState(emptyFilters);
+  const [filters, setFilters] = useState(emptyFilters);
+  const [offset, setOffset] = useState(0);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const { data, isLoading } = useQuery<AuditPage>({
+    queryKey: [`/api/admin/audit?${buildQuery(filters, offset)}`],
+  });
+
+  const events = data?.events ?? [];
+  const total = data?.total ?? 0;
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setOffset(0);
+    setFilters(draftFilters);
+  };
+
+  const resetFilters = () => {
+    setDraftFilters(emptyFilters);
+    setFilters(emptyFilters);
+    setOffset(0);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl font-bold text-navy mb-1 flex items-center gap-2">
+          <History className="h-5 w-5" /> Audit Log
+        </h2>
+        <p className="text-gray-600">Every admin change with who made it, when, and what changed</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Filters</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={applyFilters} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div>
+              <Label htmlFor="audit-entity">Entity type</Label>
+              <Input id="audit-entity" placeholder="case_study" value={draftFilters.entityType} onChange={(e) => setDraftFilters({ ...draftFilters, entityType: e.target.value })} />
+            </div>
+            <div>
+              <Label htmlFor="audit-action">Action</Label>
+              <Input id="audit-action" placeholder="case_study.update" value={draftFilters.action} onChange={(e) => setDraftFilters({ ...draftFilters, action: e.target.value })} />
+            </div>
+            <div>
+              <Label htmlFor="audit-actor">Actor ID</Label>
+              <Input id="audit-actor" type="number" value={draftFilters.actorId} onChange={(e) => setDraftFilters({ ...draftFilters, actorId: e.target.value })} />
+            </div>
+            <div>
+              <Label htmlFor="audit-from">From</Label>
+              <Input id="audit-from" type="date" value={draftFilters.from} onChange={(e) => setDraftFilters({ ...draftFilters, from: e.target.value })} />
+            </div>
+            <div>
+              <Label htmlFor="audit-to">To</Label>
+              <Input id="audit-to" type="date" value={draftFilters.to} onChange={(e) => setDraftFilters({ ...draftFilters, to: e.target.value })} />
+            </div>
+            <div className="md:col-span-5 flex gap-2">
+              <Button type="submit">Apply</Button>
+              <Button type="button" variant="outline" onClick={resetFilters}>Reset</Button>
+              <Button type="button" variant="outline" className="ml-auto" asChild>
+                <a href={`/api/admin/audit/export?${buildQuery(filters)}`}>
+                  <Download className="h-4 w-4 mr-2" /> Export CSV
+                </a>
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <p className="text-gray-500">Loading audit events...</p>
+      ) : events.length === 0 ? (
+        <div className="text-center py-12">
+          <History className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600">No audit events match these filters.</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {events.map((event) => {
+            const changedFields = Object.keys(event.diff ?? {});
+            const expanded = expandedId === event.id;
+            return (
+              <Card key={event.id}>
+                <CardContent className="p-4">
+                  <button type="button" className="w-full text-left" onClick={() => setExpandedId(expanded ? null : event.id)}>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant="secondary">{event.action}</Badge>
+                      <span className="text-sm text-gray-700">
+                        {event.entityType}{event.entityId ? ` #${event.entityId}` : ""}
+                      </span>
+                      <span className="text-sm text-gray-500">by {event.actorUsername ?? "unknown"}</span>
+                      <span className="text-xs text-gray-400 ml-auto">{new Date(event.createdAt).toLocaleString()}</span>
+                    </div>
+                    {changedFields.length > 0 && (
+                      <p className="text-xs text-gray-500 mt-1">Changed: {changedFields.join(", ")}</p>
+                    )}
+                  </button>
+
+                  {expanded && (
+                    <div className="mt-3 space-y-2">
+                      {changedFields.length > 0 ? (
+                        <table className="w-full text-xs border">
+                          <thead className="bg-gray-50">
+                            <tr>
+                              <th className="text-left p-2 border">Field</th>
+                              <th className="text-left p-2 border">Before</th>
+                              <th className="text-left p-2 border">After</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {changedFields.map((field) => (
+                              <tr key={field}>
+                                <td className="p-2 border font-medium">{field}</td>
+                                <td className="p-2 border text-red-700 break-all">{formatValue(event.diff![field].before)}</td>
+                                <td className="p-2 border text-green-700 break-all">{formatValue(event.diff![field].after)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      ) : (
+                        <p className="text-xs text-gray-500">No field changes recorded.</p>
+                      )}
+                      <p className="text-xs text-gray-400">
+                        {event.ipAddress ?? "unknown IP"} · {event.userAgent ?? "unknown agent"}
+                      </p>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+
+          <div className="flex items-center justify-between pt-2">
+            <span className="text-sm text-gray-500">
+              {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+            </span>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" disabled={offset === 0} onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" disabled={offset + PAGE_SIZE >= total} onClick={() => setOffset(offset + PAGE_SIZE)}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,19 +1,34 @@
-import { useState } from "react";
-import { Download, Trash2, CheckSquare, Square } from "lucide-react";
+import { useState, type ReactNode } from "react";
+import { Download, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { useConfirmationDialog } from "@/components/ConfirmationDialog";
 import { useToast } from "@/hooks/use-toast";
+import { downloadExport } from "@/lib/bulk";
+
+// An extra toolbar button that acts on the selection, e.g. publish or feature
+export interface BulkAction {
+  label: string;
+  icon?: ReactNode;
+  run: (ids: number[]) => Promise<void>;
+}
 
 interface BulkOperationsProps<T> {
   items: T[];
   selectedItems: Set<number>;
   onSelectionChange: (selected: Set<number>) => void;
   onBulkDelete?: (ids: number[]) => Promise<void>;
-  onExport?: (items: T[]) => void;
+  actions?: BulkAction[];
+  // Server-side export endpoint, e.g. /api/admin/export/case-studies
+  exportUrl?: string;
   getItemId: (item: T) => number;
   getItemName?: (item: T) => string;
-  exportFilename?: string;
 }
 
 export function BulkOperations<T>({
@@ -21,14 +36,15 @@ export function BulkOperations<T>({
   selectedItems,
   onSelectionChange,
   onBulkDelete,
-  onExport,
+  actions = [],
+  exportUrl,
   getItemId,
   getItemName,
-  exportFilename = "export"
 }: BulkOperationsProps<T>) {
   const { toast } = useToast();
   const { dialog, openDialog } = useConfirmationDialog();
   const [isDeleting, setIsDeleting] = useState(false);
+  const [runningAction, setRunningAction] = useState<string | null>(null);
 
   const isAllSelected = items.length > 0 && selectedItems.size === items.length;
   const isPartiallySelected = selectedItems.size > 0 && selectedItems.size < items.length;
@@ -57,7 +73,7 @@ export function BulkOperations<T>({
 
     openDialog({
       title: "Delete Selected Items",
-      description: `Are you sure you want to delete ${selectedItems.size} item(s)? This will permanently delete: ${itemsList}`,
+      description: `Are you sure you want to delete ${selectedItems.size} item(s)? This will delete: ${itemsList}`,
       confirmText: "Delete All",
       variant: "destructive",
       onConfirm: async () => {
@@ -69,10 +85,10 @@ export function BulkOperations<T>({
             title: "Success",
             description: `Deleted ${selectedItems.size} item(s) successfully`
           });
-        } catch (error) {
+        } catch (error: any) {
           toast({
-            title: "Error",
-            description: "Failed to delete selected items",
+            title: "Failed to delete selected items",
+            description: error?.message,
             variant: "destructive"
           });
         } finally {
@@ -82,18 +98,35 @@ export function BulkOperations<T>({
     });
   };
 
-  const handleExport = () => {
-    if (!onExport) return;
-    
-    const itemsToExport = selectedItems.size > 0 
-      ? items.filter(item => selectedItems.has(getItemId(item)))
-      : items;
-    
-    onExport(itemsToExport);
-    toast({
-      title: "Export Started",
-      description: `Exporting ${itemsToExport.length} item(s)`
-    });
+  const handleAction = async (action: BulkAction) => {
+    setRunningAction(action.label);
+    try {
+      await action.run(Array.from(selectedItems));
+      onSelectionChange(new Set());
+    } catch (error: any) {
+      toast({
+        title: `${action.label} failed`,
+        description: error?.message,
+        variant: "destructive"
+      });
+    } finally {
+      setRunningAction(null);
+    }
+  };
+
+  const handleExport = async (format: "csv" | "json") => {
+    if (!exportUrl) return;
+
+    const ids = selectedItems.size > 0 ? Array.from(selectedItems) : undefined;
+    try {
+      await downloadExport(exportUrl, format, ids);
+      toast({
+        title: "Export ready",
+        description: `Exported ${ids ? ids.length : items.length} item(s) as ${format.toUpperCase()}`
+      });
+    } catch (error: any) {
+      toast({ title: "Export failed", description: error?.message, variant: "destructive" });
+    }
   };
 
   if (items.length === 0) return null;
@@ -119,16 +152,33 @@ export function BulkOperations<T>({
         </div>
 
         <div className="flex items-center gap-2">
-          {onExport && (
+          {selectedItems.size > 0 && actions.map((action) => (
             <Button
+              key={action.label}
               variant="outline"
               size="sm"
-              onClick={handleExport}
+              onClick={() => handleAction(action)}
+              disabled={runningAction !== null}
               className="flex items-center gap-2"
             >
-              <Download className="w-4 h-4" />
-              Export {selectedItems.size > 0 ? 'Selected' : 'All'}
+              {action.icon}
+              {action.label}
             </Button>
+          ))}
+
+          {exportUrl && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" className="flex items-center gap-2">
+                  <Download className="w-4 h-4" />
+                  Export {selectedItems.size > 0 ? 'Selected' : 'All'}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleExport("csv")}>CSV</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport("json")}>JSON</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
           )}
           
           {onBulkDelete && selectedItems.size > 0 && (
@@ -178,52 +228,3 @@ export function ItemSelection({ itemId, selectedItems, onSelectionChange }: Item
     />
   );
 }
-
-// Export utilities
-export function exportToCSV<T>(data: T[], filename: string = "export") {
-  if (data.length === 0) return;
-
-  // Get all unique keys from the data
-  const keys = Array.from(new Set(data.flatMap(item => Object.keys(item as any))));
-  
-  // Create CSV content
-  const csvContent = [
-    keys.join(","), // Header row
-    ...data.map(item => 
-      keys.map(key => {
-        const value = (item as any)[key];
-        // Escape commas and quotes in CSV
-        if (typeof value === 'string' && (value.includes(',') || value.includes('"'))) {
-          return `"${value.replace(/"/g, '""')}"`;
-        }
-        return value || '';
-      }).join(",")
-    )
-  ].join("\n");
-
-  // Download the file
-  const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
-  const link = document.createElement("a");
-  const url = URL.createObjectURL(blob);
-  link.setAttribute("href", url);
-  link.setAttribute("download", `${filename}_${new Date().toISOString().split('T')[0]}.csv`);
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
-}
-
-export function exportToJSON<T>(data: T[], filename: string = "export") {
-  if (data.length === 0) return;
-
-  const jsonContent = JSON.stringify(data, null, 2);
-  const blob = new Blob([jsonContent], { type: "application/json;charset=utf-8;" });
-  const link = document.createElement("a");
-  const url = URL.createObjectURL(blob);
-  link.setAttribute("href", url);
-  link.setAttribute("download", `${filename}_${new Date().toISOString().split('T')[0]}.json`);
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
-}
\ No newline at end of file
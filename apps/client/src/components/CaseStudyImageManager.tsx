@@ -7,7 +7,7 @@ import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge"; 
 import { useToast } from "@/hooks/use-toast";
 import { Plus, Upload, Trash2, Eye, EyeOff } from "lucide-react";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, csrfFetch } from "@/lib/queryClient";
 
 interface CaseStudyImage {
   id: number;
@@ -36,7 +36,7 @@ export default function CaseStudyImageManager({ caseStudyId, caseStudyTitle }: C
 
   const uploadMutation = useMutation({
     mutationFn: async (data: FormData) => {
-      const response = await fetch(`/api/admin/portfolio-images/case-study/${caseStudyId}`, {
+      const response = await csrfFetch(`/api/admin/portfolio-images/case-study/${caseStudyId}`, {
         method: "POST",
         body: data,
       });
@@ -64,7 +64,7 @@ export default function CaseStudyImageManager({ caseStudyId, caseStudyTitle }: C
 
   const deleteMutation = useMutation({
     mutationFn: async (imageId: number) => {
-      const response = await fetch(`/api/admin/portfolio-images/${imageId}`, {
+      const response = await csrfFetch(`/api/admin/portfolio-images/${imageId}`, {
         method: "DELETE",
       });
       if (!response.ok) throw new Error("Delete failed");
@@ -88,7 +88,7 @@ export default function CaseStudyImageManager({ caseStudyId, caseStudyTitle }: C
 
   const toggleVisibilityMutation = useMutation({
     mutationFn: async ({ imageId, isActive }: { imageId: number; isActive: boolean }) => {
-      const response = await fetch(`/api/admin/portfolio-images/${imageId}`, {
+      const response = await csrfFetch(`/api/admin/portfolio-images/${imageId}`, {
         method: "PATCH",
         headers: {
           "Content-Type": "application/json",
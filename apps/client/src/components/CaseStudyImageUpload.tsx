@@ -5,7 +5,7 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent } from "@/components/ui/card";
 import { Upload, X, Image as ImageIcon } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, csrfFetch } from "@/lib/queryClient";
 
 interface CaseStudyImage {
   id: number;
@@ -41,7 +41,7 @@ export default function CaseStudyImageUpload({
       formData.append("caseStudyId", caseStudyId.toString());
       formData.append("altText", `${file.name.split('.')[0]} case study image`);
 
-      const response = await fetch("/api/admin/images", {
+      const response = await csrfFetch("/api/admin/images", {
         method: "POST",
         body: formData,
       });
@@ -9,7 +9,9 @@ import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { Plus, Edit, Trash2, Star, Eye, Save, X, ArrowUp, ArrowDown } from "lucide-react";
+import { versionedRequest, VersionConflictError } from "@/lib/concurrency";
+import { bulkRequest } from "@/lib/bulk";
+import { Plus, Edit, Trash2, Star, Eye, EyeOff, Save, X, ArrowUp, ArrowDown } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -19,6 +21,9 @@ import {
 } from "@/components/ui/dialog";
 import CaseStudyTextEditor from "@/components/CaseStudyTextEditor";
 import SimpleCaseStudyImageUpload from "@/components/SimpleCaseStudyImageUpload";
+import PublishScheduleDialog from "@/components/PublishScheduleDialog";
+import { useVersionConflictDialog } from "@/components/VersionConflictDialog";
+import { BulkOperations, ItemSelection, type BulkAction } from "@/components/BulkOperations";
 
 interface CaseStudy {
   id: number;
@@ -39,6 +44,9 @@ interface CaseStudy {
   projectDuration?: string;
   teamSize?: string;
   slug: string;
+  publishAt: string | null;
+  unpublishAt: string | null;
+  version: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -81,12 +89,35 @@ const initialFormData: CaseStudyFormData = {
   slug: "",
 };
 
+const toFormData = (caseStudy: CaseStudy): CaseStudyFormData => ({
+  title: caseStudy.title,
+  subtitle: caseStudy.subtitle || "",
+  challenge: caseStudy.challenge,
+  approach: caseStudy.approach,
+  solution: caseStudy.solution,
+  impact: caseStudy.impact,
+  metrics: caseStudy.metrics.join(", "),
+  technologies: caseStudy.technologies.join(", "),
+  status: caseStudy.status,
+  featured: caseStudy.featured,
+
+  externalUrl: caseStudy.externalUrl || "",
+  clientName: caseStudy.clientName || "",
+  projectDuration: caseStudy.projectDuration || "",
+  teamSize: caseStudy.teamSize || "",
+  slug: caseStudy.slug,
+});
+
 export default function CaseStudyManager() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingId, setEditingId] = useState<number | null>(null);
   const [formData, setFormData] = useState<CaseStudyFormData>(initialFormData);
   const [tempImageData, setTempImageData] = useState<{ tempId: string; imageUrl: string; altText: string } | null>(null);
+  // The copy the edit started from, sent back so a concurrent save is detected
+  const [loaded, setLoaded] = useState<{ version: number; base: CaseStudyFormData } | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
   const { toast } = useToast();
+  const { dialog: conflictDialog, openConflict } = useVersionConflictDialog();
 
   const { data: caseStudies, isLoading } = useQuery<CaseStudy[]>({
     queryKey: ["/api/admin/case-studies"],
@@ -148,7 +179,7 @@ export default function CaseStudyManager() {
   });
 
   const updateMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: number; data: CaseStudyFormData }) => {
+    mutationFn: async ({ id, data, version }: { id: number; data: CaseStudyFormData; version?: number }) => {
       const payload = {
         ...data,
         metrics: typeof data.metrics === 'string' 
@@ -158,16 +189,36 @@ export default function CaseStudyManager() {
           ? data.technologies.split(",").map(t => t.trim()).filter(Boolean)
           : data.technologies,
       };
-      return apiRequest("PUT", `/api/admin/case-studies/${id}`, payload);
+      return versionedRequest("PUT", `/api/admin/case-studies/${id}`, payload, version);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/case-studies"] });
       setIsDialogOpen(false);
       setFormData(initialFormData);
       setEditingId(null);
+      setLoaded(null);
       toast({ title: "Case study updated successfully" });
     },
-    onError: (error: any) => {
+    onError: (error: any, variables) => {
+      if (error instanceof VersionConflictError && loaded) {
+        const theirs = toFormData(error.current as CaseStudy);
+        openConflict({
+          error,
+          base: loaded.base,
+          mine: variables.data,
+          theirs,
+          onSave: (data, version) => {
+            setFormData(data as CaseStudyFormData);
+            setLoaded({ version, base: theirs });
+            updateMutation.mutate({ id: variables.id, data: data as CaseStudyFormData, version });
+          },
+          onReload: () => {
+            setFormData(theirs);
+            setLoaded({ version: error.currentVersion, base: theirs });
+          },
+        });
+        return;
+      }
       console.error("Update mutation error:", error);
       const errorMessage = error?.response?.data?.error || error?.message || "Failed to update case study";
       toast({ title: errorMessage, variant: "destructive" });
@@ -180,7 +231,7 @@ export default function CaseStudyManager() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/case-studies"] });
-      toast({ title: "Case study deleted successfully" });
+      toast({ title: "Case study moved to the trash" });
     },
     onError: (error: any) => {
       console.error("Delete mutation error:", error);
@@ -205,8 +256,8 @@ export default function CaseStudyManager() {
   });
 
   const reorderMutation = useMutation({
-    mutationFn: async (reorderedStudies: { id: number; displayOrder: number }[]) => {
-      return apiRequest("PATCH", "/api/admin/case-studies/reorder", { studies: reorderedStudies });
+    mutationFn: async (orderedIds: number[]) => {
+      return bulkRequest("case-studies", { action: "reorder", ids: orderedIds });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/case-studies"] });
@@ -220,32 +271,17 @@ export default function CaseStudyManager() {
   });
 
   const handleEdit = (caseStudy: CaseStudy) => {
+    const data = toFormData(caseStudy);
     setEditingId(caseStudy.id);
-    setFormData({
-      title: caseStudy.title,
-      subtitle: caseStudy.subtitle || "",
-      challenge: caseStudy.challenge,
-      approach: caseStudy.approach,
-      solution: caseStudy.solution,
-      impact: caseStudy.impact,
-      metrics: caseStudy.metrics.join(", "),
-      technologies: caseStudy.technologies.join(", "),
-      status: caseStudy.status,
-      featured: caseStudy.featured,
-
-      externalUrl: caseStudy.externalUrl || "",
-      clientName: caseStudy.clientName || "",
-      projectDuration: caseStudy.projectDuration || "",
-      teamSize: caseStudy.teamSize || "",
-      slug: caseStudy.slug,
-    });
+    setFormData(data);
+    setLoaded({ version: caseStudy.version, base: data });
     setIsDialogOpen(true);
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (editingId) {
-      updateMutation.mutate({ id: editingId, data: formData });
+      updateMutation.mutate({ id: editingId, data: formData, version: loaded?.version });
     } else {
       createMutation.mutate(formData);
     }
@@ -267,14 +303,23 @@ export default function CaseStudyManager() {
     [reorderedStudies[currentIndex], reorderedStudies[newIndex]] = 
     [reorderedStudies[newIndex], reorderedStudies[currentIndex]];
 
-    const updates = reorderedStudies.map((study, index) => ({
-      id: study.id,
-      displayOrder: index
-    }));
+    reorderMutation.mutate(reorderedStudies.map((study) => study.id));
+  };
 
-    reorderMutation.mutate(updates);
+  // Applied to the whole selection or not at all; failures throw with the per-item report
+  const runBulk = async (operation: Record<string, unknown>, done: string) => {
+    const report = await bulkRequest("case-studies", operation);
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/case-studies"] });
+    toast({ title: `${report.succeeded} case stud${report.succeeded === 1 ? "y" : "ies"} ${done}` });
   };
 
+  const bulkActions: BulkAction[] = [
+    { label: "Publish", icon: <Eye className="w-4 h-4" />, run: (ids) => runBulk({ action: "status", ids, status: "published" }, "published") },
+    { label: "Archive", icon: <EyeOff className="w-4 h-4" />, run: (ids) => runBulk({ action: "status", ids, status: "archived" }, "archived") },
+    { label: "Feature", icon: <Star className="w-4 h-4" />, run: (ids) => runBulk({ action: "feature", ids, featured: true }, "featured") },
+    { label: "Unfeature", run: (ids) => runBulk({ action: "feature", ids, featured: false }, "removed from featured") },
+  ];
+
   const generateSlug = (title: string) => {
     return title
       .toLowerCase()
@@ -304,6 +349,7 @@ export default function CaseStudyManager() {
 
   return (
     <div className="space-y-6">
+      {conflictDialog}
       <div className="flex justify-between items-center">
         <div>
           <h2 className="text-2xl font-bold">Case Studies Management</h2>
@@ -524,6 +570,17 @@ export default function CaseStudyManager() {
         </Dialog>
       </div>
 
+      <BulkOperations
+        items={caseStudies ?? []}
+        selectedItems={selected}
+        onSelectionChange={setSelected}
+        onBulkDelete={(ids) => runBulk({ action: "delete", ids }, "moved to the trash")}
+        actions={bulkActions}
+        exportUrl="/api/admin/export/case-studies"
+        getItemId={(caseStudy) => caseStudy.id}
+        getItemName={(caseStudy) => caseStudy.title}
+      />
+
       <div className="grid gap-4">
         {caseStudies?.sort((a, b) => a.displayOrder - b.displayOrder).map((caseStudy) => (
           <Card key={caseStudy.id} className="hover:shadow-md transition-shadow">
@@ -531,6 +588,7 @@ export default function CaseStudyManager() {
               <div className="flex justify-between items-start">
                 <div className="flex-1">
                   <div className="flex items-center gap-2 mb-2">
+                    <ItemSelection itemId={caseStudy.id} selectedItems={selected} onSelectionChange={setSelected} />
                     <CardTitle className="text-lg">{caseStudy.title}</CardTitle>
                     {caseStudy.featured && (
                       <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">
@@ -544,6 +602,8 @@ export default function CaseStudyManager() {
                     }>
                       {caseStudy.status}
                     </Badge>
+                    {caseStudy.publishAt && <Badge variant="outline">Publishes {new Date(caseStudy.publishAt).toLocaleString()}</Badge>}
+                    {caseStudy.unpublishAt && <Badge variant="outline">Unpublishes {new Date(caseStudy.unpublishAt).toLocaleString()}</Badge>}
                   </div>
                   {caseStudy.subtitle && (
                     <p className="text-sm text-gray-600 mb-2">{caseStudy.subtitle}</p>
@@ -584,6 +644,15 @@ export default function CaseStudyManager() {
                   >
                     <Star className={`w-4 h-4 ${caseStudy.featured ? 'fill-current text-yellow-500' : ''}`} />
                   </Button>
+                  <PublishScheduleDialog
+                    title={caseStudy.title}
+                    scheduleUrl={`/api/admin/case-studies/${caseStudy.id}/schedule`}
+                    publishAt={caseStudy.publishAt}
+                    unpublishAt={caseStudy.unpublishAt}
+                    publishHint="The case study is set to published at this time."
+                    unpublishHint="The case study is archived and leaves the public portfolio at this time."
+                    invalidate={["/api/admin/case-studies"]}
+                  />
                   <Button
                     size="sm"
                     variant="outline"
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -19,12 +19,20 @@ export default function ContactEnhanced() {
     message: ""
   });
   
+  // Bots tend to fill every field; real visitors never see this one
+  const [honeypot, setHoneypot] = useState("");
+  
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  // Signed form-load time; the server treats instant submissions as spam
+  const { data: formToken } = useQuery<{ token: string }>({
+    queryKey: ["/api/contact/form-token"],
+  });
+
   const mutation = useMutation({
     mutationFn: async (data: InsertContactSubmission) => {
-      return apiRequest("POST", "/api/contact", data);
+      return apiRequest("POST", "/api/contact", { ...data, website: honeypot, formToken: formToken?.token });
     },
     onSuccess: () => {
       toast({
@@ -32,7 +40,7 @@ export default function ContactEnhanced() {
         description: "Thank you for reaching out. I'll get back to you within 24 hours.",
       });
       setFormData({ name: "", email: "", company: "", projectType: "General Inquiry", message: "" });
-      queryClient.invalidateQueries({ queryKey: ["/api/contact"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/contact/form-token"] });
     },
     onError: (error) => {
       toast({
@@ -236,6 +244,18 @@ export default function ContactEnhanced() {
               </div>
               
               <form onSubmit={handleSubmit} className="space-y-6">
+                <div aria-hidden="true" className="absolute -left-[10000px] h-px w-px overflow-hidden">
+                  <label htmlFor="website">Website</label>
+                  <input
+                    id="website"
+                    name="website"
+                    type="text"
+                    tabIndex={-1}
+                    autoComplete="off"
+                    value={honeypot}
+                    onChange={(e) => setHoneypot(e.target.value)}
+                  />
+                </div>
                 <div className="grid md:grid-cols-2 gap-4">
                   <div>
                     <label htmlFor="name" className="block text-sm font-medium text-navy mb-2">
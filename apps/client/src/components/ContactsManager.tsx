@@ -0,0 +1,419 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { bulkRequest } from "@/lib/bulk";
+import { useToast } from "@/hooks/use-toast";
+import { useAdmin } from "@/hooks/useAdmin";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { BulkOperations, ItemSelection } from "@/components/BulkOperations";
+import { AlarmClock, MessageSquareText, Search, ShieldAlert, Users } from "lucide-react";
+import { contactStatuses, type ContactNoteView, type ContactStatus, type ContactSubmission } from "@shared/schema";
+
+type ContactView = "inbox" | "overdue" | "spam";
+
+const statusLabels: Record<ContactStatus, string> = {
+  new: "New",
+  replied: "Replied",
+  "in-discussion": "In discussion",
+  won: "Won",
+  closed: "Closed",
+  spam: "Spam",
+};
+
+const statusColors: Record<ContactStatus, string> = {
+  new: "bg-blue-100 text-blue-800",
+  replied: "bg-indigo-100 text-indigo-800",
+  "in-discussion": "bg-amber-100 text-amber-800",
+  won: "bg-green-100 text-green-800",
+  closed: "bg-gray-100 text-gray-700",
+  spam: "bg-red-100 text-red-800",
+};
+
+// Mirrors the server's rule: finished leads are never overdue
+const isOverdue = (submission: ContactSubmission) =>
+  submission.followUpAt !== null &&
+  new Date(submission.followUpAt) <= new Date() &&
+  !["won", "closed", "spam"].includes(submission.status);
+
+const listUrl = (params: Record<string, string | undefined>) => {
+  const search = new URLSearchParams(Object.entries(params).filter((entry): entry is [string, string] => !!entry[1]));
+  const query = search.toString();
+  return query ? `/api/admin/contact-submissions?${query}` : "/api/admin/contact-submissions";
+};
+
+const refreshContacts = () =>
+  queryClient.invalidateQueries({
+    predicate: (query) => typeof query.queryKey[0] === "string" && query.queryKey[0].startsWith("/api/admin/contact-submissions"),
+  });
+
+// The yyyy-mm-dd a date input wants, in local time
+const toDateInput = (value: Date | string | null) => {
+  if (!value) return "";
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().split("T")[0];
+};
+
+// Contact submissions as a lead pipeline: status, tags, assignee, follow-ups and notes
+export default function ContactsManager() {
+  const { toast } = useToast();
+  const { can } = useAdmin();
+  const [view, setView] = useState<ContactView>("inbox");
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [status, setStatus] = useState<ContactStatus | "all">("all");
+  const [mineOnly, setMineOnly] = useState(false);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [openId, setOpenId] = useState<number | null>(null);
+
+  const filtered = search !== "" || status !== "all" || mineOnly;
+  const { data: submissions = [], isLoading } = useQuery<ContactSubmission[]>({
+    queryKey: [
+      listUrl({
+        view: view === "inbox" ? undefined : view,
+        q: search || undefined,
+        status: status === "all" ? undefined : status,
+        assignee: mineOnly ? "me" : undefined,
+      }),
+    ],
+  });
+
+  // Unfiltered counts for the view switcher
+  const { data: inbox = [] } = useQuery<ContactSubmission[]>({ queryKey: ["/api/admin/contact-submissions"] });
+  const { data: overdue = [] } = useQuery<ContactSubmission[]>({ queryKey: ["/api/admin/contact-submissions?view=overdue"] });
+  const { data: spam = [] } = useQuery<ContactSubmission[]>({ queryKey: ["/api/admin/contact-submissions?view=spam"] });
+
+  const { data: assignees = [] } = useQuery<{ id: number; name: string }[]>({
+    queryKey: ["/api/admin/contact-submissions/assignees"],
+  });
+  const assigneeName = (id: number | null) => assignees.find((assignee) => assignee.id === id)?.name;
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, update }: { id: number; update: Record<string, unknown> }) =>
+      apiRequest("PATCH", `/api/admin/contact-submissions/${id}`, update),
+    onSuccess: () => refreshContacts(),
+    onError: (error: Error) => {
+      toast({ title: "Error updating submission", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleBulkDelete = async (ids: number[]) => {
+    await bulkRequest("contact-submissions", { action: "delete", ids });
+    refreshContacts();
+  };
+
+  const switchView = (next: ContactView) => {
+    setView(next);
+    setSelected(new Set());
+  };
+
+  const openSubmission = submissions.find((submission) => submission.id === openId) ?? null;
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <h2 className="text-xl font-bold text-navy mb-4">Contact Submissions</h2>
+      <p className="text-gray-600 mb-6">Track portfolio inquiries from first message to a decision</p>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <Button size="sm" variant={view === "inbox" ? "default" : "outline"} onClick={() => switchView("inbox")}>
+          Inbox ({inbox.length})
+        </Button>
+        <Button size="sm" variant={view === "overdue" ? "default" : "outline"} onClick={() => switchView("overdue")}>
+          <AlarmClock className="h-4 w-4 mr-1" />
+          Overdue ({overdue.length})
+        </Button>
+        <Button size="sm" variant={view === "spam" ? "default" : "outline"} onClick={() => switchView("spam")}>
+          <ShieldAlert className="h-4 w-4 mr-1" />
+          Spam ({spam.length})
+        </Button>
+      </div>
+
+      <form
+        className="flex flex-wrap items-center gap-2 mb-6"
+        onSubmit={(e) => {
+          e.preventDefault();
+          setSearch(searchInput.trim());
+        }}
+      >
+        <div className="relative flex-1 min-w-[220px]">
+          <Search className="h-4 w-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <Input
+            className="pl-9"
+            placeholder="Search names, messages, tags and notes"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+          />
+        </div>
+        <Select value={status} onValueChange={(value) => setStatus(value as ContactStatus | "all")}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any status</SelectItem>
+            {contactStatuses.map((value) => (
+              <SelectItem key={value} value={value}>{statusLabels[value]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="button" size="sm" variant={mineOnly ? "default" : "outline"} onClick={() => setMineOnly(!mineOnly)}>
+          Assigned to me
+        </Button>
+        <Button type="submit" size="sm" variant="outline">Search</Button>
+        {filtered && (
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            onClick={() => {
+              setSearchInput("");
+              setSearch("");
+              setStatus("all");
+              setMineOnly(false);
+            }}
+          >
+            Clear
+          </Button>
+        )}
+      </form>
+
+      <BulkOperations
+        items={submissions}
+        selectedItems={selected}
+        onSelectionChange={setSelected}
+        onBulkDelete={can("contacts:write") ? handleBulkDelete : undefined}
+        exportUrl={`/api/admin/export/contact-submissions?view=${view === "spam" ? "spam" : "inbox"}`}
+        getItemId={(submission) => submission.id}
+        getItemName={(submission) => `${submission.name} (${submission.email})`}
+      />
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500 py-6">Loading submissions...</p>
+      ) : submissions.length === 0 ? (
+        <div className="text-center py-12">
+          <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          {filtered ? (
+            <p className="text-gray-600">No submissions match these filters.</p>
+          ) : view === "spam" ? (
+            <>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No spam</h3>
+              <p className="text-gray-600">Submissions flagged by the spam filter are kept here for review.</p>
+            </>
+          ) : view === "overdue" ? (
+            <>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">Nothing overdue</h3>
+              <p className="text-gray-600">Open leads whose follow-up date has passed show up here.</p>
+            </>
+          ) : (
+            <>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No contacts yet</h3>
+              <p className="text-gray-600">Contact submissions will appear here when visitors reach out through your portfolio.</p>
+            </>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-4 mt-4">
+          {submissions.map((submission) => (
+            <Card key={submission.id}>
+              <CardContent className="p-4">
+                <div className="flex justify-between items-start gap-4">
+                  <div className="flex items-center gap-3">
+                    <ItemSelection itemId={submission.id} selectedItems={selected} onSelectionChange={setSelected} />
+                    <div>
+                      <h3 className="font-semibold text-navy">{submission.name}</h3>
+                      <p className="text-sm text-gray-600">{submission.email}</p>
+                      <p className="text-sm text-gray-500 mt-1">{submission.company}</p>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap items-center justify-end gap-2">
+                    <span className="px-2 py-1 bg-blue-100 text-blue-800 rounded-full text-xs">{submission.projectType}</span>
+                    {can("contacts:write") ? (
+                      <Select
+                        value={submission.status}
+                        onValueChange={(value) => updateMutation.mutate({ id: submission.id, update: { status: value } })}
+                      >
+                        <SelectTrigger className="h-8 w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {contactStatuses.map((value) => (
+                            <SelectItem key={value} value={value}>{statusLabels[value]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <span className={`px-2 py-1 rounded-full text-xs ${statusColors[submission.status as ContactStatus]}`}>
+                        {statusLabels[submission.status as ContactStatus]}
+                      </span>
+                    )}
+                    <Button size="sm" variant="outline" onClick={() => setOpenId(submission.id)}>
+                      <MessageSquareText className="h-4 w-4 mr-1" />
+                      Details
+                    </Button>
+                  </div>
+                </div>
+                <p className="mt-3 text-gray-700 line-clamp-3">{submission.message}</p>
+                {submission.isSpam && (
+                  <div className="mt-3 rounded-md bg-red-50 border border-red-100 p-3 text-sm text-red-800">
+                    <p className="font-medium">Spam score {submission.spamScore}</p>
+                    {submission.spamReasons && submission.spamReasons.length > 0 && (
+                      <ul className="list-disc list-inside mt-1">
+                        {submission.spamReasons.map((reason) => (
+                          <li key={reason}>{reason}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+                <div className="flex flex-wrap items-center gap-2 mt-3 text-xs text-gray-500">
+                  <span>{new Date(submission.submittedAt).toLocaleDateString()}</span>
+                  {submission.assigneeId && <span>· {assigneeName(submission.assigneeId) ?? "Assigned"}</span>}
+                  {submission.followUpAt && (
+                    <Badge variant={isOverdue(submission) ? "destructive" : "outline"}>
+                      Follow up {new Date(submission.followUpAt).toLocaleDateString()}
+                    </Badge>
+                  )}
+                  {submission.tags.map((tag) => (
+                    <Badge key={tag} variant="secondary">{tag}</Badge>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {openSubmission && (
+        <ContactDetailsDialog
+          submission={openSubmission}
+          assignees={assignees}
+          canWrite={can("contacts:write")}
+          onClose={() => setOpenId(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+interface ContactDetailsDialogProps {
+  submission: ContactSubmission;
+  assignees: { id: number; name: string }[];
+  canWrite: boolean;
+  onClose: () => void;
+}
+
+function ContactDetailsDialog({ submission, assignees, canWrite, onClose }: ContactDetailsDialogProps) {
+  const { toast } = useToast();
+  const [tags, setTags] = useState(submission.tags.join(", "));
+  const [assigneeId, setAssigneeId] = useState(submission.assigneeId ? String(submission.assigneeId) : "none");
+  const [followUp, setFollowUp] = useState(toDateInput(submission.followUpAt));
+  const [note, setNote] = useState("");
+
+  const notesKey = `/api/admin/contact-submissions/${submission.id}/notes`;
+  const { data: notes = [] } = useQuery<ContactNoteView[]>({ queryKey: [notesKey] });
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("PATCH", `/api/admin/contact-submissions/${submission.id}`, {
+        tags: tags.split(",").map((tag) => tag.trim()).filter(Boolean),
+        assigneeId: assigneeId === "none" ? null : Number(assigneeId),
+        followUpAt: followUp ? new Date(`${followUp}T09:00:00`).toISOString() : null,
+      }),
+    onSuccess: () => {
+      refreshContacts();
+      toast({ title: "Lead updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error updating lead", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const noteMutation = useMutation({
+    mutationFn: () => apiRequest("POST", notesKey, { body: note }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [notesKey] });
+      setNote("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error adding note", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{submission.name}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="text-sm text-gray-600">
+            {submission.email}
+            {submission.company && ` · ${submission.company}`} · {submission.projectType}
+          </div>
+          <p className="whitespace-pre-wrap text-gray-800 rounded-md bg-gray-50 border p-3">{submission.message}</p>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="contact-tags">Tags</Label>
+              <Input id="contact-tags" placeholder="recruiter, fintech" value={tags} disabled={!canWrite} onChange={(e) => setTags(e.target.value)} />
+            </div>
+            <div>
+              <Label>Assignee</Label>
+              <Select value={assigneeId} onValueChange={setAssigneeId} disabled={!canWrite}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Unassigned</SelectItem>
+                  {assignees.map((assignee) => (
+                    <SelectItem key={assignee.id} value={String(assignee.id)}>{assignee.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="contact-follow-up">Follow up on</Label>
+              <Input id="contact-follow-up" type="date" value={followUp} disabled={!canWrite} onChange={(e) => setFollowUp(e.target.value)} />
+            </div>
+          </div>
+          {canWrite && (
+            <Button size="sm" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+              Save lead details
+            </Button>
+          )}
+
+          <div className="space-y-2">
+            <h4 className="font-semibold text-sm">Internal notes</h4>
+            {notes.length === 0 ? (
+              <p className="text-sm text-gray-500">No notes yet.</p>
+            ) : (
+              <div className="divide-y border rounded-md">
+                {notes.map((entry) => (
+                  <div key={entry.id} className="p-3">
+                    <p className="text-xs text-gray-500">
+                      {entry.authorName ?? "Former user"} · {new Date(entry.createdAt).toLocaleString()}
+                    </p>
+                    <p className="text-sm whitespace-pre-wrap mt-1">{entry.body}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+            {canWrite && (
+              <>
+                <Textarea placeholder="Add a note for the team" value={note} onChange={(e) => setNote(e.target.value)} rows={3} />
+                <Button size="sm" variant="outline" onClick={() => noteMutation.mutate()} disabled={!note.trim() || noteMutation.isPending}>
+                  Add note
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,184 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAdmin } from "@/hooks/useAdmin";
+import { useConfirmationDialog } from "@/components/ConfirmationDialog";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { History, RotateCcw } from "lucide-react";
+import type { ContentVersion } from "@shared/schema";
+import { sectionDraftUrl } from "./SectionPublishBar";
+
+interface ContentChange {
+  path: string;
+  kind: "added" | "removed" | "changed";
+  before: unknown;
+  after: unknown;
+}
+
+interface VersionDiff {
+  sectionId: string;
+  from: { id: number; version: number };
+  to: { id: number; version: number };
+  changes: ContentChange[];
+}
+
+const kindStyles: Record<ContentChange["kind"], string> = {
+  added: "bg-green-100 text-green-800",
+  removed: "bg-red-100 text-red-800",
+  changed: "bg-amber-100 text-amber-800",
+};
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined) return "—";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 200 ? `${text.slice(0, 200)}…` : text;
+}
+
+// Saved versions of a content section, a field-level diff between any two and restore
+export default function ContentHistoryPanel({ sectionId }: { sectionId: string }) {
+  const { toast } = useToast();
+  const { can } = useAdmin();
+  const { dialog, openDialog } = useConfirmationDialog();
+  const [fromVersion, setFromVersion] = useState<string>("");
+  const [toVersion, setToVersion] = useState<string>("");
+
+  const versionsUrl = `/api/admin/content/versions/${sectionId}`;
+  const { data: versions = [], isLoading } = useQuery<ContentVersion[]>({
+    queryKey: [versionsUrl],
+  });
+
+  // Start by comparing the latest save with the one before it
+  useEffect(() => {
+    setFromVersion(versions[1] ? String(versions[1].version) : "");
+    setToVersion(versions[0] ? String(versions[0].version) : "");
+  }, [sectionId, versions]);
+
+  const diffUrl = `${versionsUrl}/diff?from=${fromVersion}&to=${toVersion}`;
+  const { data: diff, isFetching: diffLoading } = useQuery<VersionDiff>({
+    queryKey: [diffUrl],
+    enabled: !!fromVersion && !!toVersion && fromVersion !== toVersion,
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: (version: ContentVersion) =>
+      apiRequest("POST", `/api/admin/content/${sectionId}/rollback/${version.id}`),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: [versionsUrl] });
+      queryClient.invalidateQueries({ queryKey: [sectionDraftUrl(sectionId)] });
+      toast({ title: "Version restored", description: `${data.message} (saved as version ${data.version})` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Restore failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const confirmRollback = (version: ContentVersion) => {
+    openDialog({
+      title: `Restore version ${version.version}?`,
+      description: "Its content becomes the section's draft as a new version. Later versions stay in the history; publish the draft to make it live.",
+      confirmText: "Restore",
+      onConfirm: () => rollbackMutation.mutate(version),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <History className="h-5 w-5" />
+          Version History
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading history...</p>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-gray-500">No saved versions yet. Every save from now on is recorded here.</p>
+        ) : (
+          <>
+            <div className="border rounded-md divide-y max-h-64 overflow-y-auto">
+              {versions.map((version, index) => (
+                <div key={version.id} className="flex items-center justify-between p-2 text-sm">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={index === 0 ? "default" : "outline"}>v{version.version}</Badge>
+                    {version.publishedAt && <Badge variant="secondary">published</Badge>}
+                    <span>{version.changeSummary || "Content updated"}</span>
+                    <span className="text-gray-500">
+                      {version.createdBy} · {version.createdAt ? new Date(version.createdAt).toLocaleString() : ""}
+                    </span>
+                  </div>
+                  {index > 0 && can("content:write") && (
+                    <Button size="sm" variant="outline" disabled={rollbackMutation.isPending} onClick={() => confirmRollback(version)}>
+                      <RotateCcw className="h-3 w-3 mr-1" />
+                      Restore
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {versions.length > 1 && (
+              <div className="space-y-3">
+                <div className="flex items-center gap-2 text-sm">
+                  <span>Compare</span>
+                  <Select value={fromVersion} onValueChange={setFromVersion}>
+                    <SelectTrigger className="w-28"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {versions.map((version) => (
+                        <SelectItem key={version.id} value={String(version.version)}>v{version.version}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <span>with</span>
+                  <Select value={toVersion} onValueChange={setToVersion}>
+                    <SelectTrigger className="w-28"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {versions.map((version) => (
+                        <SelectItem key={version.id} value={String(version.version)}>v{version.version}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {fromVersion === toVersion ? (
+                  <p className="text-sm text-gray-500">Pick two different versions to compare.</p>
+                ) : diffLoading || !diff ? (
+                  <p className="text-sm text-gray-500">Comparing...</p>
+                ) : diff.changes.length === 0 ? (
+                  <p className="text-sm text-gray-500">No differences between these versions.</p>
+                ) : (
+                  <table className="w-full text-sm border rounded-md">
+                    <thead className="bg-gray-50 text-left">
+                      <tr>
+                        <th className="p-2">Field</th>
+                        <th className="p-2">v{diff.from.version}</th>
+                        <th className="p-2">v{diff.to.version}</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {diff.changes.map((change) => (
+                        <tr key={change.path} className="align-top">
+                          <td className="p-2 font-mono text-xs">
+                            <span className={`px-1 rounded mr-1 ${kindStyles[change.kind]}`}>{change.kind}</span>
+                            {change.path}
+                          </td>
+                          <td className="p-2 break-all text-gray-600">{formatValue(change.before)}</td>
+                          <td className="p-2 break-all">{formatValue(change.after)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+      {dialog}
+    </Card>
+  );
+}
@@ -0,0 +1,171 @@
+import { useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAdmin } from "@/hooks/useAdmin";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Download, Upload, FileJson } from "lucide-react";
+
+interface SectionReconciliation {
+  sectionId: string;
+  action: "import" | "unchanged" | "conflict" | "database_only";
+  resolution: "published" | "unchanged" | "draft_created" | "kept_existing_draft" | "left_alone";
+  changes: { path: string; kind: string }[];
+  hasDraft: boolean;
+}
+
+interface ImportReport {
+  dryRun: boolean;
+  sections: SectionReconciliation[];
+  summary: { import: number; unchanged: number; conflict: number; database_only: number };
+  invalid: { sectionId: string; issues: { path: string; message: string }[] }[];
+}
+
+const resolutionLabels: Record<SectionReconciliation["resolution"], string> = {
+  published: "published from file",
+  unchanged: "unchanged",
+  draft_created: "file copy saved as draft",
+  kept_existing_draft: "differs; existing draft kept",
+  left_alone: "not in file",
+};
+
+// Export the live content as a JSON file, or import one after reviewing what it would change
+export default function ContentTransferPanel() {
+  const { toast } = useToast();
+  const { can } = useAdmin();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<{ name: string; content: Record<string, unknown> } | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch("/api/admin/content/export", { credentials: "include" });
+      if (!response.ok) throw new Error("Export failed");
+      return response.blob();
+    },
+    onSuccess: (blob) => {
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `portfolio-content-${new Date().toISOString().split("T")[0]}.json`;
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      window.URL.revokeObjectURL(url);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Export failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: (variables: { content: Record<string, unknown>; dryRun: boolean }): Promise<ImportReport> =>
+      apiRequest("POST", "/api/admin/content/import", variables),
+    onSuccess: (result) => {
+      setReport(result);
+      if (!result.dryRun) {
+        setPending(null);
+        queryClient.invalidateQueries({ queryKey: ["/api/admin/content/sections"] });
+        queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/content/drafts/") });
+        toast({ title: "Content imported", description: `${result.summary.import} sections published, ${result.summary.conflict} conflicts` });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const content = JSON.parse(await file.text());
+      setPending({ name: file.name, content });
+      importMutation.mutate({ content, dryRun: true });
+    } catch {
+      toast({ title: "Not a JSON file", description: file.name, variant: "destructive" });
+    } finally {
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <FileJson className="h-5 w-5" />
+          Import / Export
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Content lives in the database. The JSON file is a copy for backups and for moving content between environments; importing one never replaces live content, sections that differ become drafts.
+        </p>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" disabled={exportMutation.isPending} onClick={() => exportMutation.mutate()}>
+            <Download className="h-4 w-4 mr-1" />
+            {exportMutation.isPending ? "Exporting..." : "Export JSON"}
+          </Button>
+          {can("content:write") && (
+            <>
+              <input ref={fileInput} type="file" accept="application/json,.json" className="hidden" onChange={(e) => handleFile(e.target.files?.[0])} />
+              <Button variant="outline" size="sm" disabled={importMutation.isPending} onClick={() => fileInput.current?.click()}>
+                <Upload className="h-4 w-4 mr-1" />
+                Import JSON
+              </Button>
+            </>
+          )}
+        </div>
+
+        {report && (
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant={report.dryRun ? "secondary" : "default"}>{report.dryRun ? `Preview of ${pending?.name ?? "file"}` : "Imported"}</Badge>
+              <Badge variant="outline">{report.summary.import} to publish</Badge>
+              <Badge variant="outline">{report.summary.unchanged} unchanged</Badge>
+              <Badge variant={report.summary.conflict > 0 ? "destructive" : "outline"}>{report.summary.conflict} conflicts</Badge>
+              {report.invalid.length > 0 && <Badge variant="destructive">{report.invalid.length} invalid, skipped</Badge>}
+            </div>
+            <div className="border rounded-md divide-y text-sm">
+              {report.sections.map((section) => (
+                <div key={section.sectionId} className="p-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-xs w-24">{section.sectionId}</span>
+                    <span>{resolutionLabels[section.resolution]}</span>
+                  </div>
+                  {section.action === "conflict" && (
+                    <p className="text-xs text-gray-500 ml-24 mt-1">{section.changes.map((change) => change.path).join(", ")}</p>
+                  )}
+                </div>
+              ))}
+              {report.invalid.map((entry) => (
+                <div key={`invalid-${entry.sectionId}`} className="p-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-xs w-24">{entry.sectionId}</span>
+                    <span className="text-red-600">fails validation; skipped</span>
+                  </div>
+                  <ul className="text-xs text-gray-500 ml-24 mt-1">
+                    {entry.issues.map((issue, index) => (
+                      <li key={index}>{issue.path || "section"}: {issue.message}</li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+            {report.dryRun && pending && (
+              <div className="flex gap-2">
+                <Button size="sm" disabled={importMutation.isPending} onClick={() => importMutation.mutate({ content: pending.content, dryRun: false })}>
+                  {importMutation.isPending ? "Importing..." : "Apply import"}
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => { setPending(null); setReport(null); }}>
+                  Cancel
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,79 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ShieldCheck, RefreshCw } from "lucide-react";
+
+interface SectionCheck {
+  sectionId: string;
+  name: string;
+  copy: "live" | "draft";
+  valid: boolean;
+  issues: { path: string; message: string; code: string }[];
+}
+
+interface ValidationReport {
+  checkedAt: string;
+  summary: { sections: number; checked: number; invalid: number };
+  results: SectionCheck[];
+}
+
+// Stored sections checked against the current section schemas
+export default function ContentValidationReport() {
+  const { data: report, isLoading, isFetching, refetch } = useQuery<ValidationReport>({
+    queryKey: ["/api/admin/content/validation"],
+  });
+
+  const failing = report?.results.filter((result) => !result.valid) ?? [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <ShieldCheck className="h-5 w-5" />
+          Content Validation
+        </CardTitle>
+        <Button variant="outline" size="sm" disabled={isFetching} onClick={() => refetch()}>
+          <RefreshCw className={`h-4 w-4 mr-1 ${isFetching ? "animate-spin" : ""}`} />
+          Re-check
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading || !report ? (
+          <p className="text-sm text-gray-500">Checking content...</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="outline">{report.summary.checked} copies checked</Badge>
+              <Badge variant={failing.length > 0 ? "destructive" : "default"}>
+                {failing.length > 0 ? `${failing.length} no longer conform` : "All content conforms"}
+              </Badge>
+              <span className="text-xs text-gray-500 self-center">
+                Checked {new Date(report.checkedAt).toLocaleString()}
+              </span>
+            </div>
+            {failing.length > 0 && (
+              <div className="border rounded-md divide-y text-sm">
+                {failing.map((result) => (
+                  <div key={`${result.sectionId}-${result.copy}`} className="p-2">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{result.name}</span>
+                      <Badge variant="secondary">{result.copy}</Badge>
+                    </div>
+                    <ul className="text-xs text-gray-600 mt-1 space-y-0.5">
+                      {result.issues.map((issue, index) => (
+                        <li key={index}>
+                          <span className="font-mono">{issue.path || "section"}</span>: {issue.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
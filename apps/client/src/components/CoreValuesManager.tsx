@@ -1,6 +1,8 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { queryClient } from "@/lib/queryClient";
+import { queryClient, csrfFetch } from "@/lib/queryClient";
+import { versionedRequest, VersionConflictError } from "@/lib/concurrency";
+import { useVersionConflictDialog } from "@/components/VersionConflictDialog";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -17,8 +19,16 @@ interface CoreValue {
   description: string;
   icon: string;
   orderIndex: number;
+  version: number;
 }
 
+const editableFields = ({ title, description, icon, orderIndex }: CoreValue) => ({
+  title,
+  description,
+  icon,
+  orderIndex,
+});
+
 const iconOptions = [
   { value: "target", label: "Target", icon: "🎯" },
   { value: "lightbulb", label: "Innovation", icon: "💡" },
@@ -34,6 +44,8 @@ const iconOptions = [
 
 export default function CoreValuesManager() {
   const [editingValue, setEditingValue] = useState<CoreValue | null>(null);
+  // The value as it was when editing started, for detecting concurrent saves
+  const [editBase, setEditBase] = useState<CoreValue | null>(null);
   const [newValue, setNewValue] = useState({
     title: "",
     description: "",
@@ -41,6 +53,7 @@ export default function CoreValuesManager() {
     orderIndex: 0
   });
   const { toast } = useToast();
+  const { dialog: conflictDialog, openConflict } = useVersionConflictDialog();
 
   const { data: coreValues = [], isLoading } = useQuery<CoreValue[]>({
     queryKey: ["/api/admin/core-values"],
@@ -48,7 +61,7 @@ export default function CoreValuesManager() {
 
   const createValueMutation = useMutation({
     mutationFn: async (valueData: typeof newValue) => {
-      const response = await fetch("/api/admin/core-values", {
+      const response = await csrfFetch("/api/admin/core-values", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(valueData),
@@ -73,14 +86,8 @@ export default function CoreValuesManager() {
   });
 
   const updateValueMutation = useMutation({
-    mutationFn: async ({ id, ...valueData }: CoreValue) => {
-      const response = await fetch(`/api/admin/core-values/${id}`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(valueData),
-      });
-      if (!response.ok) throw new Error("Failed to update core value");
-      return response.json();
+    mutationFn: async (value: CoreValue) => {
+      return versionedRequest("PUT", `/api/admin/core-values/${value.id}`, editableFields(value), value.version);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/core-values"] });
@@ -88,14 +95,29 @@ export default function CoreValuesManager() {
       setEditingValue(null);
       toast({ title: "Success", description: "Core value updated successfully" });
     },
-    onError: (error: any) => {
+    onError: (error: any, variables) => {
+      if (error instanceof VersionConflictError && editBase) {
+        const current = error.current as CoreValue;
+        openConflict({
+          error,
+          base: editableFields(editBase),
+          mine: editableFields(variables),
+          theirs: editableFields(current),
+          onSave: (data, version) => {
+            setEditBase(current);
+            updateValueMutation.mutate({ ...variables, ...data, version });
+          },
+          onReload: () => startEdit(current),
+        });
+        return;
+      }
       toast({ title: "Error", description: error.message, variant: "destructive" });
     },
   });
 
   const deleteValueMutation = useMutation({
     mutationFn: async (id: number) => {
-      const response = await fetch(`/api/admin/core-values/${id}`, {
+      const response = await csrfFetch(`/api/admin/core-values/${id}`, {
         method: "DELETE",
       });
       if (!response.ok) throw new Error("Failed to delete core value");
@@ -104,7 +126,7 @@ export default function CoreValuesManager() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/core-values"] });
       queryClient.invalidateQueries({ queryKey: ["/api/portfolio/core-values"] });
-      toast({ title: "Success", description: "Core value deleted successfully" });
+      toast({ title: "Success", description: "Core value moved to the trash" });
     },
     onError: (error: any) => {
       toast({ title: "Error", description: error.message, variant: "destructive" });
@@ -119,6 +141,11 @@ export default function CoreValuesManager() {
     createValueMutation.mutate(newValue);
   };
 
+  const startEdit = (value: CoreValue) => {
+    setEditingValue(value);
+    setEditBase(value);
+  };
+
   const handleUpdateValue = () => {
     if (!editingValue || !editingValue.title.trim() || !editingValue.description.trim()) {
       toast({ title: "Error", description: "Title and description are required", variant: "destructive" });
@@ -145,6 +172,7 @@ export default function CoreValuesManager() {
 
   return (
     <div className="space-y-6">
+      {conflictDialog}
       <div className="flex items-center justify-between">
         <div>
           <h2 className="text-2xl font-bold text-gray-900">Core Values Management</h2>
@@ -321,7 +349,7 @@ export default function CoreValuesManager() {
                           <Button
                             size="sm"
                             variant="outline"
-                            onClick={() => setEditingValue(value)}
+                            onClick={() => startEdit(value)}
                           >
                             <Edit2 className="h-4 w-4" />
                           </Button>
@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAdmin } from "@/hooks/useAdmin";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Mail, RotateCcw, Send } from "lucide-react";
+import type { EmailStatus, OutboxEmail } from "@shared/schema";
+
+// Dates arrive as ISO strings over JSON
+type OutboxRow = Omit<OutboxEmail, "nextAttemptAt" | "sentAt" | "createdAt"> & {
+  nextAttemptAt: string;
+  sentAt: string | null;
+  createdAt: string;
+};
+
+interface EmailStatusInfo {
+  enabled: boolean;
+  from: string;
+  notifyTo: string[];
+  autoReply: boolean;
+}
+
+const kindLabels: Record<string, string> = {
+  contact_notification: "Notification",
+  contact_auto_reply: "Auto-reply",
+  test: "Test",
+};
+
+const statusVariants: Record<EmailStatus, "default" | "secondary" | "destructive"> = {
+  sent: "default",
+  pending: "secondary",
+  failed: "destructive",
+};
+
+const refreshOutbox = () => queryClient.invalidateQueries({ queryKey: ["/api/admin/email/outbox"] });
+
+// Contact notifications and auto-replies, with failed sends waiting for a retry
+export default function EmailOutbox() {
+  const { toast } = useToast();
+  const { can } = useAdmin();
+  const [testRecipient, setTestRecipient] = useState("");
+
+  const { data: status } = useQuery<EmailStatusInfo>({ queryKey: ["/api/admin/email/status"] });
+  const { data: emails = [], isLoading } = useQuery<OutboxRow[]>({
+    queryKey: ["/api/admin/email/outbox"],
+    refetchOnMount: "always",
+    refetchInterval: 60_000,
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (email: OutboxRow) => apiRequest("POST", `/api/admin/email/outbox/${email.id}/retry`),
+    onSuccess: () => {
+      refreshOutbox();
+      toast({ title: "Queued for another attempt" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (): Promise<OutboxRow> =>
+      apiRequest("POST", "/api/admin/email/test", testRecipient.trim() ? { to: testRecipient.trim() } : {}),
+    onSuccess: (email) => {
+      refreshOutbox();
+      if (email.status === "sent") {
+        toast({ title: "Test email sent", description: `Sent to ${email.recipient}` });
+      } else {
+        toast({ title: "Test email not sent yet", description: email.lastError ?? "It is queued and will be retried", variant: "destructive" });
+      }
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const failed = emails.filter((email) => email.status === "failed").length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="h-5 w-5" />
+          Email
+          {failed > 0 && <Badge variant="destructive">{failed} failed</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {status && !status.enabled ? (
+          <p className="text-sm text-gray-600">
+            Email is off. Set SMTP_URL, and CONTACT_NOTIFY_TO for notifications, to hear about new contact submissions.
+          </p>
+        ) : (
+          status && (
+            <p className="text-sm text-gray-600">
+              Sending as {status.from}.{" "}
+              {status.notifyTo.length > 0 ? `New submissions are sent to ${status.notifyTo.join(", ")}.` : "No notification recipients are set."}{" "}
+              Auto-replies are {status.autoReply ? "on" : "off"}.
+            </p>
+          )
+        )}
+
+        {status?.enabled && can("system:manage") && (
+          <div className="flex gap-2">
+            <Input
+              type="email"
+              placeholder="Send a test to (defaults to your address)"
+              value={testRecipient}
+              onChange={(e) => setTestRecipient(e.target.value)}
+              className="max-w-sm"
+            />
+            <Button variant="outline" onClick={() => testMutation.mutate()} disabled={testMutation.isPending}>
+              <Send className="h-4 w-4 mr-2" />
+              {testMutation.isPending ? "Sending..." : "Send test"}
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading outbox...</p>
+        ) : emails.length === 0 ? (
+          <p className="text-sm text-gray-500">No emails yet.</p>
+        ) : (
+          <div className="divide-y border rounded-md">
+            {emails.map((email) => (
+              <div key={email.id} className="flex items-start justify-between gap-4 p-3">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">
+                    <Badge variant={statusVariants[email.status as EmailStatus] ?? "secondary"} className="mr-2">
+                      {email.status}
+                    </Badge>
+                    {email.subject}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {kindLabels[email.kind] ?? email.kind} to {email.recipient} · queued {new Date(email.createdAt).toLocaleString()}
+                    {email.sentAt && ` · sent ${new Date(email.sentAt).toLocaleString()}`}
+                    {email.status === "pending" && email.attempts > 0 && ` · next attempt ${new Date(email.nextAttemptAt).toLocaleString()}`}
+                    {email.attempts > 0 && ` · ${email.attempts} attempt(s)`}
+                  </p>
+                  {email.lastError && email.status !== "sent" && <p className="text-xs text-red-600 break-words">{email.lastError}</p>}
+                </div>
+                {email.status !== "sent" && can("contacts:write") && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="shrink-0"
+                    onClick={() => retryMutation.mutate(email)}
+                    disabled={retryMutation.isPending}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Retry now
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,9 +9,13 @@ import { Label } from "@/components/ui/label";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
+import { versionedRequest, VersionConflictError } from "@/lib/concurrency";
+import { useVersionConflictDialog } from "@/components/VersionConflictDialog";
 import { Save, RefreshCw, AlertCircle, CheckCircle, Quote, User, Briefcase } from "lucide-react";
 import ConsolidatedTextEditor from "./ConsolidatedTextEditor";
 import EnhancedHeroManager from "./EnhancedHeroManager";
+import ContentHistoryPanel from "./ContentHistoryPanel";
+import SectionPublishBar, { sectionDraftUrl, type SectionDraftState } from "./SectionPublishBar";
 
 interface HeroContent {
   headline: string;
@@ -33,6 +37,8 @@ interface ContentData {
   about: AboutContent;
 }
 
+type SectionName = keyof ContentData;
+
 const defaultContentData: ContentData = {
   hero: {
     headline: "AI Product Leader &",
@@ -55,64 +61,78 @@ export default function EnhancedContentManager() {
   const [hasChanges, setHasChanges] = useState(false);
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
   const [activeTab, setActiveTab] = useState("hero");
+  // Each section as loaded, and its version, for detecting concurrent saves
+  const [loaded, setLoaded] = useState<Partial<Record<SectionName, { version?: number; base: any }>>>({});
+  const { dialog: conflictDialog, openConflict } = useVersionConflictDialog();
 
-  // Fetch hero content
-  const { data: heroData, isLoading: heroLoading } = useQuery<HeroContent>({
-    queryKey: ['/api/portfolio/content/hero'],
+  // Editors work on the section drafts, falling back to the live content
+  const { data: heroData, isLoading: heroLoading } = useQuery<SectionDraftState>({
+    queryKey: [sectionDraftUrl('hero')],
     refetchInterval: 30000
   });
 
   // Fetch about content with extended fields
-  const { data: aboutData, isLoading: aboutLoading } = useQuery<AboutContent>({
-    queryKey: ['/api/portfolio/content/about'],
+  const { data: aboutData, isLoading: aboutLoading } = useQuery<SectionDraftState>({
+    queryKey: [sectionDraftUrl('about')],
     refetchInterval: 30000
   });
 
+  const loadSection = (section: SectionName, content: any, version?: number) => {
+    setContentData(prev => ({ ...prev, [section]: content }));
+    setLoaded(prev => ({ ...prev, [section]: { version, base: content } }));
+  };
+
   // Initialize content when data loads
   useEffect(() => {
     if (heroData) {
-      setContentData(prev => ({ ...prev, hero: heroData }));
+      loadSection('hero', heroData.content, heroData.version ?? undefined);
       setHasChanges(false);
     }
   }, [heroData]);
 
   useEffect(() => {
     if (aboutData) {
-      setContentData(prev => ({ ...prev, about: aboutData }));
+      loadSection('about', aboutData.content, aboutData.version ?? undefined);
       setHasChanges(false);
     }
   }, [aboutData]);
 
   // Save content mutation with comprehensive cache invalidation
   const saveMutation = useMutation({
-    mutationFn: async ({ section, data }: { section: string, data: HeroContent | AboutContent }) => {
-      const response = await fetch(`/api/portfolio/content/${section}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(data),
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Failed to save ${section} content`);
-      }
-      
-      return response.json();
+    mutationFn: async ({ section, data, version }: { section: SectionName, data: HeroContent | AboutContent, version?: number }) => {
+      return versionedRequest('PUT', `/api/portfolio/content/${section}`, data, version);
     },
     onSuccess: (data, variables) => {
       // Invalidate all related queries for immediate update
-      queryClient.invalidateQueries({ queryKey: ['/api/portfolio/content/hero'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/portfolio/content/about'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/portfolio'] });
+      queryClient.invalidateQueries({ queryKey: [sectionDraftUrl(variables.section)] });
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/content/versions/${variables.section}`] });
       
       setHasChanges(false);
       setLastSaved(new Date());
       
       toast({
-        title: "Content saved successfully",
-        description: `${variables.section} section updated and live on portfolio`,
+        title: "Draft saved",
+        description: `${variables.section} draft saved. Publish it to make it live.`,
       });
     },
     onError: (error: Error, variables) => {
+      const base = loaded[variables.section]?.base;
+      if (error instanceof VersionConflictError && base) {
+        const theirs = error.current.content;
+        openConflict({
+          error,
+          base,
+          mine: variables.data,
+          theirs,
+          onSave: (data, version) => {
+            setContentData(prev => ({ ...prev, [variables.section]: data }));
+            setLoaded(prev => ({ ...prev, [variables.section]: { version, base: theirs } }));
+            saveMutation.mutate({ section: variables.section, data: data as HeroContent | AboutContent, version });
+          },
+          onReload: () => loadSection(variables.section, theirs, error.currentVersion),
+        });
+        return;
+      }
       toast({
         title: "Save failed",
         description: `Failed to update ${variables.section}: ${error.message}`,
@@ -143,19 +163,23 @@ export default function EnhancedContentManager() {
     setHasChanges(true);
   };
 
-  const handleSaveSection = async (sectionName: 'hero' | 'about') => {
-    if (sectionName === 'hero') {
-      await saveMutation.mutateAsync({ section: sectionName, data: contentData.hero });
-    } else if (sectionName === 'about') {
-      await saveMutation.mutateAsync({ section: sectionName, data: contentData.about });
+  const handleSaveSection = async (sectionName: SectionName) => {
+    try {
+      await saveMutation.mutateAsync({
+        section: sectionName,
+        data: contentData[sectionName],
+        version: loaded[sectionName]?.version,
+      });
+    } catch (error) {
+      // Handled by the mutation
     }
   };
 
   const handleSaveAll = async () => {
     try {
       await Promise.all([
-        saveMutation.mutateAsync({ section: 'hero', data: contentData.hero }),
-        saveMutation.mutateAsync({ section: 'about', data: contentData.about })
+        saveMutation.mutateAsync({ section: 'hero', data: contentData.hero, version: loaded.hero?.version }),
+        saveMutation.mutateAsync({ section: 'about', data: contentData.about, version: loaded.about?.version })
       ]);
     } catch (error) {
       // Individual errors are handled by the mutation
@@ -175,6 +199,7 @@ export default function EnhancedContentManager() {
 
   return (
     <div className="space-y-6">
+      {conflictDialog}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
         <TabsList className="grid w-full grid-cols-2">
           <TabsTrigger value="hero" className="flex items-center gap-2">
@@ -295,6 +320,10 @@ export default function EnhancedContentManager() {
           </Card>
         </TabsContent>
       </Tabs>
+
+      <SectionPublishBar sectionId={activeTab} />
+
+      <ContentHistoryPanel sectionId={activeTab} />
       
       <Separator />
       
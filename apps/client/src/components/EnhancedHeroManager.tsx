@@ -12,7 +12,9 @@ import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Plus, Minus, Save, Eye, Sparkles, TrendingUp, Award, Users, Target, DollarSign, Star, Crown } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { versionedRequest, VersionConflictError } from "@/lib/concurrency";
+import { useVersionConflictDialog } from "@/components/VersionConflictDialog";
+import { sectionDraftUrl, type SectionDraftState } from "./SectionPublishBar";
 import type { HeroContent } from "@shared/contentSchema";
 
 // Default hero content matching current live portfolio
@@ -97,41 +99,66 @@ export default function EnhancedHeroManager() {
   const queryClient = useQueryClient();
   const [heroContent, setHeroContent] = useState<HeroContent>(defaultHeroContent);
   const [isPreviewMode, setIsPreviewMode] = useState(false);
+  // The hero as loaded, and its version, for detecting concurrent saves
+  const [loaded, setLoaded] = useState<{ version?: number; base: HeroContent } | null>(null);
+  const { dialog: conflictDialog, openConflict } = useVersionConflictDialog();
 
-  // Fetch current hero content
-  const { data: currentHeroContent, isLoading } = useQuery<HeroContent>({
-    queryKey: ["/api/portfolio/content/hero"],
+  // Fetch the hero draft, or the live hero when there is none
+  const { data: currentHero, isLoading } = useQuery<SectionDraftState>({
+    queryKey: [sectionDraftUrl("hero")],
   });
 
   useEffect(() => {
-    if (currentHeroContent) {
-      setHeroContent({ ...defaultHeroContent, ...currentHeroContent });
+    if (currentHero?.content) {
+      const content = { ...defaultHeroContent, ...(currentHero.content as HeroContent) };
+      setHeroContent(content);
+      setLoaded({ version: currentHero.version ?? undefined, base: content });
     }
-  }, [currentHeroContent]);
+  }, [currentHero]);
 
   // Save hero content mutation
   const saveMutation = useMutation({
-    mutationFn: async (content: HeroContent) => {
-      return apiRequest("POST", "/api/admin/content/hero", content);
+    mutationFn: async ({ content, version }: { content: HeroContent; version?: number }) => {
+      return versionedRequest("POST", "/api/admin/content/hero", content, version);
     },
     onSuccess: () => {
       toast({
-        title: "Hero content saved",
-        description: "Hero section has been updated successfully.",
+        title: "Hero draft saved",
+        description: "Publish it to make the changes live.",
       });
-      queryClient.invalidateQueries({ queryKey: ["/api/portfolio/content/hero"] });
+      queryClient.invalidateQueries({ queryKey: [sectionDraftUrl("hero")] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/content/versions/hero"] });
     },
-    onError: () => {
+    onError: (error: Error, variables) => {
+      if (error instanceof VersionConflictError && loaded) {
+        const theirs = { ...defaultHeroContent, ...(error.current.content as HeroContent) };
+        openConflict({
+          error,
+          base: loaded.base,
+          mine: variables.content,
+          theirs,
+          onSave: (data, version) => {
+            setHeroContent(data as HeroContent);
+            setLoaded({ version, base: theirs });
+            saveMutation.mutate({ content: data as HeroContent, version });
+          },
+          onReload: () => {
+            setHeroContent(theirs);
+            setLoaded({ version: error.currentVersion, base: theirs });
+          },
+        });
+        return;
+      }
       toast({
         title: "Error saving hero content",
-        description: "Please try again.",
+        description: error.message,
         variant: "destructive",
       });
     },
   });
 
   const handleSave = () => {
-    saveMutation.mutate(heroContent);
+    saveMutation.mutate({ content: heroContent, version: loaded?.version });
   };
 
   const updateAchievementCard = (index: number, field: string, value: string) => {
@@ -191,6 +218,7 @@ export default function EnhancedHeroManager() {
 
   return (
     <div className="space-y-6">
+      {conflictDialog}
       <div className="flex items-center justify-between">
         <div>
           <h2 className="text-2xl font-bold text-navy">Enhanced Hero Management</h2>
@@ -16,7 +16,7 @@ import {
   FileUp,
   Trash2
 } from "lucide-react";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, csrfFetch, readApiError } from "@/lib/queryClient";
 
 interface Document {
   id: number;
@@ -84,7 +84,7 @@ export default function KnowledgeBaseManager() {
         });
       }, 200);
 
-      const response = await fetch("/api/admin/knowledge-base/upload", {
+      const response = await csrfFetch("/api/admin/knowledge-base/upload", {
         method: "POST",
         body: formData,
         credentials: "include",
@@ -93,7 +93,7 @@ export default function KnowledgeBaseManager() {
       clearInterval(progressInterval);
       setUploadProgress(100);
 
-      if (!response.ok) throw new Error("Upload failed");
+      if (!response.ok) throw new Error(await readApiError(response));
       
       setTimeout(() => setUploadProgress(0), 1000);
       return response.json();
@@ -101,8 +101,16 @@ export default function KnowledgeBaseManager() {
     onSuccess: (data) => {
       toast({
         title: "Files uploaded successfully",
-        description: `${data.uploadedCount} files uploaded and processing for AI integration.`,
+        description: `${data.queuedFiles?.length ?? 0} files uploaded and processing for AI integration.`,
       });
+      // Files whose content failed inspection were quarantined on the server
+      for (const rejected of data.rejectedFiles ?? []) {
+        toast({
+          title: `${rejected.originalName} was rejected`,
+          description: rejected.reason,
+          variant: "destructive",
+        });
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/admin/knowledge-base/documents"] });
       queryClient.invalidateQueries({ queryKey: ["/api/admin/knowledge-base/stats"] });
     },
@@ -124,7 +132,7 @@ export default function KnowledgeBaseManager() {
     onSuccess: () => {
       toast({
         title: "Document deleted",
-        description: "Document and its embeddings have been removed from the knowledge base.",
+        description: "The document was moved to the trash and no longer answers questions.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/admin/knowledge-base/documents"] });
       queryClient.invalidateQueries({ queryKey: ["/api/admin/knowledge-base/stats"] });
@@ -11,14 +11,28 @@ import { Badge } from "@/components/ui/badge";
 import { Trash2, Edit, Plus, Image, Eye, EyeOff, Upload } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { apiRequest } from "@/lib/queryClient";
+import { versionedRequest, VersionConflictError } from "@/lib/concurrency";
 import type { PortfolioImage, InsertPortfolioImage } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
+import { useVersionConflictDialog } from "@/components/VersionConflictDialog";
+
+const editableFields = ({ section, imageUrl, altText, caption, orderIndex, isActive }: PortfolioImage) => ({
+  section,
+  imageUrl,
+  altText,
+  caption,
+  orderIndex,
+  isActive,
+});
 
 
 export default function PortfolioImageManager() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [editingImage, setEditingImage] = useState<PortfolioImage | null>(null);
+  // The image as it was when editing started, for detecting concurrent saves
+  const [editBase, setEditBase] = useState<PortfolioImage | null>(null);
+  const { dialog: conflictDialog, openConflict } = useVersionConflictDialog();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [uploadMode, setUploadMode] = useState<"url" | "file">("file");
   const [isUploading, setIsUploading] = useState(false);
@@ -82,8 +96,8 @@ export default function PortfolioImageManager() {
   });
 
   const updateImageMutation = useMutation({
-    mutationFn: ({ id, ...image }: Partial<PortfolioImage> & { id: number }) =>
-      apiRequest(`/api/admin/portfolio-images/${id}`, "PUT", image),
+    mutationFn: (image: PortfolioImage) =>
+      versionedRequest("PUT", `/api/admin/portfolio-images/${image.id}`, editableFields(image), image.version),
     onSuccess: (data) => {
       // Invalidate all image-related caches
       queryClient.invalidateQueries({ queryKey: ["/api/admin/portfolio-images"] });
@@ -95,7 +109,22 @@ export default function PortfolioImageManager() {
       setEditingImage(null);
       toast({ title: "Image updated and portfolio refreshed successfully" });
     },
-    onError: (error: any) => {
+    onError: (error: any, variables) => {
+      if (error instanceof VersionConflictError && editBase) {
+        const current = error.current as PortfolioImage;
+        openConflict({
+          error,
+          base: editableFields(editBase),
+          mine: editableFields(variables),
+          theirs: editableFields(current),
+          onSave: (data, version) => {
+            setEditBase(current);
+            updateImageMutation.mutate({ ...variables, ...data, version });
+          },
+          onReload: () => startEdit(current),
+        });
+        return;
+      }
       console.error('Update image error:', error);
       
       // Extract detailed error message from API response
@@ -128,7 +157,7 @@ export default function PortfolioImageManager() {
       queryClient.invalidateQueries({ queryKey: ["/api/portfolio/images/profile"] });
       queryClient.invalidateQueries({ queryKey: ["/api/portfolio/images/background"] });
       
-      toast({ title: "Image deleted and portfolio refreshed successfully" });
+      toast({ title: "Image moved to the trash" });
     },
     onError: (error) => {
       console.error('Delete image error:', error);
@@ -213,6 +242,11 @@ export default function PortfolioImageManager() {
     createImageMutation.mutate(newImage);
   };
 
+  const startEdit = (image: PortfolioImage) => {
+    setEditingImage(image);
+    setEditBase(image);
+  };
+
   const handleUpdateImage = (image: PortfolioImage) => {
     // Validate required fields before sending
     if (!image.section?.trim()) {
@@ -303,6 +337,7 @@ export default function PortfolioImageManager() {
 
   return (
     <div className="space-y-6">
+      {conflictDialog}
       <div className="flex items-center justify-between">
         <div>
           <h2 className="text-2xl font-bold text-navy">Portfolio Images</h2>
@@ -542,7 +577,7 @@ export default function PortfolioImageManager() {
                             <Button
                               variant="outline"
                               size="sm"
-                              onClick={() => setEditingImage(image)}
+                              onClick={() => startEdit(image)}
                             >
                               <Edit className="w-4 h-4" />
                             </Button>
@@ -23,7 +23,7 @@ import {
   Award,
   Globe
 } from "lucide-react";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, csrfFetch } from "@/lib/queryClient";
 
 interface CaseStudy {
   id: number;
@@ -107,7 +107,7 @@ export default function PortfolioManager() {
   // Media upload mutation
   const uploadMediaMutation = useMutation({
     mutationFn: async (formData: FormData) => {
-      const response = await fetch("/api/admin/media/upload", {
+      const response = await csrfFetch("/api/admin/media/upload", {
         method: "POST",
         body: formData,
         credentials: "include",
@@ -61,7 +61,7 @@ export default function PortfolioMetricsManager() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/portfolio/metrics"] });
       queryClient.invalidateQueries({ queryKey: ["/api/admin/portfolio-metrics"] });
-      toast({ title: "Metric deleted successfully" });
+      toast({ title: "Metric moved to the trash" });
     },
   });
 
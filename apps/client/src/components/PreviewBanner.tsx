@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { queryClient, csrfFetch, readApiError } from "@/lib/queryClient";
+import { getPreviewToken, exitPreview } from "@/lib/preview";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Eye, Lock, X } from "lucide-react";
+
+interface PreviewLinkInfo {
+  label: string;
+  expiresAt: string;
+}
+
+class PreviewError extends Error {
+  constructor(message: string, public code?: string) {
+    super(message);
+  }
+}
+
+async function postPreview(url: string, body: unknown) {
+  return csrfFetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+// Marks a page opened from a draft preview link, and asks for the link's password when it has one
+export default function PreviewBanner() {
+  const token = getPreviewToken();
+  const [password, setPassword] = useState("");
+
+  const { data: link, error } = useQuery<PreviewLinkInfo, PreviewError>({
+    queryKey: ["preview-link", token],
+    queryFn: async () => {
+      const response = await postPreview("/api/preview/open", { token });
+      if (!response.ok) {
+        const body = await response.clone().json().catch(() => null);
+        throw new PreviewError(await readApiError(response), body?.error?.code);
+      }
+      return response.json();
+    },
+    enabled: !!token,
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: async () => {
+      const response = await postPreview("/api/preview/unlock", { token, password });
+      if (!response.ok) throw new Error(await readApiError(response));
+    },
+    onSuccess: () => {
+      setPassword("");
+      // Everything on the page was fetched before the link was unlocked
+      queryClient.invalidateQueries();
+    },
+  });
+
+  if (!token) {
+    return null;
+  }
+
+  const needsPassword = error?.code === "PREVIEW_PASSWORD_REQUIRED";
+
+  return (
+    <div className="fixed bottom-4 inset-x-4 z-50 mx-auto max-w-3xl rounded-lg bg-amber-500 text-white shadow-xl">
+      <div className="flex flex-wrap items-center gap-3 px-4 py-3 text-sm">
+        {needsPassword ? <Lock className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+        <span className="font-semibold uppercase tracking-wide">Preview</span>
+        {link && (
+          <span>
+            Unpublished drafts are shown. Shared with {link.label}, available until {new Date(link.expiresAt).toLocaleString()}.
+          </span>
+        )}
+        {error && !needsPassword && <span>{error.message}</span>}
+        {needsPassword && (
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              unlockMutation.mutate();
+            }}
+          >
+            <Input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Preview password"
+              className="h-8 w-44 bg-white text-gray-900"
+            />
+            <Button type="submit" size="sm" variant="secondary" disabled={!password || unlockMutation.isPending}>
+              Unlock
+            </Button>
+            {unlockMutation.error && <span>{unlockMutation.error.message}</span>}
+          </form>
+        )}
+        <Button size="sm" variant="ghost" className="ml-auto text-white hover:bg-amber-600 hover:text-white" onClick={exitPreview}>
+          <X className="h-4 w-4 mr-1" />
+          Exit preview
+        </Button>
+      </div>
+    </div>
+  );
+}
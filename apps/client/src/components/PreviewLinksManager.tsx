@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAdmin } from "@/hooks/useAdmin";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, Link2, Trash2 } from "lucide-react";
+import type { PublicPreviewLink } from "@shared/schema";
+
+// Dates arrive as ISO strings over JSON
+type PreviewLinkRow = Omit<PublicPreviewLink, "expiresAt" | "revokedAt" | "lastViewedAt" | "createdAt"> & {
+  expiresAt: string;
+  revokedAt: string | null;
+  lastViewedAt: string | null;
+  createdAt: string;
+};
+
+const expiryOptions = [
+  { value: "24", label: "1 day" },
+  { value: "72", label: "3 days" },
+  { value: "168", label: "1 week" },
+  { value: "720", label: "30 days" },
+];
+
+const emptyLink = { label: "", expiry: "72", password: "" };
+
+const previewUrl = (token: string) => `${window.location.origin}/?preview=${encodeURIComponent(token)}`;
+
+// Shareable links that show the public site with unpublished drafts, for reviewers without an account
+export default function PreviewLinksManager() {
+  const { toast } = useToast();
+  const { can } = useAdmin();
+  const [newLink, setNewLink] = useState(emptyLink);
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null);
+
+  const { data: links = [], isLoading } = useQuery<PreviewLinkRow[]>({
+    queryKey: ["/api/admin/preview-links"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: typeof newLink) =>
+      apiRequest("POST", "/api/admin/preview-links", {
+        label: data.label,
+        expiresInHours: Number(data.expiry),
+        password: data.password || undefined,
+      }),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/preview-links"] });
+      setCreatedUrl(previewUrl(data.token));
+      setNewLink(emptyLink);
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest("DELETE", `/api/admin/preview-links/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/preview-links"] });
+      toast({ title: "Success", description: "Preview link revoked" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const isExpired = (link: PreviewLinkRow) => new Date(link.expiresAt) <= new Date();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Link2 className="h-5 w-5" />
+          Preview Links
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          A preview link opens the public site with unpublished drafts in place: section drafts, and draft case studies next to the published ones. Anyone with the link can view it until it expires or is revoked.
+        </p>
+
+        {createdUrl && (
+          <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 space-y-3">
+            <p className="text-sm text-amber-900">Copy this link now. It will not be shown again.</p>
+            <code className="block break-all rounded bg-white border px-3 py-2 text-sm">{createdUrl}</code>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  navigator.clipboard.writeText(createdUrl);
+                  toast({ title: "Copied", description: "Preview link copied to clipboard" });
+                }}
+              >
+                <Copy className="h-4 w-4 mr-2" />
+                Copy
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setCreatedUrl(null)}>
+                Done
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {can("content:write") && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="preview-label">Shared with</Label>
+                <Input id="preview-label" placeholder="Mentor review" value={newLink.label} onChange={(e) => setNewLink({ ...newLink, label: e.target.value })} />
+              </div>
+              <div>
+                <Label>Expires after</Label>
+                <Select value={newLink.expiry} onValueChange={(expiry) => setNewLink({ ...newLink, expiry })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {expiryOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="preview-password">Password (optional)</Label>
+                <Input id="preview-password" type="password" value={newLink.password} onChange={(e) => setNewLink({ ...newLink, password: e.target.value })} />
+              </div>
+            </div>
+
+            <Button onClick={() => createMutation.mutate(newLink)} disabled={!newLink.label.trim() || createMutation.isPending}>
+              Create Link
+            </Button>
+          </>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading preview links...</p>
+        ) : links.length > 0 && (
+          <div className="divide-y border rounded-md">
+            {links.map((link) => (
+              <div key={link.id} className="flex items-start justify-between gap-4 p-3">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900">{link.label}</span>
+                    {link.hasPassword && <Badge variant="secondary">Password</Badge>}
+                    {link.revokedAt ? <Badge variant="outline">Revoked</Badge> : isExpired(link) && <Badge variant="destructive">Expired</Badge>}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {link.viewCount} {link.viewCount === 1 ? "view" : "views"}
+                    {link.lastViewedAt ? `, last ${new Date(link.lastViewedAt).toLocaleString()}` : ""} · expires {new Date(link.expiresAt).toLocaleString()}
+                  </p>
+                </div>
+                {can("content:write") && !link.revokedAt && !isExpired(link) && (
+                  <Button variant="outline" size="sm" onClick={() => revokeMutation.mutate(link.id)} disabled={revokeMutation.isPending}>
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,72 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { CalendarClock } from "lucide-react";
+
+interface ScheduledChange {
+  entityType: "case_study" | "content_section";
+  entityId: string;
+  title: string;
+  action: "publish" | "unpublish";
+  at: string;
+}
+
+const entityLabels: Record<ScheduledChange["entityType"], string> = {
+  case_study: "Case study",
+  content_section: "Section",
+};
+
+function groupByDay(changes: ScheduledChange[]) {
+  const days = new Map<string, ScheduledChange[]>();
+  for (const change of changes) {
+    const day = new Date(change.at).toLocaleDateString(undefined, { weekday: "long", year: "numeric", month: "long", day: "numeric" });
+    days.set(day, [...(days.get(day) ?? []), change]);
+  }
+  return Array.from(days.entries());
+}
+
+// Pending scheduled publish and unpublish changes, day by day
+export default function PublishCalendar() {
+  const { data: changes = [], isLoading } = useQuery<ScheduledChange[]>({
+    queryKey: ["/api/admin/schedule"],
+    refetchInterval: 60000,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Publishing Schedule
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading schedule...</p>
+        ) : changes.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing is scheduled. Use the schedule button on a case study or content section to publish or unpublish it later.</p>
+        ) : (
+          <div className="space-y-4">
+            {groupByDay(changes).map(([day, dayChanges]) => (
+              <div key={day}>
+                <h3 className="text-sm font-semibold text-navy mb-2">{day}</h3>
+                <div className="border rounded-md divide-y">
+                  {dayChanges.map((change) => (
+                    <div key={`${change.entityType}-${change.entityId}-${change.action}`} className="flex items-center gap-3 p-2 text-sm">
+                      <span className="font-mono text-xs w-14 text-gray-600">
+                        {new Date(change.at).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" })}
+                      </span>
+                      <Badge variant={change.action === "publish" ? "default" : "secondary"}>{change.action}</Badge>
+                      <span className="text-gray-500">{entityLabels[change.entityType]}</span>
+                      <span className="font-medium">{change.title}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,102 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { CalendarClock } from "lucide-react";
+
+interface PublishScheduleDialogProps {
+  title: string;
+  scheduleUrl: string;
+  publishAt: string | null;
+  unpublishAt: string | null;
+  publishHint: string;
+  unpublishHint: string;
+  // Queries that show the schedule and need refetching after a change
+  invalidate: string[];
+}
+
+// datetime-local inputs work in local time without a zone suffix
+function toLocalInput(iso: string | null) {
+  if (!iso) return "";
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+function fromLocalInput(value: string) {
+  return value ? new Date(value).toISOString() : null;
+}
+
+// Set or clear the scheduled publish and unpublish times of a case study or section
+export default function PublishScheduleDialog({ title, scheduleUrl, publishAt, unpublishAt, publishHint, unpublishHint, invalidate }: PublishScheduleDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [publishValue, setPublishValue] = useState("");
+  const [unpublishValue, setUnpublishValue] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setPublishValue(toLocalInput(publishAt));
+      setUnpublishValue(toLocalInput(unpublishAt));
+    }
+  }, [open, publishAt, unpublishAt]);
+
+  const scheduleMutation = useMutation({
+    mutationFn: (schedule: { publishAt: string | null; unpublishAt: string | null }) => apiRequest("PUT", scheduleUrl, schedule),
+    onSuccess: (_data, schedule) => {
+      invalidate.forEach((url) => queryClient.invalidateQueries({ queryKey: [url] }));
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/schedule"] });
+      setOpen(false);
+      toast({ title: schedule.publishAt || schedule.unpublishAt ? "Schedule saved" : "Schedule cleared" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Scheduling failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const hasSchedule = !!publishAt || !!unpublishAt;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" title="Schedule">
+          <CalendarClock className={`w-4 h-4 ${hasSchedule ? "text-blue-600" : ""}`} />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Schedule: {title}</DialogTitle>
+          <DialogDescription>Times are in your local time zone. Leave a field empty for no scheduled change.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="publish-at">Publish at</Label>
+            <Input id="publish-at" type="datetime-local" value={publishValue} onChange={(e) => setPublishValue(e.target.value)} />
+            <p className="text-xs text-gray-500">{publishHint}</p>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="unpublish-at">Unpublish at</Label>
+            <Input id="unpublish-at" type="datetime-local" value={unpublishValue} onChange={(e) => setUnpublishValue(e.target.value)} />
+            <p className="text-xs text-gray-500">{unpublishHint}</p>
+          </div>
+        </div>
+        <DialogFooter>
+          {hasSchedule && (
+            <Button variant="outline" disabled={scheduleMutation.isPending} onClick={() => scheduleMutation.mutate({ publishAt: null, unpublishAt: null })}>
+              Clear schedule
+            </Button>
+          )}
+          <Button
+            disabled={scheduleMutation.isPending}
+            onClick={() => scheduleMutation.mutate({ publishAt: fromLocalInput(publishValue), unpublishAt: fromLocalInput(unpublishValue) })}
+          >
+            {scheduleMutation.isPending ? "Saving..." : "Save schedule"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
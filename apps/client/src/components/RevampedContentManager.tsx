@@ -7,7 +7,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient } from "@/lib/queryClient";
+import { queryClient, readApiError, csrfFetch } from "@/lib/queryClient";
 import { Save, RefreshCw, AlertTriangle, CheckCircle2 } from "lucide-react";
 import SimpleRichTextEditor from "./SimpleRichTextEditor";
 
@@ -74,15 +74,14 @@ export default function RevampedContentManager() {
   // Save content mutation
   const saveMutation = useMutation({
     mutationFn: async ({ section, data }: { section: string, data: HeroContent | AboutContent }) => {
-      const response = await fetch(`/api/portfolio/content/${section}`, {
+      const response = await csrfFetch(`/api/portfolio/content/${section}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(data),
       });
       
       if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`Failed to save ${section} content: ${error}`);
+        throw new Error(await readApiError(response));
       }
       
       return response.json();
@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ShieldCheck, ShieldAlert } from "lucide-react";
+
+interface RouteEntry {
+  method: string;
+  path: string;
+  access: "public" | "authenticated" | "permission" | null;
+  permission: string | null;
+  pii: boolean;
+  problems: { kind: string; message: string }[];
+  shadowed: boolean;
+}
+
+interface RouteReport {
+  routes: RouteEntry[];
+  summary: {
+    total: number;
+    public: number;
+    authenticated: number;
+    permission: number;
+    pii: number;
+    shadowed: number;
+    problems: number;
+  };
+}
+
+function accessLabel(route: RouteEntry) {
+  if (route.access === "permission") return route.permission;
+  return route.access ?? "undeclared";
+}
+
+// Who may call each API route, as declared where the route is registered
+export default function RoutePolicyReport() {
+  const [showAll, setShowAll] = useState(false);
+
+  const { data: report, isLoading } = useQuery<RouteReport>({
+    queryKey: ["/api/admin/system/routes"],
+  });
+
+  if (isLoading || !report) {
+    return <div className="text-sm text-gray-500">Loading route policies...</div>;
+  }
+
+  const { summary } = report;
+  const flagged = report.routes.filter((route) => route.problems.length > 0 || route.shadowed);
+  const listed = showAll ? report.routes : flagged;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {summary.problems > 0 ? <ShieldAlert className="h-5 w-5 text-red-600" /> : <ShieldCheck className="h-5 w-5 text-green-600" />}
+          Route Access Policies
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2 text-sm">
+          <Badge variant="outline">{summary.total} routes</Badge>
+          <Badge variant="outline">{summary.public} public</Badge>
+          <Badge variant="outline">{summary.authenticated} signed-in</Badge>
+          <Badge variant="outline">{summary.permission} permission-gated</Badge>
+          <Badge variant="outline">{summary.pii} return PII</Badge>
+          {summary.shadowed > 0 && <Badge variant="secondary">{summary.shadowed} shadowed</Badge>}
+          <Badge variant={summary.problems > 0 ? "destructive" : "outline"}>{summary.problems} problems</Badge>
+        </div>
+
+        {listed.length === 0 ? (
+          <p className="text-sm text-gray-600">Every route declares a policy and no public route returns personal data.</p>
+        ) : (
+          <div className="border rounded-md divide-y max-h-96 overflow-y-auto">
+            {listed.map((route, index) => (
+              <div key={`${route.method}-${route.path}-${index}`} className="p-2 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="font-mono text-xs w-14">{route.method}</span>
+                  <span className="font-mono text-xs flex-1 break-all">{route.path}</span>
+                  <Badge variant={route.access === "public" ? "secondary" : "outline"}>{accessLabel(route)}</Badge>
+                  {route.pii && <Badge variant="outline">PII</Badge>}
+                  {route.shadowed && <Badge variant="secondary">shadowed</Badge>}
+                </div>
+                {route.problems.map((problem) => (
+                  <p key={problem.kind} className="text-xs text-red-600 mt-1 ml-16">{problem.message}</p>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Button variant="outline" size="sm" onClick={() => setShowAll(!showAll)}>
+          {showAll ? "Show flagged only" : "Show all routes"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,8 +8,9 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Search, Globe, TrendingUp, Eye } from "lucide-react";
-import { apiRequest } from "@/lib/queryClient";
+import { versionedRequest, VersionConflictError } from "@/lib/concurrency";
 import { useToast } from "@/hooks/use-toast";
+import { useVersionConflictDialog } from "@/components/VersionConflictDialog";
 
 interface SEOSettings {
   id?: number;
@@ -26,10 +27,13 @@ interface SEOSettings {
   canonicalUrl?: string;
   robotsDirective: string;
   structuredData?: string;
+  version?: number;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+const editableFields = ({ id, version, createdAt, updatedAt, ...fields }: SEOSettings) => fields;
+
 const defaultSEOSettings: Partial<SEOSettings> = {
   title: "",
   description: "",
@@ -48,6 +52,9 @@ export default function SEOManager() {
   const queryClient = useQueryClient();
   const [selectedPage, setSelectedPage] = useState("home");
   const [keywordInput, setKeywordInput] = useState("");
+  // The saved settings the form was loaded from, for detecting concurrent saves
+  const [editBase, setEditBase] = useState<SEOSettings | null>(null);
+  const { dialog: conflictDialog, openConflict } = useVersionConflictDialog();
 
   const { data: seoSettings = [], isLoading } = useQuery<SEOSettings[]>({
     queryKey: ["/api/admin/seo-settings"],
@@ -73,14 +80,37 @@ export default function SEOManager() {
     keywords: currentPageSEO.keywords || []
   });
 
+  const loadForm = (settings: SEOSettings) => {
+    setFormData({ ...settings, keywords: settings.keywords || [] });
+    setEditBase(settings);
+  };
+
   const updateSEOMutation = useMutation({
-    mutationFn: (data: SEOSettings) => 
-      apiRequest("/api/admin/seo-settings", "POST", data),
-    onSuccess: () => {
+    mutationFn: (data: SEOSettings): Promise<SEOSettings> =>
+      versionedRequest("POST", "/api/admin/seo-settings", editableFields(data), data.version),
+    onSuccess: (saved) => {
+      loadForm(saved);
       queryClient.invalidateQueries({ queryKey: ["/api/admin/seo-settings"] });
       toast({ title: "SEO settings updated successfully" });
     },
-    onError: () => {
+    onError: (error, variables) => {
+      if (error instanceof VersionConflictError && editBase) {
+        const current = error.current as SEOSettings;
+        openConflict({
+          error,
+          base: editableFields(editBase),
+          mine: editableFields(variables),
+          theirs: editableFields(current),
+          onSave: (data, version) => {
+            const merged = { ...variables, ...data, version } as SEOSettings;
+            setFormData(merged);
+            setEditBase(current);
+            updateSEOMutation.mutate(merged);
+          },
+          onReload: () => loadForm(current),
+        });
+        return;
+      }
       toast({ 
         title: "Error updating SEO settings", 
         variant: "destructive" 
@@ -155,6 +185,7 @@ export default function SEOManager() {
 
   return (
     <div className="space-y-6">
+      {conflictDialog}
       <div className="flex items-center justify-between">
         <div>
           <h2 className="text-2xl font-bold text-navy">SEO Management</h2>
@@ -198,10 +229,7 @@ export default function SEOManager() {
                       twitterImage: "",
                       robotsDirective: "index,follow"
                     };
-                    setFormData({
-                      ...pageSEO,
-                      keywords: pageSEO.keywords || []
-                    });
+                    loadForm(pageSEO as SEOSettings);
                   }}
                 >
                   {page.label}
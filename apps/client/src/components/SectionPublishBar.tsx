@@ -0,0 +1,140 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAdmin } from "@/hooks/useAdmin";
+import { useConfirmationDialog } from "@/components/ConfirmationDialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Upload, Undo2 } from "lucide-react";
+import PublishScheduleDialog from "./PublishScheduleDialog";
+
+export interface SectionDraftState {
+  sectionId: string;
+  content: unknown;
+  status: "draft" | "published";
+  hasDraft: boolean;
+  draftUpdatedAt: string | null;
+  draftUpdatedBy: string | null;
+  version: number | null;
+  publishedVersion: number | null;
+  publishedAt: string | null;
+  publishAt: string | null;
+  unpublishAt: string | null;
+}
+
+export const sectionDraftUrl = (sectionId: string) => `/api/admin/content/drafts/${sectionId}`;
+
+// Everything that shows a section's draft or live copy
+function invalidateSection(sectionId: string) {
+  queryClient.invalidateQueries({ queryKey: [sectionDraftUrl(sectionId)] });
+  queryClient.invalidateQueries({ queryKey: [`/api/admin/content/versions/${sectionId}`] });
+  queryClient.invalidateQueries({ queryKey: [`/api/portfolio/content/${sectionId}`] });
+  queryClient.invalidateQueries({ queryKey: ["/api/portfolio/content"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/admin/schedule"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/admin/content/validation"] });
+}
+
+// Draft status of a content section with publish and discard actions
+export default function SectionPublishBar({ sectionId }: { sectionId: string }) {
+  const { toast } = useToast();
+  const { can } = useAdmin();
+  const { dialog, openDialog } = useConfirmationDialog();
+
+  const { data: state } = useQuery<SectionDraftState>({
+    queryKey: [sectionDraftUrl(sectionId)],
+  });
+
+  const publishMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/admin/content/sections/${sectionId}/publish`),
+    onSuccess: () => {
+      invalidateSection(sectionId);
+      toast({ title: "Published", description: "The draft is now live on the portfolio." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Publish failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", sectionDraftUrl(sectionId)),
+    onSuccess: () => {
+      invalidateSection(sectionId);
+      toast({ title: "Draft discarded", description: "The editor shows the live content again." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Discard failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!state) {
+    return null;
+  }
+
+  const busy = publishMutation.isPending || discardMutation.isPending;
+
+  return (
+    <div className="flex items-center justify-between rounded-md border bg-gray-50 px-4 py-3">
+      <div className="flex items-center gap-2 text-sm">
+        {state.hasDraft ? (
+          <>
+            <Badge variant="destructive">Unpublished draft</Badge>
+            <span className="text-gray-600">
+              v{state.version} saved{state.draftUpdatedBy ? ` by ${state.draftUpdatedBy}` : ""}
+              {state.draftUpdatedAt ? ` ${new Date(state.draftUpdatedAt).toLocaleString()}` : ""}
+            </span>
+          </>
+        ) : (
+          <>
+            <Badge variant="default">Live</Badge>
+            <span className="text-gray-600">
+              {state.publishedVersion ? `v${state.publishedVersion} ` : ""}
+              {state.publishedAt ? `published ${new Date(state.publishedAt).toLocaleString()}` : "No unpublished changes"}
+            </span>
+          </>
+        )}
+        {state.publishAt && <Badge variant="outline">Publishes {new Date(state.publishAt).toLocaleString()}</Badge>}
+        {state.unpublishAt && <Badge variant="outline">Reverts {new Date(state.unpublishAt).toLocaleString()}</Badge>}
+      </div>
+
+      {can("content:write") && (
+        <div className="flex items-center gap-2">
+          <PublishScheduleDialog
+            title={sectionId}
+            scheduleUrl={`/api/admin/content/sections/${sectionId}/schedule`}
+            publishAt={state.publishAt}
+            unpublishAt={state.unpublishAt}
+            publishHint="The draft as it stands at this time goes live. Discarding the draft cancels it."
+            unpublishHint="The version published before the live one comes back."
+            invalidate={[sectionDraftUrl(sectionId)]}
+          />
+          {state.hasDraft && (
+            <>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={busy}
+                onClick={() =>
+                  openDialog({
+                    title: "Discard draft?",
+                    description: "Unpublished changes to this section are dropped. They stay in the version history.",
+                    confirmText: "Discard",
+                    variant: "destructive",
+                    onConfirm: () => discardMutation.mutate(),
+                  })
+                }
+              >
+                <Undo2 className="h-4 w-4 mr-1" />
+                Discard draft
+              </Button>
+              <Button size="sm" disabled={busy} onClick={() => publishMutation.mutate()} className="bg-green-600 hover:bg-green-700 text-white">
+                <Upload className="h-4 w-4 mr-1" />
+                {publishMutation.isPending ? "Publishing..." : "Publish"}
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+      {dialog}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
+import { csrfFetch } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -60,7 +61,7 @@ export default function SimpleCaseStudyImageUpload({
         url = `/api/admin/portfolio-images/case-study/${caseStudyId}`;
       }
       
-      const response = await fetch(url, {
+      const response = await csrfFetch(url, {
         method: "POST",
         body: data,
       });
@@ -110,7 +111,7 @@ export default function SimpleCaseStudyImageUpload({
 
   const deleteMutation = useMutation({
     mutationFn: async (imageId: number) => {
-      const response = await fetch(`/api/admin/portfolio-images/${imageId}`, {
+      const response = await csrfFetch(`/api/admin/portfolio-images/${imageId}`, {
         method: "DELETE",
       });
       if (!response.ok) {
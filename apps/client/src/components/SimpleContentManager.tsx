@@ -9,7 +9,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Save, Eye, Check, AlertCircle, Monitor, RefreshCw } from "lucide-react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient } from "@/lib/queryClient";
+import { queryClient, csrfFetch } from "@/lib/queryClient";
 import UltimateTextEditor from "@/components/UltimateTextEditor";
 import type { HeroContent, AboutContent } from "@shared/contentSchema";
 
@@ -73,7 +73,7 @@ export default function SimpleContentManager() {
   // Update content mutation - directly updates the live portfolio via content manager
   const updateContentMutation = useMutation({
     mutationFn: async ({ sectionId, content }: { sectionId: string; content: any }) => {
-      const response = await fetch(`/api/admin/portfolio/content/${sectionId}`, {
+      const response = await csrfFetch(`/api/admin/portfolio/content/${sectionId}`, {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(content),
@@ -84,7 +84,7 @@ export default function SimpleContentManager() {
     onSuccess: async () => {
       // Clear server-side cache first
       try {
-        await fetch("/api/admin/cache/clear", { method: "POST" });
+        await csrfFetch("/api/admin/cache/clear", { method: "POST" });
       } catch (error) {
         console.error('Cache clear failed:', error);
       }
@@ -117,7 +117,7 @@ export default function SimpleContentManager() {
   // Save portfolio section status
   const saveStatusMutation = useMutation({
     mutationFn: async (status: typeof sectionStatus) => {
-      const response = await fetch("/api/admin/portfolio-status", {
+      const response = await csrfFetch("/api/admin/portfolio-status", {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(status),
@@ -156,7 +156,7 @@ export default function SimpleContentManager() {
   const forceRefreshMutation = useMutation({
     mutationFn: async () => {
       // Clear all caches
-      await fetch("/api/admin/cache/clear", { method: "POST" });
+      await csrfFetch("/api/admin/cache/clear", { method: "POST" });
       return Promise.resolve();
     },
     onSuccess: () => {
@@ -1,6 +1,10 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { queryClient } from "@/lib/queryClient";
+import { queryClient, csrfFetch } from "@/lib/queryClient";
+import { versionedRequest, VersionConflictError } from "@/lib/concurrency";
+import { useVersionConflictDialog } from "@/components/VersionConflictDialog";
+import { BulkOperations, ItemSelection } from "@/components/BulkOperations";
+import { bulkRequest } from "@/lib/bulk";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -18,11 +22,19 @@ interface Skill {
   name: string;
   proficiencyLevel: number;
   orderIndex: number;
+  version: number;
   category?: {
     name: string;
   };
 }
 
+const editableFields = ({ name, categoryId, proficiencyLevel, orderIndex }: Skill) => ({
+  name,
+  categoryId,
+  proficiencyLevel,
+  orderIndex,
+});
+
 interface SkillCategory {
   id: number;
   name: string;
@@ -31,6 +43,8 @@ interface SkillCategory {
 
 export default function SkillsManager() {
   const [editingSkill, setEditingSkill] = useState<Skill | null>(null);
+  // The skill as it was when editing started, for detecting concurrent saves
+  const [editBase, setEditBase] = useState<Skill | null>(null);
   const [newSkill, setNewSkill] = useState({
     name: "",
     categoryId: 1,
@@ -38,7 +52,9 @@ export default function SkillsManager() {
     orderIndex: 0
   });
   const [showAddForm, setShowAddForm] = useState(false);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
   const { toast } = useToast();
+  const { dialog: conflictDialog, openConflict } = useVersionConflictDialog();
 
   const { data: skills = [], isLoading } = useQuery<Skill[]>({
     queryKey: ["/api/admin/skills"],
@@ -50,7 +66,7 @@ export default function SkillsManager() {
 
   const createSkillMutation = useMutation({
     mutationFn: async (skillData: typeof newSkill) => {
-      const response = await fetch("/api/admin/skills", {
+      const response = await csrfFetch("/api/admin/skills", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(skillData),
@@ -70,14 +86,8 @@ export default function SkillsManager() {
   });
 
   const updateSkillMutation = useMutation({
-    mutationFn: async ({ id, ...skillData }: Skill) => {
-      const response = await fetch(`/api/admin/skills/${id}`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(skillData),
-      });
-      if (!response.ok) throw new Error("Failed to update skill");
-      return response.json();
+    mutationFn: async (skill: Skill) => {
+      return versionedRequest("PUT", `/api/admin/skills/${skill.id}`, editableFields(skill), skill.version);
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/skills"] });
@@ -85,7 +95,22 @@ export default function SkillsManager() {
       setEditingSkill(null);
       toast({ title: "Success", description: "Skill updated successfully" });
     },
-    onError: (error: any) => {
+    onError: (error: any, variables) => {
+      if (error instanceof VersionConflictError && editBase) {
+        const current = error.current as Skill;
+        openConflict({
+          error,
+          base: editableFields(editBase),
+          mine: editableFields(variables),
+          theirs: editableFields(current),
+          onSave: (data, version) => {
+            setEditBase(current);
+            updateSkillMutation.mutate({ ...variables, ...data, version });
+          },
+          onReload: () => startEdit(current),
+        });
+        return;
+      }
       console.error('Update skill error:', error);
       toast({ title: "Error", description: error.message, variant: "destructive" });
     },
@@ -93,7 +118,7 @@ export default function SkillsManager() {
 
   const deleteSkillMutation = useMutation({
     mutationFn: async (id: number) => {
-      const response = await fetch(`/api/admin/skills/${id}`, {
+      const response = await csrfFetch(`/api/admin/skills/${id}`, {
         method: "DELETE",
       });
       if (!response.ok) throw new Error("Failed to delete skill");
@@ -102,7 +127,7 @@ export default function SkillsManager() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/skills"] });
       queryClient.invalidateQueries({ queryKey: ["/api/portfolio/skills"] });
-      toast({ title: "Success", description: "Skill deleted successfully" });
+      toast({ title: "Success", description: "Skill moved to the trash" });
     },
     onError: (error: any) => {
       toast({ title: "Error", description: error.message, variant: "destructive" });
@@ -117,6 +142,11 @@ export default function SkillsManager() {
     createSkillMutation.mutate(newSkill);
   };
 
+  const startEdit = (skill: Skill) => {
+    setEditingSkill(skill);
+    setEditBase(skill);
+  };
+
   const handleUpdateSkill = () => {
     if (!editingSkill || !editingSkill.name.trim()) {
       toast({ title: "Error", description: "Skill name is required", variant: "destructive" });
@@ -162,6 +192,12 @@ export default function SkillsManager() {
     );
   }
 
+  const handleBulkDelete = async (ids: number[]) => {
+    await bulkRequest("skills", { action: "delete", ids });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/skills"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/portfolio/skills"] });
+  };
+
   // Group skills by category for better organization
   const skillsByCategory = categories.map(category => ({
     ...category,
@@ -170,6 +206,7 @@ export default function SkillsManager() {
 
   return (
     <div className="space-y-8">
+      {conflictDialog}
       {/* Header Section */}
       <div className="flex items-center justify-between">
         <div>
@@ -273,6 +310,16 @@ export default function SkillsManager() {
         </Card>
       )}
 
+      <BulkOperations
+        items={skills}
+        selectedItems={selected}
+        onSelectionChange={setSelected}
+        onBulkDelete={handleBulkDelete}
+        exportUrl="/api/admin/export/skills"
+        getItemId={(skill) => skill.id}
+        getItemName={(skill) => skill.name}
+      />
+
       {/* Skills organized by category */}
       <div className="space-y-6">
         {skillsByCategory.map((category) => (
@@ -353,6 +400,7 @@ export default function SkillsManager() {
                         <div className="flex items-center justify-between">
                           <div className="flex items-center gap-4">
                             <div className="flex items-center gap-2">
+                              <ItemSelection itemId={skill.id} selectedItems={selected} onSelectionChange={setSelected} />
                               <GripVertical className="h-4 w-4 text-gray-400" />
                               <span className="font-medium text-lg">{skill.name}</span>
                             </div>
@@ -371,7 +419,7 @@ export default function SkillsManager() {
                             <Button
                               size="sm"
                               variant="outline"
-                              onClick={() => setEditingSkill(skill)}
+                              onClick={() => startEdit(skill)}
                             >
                               <Edit2 className="h-4 w-4" />
                             </Button>
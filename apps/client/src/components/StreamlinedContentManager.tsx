@@ -9,7 +9,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Save, Eye, Check, AlertCircle } from "lucide-react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient } from "@/lib/queryClient";
+import { queryClient, csrfFetch, readApiError } from "@/lib/queryClient";
 
 interface ContentSection {
   id: string;
@@ -67,12 +67,12 @@ export default function StreamlinedContentManager() {
   // Update content mutation
   const updateMutation = useMutation({
     mutationFn: async ({ sectionId, content }: { sectionId: string; content: any }) => {
-      const response = await fetch(`/api/admin/content/sections/${sectionId}`, {
+      const response = await csrfFetch(`/api/admin/content/sections/${sectionId}`, {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(content),
+        body: JSON.stringify({ content }),
       });
-      if (!response.ok) throw new Error("Failed to update content");
+      if (!response.ok) throw new Error(await readApiError(response));
       return response.json();
     },
     onSuccess: () => {
@@ -83,10 +83,10 @@ export default function StreamlinedContentManager() {
         description: "Your changes have been published to the live website.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Save failed",
-        description: "There was an error saving your changes.",
+        description: error.message,
         variant: "destructive",
       });
     },
@@ -95,7 +95,7 @@ export default function StreamlinedContentManager() {
   // Save portfolio section status
   const saveStatusMutation = useMutation({
     mutationFn: async (status: typeof sectionStatus) => {
-      const response = await fetch("/api/admin/portfolio-status", {
+      const response = await csrfFetch("/api/admin/portfolio-status", {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(status),
@@ -41,7 +41,11 @@ import {
   CheckCircle
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, csrfFetch } from "@/lib/queryClient";
+import { versionedRequest, VersionConflictError } from "@/lib/concurrency";
+import { useVersionConflictDialog } from "@/components/VersionConflictDialog";
+import { BulkOperations, ItemSelection, type BulkAction } from "@/components/BulkOperations";
+import { bulkRequest } from "@/lib/bulk";
 import type { ExperienceEntry, InsertExperienceEntry } from "@shared/schema";
 
 const LEVEL_OPTIONS = [
@@ -85,8 +89,10 @@ export default function TimelineManager() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingEntry, setEditingEntry] = useState<ExperienceEntry | null>(null);
   const [newAchievement, setNewAchievement] = useState("");
+  const [selected, setSelected] = useState<Set<number>>(new Set());
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { dialog: conflictDialog, openConflict } = useVersionConflictDialog();
 
   const [formData, setFormData] = useState<TimelineFormData>({
     year: "",
@@ -110,7 +116,7 @@ export default function TimelineManager() {
     mutationFn: async (data: InsertExperienceEntry) => {
       console.log("Creating timeline entry:", data);
       try {
-        const response = await fetch("/api/admin/experience", {
+        const response = await csrfFetch("/api/admin/experience", {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
@@ -147,23 +153,10 @@ export default function TimelineManager() {
   });
 
   const updateMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: number; data: Partial<InsertExperienceEntry> }) => {
+    mutationFn: async ({ id, data, version }: { id: number; data: Partial<InsertExperienceEntry>; version?: number }) => {
       console.log("Updating timeline entry:", { id, data });
       try {
-        const response = await fetch(`/api/admin/experience/${id}`, {
-          method: "PUT",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(data),
-        });
-        
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`HTTP ${response.status}: ${errorText}`);
-        }
-        
-        return response.json();
+        return await versionedRequest("PUT", `/api/admin/experience/${id}`, data, version);
       } catch (error) {
         console.error("Update mutation error:", error);
         throw error;
@@ -177,7 +170,21 @@ export default function TimelineManager() {
       setIsDialogOpen(false);
       setEditingEntry(null);
     },
-    onError: (error: any) => {
+    onError: (error: any, variables) => {
+      if (error instanceof VersionConflictError && editingEntry) {
+        const current = error.current as ExperienceEntry;
+        openConflict({
+          error,
+          base: editingEntry,
+          mine: variables.data,
+          onSave: (data, version) => {
+            setEditingEntry(current);
+            updateMutation.mutate({ id: variables.id, data, version });
+          },
+          onReload: () => openEditDialog(current),
+        });
+        return;
+      }
       console.error("Timeline update error:", error);
       toast({ 
         title: "Error updating timeline entry", 
@@ -191,7 +198,7 @@ export default function TimelineManager() {
     mutationFn: async (id: number) => {
       console.log("Deleting timeline entry:", id);
       try {
-        const response = await fetch(`/api/admin/experience/${id}`, {
+        const response = await csrfFetch(`/api/admin/experience/${id}`, {
           method: "DELETE",
           headers: {
             "Content-Type": "application/json",
@@ -212,7 +219,7 @@ export default function TimelineManager() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/experience"] });
       queryClient.invalidateQueries({ queryKey: ["/api/portfolio/timeline"] });
-      toast({ title: "Timeline entry deleted successfully!" });
+      toast({ title: "Timeline entry moved to the trash" });
     },
     onError: (error: any) => {
       console.error("Timeline delete error:", error);
@@ -314,7 +321,7 @@ export default function TimelineManager() {
     console.log("Submitting timeline data:", submitData);
 
     if (editingEntry) {
-      updateMutation.mutate({ id: editingEntry.id, data: submitData });
+      updateMutation.mutate({ id: editingEntry.id, data: submitData, version: editingEntry.version });
     } else {
       createMutation.mutate(submitData);
     }
@@ -347,6 +354,18 @@ export default function TimelineManager() {
     }));
   };
 
+  const runBulk = async (operation: Record<string, unknown>, done: string) => {
+    const report = await bulkRequest("experience", operation);
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/experience"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/portfolio/timeline"] });
+    toast({ title: `${report.succeeded} timeline entr${report.succeeded === 1 ? "y" : "ies"} ${done}` });
+  };
+
+  const bulkActions: BulkAction[] = [
+    { label: "Highlight", icon: <Star className="h-4 w-4" />, run: (ids) => runBulk({ action: "feature", ids, featured: true }, "highlighted") },
+    { label: "Remove highlight", run: (ids) => runBulk({ action: "feature", ids, featured: false }, "no longer highlighted") },
+  ];
+
   const getLevelIcon = (level: string) => {
     const levelOption = LEVEL_OPTIONS.find(opt => opt.value === level);
     return levelOption?.icon || Star;
@@ -370,6 +389,7 @@ export default function TimelineManager() {
 
   return (
     <Card>
+      {conflictDialog}
       <CardHeader>
         <CardTitle className="flex items-center justify-between">
           <div className="flex items-center gap-2">
@@ -642,6 +662,16 @@ export default function TimelineManager() {
           </div>
         ) : (
           <div className="space-y-4">
+            <BulkOperations
+              items={entries}
+              selectedItems={selected}
+              onSelectionChange={setSelected}
+              onBulkDelete={(ids) => runBulk({ action: "delete", ids }, "moved to the trash")}
+              actions={bulkActions}
+              exportUrl="/api/admin/export/experience"
+              getItemId={(entry) => entry.id}
+              getItemName={(entry) => `${entry.title} at ${entry.company}`}
+            />
             {entries
               .sort((a, b) => (a.orderIndex || 0) - (b.orderIndex || 0))
               .map((entry) => {
@@ -652,6 +682,7 @@ export default function TimelineManager() {
                       <div className="flex items-start justify-between mb-4">
                         <div className="flex-1">
                           <div className="flex items-center gap-3 mb-2">
+                            <ItemSelection itemId={entry.id} selectedItems={selected} onSelectionChange={setSelected} />
                             <Badge className="bg-yellow-50 text-yellow-700 border-yellow-200 flex items-center gap-1">
                               <LevelIcon className="h-3 w-3" />
                               {entry.level || "Expert Level"}
@@ -0,0 +1,141 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAdmin } from "@/hooks/useAdmin";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useConfirmationDialog } from "@/components/ConfirmationDialog";
+import { RotateCcw, Trash2, XCircle } from "lucide-react";
+import type { TrashEntityType, TrashItem } from "@shared/schema";
+
+// Dates arrive as ISO strings over JSON
+type TrashRow = Omit<TrashItem, "deletedAt" | "purgeAt"> & {
+  deletedAt: string;
+  purgeAt: string;
+};
+
+const typeLabels: Record<TrashEntityType, { plural: string; children?: string }> = {
+  case_study: { plural: "Case studies", children: "image" },
+  experience: { plural: "Experience" },
+  skill_category: { plural: "Skill categories", children: "skill" },
+  skill: { plural: "Skills" },
+  metric: { plural: "Metrics" },
+  core_value: { plural: "Core values" },
+  portfolio_image: { plural: "Images" },
+  kb_document: { plural: "Knowledge base documents" },
+};
+
+// Restoring or purging changes what both the admin lists and the public site show
+const refreshContent = () =>
+  queryClient.invalidateQueries({
+    predicate: (query) =>
+      typeof query.queryKey[0] === "string" &&
+      (query.queryKey[0].startsWith("/api/admin") || query.queryKey[0].startsWith("/api/portfolio")),
+  });
+
+// Deleted items by type, restorable until the retention period purges them
+export default function TrashManager() {
+  const { toast } = useToast();
+  const { can } = useAdmin();
+  const { dialog, openDialog } = useConfirmationDialog();
+
+  const { data, isLoading } = useQuery<{ retentionDays: number; items: TrashRow[] }>({
+    queryKey: ["/api/admin/trash"],
+    refetchOnMount: "always",
+  });
+  const items = data?.items ?? [];
+
+  const restoreMutation = useMutation({
+    mutationFn: async (item: TrashRow) => apiRequest("POST", `/api/admin/trash/${item.type}/${item.id}/restore`),
+    onSuccess: (_result, item) => {
+      refreshContent();
+      toast({ title: "Restored", description: `"${item.title}" is back where it was` });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (item: TrashRow) => apiRequest("DELETE", `/api/admin/trash/${item.type}/${item.id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/trash"] });
+      toast({ title: "Deleted permanently" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const confirmPurge = (item: TrashRow) => {
+    const children = typeLabels[item.type].children;
+    openDialog({
+      title: "Delete permanently?",
+      description: `"${item.title}"${item.children > 0 && children ? ` and its ${item.children} ${children}(s)` : ""} will be removed for good. This cannot be undone.`,
+      confirmText: "Delete permanently",
+      variant: "destructive",
+      onConfirm: () => purgeMutation.mutate(item),
+    });
+  };
+
+  const groups = (Object.keys(typeLabels) as TrashEntityType[])
+    .map((type) => ({ type, items: items.filter((item) => item.type === type) }))
+    .filter((group) => group.items.length > 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Trash2 className="h-5 w-5" />
+          Trash
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Deleted items stay here for {data?.retentionDays ?? "a number of"} days before they are removed for good. Restoring an item also restores anything that was deleted along with it.
+        </p>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading trash...</p>
+        ) : groups.length === 0 ? (
+          <p className="text-sm text-gray-500">The trash is empty.</p>
+        ) : (
+          groups.map((group) => (
+            <div key={group.type} className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-700">
+                {typeLabels[group.type].plural} <Badge variant="secondary">{group.items.length}</Badge>
+              </h3>
+              <div className="divide-y border rounded-md">
+                {group.items.map((item) => (
+                  <div key={`${item.type}-${item.id}`} className="flex items-start justify-between gap-4 p-3">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{item.title}</p>
+                      <p className="text-xs text-gray-500">
+                        Deleted {new Date(item.deletedAt).toLocaleString()} · purged {new Date(item.purgeAt).toLocaleDateString()}
+                        {item.children > 0 && ` · with ${item.children} ${typeLabels[item.type].children ?? "item"}(s)`}
+                      </p>
+                    </div>
+                    {can("content:write") && (
+                      <div className="flex gap-2 shrink-0">
+                        <Button size="sm" variant="outline" onClick={() => restoreMutation.mutate(item)} disabled={restoreMutation.isPending}>
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                          Restore
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => confirmPurge(item)} disabled={purgeMutation.isPending}>
+                          <XCircle className="h-4 w-4 mr-2" />
+                          Delete permanently
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+      {dialog}
+    </Card>
+  );
+}
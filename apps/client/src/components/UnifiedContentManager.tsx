@@ -5,7 +5,7 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient } from "@/lib/queryClient";
+import { queryClient, readApiError, csrfFetch } from "@/lib/queryClient";
 import { Save, RefreshCw, AlertCircle, CheckCircle } from "lucide-react";
 import RobustTextEditor from "./RobustTextEditor";
 
@@ -84,14 +84,14 @@ export default function UnifiedContentManager() {
   // Save content mutation with comprehensive cache invalidation
   const saveMutation = useMutation({
     mutationFn: async ({ section, data }: { section: string, data: HeroContent | AboutContent }) => {
-      const response = await fetch(`/api/portfolio/content/${section}`, {
+      const response = await csrfFetch(`/api/portfolio/content/${section}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(data),
       });
       
       if (!response.ok) {
-        throw new Error(`Failed to save ${section} content`);
+        throw new Error(await readApiError(response));
       }
       
       return response.json();
@@ -0,0 +1,521 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAdmin } from "@/hooks/useAdmin";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { KeyRound, UserPlus, Users, Copy, ShieldCheck } from "lucide-react";
+import { userRoles, type PublicUser, type UserRole } from "@shared/schema";
+import ActiveSessions from "@/components/ActiveSessions";
+import ApiTokens from "@/components/ApiTokens";
+
+interface TotpEnrolment {
+  secret: string;
+  otpauthUri: string;
+}
+
+interface ResetTicket {
+  username: string;
+  token: string;
+  expiresAt: string;
+}
+
+const roleLabels: Record<UserRole, string> = {
+  owner: "Owner - full access including backups, workflows and system",
+  editor: "Editor - manage portfolio content and knowledge base",
+  viewer: "Viewer - read-only contacts and analytics",
+};
+
+const emptyUser = { username: "", password: "", displayName: "", email: "", role: "editor" as UserRole };
+
+export default function UserManager() {
+  const { toast } = useToast();
+  const { user: currentUser, can } = useAdmin();
+  const canManageUsers = can("users:manage");
+  const [newUser, setNewUser] = useState(emptyUser);
+  const [passwords, setPasswords] = useState({ currentPassword: "", newPassword: "", confirmPassword: "" });
+  const [resetTicket, setResetTicket] = useState<ResetTicket | null>(null);
+  const [enrolment, setEnrolment] = useState<TotpEnrolment | null>(null);
+  const [totpCode, setTotpCode] = useState("");
+  const [disablePassword, setDisablePassword] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const totpEnabled = !!currentUser?.totpEnabledAt;
+
+  const { data: users = [], isLoading } = useQuery<PublicUser[]>({
+    queryKey: ["/api/admin/users"],
+    enabled: canManageUsers,
+  });
+
+  const createUserMutation = useMutation({
+    mutationFn: async (data: typeof newUser) =>
+      apiRequest("POST", "/api/admin/users", {
+        username: data.username,
+        password: data.password,
+        displayName: data.displayName || undefined,
+        email: data.email || undefined,
+        role: data.role,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      setNewUser(emptyUser);
+      toast({ title: "Success", description: "User account created" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: number; role: UserRole }) =>
+      apiRequest("PATCH", `/api/admin/users/${id}/role`, { role }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({ title: "Success", description: "Role updated" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const resetTicketMutation = useMutation({
+    mutationFn: async (id: number): Promise<ResetTicket> =>
+      apiRequest("POST", `/api/admin/users/${id}/reset-password`),
+    onSuccess: (ticket) => setResetTicket(ticket),
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const changePasswordMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest("POST", "/api/admin/account/password", {
+        currentPassword: passwords.currentPassword,
+        newPassword: passwords.newPassword,
+      }),
+    onSuccess: () => {
+      setPasswords({ currentPassword: "", newPassword: "", confirmPassword: "" });
+      toast({ title: "Success", description: "Your password has been changed" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const setupTotpMutation = useMutation({
+    mutationFn: async (): Promise<TotpEnrolment> => apiRequest("POST", "/api/admin/account/2fa/setup"),
+    onSuccess: (data) => {
+      setEnrolment(data);
+      setTotpCode("");
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const enableTotpMutation = useMutation({
+    mutationFn: async (code: string) => apiRequest("POST", "/api/admin/account/2fa/enable", { code }),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/status"] });
+      setEnrolment(null);
+      setTotpCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      toast({ title: "Success", description: "Two-factor authentication enabled" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "That code did not match, try again", variant: "destructive" });
+    },
+  });
+
+  const regenerateCodesMutation = useMutation({
+    mutationFn: async (code: string) => apiRequest("POST", "/api/admin/account/2fa/recovery-codes", { code }),
+    onSuccess: (data) => {
+      setTotpCode("");
+      setRecoveryCodes(data.recoveryCodes);
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Invalid verification code", variant: "destructive" });
+    },
+  });
+
+  const disableTotpMutation = useMutation({
+    mutationFn: async (password: string) => apiRequest("POST", "/api/admin/account/2fa/disable", { password }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/status"] });
+      setDisablePassword("");
+      setRecoveryCodes(null);
+      toast({ title: "Success", description: "Two-factor authentication disabled" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleChangePassword = () => {
+    if (passwords.newPassword !== passwords.confirmPassword) {
+      toast({ title: "Error", description: "New passwords do not match", variant: "destructive" });
+      return;
+    }
+    changePasswordMutation.mutate();
+  };
+
+  const copyResetToken = () => {
+    if (resetTicket) {
+      navigator.clipboard.writeText(resetTicket.token);
+      toast({ title: "Copied", description: "Reset code copied to clipboard" });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Team & Account</h2>
+        <p className="text-gray-600">Manage who can sign in to the admin and your own password</p>
+      </div>
+
+      {/* Own password */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Change Your Password
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="current-password">Current Password</Label>
+              <Input
+                id="current-password"
+                type="password"
+                value={passwords.currentPassword}
+                onChange={(e) => setPasswords({ ...passwords, currentPassword: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-password">New Password</Label>
+              <Input
+                id="new-password"
+                type="password"
+                value={passwords.newPassword}
+                onChange={(e) => setPasswords({ ...passwords, newPassword: e.target.value })}
+                placeholder="At least 8 characters"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirm-password">Confirm New Password</Label>
+              <Input
+                id="confirm-password"
+                type="password"
+                value={passwords.confirmPassword}
+                onChange={(e) => setPasswords({ ...passwords, confirmPassword: e.target.value })}
+              />
+            </div>
+          </div>
+          <Button
+            onClick={handleChangePassword}
+            disabled={changePasswordMutation.isPending || !passwords.currentPassword || !passwords.newPassword}
+          >
+            {changePasswordMutation.isPending ? "Saving..." : "Change Password"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Two-factor authentication */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Two-Factor Authentication
+            {totpEnabled && <Badge className="bg-green-100 text-green-800">Enabled</Badge>}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {recoveryCodes && (
+            <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 space-y-3">
+              <p className="text-sm text-amber-900">
+                Save these recovery codes somewhere safe. Each one works once if you lose your authenticator, and
+                they will not be shown again.
+              </p>
+              <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+                {recoveryCodes.map((code) => (
+                  <code key={code} className="rounded bg-white px-2 py-1">{code}</code>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    navigator.clipboard.writeText(recoveryCodes.join("\n"));
+                    toast({ title: "Copied", description: "Recovery codes copied to clipboard" });
+                  }}
+                >
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setRecoveryCodes(null)}>
+                  I have saved them
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {totpEnabled ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <Label htmlFor="regenerate-code">New recovery codes</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="regenerate-code"
+                    value={totpCode}
+                    onChange={(e) => setTotpCode(e.target.value)}
+                    placeholder="Current authenticator code"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => regenerateCodesMutation.mutate(totpCode.trim())}
+                    disabled={regenerateCodesMutation.isPending || !totpCode.trim()}
+                  >
+                    Regenerate
+                  </Button>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="disable-password">Turn off two-factor</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="disable-password"
+                    type="password"
+                    value={disablePassword}
+                    onChange={(e) => setDisablePassword(e.target.value)}
+                    placeholder="Your password"
+                  />
+                  <Button
+                    variant="destructive"
+                    onClick={() => disableTotpMutation.mutate(disablePassword)}
+                    disabled={disableTotpMutation.isPending || !disablePassword}
+                  >
+                    Disable
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ) : enrolment ? (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Add this account to your authenticator app by opening the link on your phone or entering the secret
+                manually, then enter the 6-digit code it shows.
+              </p>
+              <div className="space-y-2">
+                <Label>Setup link</Label>
+                <a href={enrolment.otpauthUri} className="block text-sm text-blue-600 break-all">
+                  {enrolment.otpauthUri}
+                </a>
+              </div>
+              <div className="space-y-2">
+                <Label>Secret</Label>
+                <code className="block rounded bg-gray-100 px-3 py-2 text-sm tracking-widest break-all">
+                  {enrolment.secret}
+                </code>
+              </div>
+              <div className="flex gap-2 max-w-sm">
+                <Input
+                  value={totpCode}
+                  onChange={(e) => setTotpCode(e.target.value)}
+                  placeholder="123456"
+                  autoComplete="one-time-code"
+                />
+                <Button
+                  onClick={() => enableTotpMutation.mutate(totpCode.trim())}
+                  disabled={enableTotpMutation.isPending || !totpCode.trim()}
+                >
+                  Verify & Enable
+                </Button>
+                <Button variant="ghost" onClick={() => setEnrolment(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-gray-600">
+                Require a code from an authenticator app in addition to your password when signing in.
+              </p>
+              <Button onClick={() => setupTotpMutation.mutate()} disabled={setupTotpMutation.isPending}>
+                Set Up
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <ActiveSessions />
+
+      <ApiTokens />
+
+      {canManageUsers && (
+        <>
+          {/* New account */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <UserPlus className="h-5 w-5" />
+                Add Team Member
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="user-username">Username</Label>
+                  <Input
+                    id="user-username"
+                    value={newUser.username}
+                    onChange={(e) => setNewUser({ ...newUser, username: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="user-password">Initial Password</Label>
+                  <Input
+                    id="user-password"
+                    type="password"
+                    value={newUser.password}
+                    onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+                    placeholder="At least 8 characters"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="user-display-name">Display Name</Label>
+                  <Input
+                    id="user-display-name"
+                    value={newUser.displayName}
+                    onChange={(e) => setNewUser({ ...newUser, displayName: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="user-email">Email</Label>
+                  <Input
+                    id="user-email"
+                    type="email"
+                    value={newUser.email}
+                    onChange={(e) => setNewUser({ ...newUser, email: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="user-role">Role</Label>
+                  <Select
+                    value={newUser.role}
+                    onValueChange={(value) => setNewUser({ ...newUser, role: value as UserRole })}
+                  >
+                    <SelectTrigger id="user-role">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {userRoles.map((role) => (
+                        <SelectItem key={role} value={role}>
+                          {roleLabels[role]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <Button
+                onClick={() => createUserMutation.mutate(newUser)}
+                disabled={createUserMutation.isPending || !newUser.username.trim() || !newUser.password}
+              >
+                {createUserMutation.isPending ? "Creating..." : "Create Account"}
+              </Button>
+            </CardContent>
+          </Card>
+
+          {/* Team list */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="h-5 w-5" />
+                Team ({users.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {resetTicket && (
+                <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 space-y-2">
+                  <p className="text-sm text-amber-900">
+                    One-time reset code for <strong>{resetTicket.username}</strong>, valid until{" "}
+                    {new Date(resetTicket.expiresAt).toLocaleTimeString()}. It will not be shown again.
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <code className="flex-1 rounded bg-white px-3 py-2 text-sm break-all">{resetTicket.token}</code>
+                    <Button size="sm" variant="outline" onClick={copyResetToken}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setResetTicket(null)}>
+                      Dismiss
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {isLoading ? (
+                <p className="text-gray-600">Loading team...</p>
+              ) : (
+                <div className="divide-y">
+                  {users.map((user) => (
+                    <div key={user.id} className="flex items-center justify-between py-3">
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{user.displayName || user.username}</span>
+                          {user.id === currentUser?.id && <Badge variant="outline">You</Badge>}
+                      {user.totpEnabledAt && <Badge variant="outline">2FA</Badge>}
+                        </div>
+                        <p className="text-sm text-gray-500">
+                          @{user.username}
+                          {user.email ? ` · ${user.email}` : ""}
+                          {user.lastLoginAt
+                            ? ` · last login ${new Date(user.lastLoginAt).toLocaleDateString()}`
+                            : " · never logged in"}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Select
+                          value={user.role}
+                          onValueChange={(value) => updateRoleMutation.mutate({ id: user.id, role: value as UserRole })}
+                          disabled={updateRoleMutation.isPending}
+                        >
+                          <SelectTrigger className="w-28">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {userRoles.map((role) => (
+                              <SelectItem key={role} value={role} className="capitalize">
+                                {role}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {user.id !== currentUser?.id && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => resetTicketMutation.mutate(user.id)}
+                            disabled={resetTicketMutation.isPending}
+                          >
+                            Issue Reset Code
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { GitMerge } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { mergeVersions, type FieldConflict, type VersionConflictError } from "@/lib/concurrency";
+
+interface ConflictConfig {
+  error: VersionConflictError;
+  // The copy the editor loaded, and the edit that was rejected
+  base: Record<string, any>;
+  mine: Record<string, any>;
+  // The server copy in the same shape as `mine`, when that differs from error.current
+  theirs?: Record<string, any>;
+  // Save again against the server's current version
+  onSave: (data: Record<string, any>, version: number) => void;
+  // Drop the edit and load the server copy
+  onReload: () => void;
+}
+
+const preview = (value: unknown) => {
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text && text.length > 120 ? `${text.slice(0, 120)}…` : text ?? "(empty)";
+};
+
+// Hook for resolving a rejected save: reload, overwrite, or merge field by field
+export function useVersionConflictDialog() {
+  const [config, setConfig] = useState<ConflictConfig | null>(null);
+  const [choices, setChoices] = useState<Record<string, "mine" | "theirs">>({});
+
+  const theirs = config ? config.theirs ?? config.error.current : {};
+  const merge = config ? mergeVersions(config.base, config.mine, theirs) : null;
+
+  const openConflict = (conflictConfig: ConflictConfig) => {
+    setChoices({});
+    setConfig(conflictConfig);
+  };
+
+  const close = () => setConfig(null);
+
+  const resolve = (action: "reload" | "overwrite" | "merge") => {
+    if (!config || !merge) return;
+    const version = config.error.currentVersion;
+    if (action === "reload") {
+      config.onReload();
+    } else if (action === "overwrite") {
+      config.onSave(config.mine, version);
+    } else {
+      const data = { ...merge.merged };
+      for (const conflict of merge.conflicts) {
+        if (choices[conflict.field] === "theirs") {
+          data[conflict.field] = conflict.theirs;
+        }
+      }
+      config.onSave(data, version);
+    }
+    close();
+  };
+
+  const renderConflict = (conflict: FieldConflict) => (
+    <div key={conflict.field} className="border rounded-md p-2 space-y-1">
+      <p className="font-mono text-xs">{conflict.field}</p>
+      <RadioGroup
+        value={choices[conflict.field] ?? "mine"}
+        onValueChange={(value) => setChoices((prev) => ({ ...prev, [conflict.field]: value as "mine" | "theirs" }))}
+      >
+        <div className="flex items-start gap-2">
+          <RadioGroupItem value="mine" id={`${conflict.field}-mine`} />
+          <Label htmlFor={`${conflict.field}-mine`} className="text-xs font-normal">
+            Yours: {preview(conflict.mine)}
+          </Label>
+        </div>
+        <div className="flex items-start gap-2">
+          <RadioGroupItem value="theirs" id={`${conflict.field}-theirs`} />
+          <Label htmlFor={`${conflict.field}-theirs`} className="text-xs font-normal">
+            Theirs: {preview(conflict.theirs)}
+          </Label>
+        </div>
+      </RadioGroup>
+    </div>
+  );
+
+  const dialog = config && merge ? (
+    <Dialog open onOpenChange={(open) => !open && close()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="w-5 h-5 text-amber-600" />
+            This was changed while you were editing
+          </DialogTitle>
+          <DialogDescription>
+            Someone saved a newer version. Merge keeps both sets of changes, overwrite replaces theirs with yours, reload discards yours.
+          </DialogDescription>
+        </DialogHeader>
+        {merge.conflicts.length > 0 ? (
+          <div className="space-y-2 max-h-72 overflow-y-auto">
+            <p className="text-sm text-gray-600">Both of you changed these fields. Pick which value to keep:</p>
+            {merge.conflicts.map(renderConflict)}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-600">Your changes and theirs touch different fields and merge cleanly.</p>
+        )}
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => resolve("reload")}>Reload theirs</Button>
+          <Button variant="outline" onClick={() => resolve("overwrite")}>Overwrite with mine</Button>
+          <Button onClick={() => resolve("merge")}>Merge and save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  ) : null;
+
+  return { dialog, openConflict };
+}
@@ -0,0 +1,312 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { useConfirmationDialog } from "@/components/ConfirmationDialog";
+import { Copy, History, RotateCcw, Send, Trash2, Webhook } from "lucide-react";
+import type {
+  PublicWebhookSubscription,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEventType,
+} from "@shared/schema";
+
+// Dates arrive as ISO strings over JSON
+type SubscriptionRow = Omit<PublicWebhookSubscription, "createdAt" | "updatedAt"> & {
+  createdAt: string;
+  updatedAt: string;
+};
+
+type DeliveryRow = Omit<WebhookDelivery, "nextAttemptAt" | "deliveredAt" | "createdAt"> & {
+  nextAttemptAt: string;
+  deliveredAt: string | null;
+  createdAt: string;
+};
+
+const statusVariants: Record<WebhookDeliveryStatus, "default" | "secondary" | "destructive"> = {
+  delivered: "default",
+  pending: "secondary",
+  failed: "destructive",
+};
+
+const emptyWebhook = { url: "", description: "", events: [] as WebhookEventType[] };
+
+const refreshWebhooks = () =>
+  queryClient.invalidateQueries({
+    predicate: (query) => typeof query.queryKey[0] === "string" && query.queryKey[0].startsWith("/api/admin/webhooks"),
+  });
+
+function DeliveryLog({ subscriptionId }: { subscriptionId: number }) {
+  const { toast } = useToast();
+  const { data: deliveries = [], isLoading } = useQuery<DeliveryRow[]>({
+    queryKey: [`/api/admin/webhooks/deliveries?subscriptionId=${subscriptionId}&limit=20`],
+    refetchOnMount: "always",
+    refetchInterval: 30_000,
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest("POST", `/api/admin/webhooks/deliveries/${id}/retry`),
+    onSuccess: () => {
+      refreshWebhooks();
+      toast({ title: "Queued for another attempt" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return <p className="text-xs text-gray-500 px-3 pb-3">Loading deliveries...</p>;
+  }
+  if (deliveries.length === 0) {
+    return <p className="text-xs text-gray-500 px-3 pb-3">Nothing has been sent yet.</p>;
+  }
+
+  return (
+    <div className="divide-y border-t bg-gray-50">
+      {deliveries.map((delivery) => (
+        <div key={delivery.id} className="flex items-start justify-between gap-4 px-3 py-2">
+          <div className="min-w-0 text-xs">
+            <p className="flex items-center gap-2">
+              <Badge variant={statusVariants[delivery.status as WebhookDeliveryStatus] ?? "secondary"}>{delivery.status}</Badge>
+              <code>{delivery.event}</code>
+              <span className="text-gray-500">{new Date(delivery.createdAt).toLocaleString()}</span>
+            </p>
+            <p className="text-gray-500 mt-1">
+              {delivery.attempts} attempt(s)
+              {delivery.responseStatus !== null && ` · HTTP ${delivery.responseStatus}`}
+              {delivery.durationMs !== null && ` · ${delivery.durationMs} ms`}
+              {delivery.status === "pending" && delivery.attempts > 0 && ` · next attempt ${new Date(delivery.nextAttemptAt).toLocaleString()}`}
+            </p>
+            {delivery.lastError && delivery.status !== "delivered" && <p className="text-red-600 break-words">{delivery.lastError}</p>}
+          </div>
+          {delivery.status !== "delivered" && (
+            <Button size="sm" variant="ghost" className="shrink-0" onClick={() => retryMutation.mutate(delivery.id)} disabled={retryMutation.isPending}>
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Retry
+            </Button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Webhook subscriptions: where portfolio events are posted, and how that went
+export default function WebhooksManager() {
+  const { toast } = useToast();
+  const { dialog, openDialog } = useConfirmationDialog();
+  const [newWebhook, setNewWebhook] = useState(emptyWebhook);
+  const [shownSecret, setShownSecret] = useState<string | null>(null);
+  const [openLog, setOpenLog] = useState<number | null>(null);
+
+  const { data, isLoading } = useQuery<{ eventTypes: WebhookEventType[]; subscriptions: SubscriptionRow[] }>({
+    queryKey: ["/api/admin/webhooks"],
+  });
+  const eventTypes = data?.eventTypes ?? [];
+  const subscriptions = data?.subscriptions ?? [];
+
+  const onError = (error: any) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (webhook: typeof newWebhook) =>
+      apiRequest("POST", "/api/admin/webhooks", {
+        url: webhook.url.trim(),
+        events: webhook.events,
+        description: webhook.description.trim() || undefined,
+      }),
+    onSuccess: (created) => {
+      refreshWebhooks();
+      setShownSecret(created.secret);
+      setNewWebhook(emptyWebhook);
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, update }: { id: number; update: Record<string, unknown> }) =>
+      apiRequest("PATCH", `/api/admin/webhooks/${id}`, update),
+    onSuccess: (updated) => {
+      refreshWebhooks();
+      if (updated.secret) {
+        setShownSecret(updated.secret);
+      }
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest("DELETE", `/api/admin/webhooks/${id}`),
+    onSuccess: () => {
+      refreshWebhooks();
+      toast({ title: "Webhook deleted" });
+    },
+    onError,
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (id: number): Promise<DeliveryRow> => apiRequest("POST", `/api/admin/webhooks/${id}/test`),
+    onSuccess: (delivery) => {
+      refreshWebhooks();
+      setOpenLog(delivery.subscriptionId);
+      if (delivery.status === "delivered") {
+        toast({ title: "Test delivered", description: `The receiver answered ${delivery.responseStatus}` });
+      } else {
+        toast({ title: "Test failed", description: delivery.lastError ?? "The receiver did not accept it", variant: "destructive" });
+      }
+    },
+    onError,
+  });
+
+  const toggleEvent = (event: WebhookEventType, checked: boolean) => {
+    setNewWebhook({
+      ...newWebhook,
+      events: checked ? [...newWebhook.events, event] : newWebhook.events.filter((e) => e !== event),
+    });
+  };
+
+  const confirmDelete = (subscription: SubscriptionRow) => {
+    openDialog({
+      title: "Delete webhook?",
+      description: `${subscription.url} will stop receiving events and its delivery log will be removed.`,
+      confirmText: "Delete",
+      variant: "destructive",
+      onConfirm: () => deleteMutation.mutate(subscription.id),
+    });
+  };
+
+  const confirmRotate = (subscription: SubscriptionRow) => {
+    openDialog({
+      title: "Rotate signing secret?",
+      description: "Deliveries are signed with the new secret straight away; update the receiver before it rejects them.",
+      confirmText: "Rotate",
+      onConfirm: () => updateMutation.mutate({ id: subscription.id, update: { rotateSecret: true } }),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Webhook className="h-5 w-5" />
+          Webhooks
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Events are posted as JSON. Each request carries <code className="text-xs bg-gray-100 px-1 rounded">X-Webhook-Timestamp</code> and{" "}
+          <code className="text-xs bg-gray-100 px-1 rounded">X-Webhook-Signature: sha256=HMAC(secret, "&lt;timestamp&gt;.&lt;body&gt;")</code>. Failed deliveries are retried with increasing delays for a few hours.
+        </p>
+
+        {shownSecret && (
+          <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 space-y-3">
+            <p className="text-sm text-amber-900">Copy this signing secret now. It will not be shown again.</p>
+            <code className="block break-all rounded bg-white border px-3 py-2 text-sm">{shownSecret}</code>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  navigator.clipboard.writeText(shownSecret);
+                  toast({ title: "Copied", description: "Signing secret copied to clipboard" });
+                }}
+              >
+                <Copy className="h-4 w-4 mr-2" />
+                Copy
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setShownSecret(null)}>
+                Done
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="webhook-url">URL</Label>
+            <Input id="webhook-url" placeholder="https://hooks.example.com/portfolio" value={newWebhook.url} onChange={(e) => setNewWebhook({ ...newWebhook, url: e.target.value })} />
+          </div>
+          <div>
+            <Label htmlFor="webhook-description">Description</Label>
+            <Input id="webhook-description" placeholder="Rebuild the static site" value={newWebhook.description} onChange={(e) => setNewWebhook({ ...newWebhook, description: e.target.value })} />
+          </div>
+        </div>
+
+        <div>
+          <Label>Events</Label>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mt-2">
+            {eventTypes.map((event) => (
+              <label key={event} className="flex items-center gap-2 text-sm">
+                <Checkbox checked={newWebhook.events.includes(event)} onCheckedChange={(checked) => toggleEvent(event, checked === true)} />
+                <code className="text-xs">{event}</code>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <Button onClick={() => createMutation.mutate(newWebhook)} disabled={!newWebhook.url.trim() || newWebhook.events.length === 0 || createMutation.isPending}>
+          Add Webhook
+        </Button>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading webhooks...</p>
+        ) : subscriptions.length > 0 && (
+          <div className="divide-y border rounded-md">
+            {subscriptions.map((subscription) => (
+              <div key={subscription.id}>
+                <div className="flex items-start justify-between gap-4 p-3">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-900 truncate">{subscription.url}</span>
+                      {!subscription.active && <Badge variant="outline">Paused</Badge>}
+                    </div>
+                    {subscription.description && <p className="text-sm text-gray-600">{subscription.description}</p>}
+                    <div className="flex flex-wrap gap-1">
+                      {subscription.events.map((event) => (
+                        <Badge key={event} variant="secondary" className="text-xs">{event}</Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500">Secret <code>{subscription.secretHint}</code></p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Switch
+                      checked={subscription.active}
+                      onCheckedChange={(active) => updateMutation.mutate({ id: subscription.id, update: { active } })}
+                      aria-label="Active"
+                    />
+                    <Button size="sm" variant="outline" onClick={() => testMutation.mutate(subscription.id)} disabled={testMutation.isPending}>
+                      <Send className="h-4 w-4 mr-1" />
+                      Send test
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setOpenLog(openLog === subscription.id ? null : subscription.id)}>
+                      <History className="h-4 w-4 mr-1" />
+                      Log
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => confirmRotate(subscription)}>
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Secret
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => confirmDelete(subscription)} disabled={deleteMutation.isPending}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                {openLog === subscription.id && <DeliveryLog subscriptionId={subscription.id} />}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+      {dialog}
+    </Card>
+  );
+}
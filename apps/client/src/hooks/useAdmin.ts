@@ -1,7 +1,9 @@
 import { useQuery } from "@tanstack/react-query";
+import { hasPermission, type Permission, type PublicUser } from "@shared/schema";
 
 interface AdminStatus {
   isAdmin: boolean;
+  user: PublicUser | null;
 }
 
 export function useAdmin() {
@@ -10,8 +12,12 @@ export function useAdmin() {
     retry: false,
   });
 
+  const user = adminStatus?.user ?? null;
+
   return {
     isAdmin: adminStatus?.isAdmin || false,
+    user,
+    can: (permission: Permission) => hasPermission(user?.role, permission),
     isLoading,
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,54 @@
+import { csrfFetch, readApiError } from "./queryClient";
+import type { BulkReport, ExportFormat } from "@shared/schema";
+
+// Raised when the server refuses a bulk request because some items failed
+// their checks. Nothing was changed; the report says which items and why.
+export class BulkOperationError extends Error {
+  constructor(public readonly report: BulkReport, message: string) {
+    const failures = report.results.filter((result) => !result.ok);
+    const listed = failures.slice(0, 3).map((result) => `#${result.id}: ${result.error}`).join("; ");
+    super(failures.length > 3 ? `${message} (${listed}; ${failures.length - 3} more)` : `${message} (${listed})`);
+    this.name = "BulkOperationError";
+  }
+}
+
+// Runs one bulk action against /api/admin/bulk/<path>, e.g. "case-studies"
+export async function bulkRequest(path: string, operation: Record<string, unknown>): Promise<BulkReport> {
+  const res = await csrfFetch(`/api/admin/bulk/${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(operation),
+  });
+  if (res.status === 422) {
+    const body = await res.clone().json().catch(() => null);
+    if (body?.error?.details?.results) {
+      throw new BulkOperationError(body.error.details, body.error.message);
+    }
+  }
+  if (!res.ok) {
+    throw new Error(await readApiError(res));
+  }
+  return res.json();
+}
+
+// Downloads a server-side export; `url` may already carry query parameters
+export async function downloadExport(url: string, format: ExportFormat, ids?: number[]): Promise<void> {
+  const params = new URLSearchParams({ format });
+  if (ids && ids.length > 0) {
+    params.set("ids", ids.join(","));
+  }
+  const res = await fetch(`${url}${url.includes("?") ? "&" : "?"}${params}`, { credentials: "include" });
+  if (!res.ok) {
+    throw new Error(await readApiError(res));
+  }
+
+  const filename = res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? `export.${format}`;
+  const href = URL.createObjectURL(await res.blob());
+  const link = document.createElement("a");
+  link.href = href;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(href);
+}
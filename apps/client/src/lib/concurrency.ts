@@ -0,0 +1,77 @@
+import { csrfFetch, readApiError } from "./queryClient";
+
+// Raised when the server rejects a save because someone else saved first.
+// Carries the server's copy so the editor can merge, overwrite or reload.
+export class VersionConflictError extends Error {
+  constructor(
+    public readonly current: Record<string, any>,
+    public readonly currentVersion: number,
+    message = "Someone else changed this since you opened it",
+  ) {
+    super(message);
+    this.name = "VersionConflictError";
+  }
+}
+
+// Sends an admin update that only applies while the record is still at
+// `expectedVersion`. Without a version the write is unconditional.
+export async function versionedRequest(
+  method: string,
+  url: string,
+  data: unknown,
+  expectedVersion?: number,
+): Promise<any> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (expectedVersion !== undefined) {
+    headers["If-Match"] = `"${expectedVersion}"`;
+  }
+
+  const res = await csrfFetch(url, { method, headers, body: JSON.stringify(data) });
+  if (res.status === 409) {
+    const body = await res.clone().json().catch(() => null);
+    if (body?.error?.code === "VERSION_CONFLICT") {
+      const { current, currentVersion } = body.error.details;
+      throw new VersionConflictError(current, currentVersion, body.error.message);
+    }
+  }
+  if (!res.ok) {
+    throw new Error(await readApiError(res));
+  }
+  return res.json();
+}
+
+export interface FieldConflict {
+  field: string;
+  mine: unknown;
+  theirs: unknown;
+}
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Three-way merge of the top-level fields of an edit. `base` is the copy the
+ * editor loaded, `mine` the unsaved edit, `theirs` the server's newer copy.
+ * Fields only one side changed take that side; fields both changed to
+ * different values are conflicts, left at `mine` in `merged`.
+ */
+export function mergeVersions<T extends Record<string, any>>(
+  base: Record<string, any>,
+  mine: T,
+  theirs: Record<string, any>,
+): { merged: T; conflicts: FieldConflict[] } {
+  const merged: Record<string, any> = { ...mine };
+  const conflicts: FieldConflict[] = [];
+
+  for (const field of Object.keys(mine)) {
+    const mineChanged = !same(base[field], mine[field]);
+    const theirsChanged = field in theirs && !same(base[field], theirs[field]);
+
+    if (theirsChanged && !mineChanged) {
+      merged[field] = theirs[field];
+    } else if (theirsChanged && !same(mine[field], theirs[field])) {
+      conflicts.push({ field, mine: mine[field], theirs: theirs[field] });
+    }
+  }
+
+  return { merged: merged as T, conflicts };
+}
@@ -0,0 +1,34 @@
+// Draft preview links: a `?preview=<token>` page URL puts this browser tab
+// into preview mode, which lasts until it is closed or the preview is left.
+const STORAGE_KEY = "portfolio-preview-token";
+
+export function getPreviewToken(): string | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+
+  const fromUrl = new URLSearchParams(window.location.search).get("preview");
+  if (fromUrl) {
+    sessionStorage.setItem(STORAGE_KEY, fromUrl);
+    return fromUrl;
+  }
+  return sessionStorage.getItem(STORAGE_KEY);
+}
+
+export function exitPreview() {
+  sessionStorage.removeItem(STORAGE_KEY);
+  const url = new URL(window.location.href);
+  url.searchParams.delete("preview");
+  window.location.replace(url.toString());
+}
+
+// Public portfolio API URLs carry the token so the server returns drafts.
+// The admin always works with the real live content.
+export function withPreview(url: string): string {
+  const token = getPreviewToken();
+  if (!token || !url.startsWith("/api/portfolio/") || window.location.pathname.startsWith("/admin")) {
+    return url;
+  }
+  const separator = url.includes("?") ? "&" : "?";
+  return `${url}${separator}preview=${encodeURIComponent(token)}`;
+}
@@ -1,4 +1,5 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { withPreview } from "./preview";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -7,16 +8,70 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Turns an error response into a message editors can show. Understands both
+// AppError bodies ({ error: { message, details } }) and plain { message } ones.
+export async function readApiError(res: Response): Promise<string> {
+  if (res.status === 401) {
+    return "Your session has expired. Please sign in again.";
+  }
+  if (res.status === 403) {
+    return "Your role does not allow this change.";
+  }
+
+  const body = await res.json().catch(() => null);
+  const message = body?.error?.message || body?.message || res.statusText;
+  const issues: { path: string; message: string }[] = body?.error?.details?.issues ?? [];
+  if (issues.length === 0) {
+    return message;
+  }
+  return `${message}: ${issues.map((issue) => `${issue.path || "content"} - ${issue.message}`).join("; ")}`;
+}
+
+// Synchronizer token for signed-in sessions. Fetched the first time the server
+// asks for it, and again after login/logout replaces the session.
+let csrfToken: string | null = null;
+
+async function fetchCsrfToken(): Promise<string | null> {
+  const res = await fetch("/api/admin/csrf-token", { credentials: "include" });
+  csrfToken = res.ok ? (await res.json()).csrfToken : null;
+  return csrfToken;
+}
+
+async function isCsrfRejection(res: Response): Promise<boolean> {
+  if (res.status !== 403) {
+    return false;
+  }
+  const body = await res.clone().json().catch(() => null);
+  return body?.error?.code === "CSRF_TOKEN_INVALID";
+}
+
+// fetch() for admin mutations, JSON or multipart: sends the session cookie and
+// the X-CSRF-Token header, refreshing the token once if the server rejects it.
+export async function csrfFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const send = (token: string | null) => {
+    const headers = new Headers(init.headers);
+    if (token) {
+      headers.set("X-CSRF-Token", token);
+    }
+    return fetch(url, { credentials: "include", ...init, headers });
+  };
+
+  const res = await send(csrfToken);
+  if (!(await isCsrfRejection(res))) {
+    return res;
+  }
+  return send(await fetchCsrfToken());
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
 ): Promise<any> {
-  const res = await fetch(url, {
+  const res = await csrfFetch(url, {
     method,
     headers: data ? { "Content-Type": "application/json" } : {},
     body: data ? JSON.stringify(data) : undefined,
-    credentials: "include",
   });
 
   await throwIfResNotOk(res);
@@ -29,7 +84,7 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey[0] as string, {
+    const res = await fetch(withPreview(queryKey[0] as string), {
       credentials: "include",
     });
 
@@ -4,7 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { Lock, User, Eye, EyeOff } from "lucide-react";
+import { Lock, User, Eye, EyeOff, KeyRound, ShieldCheck } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useLocation } from "wouter";
 
@@ -15,22 +15,39 @@ export default function AdminLogin() {
     password: ""
   });
   const [showPassword, setShowPassword] = useState(false);
+  const [mode, setMode] = useState<"login" | "otp" | "reset">("login");
+  const [otpCode, setOtpCode] = useState("");
+  const [resetData, setResetData] = useState({
+    username: "",
+    token: "",
+    newPassword: ""
+  });
   const { toast } = useToast();
 
+  const completeLogin = () => {
+    toast({
+      title: "Login successful",
+      description: "Welcome to the admin dashboard",
+    });
+    // Force a small delay to ensure session is set
+    setTimeout(() => {
+      setLocation("/admin");
+      window.location.reload();
+    }, 500);
+  };
+
   const loginMutation = useMutation({
     mutationFn: async (credentials: { username: string; password: string }) => {
       return apiRequest("POST", "/api/admin/login", credentials);
     },
-    onSuccess: () => {
-      toast({
-        title: "Login successful",
-        description: "Welcome to the admin dashboard",
-      });
-      // Force a small delay to ensure session is set
-      setTimeout(() => {
-        setLocation("/admin");
-        window.location.reload();
-      }, 500);
+    onSuccess: (data) => {
+      // Accounts with 2FA get a second step before the session is authenticated
+      if (data?.requiresOtp) {
+        setOtpCode("");
+        setMode("otp");
+        return;
+      }
+      completeLogin();
     },
     onError: (error) => {
       toast({
@@ -41,6 +58,57 @@ export default function AdminLogin() {
     },
   });
 
+  const otpMutation = useMutation({
+    mutationFn: async (code: string) => {
+      return apiRequest("POST", "/api/admin/login/verify-otp", { code });
+    },
+    onSuccess: completeLogin,
+    onError: (error) => {
+      const expired = error.message.includes("expired");
+      toast({
+        title: "Verification failed",
+        description: expired ? "Your sign-in timed out, please enter your password again" : "Invalid verification code",
+        variant: "destructive",
+      });
+      if (expired) {
+        setMode("login");
+      }
+    },
+  });
+
+  const handleOtpSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    otpMutation.mutate(otpCode.trim());
+  };
+
+  // Completes a reset using the one-time code issued by a team member
+  const resetMutation = useMutation({
+    mutationFn: async (data: typeof resetData) => {
+      return apiRequest("POST", "/api/admin/password/reset", data);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Password reset",
+        description: "You can now sign in with your new password",
+      });
+      setFormData({ username: resetData.username, password: "" });
+      setResetData({ username: "", token: "", newPassword: "" });
+      setMode("login");
+    },
+    onError: () => {
+      toast({
+        title: "Reset failed",
+        description: "The reset code is invalid or has expired",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleResetSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    resetMutation.mutate(resetData);
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     loginMutation.mutate(formData);
@@ -66,65 +134,162 @@ export default function AdminLogin() {
           </CardHeader>
           
           <CardContent>
-            <form onSubmit={handleSubmit} className="space-y-6">
-              <div>
-                <label htmlFor="username" className="block text-sm font-medium text-navy mb-2">
-                  Username
-                </label>
-                <div className="relative">
-                  <User className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+            {mode === "login" ? (
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div>
+                  <label htmlFor="username" className="block text-sm font-medium text-navy mb-2">
+                    Username
+                  </label>
+                  <div className="relative">
+                    <User className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                    <Input
+                      id="username"
+                      name="username"
+                      type="text"
+                      value={formData.username}
+                      onChange={handleChange}
+                      required
+                      placeholder="Enter your username"
+                      className="pl-10 border-light-border focus:border-secondary-green h-12"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label htmlFor="password" className="block text-sm font-medium text-navy mb-2">
+                    Password
+                  </label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                    <Input
+                      id="password"
+                      name="password"
+                      type={showPassword ? "text" : "password"}
+                      value={formData.password}
+                      onChange={handleChange}
+                      required
+                      placeholder="Enter your password"
+                      className="pl-10 pr-10 border-light-border focus:border-secondary-green h-12"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowPassword(!showPassword)}
+                      className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                    >
+                      {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                    </button>
+                  </div>
+                </div>
+
+                <Button
+                  type="submit"
+                  disabled={loginMutation.isPending}
+                  className="w-full bg-navy hover:bg-navy/90 text-white py-3 text-lg font-semibold h-12 shadow-cta hover-lift"
+                >
+                  {loginMutation.isPending ? "Signing in..." : "Sign In"}
+                </Button>
+              </form>
+            ) : mode === "otp" ? (
+              <form onSubmit={handleOtpSubmit} className="space-y-6">
+                <div>
+                  <label htmlFor="otp-code" className="block text-sm font-medium text-navy mb-2">
+                    Verification Code
+                  </label>
+                  <div className="relative">
+                    <ShieldCheck className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                    <Input
+                      id="otp-code"
+                      value={otpCode}
+                      onChange={(e) => setOtpCode(e.target.value)}
+                      required
+                      autoFocus
+                      autoComplete="one-time-code"
+                      placeholder="6-digit code or recovery code"
+                      className="pl-10 border-light-border focus:border-secondary-green h-12 tracking-widest"
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">
+                    Open your authenticator app, or use one of your recovery codes if you lost access to it.
+                  </p>
+                </div>
+
+                <Button
+                  type="submit"
+                  disabled={otpMutation.isPending}
+                  className="w-full bg-navy hover:bg-navy/90 text-white py-3 text-lg font-semibold h-12 shadow-cta hover-lift"
+                >
+                  {otpMutation.isPending ? "Verifying..." : "Verify"}
+                </Button>
+              </form>
+            ) : (
+              <form onSubmit={handleResetSubmit} className="space-y-6">
+                <div>
+                  <label htmlFor="reset-username" className="block text-sm font-medium text-navy mb-2">
+                    Username
+                  </label>
                   <Input
-                    id="username"
-                    name="username"
-                    type="text"
-                    value={formData.username}
-                    onChange={handleChange}
+                    id="reset-username"
+                    value={resetData.username}
+                    onChange={(e) => setResetData({ ...resetData, username: e.target.value })}
                     required
-                    placeholder="Enter your username"
-                    className="pl-10 border-light-border focus:border-secondary-green h-12"
+                    className="border-light-border focus:border-secondary-green h-12"
                   />
                 </div>
-              </div>
-
-              <div>
-                <label htmlFor="password" className="block text-sm font-medium text-navy mb-2">
-                  Password
-                </label>
-                <div className="relative">
-                  <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+
+                <div>
+                  <label htmlFor="reset-token" className="block text-sm font-medium text-navy mb-2">
+                    Reset Code
+                  </label>
+                  <div className="relative">
+                    <KeyRound className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                    <Input
+                      id="reset-token"
+                      value={resetData.token}
+                      onChange={(e) => setResetData({ ...resetData, token: e.target.value.trim() })}
+                      required
+                      placeholder="Code from your account owner"
+                      className="pl-10 border-light-border focus:border-secondary-green h-12"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label htmlFor="reset-password" className="block text-sm font-medium text-navy mb-2">
+                    New Password
+                  </label>
                   <Input
-                    id="password"
-                    name="password"
-                    type={showPassword ? "text" : "password"}
-                    value={formData.password}
-                    onChange={handleChange}
+                    id="reset-password"
+                    type="password"
+                    value={resetData.newPassword}
+                    onChange={(e) => setResetData({ ...resetData, newPassword: e.target.value })}
                     required
-                    placeholder="Enter your password"
-                    className="pl-10 pr-10 border-light-border focus:border-secondary-green h-12"
+                    minLength={8}
+                    placeholder="At least 8 characters"
+                    className="border-light-border focus:border-secondary-green h-12"
                   />
-                  <button
-                    type="button"
-                    onClick={() => setShowPassword(!showPassword)}
-                    className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
-                  >
-                    {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                  </button>
                 </div>
-              </div>
 
-              <Button
-                type="submit"
-                disabled={loginMutation.isPending}
-                className="w-full bg-navy hover:bg-navy/90 text-white py-3 text-lg font-semibold h-12 shadow-cta hover-lift"
-              >
-                {loginMutation.isPending ? "Signing in..." : "Sign In"}
-              </Button>
-            </form>
+                <Button
+                  type="submit"
+                  disabled={resetMutation.isPending}
+                  className="w-full bg-navy hover:bg-navy/90 text-white py-3 text-lg font-semibold h-12 shadow-cta hover-lift"
+                >
+                  {resetMutation.isPending ? "Resetting..." : "Reset Password"}
+                </Button>
+              </form>
+            )}
 
             <div className="mt-8 pt-6 border-t border-light-border text-center">
               <p className="text-sm text-gray-600">
                 Admin access only. Contact support for assistance.
               </p>
+              <button
+                type="button"
+                onClick={() => setMode(mode === "login" ? "reset" : "login")}
+                className="mt-2 text-sm text-secondary-green hover:text-secondary-green/80 font-medium"
+              >
+                {mode === "login" ? "Have a reset code?" : "Back to sign in"}
+              </button>
             </div>
           </CardContent>
         </Card>
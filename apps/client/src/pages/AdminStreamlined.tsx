@@ -1,16 +1,21 @@
-import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Download, Users, TrendingUp, Clock, MessageSquare } from "lucide-react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient } from "@/lib/queryClient";
 import type { ContactSubmission } from "@shared/schema";
 
 // Import the functional components
 import EnhancedContentManager from "@/components/EnhancedContentManager";
+import ContentTransferPanel from "@/components/ContentTransferPanel";
+import ContentValidationReport from "@/components/ContentValidationReport";
 import CaseStudyManager from "@/components/CaseStudyManager";
+import PublishCalendar from "@/components/PublishCalendar";
+import PreviewLinksManager from "@/components/PreviewLinksManager";
+import TrashManager from "@/components/TrashManager";
+import ContactsManager from "@/components/ContactsManager";
+import EmailOutbox from "@/components/EmailOutbox";
 import TimelineManager from "@/components/TimelineManager";
 import CoreValuesManager from "@/components/CoreValuesManager";
 import SkillsManager from "@/components/SkillsManager";
@@ -18,81 +23,60 @@ import PortfolioImageManager from "@/components/PortfolioImageManager";
 
 import SEOManager from "@/components/SEOManager";
 import SystemMonitor from "@/components/SystemMonitor";
+import RoutePolicyReport from "@/components/RoutePolicyReport";
+import WebhooksManager from "@/components/WebhooksManager";
+import UserManager from "@/components/UserManager";
+import AuditLog from "@/components/AuditLog";
 import AIAssistant from "@/components/AIAssistant";
 import EnhancedAIAssistant from "@/components/EnhancedAIAssistant";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
-import { BulkOperations, ItemSelection, exportToCSV } from "@/components/BulkOperations";
 import { useConfirmationDialog } from "@/components/ConfirmationDialog";
-import { apiRequest } from "@/lib/queryClient";
+import { downloadExport } from "@/lib/bulk";
+import { useAdmin } from "@/hooks/useAdmin";
+import type { Permission } from "@shared/schema";
+
+// Tabs are hidden when the signed-in role lacks the permission; the API enforces the same matrix
+const adminTabs: { value: string; label: string; permission?: Permission }[] = [
+  { value: "dashboard", label: "Dashboard", permission: "analytics:read" },
+  { value: "content", label: "Content", permission: "content:write" },
+  { value: "case-studies", label: "Case Studies", permission: "content:write" },
+  { value: "schedule", label: "Schedule", permission: "content:read" },
+  { value: "previews", label: "Previews", permission: "content:read" },
+  { value: "images", label: "Images", permission: "content:write" },
+  { value: "skills", label: "Skills", permission: "content:write" },
+  { value: "timeline", label: "Timeline", permission: "content:write" },
+  { value: "core-values", label: "Values", permission: "content:write" },
+  { value: "seo", label: "SEO", permission: "content:write" },
+  { value: "trash", label: "Trash", permission: "content:read" },
+  { value: "system", label: "System", permission: "system:manage" },
+  { value: "contacts", label: "Contacts", permission: "contacts:read" },
+  { value: "ai-assistant", label: "AI Assistant", permission: "ai:use" },
+  { value: "audit", label: "Audit", permission: "audit:read" },
+  { value: "team", label: "Account" },
+];
 
 export default function AdminStreamlined() {
   const { toast } = useToast();
-  const [selectedSubmissions, setSelectedSubmissions] = useState<Set<number>>(new Set());
   const { dialog, openDialog } = useConfirmationDialog();
+  const { user, can } = useAdmin();
   
   // Contact submissions data for analytics
   const { data: submissions = [] } = useQuery<ContactSubmission[]>({
     queryKey: ["/api/admin/contact-submissions"],
   });
 
-  // Bulk delete mutation for contact submissions
-  const bulkDeleteMutation = useMutation({
-    mutationFn: async (ids: number[]) => {
-      const deletePromises = ids.map(id => 
-        apiRequest(`/api/admin/contact-submissions/${id}`, "DELETE")
-      );
-      await Promise.all(deletePromises);
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/admin/contact-submissions"] });
-      setSelectedSubmissions(new Set());
-      toast({ title: "Contact submissions deleted successfully" });
-    },
-    onError: () => {
-      toast({ 
-        title: "Error deleting submissions", 
-        variant: "destructive" 
-      });
-    },
-  });
-
-  const handleBulkDelete = async (ids: number[]) => {
-    await bulkDeleteMutation.mutateAsync(ids);
-  };
-
-  const handleExportSubmissions = (items: ContactSubmission[]) => {
-    const exportData = items.map(submission => ({
-      name: submission.name,
-      email: submission.email,
-      company: submission.company || '',
-      message: submission.message,
-      projectType: submission.projectType || '',
-      submittedAt: new Date(submission.submittedAt).toLocaleDateString(),
-    }));
-    exportToCSV(exportData, 'contact_submissions');
-  };
-
   // Export functionality
   const exportMutation = useMutation({
-    mutationFn: async () => {
-      const response = await fetch("/api/admin/export-contacts");
-      if (!response.ok) throw new Error("Export failed");
-      return response.blob();
-    },
-    onSuccess: (blob) => {
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.style.display = 'none';
-      a.href = url;
-      a.download = `contact-submissions-${new Date().toISOString().split('T')[0]}.csv`;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
+    mutationFn: () => downloadExport("/api/admin/export/contact-submissions", "csv"),
+    onSuccess: () => {
       toast({
         title: "Export successful",
         description: "Contact submissions have been exported to CSV.",
       });
     },
+    onError: (error: Error) => {
+      toast({ title: "Export failed", description: error.message, variant: "destructive" });
+    },
   });
 
   // Analytics calculations
@@ -120,7 +104,13 @@ export default function AdminStreamlined() {
               <h1 className="text-3xl font-bold text-navy">Portfolio Admin</h1>
               <p className="text-gray-600 mt-2">Manage your AI Product Leader portfolio</p>
             </div>
-            <div className="flex gap-3">
+            <div className="flex items-center gap-3">
+              {user && (
+                <span className="text-sm text-gray-600">
+                  Signed in as <strong>{user.displayName || user.username}</strong>
+                  <span className="ml-1 capitalize">({user.role})</span>
+                </span>
+              )}
               <Button
                 onClick={() => exportMutation.mutate()}
                 disabled={exportMutation.isPending}
@@ -136,19 +126,12 @@ export default function AdminStreamlined() {
 
       <div className="max-w-7xl mx-auto px-8 py-8">
         <Tabs defaultValue="dashboard" className="space-y-8">
-          <TabsList className="grid w-full grid-cols-2 lg:grid-cols-12 gap-1">
-            <TabsTrigger value="dashboard">Dashboard</TabsTrigger>
-            <TabsTrigger value="content">Content</TabsTrigger>
-            <TabsTrigger value="case-studies">Case Studies</TabsTrigger>
-            <TabsTrigger value="images">Images</TabsTrigger>
-            <TabsTrigger value="skills">Skills</TabsTrigger>
-            <TabsTrigger value="timeline">Timeline</TabsTrigger>
-            <TabsTrigger value="core-values">Values</TabsTrigger>
-
-            <TabsTrigger value="seo">SEO</TabsTrigger>
-            <TabsTrigger value="system">System</TabsTrigger>
-            <TabsTrigger value="contacts">Contacts</TabsTrigger>
-            <TabsTrigger value="ai-assistant">AI Assistant</TabsTrigger>
+          <TabsList className="flex flex-wrap h-auto w-full gap-1">
+            {adminTabs
+              .filter((tab) => !tab.permission || can(tab.permission))
+              .map((tab) => (
+                <TabsTrigger key={tab.value} value={tab.value}>{tab.label}</TabsTrigger>
+              ))}
           </TabsList>
 
           {/* Dashboard Overview */}
@@ -270,6 +253,12 @@ export default function AdminStreamlined() {
                 <EnhancedContentManager />
               </ErrorBoundary>
             </div>
+            <ErrorBoundary>
+              <ContentValidationReport />
+            </ErrorBoundary>
+            <ErrorBoundary>
+              <ContentTransferPanel />
+            </ErrorBoundary>
           </TabsContent>
 
           {/* Case Studies Management */}
@@ -281,6 +270,27 @@ export default function AdminStreamlined() {
             </div>
           </TabsContent>
 
+          {/* Scheduled publishing */}
+          <TabsContent value="schedule" className="space-y-6">
+            <ErrorBoundary>
+              <PublishCalendar />
+            </ErrorBoundary>
+          </TabsContent>
+
+          {/* Draft preview links */}
+          <TabsContent value="previews" className="space-y-6">
+            <ErrorBoundary>
+              <PreviewLinksManager />
+            </ErrorBoundary>
+          </TabsContent>
+
+          {/* Deleted items awaiting restore or purge */}
+          <TabsContent value="trash" className="space-y-6">
+            <ErrorBoundary>
+              <TrashManager />
+            </ErrorBoundary>
+          </TabsContent>
+
           {/* Portfolio Images Management */}
           <TabsContent value="images" className="space-y-6">
             <div className="bg-white rounded-lg border border-gray-200 p-6">
@@ -319,6 +329,12 @@ export default function AdminStreamlined() {
                 <SystemMonitor />
               </ErrorBoundary>
             </div>
+            <ErrorBoundary>
+              <RoutePolicyReport />
+            </ErrorBoundary>
+            <ErrorBoundary>
+              <WebhooksManager />
+            </ErrorBoundary>
           </TabsContent>
 
           {/* Timeline Management */}
@@ -345,59 +361,12 @@ export default function AdminStreamlined() {
 
           {/* Contact Submissions */}
           <TabsContent value="contacts" className="space-y-6">
-            <div className="bg-white rounded-lg border border-gray-200 p-6">
-              <h2 className="text-xl font-bold text-navy mb-4">Contact Submissions</h2>
-              <p className="text-gray-600 mb-6">View and manage portfolio contact inquiries</p>
-              
-              <BulkOperations
-                items={submissions}
-                selectedItems={selectedSubmissions}
-                onSelectionChange={setSelectedSubmissions}
-                onBulkDelete={handleBulkDelete}
-                onExport={handleExportSubmissions}
-                getItemId={(submission) => submission.id}
-                getItemName={(submission) => `${submission.name} (${submission.email})`}
-                exportFilename="contact_submissions"
-              />
-
-              {submissions.length === 0 ? (
-                <div className="text-center py-12">
-                  <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                  <h3 className="text-lg font-medium text-gray-900 mb-2">No contacts yet</h3>
-                  <p className="text-gray-600">Contact submissions will appear here when visitors reach out through your portfolio.</p>
-                </div>
-              ) : (
-                <div className="space-y-4">
-                  {submissions.map((submission: ContactSubmission) => (
-                    <Card key={submission.id}>
-                      <CardContent className="p-4">
-                        <div className="flex justify-between items-start">
-                          <div className="flex items-center gap-3">
-                            <ItemSelection
-                              itemId={submission.id}
-                              selectedItems={selectedSubmissions}
-                              onSelectionChange={setSelectedSubmissions}
-                            />
-                            <div>
-                              <h3 className="font-semibold text-navy">{submission.name}</h3>
-                              <p className="text-sm text-gray-600">{submission.email}</p>
-                              <p className="text-sm text-gray-500 mt-1">{submission.company}</p>
-                            </div>
-                          </div>
-                          <span className="px-2 py-1 bg-blue-100 text-blue-800 rounded-full text-xs">
-                            {submission.projectType}
-                          </span>
-                        </div>
-                        <p className="mt-3 text-gray-700">{submission.message}</p>
-                        <p className="text-xs text-gray-500 mt-2">
-                          {new Date(submission.submittedAt).toLocaleDateString()}
-                        </p>
-                      </CardContent>
-                    </Card>
-                  ))}
-                </div>
-              )}
-            </div>
+            <ErrorBoundary>
+              <ContactsManager />
+            </ErrorBoundary>
+            <ErrorBoundary>
+              <EmailOutbox />
+            </ErrorBoundary>
           </TabsContent>
 
           {/* Enhanced AI Assistant */}
@@ -408,6 +377,24 @@ export default function AdminStreamlined() {
               <EnhancedAIAssistant />
             </div>
           </TabsContent>
+
+          {/* Audit Log */}
+          <TabsContent value="audit" className="space-y-6">
+            <div className="bg-white rounded-lg border border-gray-200 p-6">
+              <ErrorBoundary>
+                <AuditLog />
+              </ErrorBoundary>
+            </div>
+          </TabsContent>
+
+          {/* Team & Account */}
+          <TabsContent value="team" className="space-y-6">
+            <div className="bg-white rounded-lg border border-gray-200 p-6">
+              <ErrorBoundary>
+                <UserManager />
+              </ErrorBoundary>
+            </div>
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { ArrowRight, Calendar, Users, Clock, ExternalLink } from "lucide-react";
 import { Link } from "wouter";
 import CaseStudyNavigation from "@/components/CaseStudyNavigation";
+import PreviewBanner from "@/components/PreviewBanner";
 
 interface CaseStudy {
   id: number;
@@ -90,6 +91,7 @@ export default function CaseStudies() {
           </div>
         )}
       </div>
+      <PreviewBanner />
     </div>
   );
 }
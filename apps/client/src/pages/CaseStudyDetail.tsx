@@ -6,6 +6,8 @@ import { Button } from "@/components/ui/button";
 import { ArrowLeft, Calendar, Users, Clock, ExternalLink, Target, Lightbulb, CheckCircle, TrendingUp, Home } from "lucide-react";
 import { Link } from "wouter";
 import CaseStudyNavigation from "@/components/CaseStudyNavigation";
+import PreviewBanner from "@/components/PreviewBanner";
+import { withPreview } from "@/lib/preview";
 
 interface CaseStudy {
   id: number;
@@ -37,7 +39,7 @@ export default function CaseStudyDetail() {
 
   const { data: caseStudy, isLoading, error } = useQuery<CaseStudy>({
     queryKey: ["/api/portfolio/case-studies", slug],
-    queryFn: () => fetch(`/api/portfolio/case-studies/${slug}`).then(res => {
+    queryFn: () => fetch(withPreview(`/api/portfolio/case-studies/${slug}`)).then(res => {
       if (!res.ok) throw new Error('Case study not found');
       return res.json();
     }),
@@ -75,6 +77,7 @@ export default function CaseStudyDetail() {
             </Link>
           </div>
         </div>
+        <PreviewBanner />
       </div>
     );
   }
@@ -325,6 +328,7 @@ export default function CaseStudyDetail() {
           </Link>
         </div>
       </div>
+      <PreviewBanner />
     </div>
   );
 }
\ No newline at end of file
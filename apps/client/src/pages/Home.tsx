@@ -8,6 +8,7 @@ import Skills from "@/components/Skills";
 import Timeline from "@/components/Timeline";
 import ContactEnhanced from "@/components/ContactEnhanced";
 import Footer from "@/components/Footer";
+import PreviewBanner from "@/components/PreviewBanner";
 
 export default function Home() {
   // Fetch portfolio status to control which sections display
@@ -34,6 +35,7 @@ export default function Home() {
       {portfolioStatus.timeline && <Timeline />}
       {portfolioStatus.contact && <ContactEnhanced />}
       <Footer />
+      <PreviewBanner />
     </div>
   );
 }
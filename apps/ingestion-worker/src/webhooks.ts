@@ -0,0 +1,30 @@
+import crypto from 'crypto';
+import { and, eq, sql } from 'drizzle-orm';
+import type { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import * as schema from "../../shared/schema";
+import { webhookDeliveries, webhookSubscriptions, type WebhookEventType, type WebhookPayload } from "../../shared/schema";
+
+/**
+ * Queues a webhook event for every active subscriber. The worker only writes
+ * the deliveries; the API gateway's webhook service signs and posts them on
+ * its next run, with the same retries as events raised there.
+ */
+export async function queueWebhookEvent(
+  db: NeonHttpDatabase<typeof schema>,
+  event: WebhookEventType,
+  data: Record<string, unknown>
+): Promise<number> {
+  const payload: WebhookPayload = { id: crypto.randomUUID(), event, createdAt: new Date().toISOString(), data };
+
+  const subscribers = await db.select({ id: webhookSubscriptions.id })
+    .from(webhookSubscriptions)
+    .where(and(eq(webhookSubscriptions.active, true), sql`${event} = any(${webhookSubscriptions.events})`));
+
+  if (subscribers.length === 0) {
+    return 0;
+  }
+
+  await db.insert(webhookDeliveries)
+    .values(subscribers.map(({ id }) => ({ subscriptionId: id, event, payload })));
+  return subscribers.length;
+}
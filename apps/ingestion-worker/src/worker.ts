@@ -8,6 +8,7 @@ import { eq } from "drizzle-orm";
 import { textExtractor } from './textExtractor';
 import { embeddingService } from './embeddingService';
 import { vectorRepo } from '../../../packages/vector-repo';
+import { queueWebhookEvent } from './webhooks';
 
 // Database connection
 const databaseUrl = process.env.DATABASE_URL;
@@ -138,6 +139,19 @@ const worker = new Worker(
         .where(eq(knowledgeBaseDocuments.id, docId));
 
       console.log(`Successfully processed document ${docId}: ${successfulEmbeddings.length} embeddings stored`);
+
+      // The document is already embedded, so a webhook problem must not fail the job
+      if (vectorIds.length > 0) {
+        await queueWebhookEvent(db, 'kb.document.embedded', {
+          id: docId,
+          originalName: document.originalName,
+          category,
+          chunksProcessed: chunks.length,
+          embeddingsStored: successfulEmbeddings.length,
+        }).catch((error) => {
+          console.warn(`Could not queue webhook for document ${docId}:`, error);
+        });
+      }
       
       return {
         docId,
@@ -227,6 +227,28 @@ export type PortfolioContent = z.infer<typeof portfolioContentSchema>;
 // Content section types
 export type ContentSectionType = 'hero' | 'stats' | 'about' | 'experience' | 'caseStudies' | 'skills' | 'contact' | 'seo';
 
+export interface ContentSectionDefinition {
+  name: string;
+  // Content must satisfy this before it is saved
+  schema: z.ZodTypeAny;
+}
+
+// Schema registry: every section the portfolio knows about
+export const contentSectionRegistry: Record<ContentSectionType, ContentSectionDefinition> = {
+  hero: { name: "Hero Section", schema: heroContentSchema },
+  stats: { name: "Achievement Statistics", schema: statsContentSchema },
+  about: { name: "About Section", schema: aboutContentSchema },
+  experience: { name: "Experience Section", schema: experienceContentSchema },
+  caseStudies: { name: "Case Studies", schema: caseStudiesContentSchema },
+  skills: { name: "Skills Section", schema: skillsContentSchema },
+  contact: { name: "Contact Section", schema: contactContentSchema },
+  seo: { name: "SEO Settings", schema: seoSettingsSchema },
+};
+
+export function isContentSectionType(value: string): value is ContentSectionType {
+  return Object.prototype.hasOwnProperty.call(contentSectionRegistry, value);
+}
+
 // Content change tracking
 export const contentChangeSchema = z.object({
   id: z.number(),
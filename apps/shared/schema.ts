@@ -5,7 +5,21 @@ import { z } from "zod";
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
-  password: text("password").notNull(),
+  password: text("password").notNull(), // bcrypt hash, never the plain password
+  displayName: text("display_name"),
+  email: text("email"),
+  role: text("role").notNull().default("viewer"), // owner, editor, viewer
+  passwordResetTokenHash: text("password_reset_token_hash"), // sha256 of the one-time reset token
+  passwordResetExpiresAt: timestamp("password_reset_expires_at"),
+  passwordChangedAt: timestamp("password_changed_at"),
+  totpSecret: text("totp_secret"), // base32 RFC 6238 secret, set once enrolment is confirmed
+  totpPendingSecret: text("totp_pending_secret"), // secret awaiting its first valid code
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  totpLastUsedStep: integer("totp_last_used_step"), // rejects replay of an already-used code
+  recoveryCodeHashes: jsonb("recovery_code_hashes").$type<string[]>(), // sha256 of unused recovery codes
+  lastLoginAt: timestamp("last_login_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 export const contactSubmissions = pgTable("contact_submissions", {
@@ -16,6 +30,16 @@ export const contactSubmissions = pgTable("contact_submissions", {
   projectType: text("project_type").notNull(),
   message: text("message").notNull(),
   submittedAt: text("submitted_at").notNull(),
+  // Set by the server-side spam screen; flagged rows are kept for review
+  isSpam: boolean("is_spam").notNull().default(false),
+  spamScore: integer("spam_score").notNull().default(0),
+  spamReasons: jsonb("spam_reasons").$type<string[]>(),
+  // Lead pipeline; isSpam follows status so the spam view and the pipeline agree
+  status: text("status").notNull().default("new"), // new, replied, in-discussion, won, closed, spam
+  tags: text("tags").array().notNull().default([]),
+  assigneeId: integer("assignee_id").references(() => users.id, { onDelete: "set null" }),
+  followUpAt: timestamp("follow_up_at"),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 export const caseStudies = pgTable("case_studies", {
@@ -41,6 +65,13 @@ export const caseStudies = pgTable("case_studies", {
   visualElements: jsonb("visual_elements"),
   crossCulturalElements: jsonb("cross_cultural_elements"),
   slug: text("slug").notNull().unique(),
+  // Pending scheduled status changes, cleared by the scheduler once applied
+  publishAt: timestamp("publish_at"),
+  unpublishAt: timestamp("unpublish_at"),
+  // Bumped on every update; editors send it back to detect conflicting writes
+  version: integer("version").notNull().default(1),
+  // Set while the row is in the trash; purged once the retention period passes
+  deletedAt: timestamp("deleted_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -58,10 +89,21 @@ export const mediaAssets = pgTable("media_assets", {
 export const contentSections = pgTable("content_sections", {
   id: text("id").primaryKey(),
   name: text("name").notNull(),
+  // Live copy served to visitors; only changes when a draft is published
   content: jsonb("content").notNull(),
-  status: text("status").notNull().default("published"),
+  status: text("status").notNull().default("published"), // draft (never published), published
   lastModified: timestamp("last_modified").defaultNow(),
   version: integer("version").notNull().default(1),
+  // Unpublished edits, null when the live copy is current
+  draftContent: jsonb("draft_content"),
+  draftUpdatedAt: timestamp("draft_updated_at"),
+  draftUpdatedBy: text("draft_updated_by"),
+  publishedAt: timestamp("published_at"),
+  publishedVersion: integer("published_version"),
+  // When the draft goes live, and when the live copy reverts to the version
+  // published before it; both are cleared by the scheduler once applied
+  publishAt: timestamp("publish_at"),
+  unpublishAt: timestamp("unpublish_at"),
 });
 
 export const contentVersions = pgTable("content_versions", {
@@ -91,6 +133,7 @@ export const knowledgeBaseDocuments = pgTable("knowledge_base_documents", {
   keyInsights: jsonb("key_insights"), // structured insights from the document
   uploadedAt: timestamp("uploaded_at").defaultNow(),
   processedAt: timestamp("processed_at"),
+  deletedAt: timestamp("deleted_at"),
 });
 
 // Document Categories Configuration
@@ -216,6 +259,8 @@ export const experienceEntries = pgTable("experience_entries", {
   // Achievements as array
   achievements: text("achievements").array().default([]),
   
+  version: integer("version").notNull().default(1),
+  deletedAt: timestamp("deleted_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -224,6 +269,7 @@ export const skillCategories = pgTable("skill_categories", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   orderIndex: integer("order_index").default(0),
+  deletedAt: timestamp("deleted_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -233,6 +279,8 @@ export const skills = pgTable("skills", {
   name: text("name").notNull(),
   proficiencyLevel: integer("proficiency_level").default(5),
   orderIndex: integer("order_index").default(0),
+  version: integer("version").notNull().default(1),
+  deletedAt: timestamp("deleted_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -242,6 +290,8 @@ export const portfolioMetrics = pgTable("portfolio_metrics", {
   metricValue: text("metric_value").notNull(),
   metricLabel: text("metric_label").notNull(),
   displayOrder: integer("display_order").default(0),
+  version: integer("version").notNull().default(1),
+  deletedAt: timestamp("deleted_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -252,6 +302,8 @@ export const coreValues = pgTable("core_values", {
   description: text("description").notNull(),
   icon: text("icon").default("target"),
   orderIndex: integer("order_index").default(0),
+  version: integer("version").notNull().default(1),
+  deletedAt: timestamp("deleted_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -272,6 +324,8 @@ export const portfolioImages = pgTable("portfolio_images", {
   orderIndex: integer("order_index").default(0),
   isActive: boolean("is_active").default(true),
   caseStudyId: integer("case_study_id").references(() => caseStudies.id, { onDelete: "cascade" }),
+  version: integer("version").notNull().default(1),
+  deletedAt: timestamp("deleted_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -291,14 +345,131 @@ export const seoSettings = pgTable("seo_settings", {
   canonicalUrl: text("canonical_url"),
   robotsDirective: text("robots_directive").default("index,follow"),
   structuredData: jsonb("structured_data"),
+  version: integer("version").notNull().default(1),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Audit trail of admin mutations
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id"), // null for system actions (scheduler, workers)
+  actorUsername: text("actor_username"),
+  action: text("action").notNull(), // e.g. case_study.update, backup.restore
+  entityType: text("entity_type").notNull(),
+  entityId: text("entity_id"),
+  before: jsonb("before"),
+  after: jsonb("after"),
+  diff: jsonb("diff").$type<Record<string, { before: unknown; after: unknown }>>(),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// express-session store; the denormalised columns back the active sessions list
+export const userSessions = pgTable("user_sessions", {
+  sid: varchar("sid").primaryKey(),
+  sess: jsonb("sess").notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }), // null until login completes
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+// Personal access tokens for scripted use of the admin API
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  tokenPrefix: text("token_prefix").notNull(), // first characters, to tell tokens apart in the list
+  tokenHash: text("token_hash").notNull().unique(), // sha256 of the token; the token itself is shown once
+  scopes: jsonb("scopes").$type<string[]>().notNull(), // subset of the owner's role permissions
+  expiresAt: timestamp("expires_at"), // null = never expires
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: text("last_used_ip"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Shareable links that show draft content on the public pages without an account
+export const previewLinks = pgTable("preview_links", {
+  id: serial("id").primaryKey(),
+  label: text("label").notNull(), // who the link was shared with
+  tokenHash: text("token_hash").notNull().unique(), // sha256 of the signed token; the token itself is shown once
+  passwordHash: text("password_hash"), // bcrypt; null = no password
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  viewCount: integer("view_count").notNull().default(0),
+  lastViewedAt: timestamp("last_viewed_at"),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Outbound email waits here until the SMTP server accepts it; failed sends are
+// retried with backoff and give up after a few attempts
+export const emailOutbox = pgTable("email_outbox", {
+  id: serial("id").primaryKey(),
+  kind: text("kind").notNull(), // contact_notification, contact_auto_reply, test
+  recipient: text("recipient").notNull(),
+  subject: text("subject").notNull(),
+  textBody: text("text_body").notNull(),
+  htmlBody: text("html_body"),
+  status: text("status").notNull().default("pending"), // pending, sent, failed
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+  sentAt: timestamp("sent_at"),
+  submissionId: integer("submission_id").references(() => contactSubmissions.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Other tools subscribe here to portfolio events; payloads are signed with the secret
+export const webhookSubscriptions = pgTable("webhook_subscriptions", {
+  id: serial("id").primaryKey(),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(),
+  events: text("events").array().notNull(),
+  description: text("description"),
+  active: boolean("active").notNull().default(true),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// One row per event per subscription: the retry queue and the delivery log
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  subscriptionId: integer("subscription_id").notNull().references(() => webhookSubscriptions.id, { onDelete: "cascade" }),
+  event: text("event").notNull(),
+  payload: jsonb("payload").$type<WebhookPayload>().notNull(),
+  status: text("status").notNull().default("pending"), // pending, delivered, failed
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+  responseStatus: integer("response_status"),
+  responseBody: text("response_body"),
+  lastError: text("last_error"),
+  durationMs: integer("duration_ms"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Internal notes on a contact submission, newest last; never shown to the sender
+export const contactNotes = pgTable("contact_notes", {
+  id: serial("id").primaryKey(),
+  submissionId: integer("submission_id").notNull().references(() => contactSubmissions.id, { onDelete: "cascade" }),
+  authorId: integer("author_id").references(() => users.id, { onDelete: "set null" }),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+  displayName: true,
+  email: true,
+  role: true,
 });
 
 export const insertContactSubmissionSchema = createInsertSchema(contactSubmissions).pick({
@@ -317,6 +488,10 @@ export const insertContactSubmissionSchema = createInsertSchema(contactSubmissio
 
 export const insertCaseStudySchema = createInsertSchema(caseStudies).omit({
   id: true,
+  version: true,
+  deletedAt: true,
+  publishAt: true,
+  unpublishAt: true,
   createdAt: true,
   updatedAt: true,
 }).extend({
@@ -344,6 +519,7 @@ export const insertKnowledgeBaseDocumentSchema = createInsertSchema(knowledgeBas
   id: true,
   uploadedAt: true,
   processedAt: true,
+  deletedAt: true,
 });
 
 export const insertDocumentCategorySchema = createInsertSchema(documentCategories).omit({
@@ -386,28 +562,37 @@ export const insertCareerProgressSchema = createInsertSchema(careerProgress).omi
 
 export const insertExperienceEntrySchema = createInsertSchema(experienceEntries).omit({
   id: true,
+  version: true,
+  deletedAt: true,
   createdAt: true,
   updatedAt: true,
 });
 
 export const insertSkillCategorySchema = createInsertSchema(skillCategories).omit({
   id: true,
+  deletedAt: true,
   createdAt: true,
 });
 
 export const insertSkillSchema = createInsertSchema(skills).omit({
   id: true,
+  version: true,
+  deletedAt: true,
   createdAt: true,
 });
 
 export const insertPortfolioMetricSchema = createInsertSchema(portfolioMetrics).omit({
   id: true,
+  version: true,
+  deletedAt: true,
   createdAt: true,
   updatedAt: true,
 });
 
 export const insertCoreValueSchema = createInsertSchema(coreValues).omit({
   id: true,
+  version: true,
+  deletedAt: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -419,12 +604,15 @@ export const insertPortfolioStatusSchema = createInsertSchema(portfolioStatus).o
 
 export const insertPortfolioImageSchema = createInsertSchema(portfolioImages).omit({
   id: true,
+  version: true,
+  deletedAt: true,
   createdAt: true,
   updatedAt: true,
 });
 
 export const insertSeoSettingsSchema = createInsertSchema(seoSettings).omit({
   id: true,
+  version: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -432,11 +620,62 @@ export const insertSeoSettingsSchema = createInsertSchema(seoSettings).omit({
 // Types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<
+  User,
+  | "password"
+  | "passwordResetTokenHash"
+  | "passwordResetExpiresAt"
+  | "totpSecret"
+  | "totpPendingSecret"
+  | "totpLastUsedStep"
+  | "recoveryCodeHashes"
+>;
 export type ContactSubmission = typeof contactSubmissions.$inferSelect;
 export type InsertContactSubmission = z.infer<typeof insertContactSubmissionSchema>;
+export type ContactSpamScreening = Pick<ContactSubmission, "isSpam" | "spamScore" | "spamReasons">;
+
+export const contactStatuses = ["new", "replied", "in-discussion", "won", "closed", "spam"] as const;
+export type ContactStatus = (typeof contactStatuses)[number];
+
+export type ContactNote = typeof contactNotes.$inferSelect;
+export type InsertContactNote = typeof contactNotes.$inferInsert;
+// A note as the admin shows it, with the author's name
+export type ContactNoteView = ContactNote & { authorName: string | null };
+
+export const emailStatuses = ["pending", "sent", "failed"] as const;
+export type EmailStatus = (typeof emailStatuses)[number];
+export type OutboxEmail = typeof emailOutbox.$inferSelect;
+export type InsertOutboxEmail = typeof emailOutbox.$inferInsert;
+
+export const webhookEventTypes = [
+  "contact.created",
+  "case_study.published",
+  "content.updated",
+  "kb.document.embedded",
+  "backup.completed",
+] as const;
+export type WebhookEventType = (typeof webhookEventTypes)[number];
+
+// The JSON body of every delivery; `id` is shared by all deliveries of one event
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEventType | "webhook.test";
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+export const webhookDeliveryStatuses = ["pending", "delivered", "failed"] as const;
+export type WebhookDeliveryStatus = (typeof webhookDeliveryStatuses)[number];
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+export type InsertWebhookSubscription = typeof webhookSubscriptions.$inferInsert;
+// What the admin API returns; the secret is only shown when it is created
+export type PublicWebhookSubscription = Omit<WebhookSubscription, "secret"> & { secretHint: string };
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = typeof webhookDeliveries.$inferInsert;
 
 export type CaseStudy = typeof caseStudies.$inferSelect;
 export type InsertCaseStudy = z.infer<typeof insertCaseStudySchema>;
+export type PublishSchedule = Pick<CaseStudy, "publishAt" | "unpublishAt">;
 
 export type MediaAsset = typeof mediaAssets.$inferSelect;
 export type InsertMediaAsset = z.infer<typeof insertMediaAssetSchema>;
@@ -474,6 +713,76 @@ export type InsertPortfolioImage = z.infer<typeof insertPortfolioImageSchema>;
 export type SeoSettings = typeof seoSettings.$inferSelect;
 export type InsertSeoSettings = z.infer<typeof insertSeoSettingsSchema>;
 
+export type AuditEvent = typeof auditEvents.$inferSelect;
+// Audit rows are only written by the server, so the drizzle insert type is used directly
+export type InsertAuditEvent = typeof auditEvents.$inferInsert;
+
+export type UserSession = typeof userSessions.$inferSelect;
+export type InsertUserSession = typeof userSessions.$inferInsert;
+
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = typeof apiTokens.$inferInsert;
+// What the API returns about a token; the hash never leaves the server
+export type PublicApiToken = Omit<ApiToken, "tokenHash">;
+
+export type PreviewLink = typeof previewLinks.$inferSelect;
+export type InsertPreviewLink = typeof previewLinks.$inferInsert;
+// What the admin API returns about a preview link
+export type PublicPreviewLink = Omit<PreviewLink, "tokenHash" | "passwordHash"> & { hasPassword: boolean };
+
+// Entity types that are moved to the trash instead of being deleted outright;
+// the names match the audit log's entityType
+export const trashEntityTypes = [
+  "case_study",
+  "experience",
+  "skill_category",
+  "skill",
+  "metric",
+  "core_value",
+  "portfolio_image",
+  "kb_document",
+] as const;
+export type TrashEntityType = (typeof trashEntityTypes)[number];
+
+export interface TrashItem {
+  type: TrashEntityType;
+  id: number;
+  title: string;
+  deletedAt: Date;
+  purgeAt: Date;
+  // Rows that went to the trash with this one and come back with it
+  children: number;
+}
+
+// Bulk operations from the admin lists. Each request is applied as a whole or
+// not at all, and reports the outcome for every item it named.
+export const bulkEntityTypes = ["case_study", "experience", "skill", "contact"] as const;
+export type BulkEntityType = (typeof bulkEntityTypes)[number];
+
+export const bulkActions = ["delete", "status", "feature", "tags", "reorder"] as const;
+export type BulkAction = (typeof bulkActions)[number];
+
+export const caseStudyStatuses = ["draft", "published", "archived"] as const;
+
+export interface BulkItemResult {
+  id: number;
+  ok: boolean;
+  error?: string;
+}
+
+export interface BulkReport {
+  entityType: BulkEntityType;
+  action: BulkAction;
+  // False when any item failed its checks, in which case nothing was changed
+  applied: boolean;
+  succeeded: number;
+  failed: number;
+  results: BulkItemResult[];
+}
+
+export const exportFormats = ["json", "csv"] as const;
+export type ExportFormat = (typeof exportFormats)[number];
+
 // Enhanced types for new tables
 export type DocumentCategory = typeof documentCategories.$inferSelect;
 export type InsertDocumentCategory = z.infer<typeof insertDocumentCategorySchema>;
@@ -495,3 +804,53 @@ export type InsertBrandAnalytics = z.infer<typeof insertBrandAnalyticsSchema>;
 
 export type CareerProgress = typeof careerProgress.$inferSelect;
 export type InsertCareerProgress = z.infer<typeof insertCareerProgressSchema>;
+
+// Roles & permissions - the single matrix enforced by the API and mirrored by the admin UI
+export const userRoles = ["owner", "editor", "viewer"] as const;
+export type UserRole = (typeof userRoles)[number];
+
+export const permissions = [
+  "content:read",
+  "content:write",
+  "kb:read",
+  "kb:write",
+  "ai:use",
+  "contacts:read",
+  "contacts:write",
+  "analytics:read",
+  "users:manage",
+  "backups:manage",
+  "workflows:manage",
+  "system:manage",
+  "audit:read",
+] as const;
+export type Permission = (typeof permissions)[number];
+
+// Scopes an API token may carry. users:manage is never one of them: a leaked
+// token could otherwise create an owner or reset anyone's password.
+export type TokenScope = Exclude<Permission, "users:manage">;
+export const tokenScopes = permissions.filter((permission): permission is TokenScope => permission !== "users:manage") as [
+  TokenScope,
+  ...TokenScope[],
+];
+
+export const rolePermissions: Record<UserRole, readonly Permission[]> = {
+  owner: permissions,
+  editor: [
+    "content:read",
+    "content:write",
+    "kb:read",
+    "kb:write",
+    "ai:use",
+    "contacts:read",
+    "analytics:read",
+  ],
+  viewer: ["contacts:read", "analytics:read"],
+};
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  if (!role || !(role in rolePermissions)) {
+    return false;
+  }
+  return rolePermissions[role as UserRole].includes(permission);
+}
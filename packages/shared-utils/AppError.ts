@@ -61,6 +61,17 @@ export class AppError extends Error {
     return new AppError(message, 409, "CONFLICT", details);
   }
 
+  static unprocessable(message: string, details?: Record<string, any>) {
+    return new AppError(message, 422, "UNPROCESSABLE_ENTITY", details);
+  }
+
+  static unsupportedMediaType(
+    message: string,
+    details?: Record<string, any>
+  ) {
+    return new AppError(message, 415, "UNSUPPORTED_MEDIA_TYPE", details);
+  }
+
   static internal(
     message: string = "Internal server error",
     details?: Record<string, any>
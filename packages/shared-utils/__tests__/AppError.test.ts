@@ -57,6 +57,22 @@ describe("AppError", () => {
     expect(error.details).toEqual(details);
   });
 
+  it("creates Unprocessable error correctly", () => {
+    const details = { validation: { headline: ["Headline is required"] } };
+    const error = AppError.unprocessable("Content failed validation", details);
+    expect(error.statusCode).toBe(422);
+    expect(error.code).toBe("UNPROCESSABLE_ENTITY");
+    expect(error.details).toEqual(details);
+  });
+
+  it("creates UnsupportedMediaType error correctly", () => {
+    const details = { rejected: [{ originalName: "cv.pdf", reason: "File is empty" }] };
+    const error = AppError.unsupportedMediaType("File is empty", details);
+    expect(error.statusCode).toBe(415);
+    expect(error.code).toBe("UNSUPPORTED_MEDIA_TYPE");
+    expect(error.details).toEqual(details);
+  });
+
   it("creates InternalServer error correctly", () => {
     const error = AppError.internal();
     expect(error.statusCode).toBe(500);
@@ -13,6 +13,45 @@ const envSchema = z.object({
     .string()
     .min(32)
     .default("default-session-secret-change-in-production"),
+  // Admin sessions end after this long without a request...
+  SESSION_IDLE_TIMEOUT_MINUTES: z
+    .string()
+    .regex(/^\d+$/)
+    .transform(Number)
+    .default("120"),
+  // ...and this long after sign-in regardless of activity
+  SESSION_ABSOLUTE_TIMEOUT_HOURS: z
+    .string()
+    .regex(/^\d+$/)
+    .transform(Number)
+    .default("24"),
+  // strict: refuse to start when a route lacks a policy or serves PII publicly;
+  // warn: log the problems and start anyway. Defaults to strict in production.
+  ROUTE_POLICY_ENFORCEMENT: z.enum(["strict", "warn"]).optional(),
+  // Deleted portfolio items stay restorable from the trash this long
+  TRASH_RETENTION_DAYS: z
+    .string()
+    .regex(/^\d+$/)
+    .transform(Number)
+    .default("30"),
+  // Public address of the site, e.g. https://example.com; used for links in
+  // emails and the sitemap and canonical URLs. Required in production
+  PUBLIC_URL: z.string().url().optional(),
+  // Outbound email. Without SMTP_URL nothing is queued or sent; point it at a
+  // local sink such as smtp://localhost:1025 to test without delivering mail
+  SMTP_URL: z.string().url().optional(),
+  EMAIL_FROM: z.string().min(3).default("Portfolio <no-reply@localhost>"),
+  // Comma-separated addresses told about each new contact submission
+  CONTACT_NOTIFY_TO: z.string().optional(),
+  // Send the sender an acknowledgement based on their project type
+  CONTACT_AUTO_REPLY: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .default("false"),
+  // Comma-separated hostnames webhooks may reach even though they resolve to a
+  // private or loopback address, e.g. a receiver on the same network
+  WEBHOOK_ALLOWED_HOSTS: z.string().optional(),
+  // Only used to create the owner account when the users table is empty
   ADMIN_USERNAME: z.string().min(1).default("admin"),
   ADMIN_PASSWORD: z.string().min(1).default("admin"),
 });